@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "WebhookConfig" ADD COLUMN     "previousSecret" TEXT,
+ADD COLUMN     "previousSecretExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "secret" TEXT;
+
+-- CreateTable
+CREATE TABLE "WebhookNonce" (
+    "nonce" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookNonce_pkey" PRIMARY KEY ("nonce")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookNonce_createdAt_idx" ON "WebhookNonce"("createdAt");
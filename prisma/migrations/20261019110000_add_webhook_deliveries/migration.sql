@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "WebhookDelivery" (
+    "id" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "webhookName" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "requestBody" TEXT,
+    "status" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "responseBody" TEXT,
+    "error" TEXT,
+    "replayOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_createdAt_idx" ON "WebhookDelivery"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_direction_webhookName_idx" ON "WebhookDelivery"("direction", "webhookName");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ProcessorConfig" (
+    "id" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "processor" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProcessorConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessorConfig_stage_key" ON "ProcessorConfig"("stage");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "author" TEXT,
+ADD COLUMN     "imageUrl" TEXT,
+ADD COLUMN     "publishedAt" TIMESTAMP(3);
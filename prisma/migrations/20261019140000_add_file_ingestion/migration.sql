@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "fileKey" TEXT,
+ADD COLUMN     "fileName" TEXT,
+ADD COLUMN     "fileSize" INTEGER,
+ADD COLUMN     "fileType" TEXT;
+
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN     "sectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SignalSection" (
+    "id" TEXT NOT NULL,
+    "signalId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "startPos" INTEGER NOT NULL,
+    "endPos" INTEGER NOT NULL,
+
+    CONSTRAINT "SignalSection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SignalSection_signalId_position_idx" ON "SignalSection"("signalId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Highlight" ADD CONSTRAINT "Highlight_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "SignalSection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SignalSection" ADD CONSTRAINT "SignalSection_signalId_fkey" FOREIGN KEY ("signalId") REFERENCES "Signal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
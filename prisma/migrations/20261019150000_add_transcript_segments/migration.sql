@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "SignalSection" ADD COLUMN     "endTime" DOUBLE PRECISION,
+ADD COLUMN     "startTime" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN     "startTime" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Thought" ADD COLUMN     "highlightId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Thought" ADD CONSTRAINT "Thought_highlightId_fkey" FOREIGN KEY ("highlightId") REFERENCES "Highlight"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "feedId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Feed" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "siteUrl" TEXT,
+    "pollIntervalMinutes" INTEGER NOT NULL DEFAULT 60,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastFetchedAt" TIMESTAMP(3),
+    "nextPollAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Feed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeedItem" (
+    "id" TEXT NOT NULL,
+    "feedId" TEXT NOT NULL,
+    "guid" TEXT NOT NULL,
+    "link" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeedItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Feed_url_key" ON "Feed"("url");
+
+-- CreateIndex
+CREATE INDEX "Feed_enabled_nextPollAt_idx" ON "Feed"("enabled", "nextPollAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedItem_feedId_guid_key" ON "FeedItem"("feedId", "guid");
+
+-- AddForeignKey
+ALTER TABLE "Signal" ADD CONSTRAINT "Signal_feedId_fkey" FOREIGN KEY ("feedId") REFERENCES "Feed"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedItem" ADD CONSTRAINT "FeedItem_feedId_fkey" FOREIGN KEY ("feedId") REFERENCES "Feed"("id") ON DELETE CASCADE ON UPDATE CASCADE;
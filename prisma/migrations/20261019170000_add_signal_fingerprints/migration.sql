@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "urlFingerprint" TEXT;
+
+-- CreateTable
+CREATE TABLE "SignalSighting" (
+    "id" TEXT NOT NULL,
+    "signalId" TEXT NOT NULL,
+    "source" TEXT,
+    "sourceUrl" TEXT,
+    "title" TEXT,
+    "feedId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SignalSighting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Signal_urlFingerprint_idx" ON "Signal"("urlFingerprint");
+
+-- CreateIndex
+CREATE INDEX "Signal_contentHash_idx" ON "Signal"("contentHash");
+
+-- CreateIndex
+CREATE INDEX "Signal_fileKey_idx" ON "Signal"("fileKey");
+
+-- CreateIndex
+CREATE INDEX "SignalSighting_signalId_idx" ON "SignalSighting"("signalId");
+
+-- AddForeignKey
+ALTER TABLE "SignalSighting" ADD CONSTRAINT "SignalSighting_signalId_fkey" FOREIGN KEY ("signalId") REFERENCES "Signal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SignalSighting" ADD CONSTRAINT "SignalSighting_feedId_fkey" FOREIGN KEY ("feedId") REFERENCES "Feed"("id") ON DELETE SET NULL ON UPDATE CASCADE;
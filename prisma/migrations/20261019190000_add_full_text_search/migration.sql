@@ -0,0 +1,39 @@
+-- Full-text search vectors, generated and kept up to date by Postgres.
+-- Weights rank matches: A (title) > B (summary) > C (content) > D (byline, URL).
+
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("summary", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce("author", '') || ' ' || coalesce("sourceUrl", '')), 'D')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("text", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("note", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Thought" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("content", '')), 'A')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Insight" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("coreInsight", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("preview", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Signal_searchVector_idx" ON "Signal" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Highlight_searchVector_idx" ON "Highlight" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Thought_searchVector_idx" ON "Thought" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Insight_searchVector_idx" ON "Insight" USING GIN ("searchVector");
@@ -0,0 +1,27 @@
+-- Embeddings for semantic similarity, stored with pgvector.
+-- Columns have no fixed dimension so the embedder can be swapped; vectors are
+-- only compared with vectors of the same "embeddingModel".
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "embedding" vector,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN     "embedding" vector,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "Thought" ADD COLUMN     "embedding" vector,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Signal_embeddingModel_idx" ON "Signal"("embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "Highlight_embeddingModel_idx" ON "Highlight"("embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "Thought_embeddingModel_idx" ON "Thought"("embeddingModel");
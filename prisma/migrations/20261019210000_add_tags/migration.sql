@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "color" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_SignalToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_SignalToTag_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_name_key" ON "Tag"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_slug_key" ON "Tag"("slug");
+
+-- CreateIndex
+CREATE INDEX "_SignalToTag_B_index" ON "_SignalToTag"("B");
+
+-- AddForeignKey
+ALTER TABLE "_SignalToTag" ADD CONSTRAINT "_SignalToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "Signal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SignalToTag" ADD CONSTRAINT "_SignalToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the JSON string column, with the rules of parseSignalTags
+-- (anything that is not a JSON array means no tags) and tagSlug.
+CREATE FUNCTION pg_temp.parse_signal_tags(tags TEXT) RETURNS JSONB AS $$
+BEGIN
+    IF jsonb_typeof(tags::jsonb) = 'array' THEN
+        RETURN tags::jsonb;
+    END IF;
+    RETURN '[]'::jsonb;
+EXCEPTION WHEN others THEN
+    RETURN '[]'::jsonb;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TEMPORARY TABLE "_LegacySignalTag" AS
+SELECT "signalId", "name",
+       trim(BOTH '-' FROM regexp_replace(lower("name"), '[^[:alnum:]+#]+', '-', 'g')) AS "slug"
+FROM (
+    SELECT s."id" AS "signalId", left(regexp_replace(trim(element #>> '{}'), '\s+', ' ', 'g'), 50) AS "name"
+    FROM "Signal" s
+    CROSS JOIN LATERAL jsonb_array_elements(pg_temp.parse_signal_tags(s."tags")) AS element
+    -- Like parseTagNames, entries that are not strings (null, numbers, objects) are skipped
+    WHERE jsonb_typeof(element) = 'string'
+) legacy;
+
+DELETE FROM "_LegacySignalTag" WHERE "slug" = '';
+
+-- Spelling variants share a tag named after their most common spelling
+INSERT INTO "Tag" ("id", "name", "slug", "updatedAt")
+SELECT DISTINCT ON ("slug") gen_random_uuid()::text, "name", "slug", CURRENT_TIMESTAMP
+FROM (
+    SELECT "slug", "name", count(*) AS "uses"
+    FROM "_LegacySignalTag"
+    GROUP BY "slug", "name"
+) spellings
+ORDER BY "slug", "uses" DESC, "name";
+
+INSERT INTO "_SignalToTag" ("A", "B")
+SELECT DISTINCT l."signalId", t."id"
+FROM "_LegacySignalTag" l
+JOIN "Tag" t ON t."slug" = l."slug";
+
+DROP TABLE "_LegacySignalTag";
+
+-- AlterTable
+ALTER TABLE "Signal" DROP COLUMN "tags";
@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN     "parentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TagAlias" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TagAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TopicSuggestion" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TopicSuggestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_SignalToTopicSuggestion" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_SignalToTopicSuggestion_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "Tag_parentId_idx" ON "Tag"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_slug_key" ON "TagAlias"("slug");
+
+-- CreateIndex
+CREATE INDEX "TagAlias_tagId_idx" ON "TagAlias"("tagId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TopicSuggestion_slug_key" ON "TopicSuggestion"("slug");
+
+-- CreateIndex
+CREATE INDEX "TopicSuggestion_status_idx" ON "TopicSuggestion"("status");
+
+-- CreateIndex
+CREATE INDEX "_SignalToTopicSuggestion_B_index" ON "_SignalToTopicSuggestion"("B");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Tag"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TagAlias" ADD CONSTRAINT "TagAlias_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SignalToTopicSuggestion" ADD CONSTRAINT "_SignalToTopicSuggestion_A_fkey" FOREIGN KEY ("A") REFERENCES "Signal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SignalToTopicSuggestion" ADD CONSTRAINT "_SignalToTopicSuggestion_B_fkey" FOREIGN KEY ("B") REFERENCES "TopicSuggestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
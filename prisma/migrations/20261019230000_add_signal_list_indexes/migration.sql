@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "Signal_createdAt_id_idx" ON "Signal"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Signal_updatedAt_id_idx" ON "Signal"("updatedAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Signal_title_id_idx" ON "Signal"("title", "id");
+
+-- CreateIndex
+CREATE INDEX "Signal_status_createdAt_idx" ON "Signal"("status", "createdAt");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "SignalEvent" (
+    "id" TEXT NOT NULL,
+    "signalId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SignalEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SignalEvent_signalId_createdAt_idx" ON "SignalEvent"("signalId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SignalEvent" ADD CONSTRAINT "SignalEvent_signalId_fkey" FOREIGN KEY ("signalId") REFERENCES "Signal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Start each existing signal's history at its current status
+INSERT INTO "SignalEvent" ("id", "signalId", "fromStatus", "toStatus", "actor", "reason", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", 'system', 'Status before history was recorded', "updatedAt"
+FROM "Signal";
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Insight" ADD COLUMN "scheduledFor" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "InsightEvent" (
+    "id" TEXT NOT NULL,
+    "insightId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InsightEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Insight_status_scheduledFor_idx" ON "Insight"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "InsightEvent_insightId_createdAt_idx" ON "InsightEvent"("insightId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "InsightEvent" ADD CONSTRAINT "InsightEvent_insightId_fkey" FOREIGN KEY ("insightId") REFERENCES "Insight"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Statuses outside the lifecycle: drafts with a preview are previewing
+UPDATE "Insight" SET "status" = 'previewing' WHERE "status" = 'draft' AND "preview" IS NOT NULL;
+UPDATE "Insight" SET "status" = 'draft' WHERE "status" NOT IN ('draft', 'formatting', 'previewing', 'scheduled', 'publishing', 'published', 'publish_failed');
+
+-- Start each existing insight's history at its current status
+INSERT INTO "InsightEvent" ("id", "insightId", "fromStatus", "toStatus", "actor", "reason", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", 'system', 'Status before history was recorded', "updatedAt"
+FROM "Insight";
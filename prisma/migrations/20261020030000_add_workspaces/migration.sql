@@ -0,0 +1,138 @@
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkspaceMember_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "Highlight" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "Thought" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "Insight" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "Feed" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "WebhookJob" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "WebhookConfig" ADD COLUMN "workspaceId" TEXT;
+
+-- Data: every existing account gets a personal workspace holding its content
+INSERT INTO "Workspace" ("id", "name", "createdAt", "updatedAt")
+SELECT 'ws_' || "id", 'Personal', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP FROM "User";
+
+INSERT INTO "WorkspaceMember" ("id", "workspaceId", "userId", "role", "createdAt", "updatedAt")
+SELECT 'wm_' || "id", 'ws_' || "id", "id", 'owner', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP FROM "User";
+
+UPDATE "Signal" SET "workspaceId" = 'ws_' || "ownerId" WHERE "ownerId" IS NOT NULL;
+UPDATE "Highlight" SET "workspaceId" = 'ws_' || "ownerId" WHERE "ownerId" IS NOT NULL;
+UPDATE "Thought" SET "workspaceId" = 'ws_' || "ownerId" WHERE "ownerId" IS NOT NULL;
+UPDATE "Insight" SET "workspaceId" = 'ws_' || "ownerId" WHERE "ownerId" IS NOT NULL;
+UPDATE "Feed" SET "workspaceId" = 'ws_' || "ownerId" WHERE "ownerId" IS NOT NULL;
+UPDATE "WebhookJob" SET "workspaceId" = 'ws_' || "ownerId" WHERE "ownerId" IS NOT NULL;
+
+-- Data: the global webhook configs move to the first account's workspace
+UPDATE "WebhookConfig" SET "workspaceId" = (SELECT 'ws_' || "id" FROM "User" ORDER BY "createdAt" ASC LIMIT 1);
+
+-- DropForeignKey
+ALTER TABLE "Signal" DROP CONSTRAINT "Signal_ownerId_fkey";
+ALTER TABLE "Highlight" DROP CONSTRAINT "Highlight_ownerId_fkey";
+ALTER TABLE "Thought" DROP CONSTRAINT "Thought_ownerId_fkey";
+ALTER TABLE "Insight" DROP CONSTRAINT "Insight_ownerId_fkey";
+ALTER TABLE "Feed" DROP CONSTRAINT "Feed_ownerId_fkey";
+ALTER TABLE "WebhookJob" DROP CONSTRAINT "WebhookJob_ownerId_fkey";
+
+-- DropIndex
+DROP INDEX "Signal_ownerId_idx";
+DROP INDEX "Highlight_ownerId_idx";
+DROP INDEX "Thought_ownerId_idx";
+DROP INDEX "Insight_ownerId_idx";
+DROP INDEX "Feed_ownerId_url_key";
+DROP INDEX "WebhookJob_ownerId_idx";
+DROP INDEX "WebhookConfig_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceMember_workspaceId_userId_key" ON "WorkspaceMember"("workspaceId", "userId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "Signal_workspaceId_idx" ON "Signal"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "Highlight_workspaceId_idx" ON "Highlight"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "Thought_workspaceId_idx" ON "Thought"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "Insight_workspaceId_idx" ON "Insight"("workspaceId");
+
+-- Rows without a workspace (deployment-wide, or not yet claimed) must be unique
+-- as well, so NULL workspaceIds are compared as equal.
+-- CreateIndex
+CREATE UNIQUE INDEX "Feed_workspaceId_url_key" ON "Feed"("workspaceId", "url") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE INDEX "WebhookJob_workspaceId_idx" ON "WebhookJob"("workspaceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookConfig_workspaceId_name_key" ON "WebhookConfig"("workspaceId", "name") NULLS NOT DISTINCT;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Signal" ADD CONSTRAINT "Signal_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Signal" ADD CONSTRAINT "Signal_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Highlight" ADD CONSTRAINT "Highlight_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Highlight" ADD CONSTRAINT "Highlight_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Thought" ADD CONSTRAINT "Thought_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Thought" ADD CONSTRAINT "Thought_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Insight" ADD CONSTRAINT "Insight_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Insight" ADD CONSTRAINT "Insight_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Feed" ADD CONSTRAINT "Feed_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Feed" ADD CONSTRAINT "Feed_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WebhookJob" ADD CONSTRAINT "WebhookJob_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WebhookJob" ADD CONSTRAINT "WebhookJob_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WebhookConfig" ADD CONSTRAINT "WebhookConfig_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
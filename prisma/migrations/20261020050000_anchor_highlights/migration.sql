@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN     "orphaned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "prefix" TEXT,
+ADD COLUMN     "suffix" TEXT;
+
+-- Keep the surrounding text of highlights whose offsets still match their quote
+UPDATE "Highlight" h
+SET "prefix" = substring(s."content" from greatest(h."startPos" - 31, 1) for least(32, h."startPos")),
+    "suffix" = substring(s."content" from h."endPos" + 1 for 32)
+FROM "Signal" s
+WHERE s."id" = h."signalId"
+  AND h."startPos" IS NOT NULL
+  AND h."endPos" IS NOT NULL
+  AND substring(s."content" from h."startPos" + 1 for h."endPos" - h."startPos") = h."text";
+
+-- Highlights that were never located in their signal's content
+UPDATE "Highlight" SET "orphaned" = true WHERE "startPos" IS NULL;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN     "category" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Highlight_category_idx" ON "Highlight"("category");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ADD COLUMN "workspaceId" TEXT;
+
+-- Data: outbound calls belong to the workspace whose webhook config has their URL,
+-- where only one does. Other deliveries, including all inbound callbacks, cannot be
+-- traced to a workspace and are only listed for service tokens.
+UPDATE "WebhookDelivery" d
+SET "workspaceId" = c."workspaceId"
+FROM "WebhookConfig" c
+WHERE d."direction" = 'outbound'
+  AND c."name" = d."webhookName"
+  AND c."url" = d."url"
+  AND c."workspaceId" IS NOT NULL
+  AND (
+      SELECT COUNT(*) FROM "WebhookConfig" o
+      WHERE o."name" = d."webhookName" AND o."url" = d."url" AND o."workspaceId" IS NOT NULL
+  ) = 1;
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_workspaceId_idx" ON "WebhookDelivery"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
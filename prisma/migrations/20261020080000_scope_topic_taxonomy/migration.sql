@@ -0,0 +1,140 @@
+-- DropIndex
+DROP INDEX "Tag_name_key";
+DROP INDEX "Tag_slug_key";
+DROP INDEX "TagAlias_slug_key";
+DROP INDEX "TopicSuggestion_slug_key";
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "TagAlias" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "TopicSuggestion" ADD COLUMN "workspaceId" TEXT;
+
+-- Data: each workspace gets its own copy of the tags its signals have, along with
+-- their broader topics and aliases. Tags no signal has go to the oldest workspace.
+-- The first copy of a tag keeps its row and ID.
+CREATE TEMP TABLE "TagCopy" AS
+WITH RECURSIVE placed ("tagId", "workspaceId") AS (
+    SELECT st."B", s."workspaceId"
+    FROM "_SignalToTag" st
+    JOIN "Signal" s ON s."id" = st."A"
+    UNION
+    SELECT t."id", (SELECT w."id" FROM "Workspace" w ORDER BY w."createdAt" ASC LIMIT 1)
+    FROM "Tag" t
+    WHERE NOT EXISTS (SELECT 1 FROM "_SignalToTag" st WHERE st."B" = t."id")
+    UNION
+    SELECT t."parentId", placed."workspaceId"
+    FROM placed
+    JOIN "Tag" t ON t."id" = placed."tagId"
+    WHERE t."parentId" IS NOT NULL
+)
+SELECT
+    "tagId",
+    "workspaceId",
+    CASE
+        WHEN ROW_NUMBER() OVER (PARTITION BY "tagId" ORDER BY "workspaceId" NULLS LAST) = 1 THEN "tagId"
+        ELSE 'tag_' || md5("tagId" || '.' || COALESCE("workspaceId", ''))
+    END AS "id"
+FROM placed;
+
+INSERT INTO "Tag" ("id", "workspaceId", "name", "slug", "color", "description", "parentId", "createdAt", "updatedAt")
+SELECT c."id", c."workspaceId", t."name", t."slug", t."color", t."description", t."parentId", t."createdAt", t."updatedAt"
+FROM "TagCopy" c
+JOIN "Tag" t ON t."id" = c."tagId"
+WHERE c."id" <> c."tagId";
+
+UPDATE "Tag" t
+SET "workspaceId" = c."workspaceId"
+FROM "TagCopy" c
+WHERE c."id" = t."id" AND c."tagId" = t."id";
+
+-- Broader topics point to the copy in the same workspace
+UPDATE "Tag" t
+SET "parentId" = p."id"
+FROM "TagCopy" c, "TagCopy" p
+WHERE c."id" = t."id"
+  AND p."tagId" = t."parentId"
+  AND p."workspaceId" IS NOT DISTINCT FROM c."workspaceId";
+
+UPDATE "_SignalToTag" st
+SET "B" = c."id"
+FROM "Signal" s, "TagCopy" c
+WHERE s."id" = st."A"
+  AND c."tagId" = st."B"
+  AND c."workspaceId" IS NOT DISTINCT FROM s."workspaceId"
+  AND c."id" <> st."B";
+
+INSERT INTO "TagAlias" ("id", "workspaceId", "name", "slug", "tagId", "createdAt")
+SELECT 'tal_' || md5(a."id" || '.' || c."id"), c."workspaceId", a."name", a."slug", c."id", a."createdAt"
+FROM "TagAlias" a
+JOIN "TagCopy" c ON c."tagId" = a."tagId"
+WHERE c."id" <> c."tagId";
+
+UPDATE "TagAlias" a
+SET "workspaceId" = t."workspaceId"
+FROM "Tag" t
+WHERE t."id" = a."tagId";
+
+-- Data: suggestions are copied to each workspace whose signals they were received
+-- for; rejected suggestions, which have no signals, go to the oldest workspace
+CREATE TEMP TABLE "SuggestionCopy" AS
+SELECT
+    "suggestionId",
+    "workspaceId",
+    CASE
+        WHEN ROW_NUMBER() OVER (PARTITION BY "suggestionId" ORDER BY "workspaceId" NULLS LAST) = 1 THEN "suggestionId"
+        ELSE 'tsg_' || md5("suggestionId" || '.' || COALESCE("workspaceId", ''))
+    END AS "id"
+FROM (
+    SELECT ss."B" AS "suggestionId", s."workspaceId"
+    FROM "_SignalToTopicSuggestion" ss
+    JOIN "Signal" s ON s."id" = ss."A"
+    UNION
+    SELECT ts."id", (SELECT w."id" FROM "Workspace" w ORDER BY w."createdAt" ASC LIMIT 1)
+    FROM "TopicSuggestion" ts
+    WHERE NOT EXISTS (SELECT 1 FROM "_SignalToTopicSuggestion" ss WHERE ss."B" = ts."id")
+) placed;
+
+INSERT INTO "TopicSuggestion" ("id", "workspaceId", "name", "slug", "status", "createdAt", "updatedAt")
+SELECT c."id", c."workspaceId", ts."name", ts."slug", ts."status", ts."createdAt", ts."updatedAt"
+FROM "SuggestionCopy" c
+JOIN "TopicSuggestion" ts ON ts."id" = c."suggestionId"
+WHERE c."id" <> c."suggestionId";
+
+UPDATE "TopicSuggestion" ts
+SET "workspaceId" = c."workspaceId"
+FROM "SuggestionCopy" c
+WHERE c."id" = ts."id" AND c."suggestionId" = ts."id";
+
+UPDATE "_SignalToTopicSuggestion" ss
+SET "B" = c."id"
+FROM "Signal" s, "SuggestionCopy" c
+WHERE s."id" = ss."A"
+  AND c."suggestionId" = ss."B"
+  AND c."workspaceId" IS NOT DISTINCT FROM s."workspaceId"
+  AND c."id" <> ss."B";
+
+DROP TABLE "TagCopy";
+DROP TABLE "SuggestionCopy";
+
+-- The taxonomy without a workspace, used by callbacks signed with the deployment
+-- secret, must not hold duplicates either: NULL workspaceIds compare as equal.
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_workspaceId_name_key" ON "Tag"("workspaceId", "name") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_workspaceId_slug_key" ON "Tag"("workspaceId", "slug") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_workspaceId_slug_key" ON "TagAlias"("workspaceId", "slug") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TopicSuggestion_workspaceId_slug_key" ON "TopicSuggestion"("workspaceId", "slug") NULLS NOT DISTINCT;
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TagAlias" ADD CONSTRAINT "TagAlias_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TopicSuggestion" ADD CONSTRAINT "TopicSuggestion_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
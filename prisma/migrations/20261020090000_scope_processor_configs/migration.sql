@@ -0,0 +1,19 @@
+-- DropIndex
+DROP INDEX "ProcessorConfig_stage_key";
+
+-- AlterTable
+ALTER TABLE "ProcessorConfig" ADD COLUMN "workspaceId" TEXT;
+
+-- Data: every workspace starts with the processors chosen for the whole deployment.
+-- The originals stay without a workspace for work that runs outside one.
+INSERT INTO "ProcessorConfig" ("id", "workspaceId", "stage", "processor", "createdAt", "updatedAt")
+SELECT 'prc_' || md5(p."id" || '.' || w."id"), w."id", p."stage", p."processor", p."createdAt", CURRENT_TIMESTAMP
+FROM "ProcessorConfig" p
+CROSS JOIN "Workspace" w;
+
+-- One deployment-wide processor per stage as well: NULL workspaceIds compare as equal.
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessorConfig_workspaceId_stage_key" ON "ProcessorConfig"("workspaceId", "stage") NULLS NOT DISTINCT;
+
+-- AddForeignKey
+ALTER TABLE "ProcessorConfig" ADD CONSTRAINT "ProcessorConfig_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+/**
+ * Embeds all signals, highlights and thoughts that have no embedding from
+ * the configured embedder, e.g. after enabling embeddings or switching
+ * EMBEDDER
+ * 
+ * Usage: npx tsx scripts/backfill_embeddings.ts
+ */
+
+import "dotenv/config";
+import { getEmbedder } from "../src/lib/embeddings";
+import { embedMissing } from "../src/lib/similarity";
+import prisma from "../src/lib/prisma";
+
+async function main() {
+    console.log(`Embedding with ${getEmbedder().model}...`);
+
+    let total = 0;
+    let embedded: number;
+    do {
+        embedded = await embedMissing();
+        total += embedded;
+        if (embedded > 0) {
+            console.log(`Embedded ${total} record(s) so far`);
+        }
+    } while (embedded > 0);
+
+    console.log("Done.");
+}
+
+main()
+    .catch((e) => {
+        console.error("Error:", e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,46 @@
+/**
+ * Computes duplicate-detection fingerprints for signals created before
+ * fingerprints were stored
+ * 
+ * Usage: npx tsx scripts/backfill_fingerprints.ts
+ */
+
+import "dotenv/config";
+import { hashText, normalizeUrl } from "../src/lib/dedup";
+import { PROCESSING_PLACEHOLDER_CONTENT } from "../src/lib/constants";
+import prisma from "../src/lib/prisma";
+
+async function main() {
+    const signals = await prisma.signal.findMany({
+        where: { urlFingerprint: null, contentHash: null },
+        select: { id: true, source: true, sourceUrl: true, content: true, rawContent: true },
+    });
+
+    console.log(`Backfilling ${signals.length} signal(s)...`);
+
+    for (const signal of signals) {
+        // Text notes are matched by what was captured, not the processed content
+        const text = signal.source === "text"
+            ? signal.rawContent || signal.content
+            : signal.content;
+
+        await prisma.signal.update({
+            where: { id: signal.id },
+            data: {
+                urlFingerprint: normalizeUrl(signal.sourceUrl),
+                contentHash: text === PROCESSING_PLACEHOLDER_CONTENT ? null : hashText(text),
+            },
+        });
+    }
+
+    console.log("Done.");
+}
+
+main()
+    .catch((e) => {
+        console.error("Error:", e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -11,7 +11,10 @@ const prisma = new PrismaClient();
 async function main() {
     console.log("Fetching webhook configurations...\n");
 
-    const configs = await prisma.webhookConfig.findMany();
+    const configs = await prisma.webhookConfig.findMany({
+        include: { workspace: { select: { name: true } } },
+        orderBy: [{ workspaceId: "asc" }, { name: "asc" }],
+    });
 
     if (configs.length === 0) {
         console.log("No webhook configurations found.");
@@ -19,7 +22,7 @@ async function main() {
     } else {
         console.log("Webhook Configs:");
         configs.forEach(config => {
-            console.log(`- ${config.name}: ${config.url}`);
+            console.log(`- ${config.workspace?.name ?? "(no workspace)"} / ${config.name}: ${config.url}`);
         });
     }
 }
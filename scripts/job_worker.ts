@@ -0,0 +1,67 @@
+/**
+ * Background worker that retries queued webhook jobs
+ * 
+ * Polls due feed subscriptions and starts scheduled insights whose time
+ * has come, then runs due jobs (including the ingest jobs of new feed
+ * entries and the publish jobs of those insights) and embeds records that
+ * have no embedding yet, until stopped with Ctrl+C.
+ * 
+ * Usage: npx tsx scripts/job_worker.ts
+ */
+
+import "dotenv/config";
+import { processDueJobs } from "../src/lib/jobs";
+import { pollDueFeeds } from "../src/lib/feeds";
+import { publishDueInsights } from "../src/lib/lifecycle";
+import { embedMissing } from "../src/lib/similarity";
+import prisma from "../src/lib/prisma";
+
+const POLL_INTERVAL_MS = 10000;
+
+let stopping = false;
+
+async function main() {
+    console.log(`Job worker started, polling every ${POLL_INTERVAL_MS / 1000}s`);
+
+    while (!stopping) {
+        try {
+            const { newItems } = await pollDueFeeds();
+            if (newItems > 0) {
+                console.log(`Found ${newItems} new feed item(s)`);
+            }
+
+            const scheduled = await publishDueInsights();
+            if (scheduled > 0) {
+                console.log(`Publishing ${scheduled} scheduled insight(s)`);
+            }
+
+            const processed = await processDueJobs();
+            if (processed > 0) {
+                console.log(`Processed ${processed} job(s)`);
+            }
+
+            const embedded = await embedMissing();
+            if (embedded > 0) {
+                console.log(`Embedded ${embedded} record(s)`);
+            }
+        } catch (error) {
+            console.error("Worker pass failed:", error);
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+}
+
+process.on("SIGINT", () => {
+    console.log("Stopping job worker...");
+    stopping = true;
+});
+
+main()
+    .catch((e) => {
+        console.error("Error:", e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import AppHeader from "@/components/AppHeader";
+import { OPENAPI_DOCUMENT_PATH } from "@/lib/constants";
+import type { HttpMethod, OpenApiContent, OpenApiDocument, OpenApiOperation } from "@/lib/openapi";
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const METHOD_COLORS: Record<HttpMethod, string> = {
+    get: "var(--success)",
+    post: "var(--accent-hover)",
+    patch: "var(--warning)",
+    delete: "var(--error)",
+};
+
+interface OperationEntry {
+    method: HttpMethod;
+    path: string;
+    operation: OpenApiOperation;
+}
+
+/**
+ * Lists the document's operations under each of its tags, in document order
+ */
+function groupByTag(document: OpenApiDocument, filter: string): { tag: string; description: string; entries: OperationEntry[] }[] {
+    const needle = filter.trim().toLowerCase();
+    const entries = Object.entries(document.paths).flatMap(([path, methods]) =>
+        Object.entries(methods).map(([method, operation]) => ({ method: method as HttpMethod, path, operation }))
+    );
+
+    return document.tags
+        .map(({ name, description }) => ({
+            tag: name,
+            description,
+            entries: entries.filter(({ method, path, operation }) =>
+                operation.tags.includes(name) &&
+                (!needle || `${method} ${path} ${operation.summary}`.toLowerCase().includes(needle))
+            ),
+        }))
+        .filter(({ entries }) => entries.length > 0);
+}
+
+/**
+ * Short type of a parameter's schema, e.g. "integer" or "unread | reviewed"
+ */
+function describeType(schema: Record<string, unknown>): string {
+    if (Array.isArray(schema.enum)) return schema.enum.join(" | ");
+    if (Array.isArray(schema.anyOf)) return schema.anyOf.map((s) => describeType(s as Record<string, unknown>)).join(" or ");
+    if (schema.type === "array") return `${describeType((schema.items ?? {}) as Record<string, unknown>)}[]`;
+    return typeof schema.type === "string" ? schema.type : "any";
+}
+
+export default function ApiExplorerPage() {
+    const { data, error } = useSWR<OpenApiDocument>(OPENAPI_DOCUMENT_PATH, fetcher);
+    const [filter, setFilter] = useState("");
+
+    const groups = data ? groupByTag(data, filter) : [];
+
+    return (
+        <div className="min-h-screen" style={{ background: "var(--background)" }}>
+            <AppHeader />
+
+            <main className="max-w-5xl mx-auto px-6 py-8">
+                <div className="mb-8 flex items-end justify-between gap-6">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+                            API Reference
+                        </h1>
+                        <p className="text-sm mt-2 max-w-2xl" style={{ color: "var(--text-secondary)" }}>
+                            {data?.info.description ?? "Every endpoint, with the exact payloads it accepts and returns."}
+                        </p>
+                    </div>
+                    <a
+                        href={OPENAPI_DOCUMENT_PATH}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="btn btn-ghost text-sm shrink-0"
+                    >
+                        OpenAPI JSON{data ? ` (v${data.info.version})` : ""}
+                    </a>
+                </div>
+
+                {error ? (
+                    <div
+                        className="px-3 py-2 rounded-lg text-sm"
+                        style={{ background: "var(--error-soft)", color: "var(--error)" }}
+                    >
+                        Failed to load the API reference
+                    </div>
+                ) : !data ? (
+                    <div className="space-y-4">
+                        {[1, 2, 3].map((i) => (
+                            <div
+                                key={i}
+                                className="skeleton h-16 rounded-lg"
+                                style={{ background: "var(--background-elevated)" }}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        <input
+                            type="search"
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            placeholder="Filter endpoints..."
+                            aria-label="Filter endpoints"
+                            className="input w-full text-sm mb-8"
+                        />
+
+                        {groups.length === 0 && (
+                            <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                                No endpoints match.
+                            </p>
+                        )}
+
+                        {groups.map(({ tag, description, entries }) => (
+                            <section key={tag} className="mb-10">
+                                <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                                    {tag}
+                                </h2>
+                                <p className="text-sm mb-3" style={{ color: "var(--text-muted)" }}>
+                                    {description}
+                                </p>
+                                <div className="space-y-2">
+                                    {entries.map((entry) => (
+                                        <OperationCard key={entry.operation.operationId} {...entry} />
+                                    ))}
+                                </div>
+                            </section>
+                        ))}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
+
+/**
+ * One endpoint: collapsed to its method, path and summary
+ */
+function OperationCard({ method, path, operation }: OperationEntry) {
+    return (
+        <details
+            className="rounded-lg"
+            style={{ background: "var(--background-elevated)", border: "1px solid var(--border)" }}
+        >
+            <summary className="flex items-center gap-3 px-4 py-3 cursor-pointer">
+                <span
+                    className="w-16 shrink-0 text-xs font-bold uppercase font-mono"
+                    style={{ color: METHOD_COLORS[method] }}
+                >
+                    {method}
+                </span>
+                <code className="text-sm" style={{ color: "var(--text-primary)" }}>
+                    {path}
+                </code>
+                <span className="text-sm truncate" style={{ color: "var(--text-secondary)" }}>
+                    {operation.summary}
+                </span>
+                {operation.security.some((scheme) => "serviceToken" in scheme) && (
+                    <span
+                        className="ml-auto shrink-0 px-2 py-0.5 rounded text-xs"
+                        style={{ background: "var(--background-hover)", color: "var(--text-muted)" }}
+                    >
+                        Service token
+                    </span>
+                )}
+            </summary>
+
+            <div className="px-4 pb-4 space-y-5">
+                {operation.description && (
+                    <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                        {operation.description}
+                    </p>
+                )}
+
+                {operation.parameters.length > 0 && (
+                    <div>
+                        <SectionLabel>Parameters</SectionLabel>
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {operation.parameters.map((parameter) => (
+                                    <tr
+                                        key={`${parameter.in}-${parameter.name}`}
+                                        className="align-top"
+                                        style={{ borderTop: "1px solid var(--border-subtle)" }}
+                                    >
+                                        <td className="py-1.5 pr-4 whitespace-nowrap">
+                                            <code style={{ color: "var(--text-primary)" }}>{parameter.name}</code>
+                                            {parameter.required && (
+                                                <span className="ml-1" style={{ color: "var(--error)" }}>*</span>
+                                            )}
+                                        </td>
+                                        <td className="py-1.5 pr-4 text-xs whitespace-nowrap" style={{ color: "var(--text-muted)" }}>
+                                            {parameter.in}
+                                        </td>
+                                        <td className="py-1.5 pr-4 text-xs font-mono" style={{ color: "var(--text-secondary)" }}>
+                                            {describeType(parameter.schema)}
+                                        </td>
+                                        <td className="py-1.5 text-xs" style={{ color: "var(--text-secondary)" }}>
+                                            {parameter.description}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {operation.requestBody && (
+                    <div>
+                        <SectionLabel>
+                            Request body{operation.requestBody.required ? "" : " (optional)"}
+                        </SectionLabel>
+                        <ContentSchemas content={operation.requestBody.content} />
+                    </div>
+                )}
+
+                <div>
+                    <SectionLabel>Responses</SectionLabel>
+                    <div className="space-y-3">
+                        {Object.entries(operation.responses).map(([status, response]) => (
+                            <div key={status}>
+                                <div className="text-sm mb-1">
+                                    <span
+                                        className="font-mono font-semibold mr-2"
+                                        style={{ color: Number(status) < 400 ? "var(--success)" : "var(--error)" }}
+                                    >
+                                        {status}
+                                    </span>
+                                    <span style={{ color: "var(--text-secondary)" }}>{response.description}</span>
+                                </div>
+                                {response.content && <ContentSchemas content={response.content} />}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </details>
+    );
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+    return (
+        <h3 className="text-xs font-semibold uppercase tracking-wide mb-2" style={{ color: "var(--text-muted)" }}>
+            {children}
+        </h3>
+    );
+}
+
+/**
+ * JSON Schema of each content type of a body
+ */
+function ContentSchemas({ content }: { content: OpenApiContent }) {
+    return (
+        <div className="space-y-2">
+            {Object.entries(content).map(([contentType, { schema }]) => (
+                <div key={contentType}>
+                    <div className="text-xs font-mono mb-1" style={{ color: "var(--text-muted)" }}>
+                        {contentType}
+                    </div>
+                    <pre
+                        className="text-xs p-3 rounded overflow-x-auto max-h-96"
+                        style={{ background: "var(--background)", color: "var(--text-secondary)" }}
+                    >
+                        {JSON.stringify(schema, null, 2)}
+                    </pre>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, createSession, setSessionCookie, toUserSummary } from "@/lib/auth";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { loginSchema } from "@/lib/schemas";
+import type { SessionResponse } from "@/lib/types";
+
+/**
+ * POST /api/auth/login
+ *
+ * Sign in with an email and password; sets the session cookie
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { email, password } = await parseBody(request, loginSchema);
+
+        const user = await authenticate(email, password);
+        if (!user) {
+            return NextResponse.json(
+                { error: "Invalid email or password" },
+                { status: 401 }
+            );
+        }
+
+        const result: SessionResponse = { user: toUserSummary(user) };
+        const response = NextResponse.json(result);
+        setSessionCookie(response, await createSession(user.id));
+        return response;
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error signing in:", error);
+        return NextResponse.json(
+            { error: "Failed to sign in" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearSessionCookie, deleteSession } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/constants";
+
+/**
+ * POST /api/auth/logout
+ *
+ * End the current session and clear its cookie
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const token = request.cookies.get(SESSION_COOKIE)?.value;
+        if (token) {
+            await deleteSession(token);
+        }
+
+        const response = NextResponse.json({ success: true });
+        clearSessionCookie(response);
+        return response;
+    } catch (error) {
+        console.error("Error signing out:", error);
+        return NextResponse.json(
+            { error: "Failed to sign out" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { canSignUp, consumeLoginLink, createLoginLink, createSession, sendLoginLink, setSessionCookie } from "@/lib/auth";
+import { LOGIN_PATH } from "@/lib/constants";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { loginLinkQuerySchema, loginLinkRequestSchema } from "@/lib/schemas";
+
+/**
+ * POST /api/auth/magic-link
+ *
+ * Email a single-use sign-in link (see sendLoginLink in lib/auth). The
+ * response is the same whether or not the email has an account, so it
+ * cannot be used to find out who has one.
+ *
+ * Request body:
+ * - email: Address to send the link to
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { email } = await parseBody(request, loginLinkRequestSchema);
+
+        const hasAccount = (await prisma.user.count({ where: { email } })) > 0;
+        if (hasAccount || await canSignUp()) {
+            const link = await createLoginLink(email);
+            await sendLoginLink(email, link);
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: "If this email can sign in, a link is on its way",
+        }, { status: 202 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error sending sign-in link:", error);
+        return NextResponse.json(
+            { error: "Failed to send sign-in link" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * GET /api/auth/magic-link?token=...
+ *
+ * Target of the emailed link: signs in and redirects to the inbox, or
+ * back to the sign-in page if the link is invalid, used or expired
+ */
+export async function GET(request: NextRequest) {
+    const failed = new URL(`${LOGIN_PATH}?error=link`, request.url);
+
+    try {
+        const { token } = parseQuery(new URL(request.url).searchParams, loginLinkQuerySchema);
+
+        const user = await consumeLoginLink(token);
+        if (!user) {
+            return NextResponse.redirect(failed);
+        }
+
+        const response = NextResponse.redirect(new URL("/", request.url));
+        setSessionCookie(response, await createSession(user.id));
+        return response;
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error signing in with link:", error);
+        return NextResponse.redirect(failed);
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolvePrincipal } from "@/lib/auth";
+import { PRINCIPAL_TYPES } from "@/lib/constants";
+import type { SessionResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/session
+ *
+ * The signed-in user and their current workspace; 401 without a session
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const principal = await resolvePrincipal(request);
+        if (principal?.type !== PRINCIPAL_TYPES.USER) {
+            return NextResponse.json(
+                { error: "Not signed in" },
+                { status: 401 }
+            );
+        }
+
+        const response: SessionResponse = { user: principal.user, workspace: principal.workspace };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error("Error fetching session:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch session" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { canSignUp, createSession, createUser, setSessionCookie, toUserSummary } from "@/lib/auth";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { signupSchema } from "@/lib/schemas";
+import type { SessionResponse } from "@/lib/types";
+
+/**
+ * POST /api/auth/signup
+ *
+ * Create an account with a password and sign in. The first account can
+ * always be created and takes over existing content; later ones only when
+ * ALLOW_SIGNUP is "true".
+ *
+ * Request body:
+ * - email, password: Credentials (password of at least 8 characters)
+ * - name: Display name (optional)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await parseBody(request, signupSchema);
+
+        if (!(await canSignUp())) {
+            return NextResponse.json(
+                { error: "Sign-up is closed. Ask for an account." },
+                { status: 403 }
+            );
+        }
+
+        const user = await createUser(body);
+
+        const result: SessionResponse = { user: toUserSummary(user) };
+        const response = NextResponse.json(result, { status: 201 });
+        setSessionCookie(response, await createSession(user.id));
+        return response;
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            return NextResponse.json(
+                { error: "An account with this email already exists" },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error signing up:", error);
+        return NextResponse.json(
+            { error: "Failed to create account" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { feedUpdateSchema } from "@/lib/schemas";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/feeds/[id]
+ *
+ * Update a feed subscription
+ *
+ * Request body (all optional):
+ * - title: Display name
+ * - enabled: Whether the feed is polled
+ * - pollIntervalMinutes: Minutes between polls
+ */
+export const PATCH = withAuth(async (request: NextRequest, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const body = await parseBody(request, feedUpdateSchema);
+        const data: Prisma.FeedUpdateInput = {};
+
+        if (body.title !== undefined) {
+            data.title = body.title || null;
+        }
+
+        if (body.enabled !== undefined) {
+            data.enabled = body.enabled;
+
+            // Re-enabling a feed polls it on the next worker pass
+            if (body.enabled) {
+                data.nextPollAt = new Date();
+            }
+        }
+
+        if (body.pollIntervalMinutes !== undefined) {
+            data.pollIntervalMinutes = body.pollIntervalMinutes;
+        }
+
+        const feed = await prisma.feed.update({
+            where: { id },
+            data,
+        });
+
+        return NextResponse.json({
+            success: true,
+            feed,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Feed not found" },
+                { status: 404 }
+            );
+        }
+
+        console.error("Error updating feed:", error);
+        return NextResponse.json(
+            { error: "Failed to update feed" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * DELETE /api/feeds/[id]
+ *
+ * Unsubscribe from a feed. Signals created from it are kept.
+ */
+export const DELETE = withAuth(async (request: NextRequest, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        await prisma.feed.delete({
+            where: { id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Feed not found" },
+                { status: 404 }
+            );
+        }
+
+        console.error("Error deleting feed:", error);
+        return NextResponse.json(
+            { error: "Failed to delete feed" },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { API_TOKEN_SCOPES } from "@/lib/constants";
+import { pollDueFeeds, pollFeed } from "@/lib/feeds";
+import { runJobNow } from "@/lib/jobs";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { feedPollSchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/feeds/poll
+ *
+ * Poll feeds now. Without an id, every enabled feed that is due is
+ * polled; intended for a cron trigger when the standalone worker
+ * (scripts/job_worker.ts) is not running. Ingest jobs for new entries
+ * run after the response is sent.
+ *
+ * Request body (optional):
+ * - id: Feed to poll regardless of its schedule
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, feedPollSchema);
+
+        if (body.id) {
+            const feed = await prisma.feed.findUnique({ where: { id: body.id } });
+            if (!feed) {
+                return NextResponse.json(
+                    { error: "Feed not found" },
+                    { status: 404 }
+                );
+            }
+        }
+
+        let result;
+        try {
+            result = body.id ? await pollFeed(body.id) : await pollDueFeeds();
+        } catch (error) {
+            // The error is stored on the feed; report it to the caller too
+            return NextResponse.json(
+                { error: `Polling failed: ${error instanceof Error ? error.message : String(error)}` },
+                { status: 502 }
+            );
+        }
+
+        after(async () => {
+            for (const jobId of result.jobIds) {
+                await runJobNow(jobId);
+            }
+        });
+
+        return NextResponse.json({
+            success: true,
+            newItems: result.newItems,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error polling feeds:", error);
+        return NextResponse.json(
+            { error: "Failed to poll feeds" },
+            { status: 500 }
+        );
+    }
+}, { service: true, scopes: [API_TOKEN_SCOPES.CALLBACKS] });
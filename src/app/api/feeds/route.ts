@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { pollFeed } from "@/lib/feeds";
+import { runJobNow } from "@/lib/jobs";
+import { SIGNAL_STATUS } from "@/lib/constants";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { feedCreateSchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/feeds
+ *
+ * List feed subscriptions with the number of unread signals from each
+ */
+export const GET = withAuth(async () => {
+    try {
+        const feeds = await prisma.feed.findMany({
+            orderBy: { createdAt: "asc" },
+            include: {
+                _count: {
+                    select: { signals: { where: { status: SIGNAL_STATUS.UNREAD } } },
+                },
+            },
+        });
+
+        return NextResponse.json({
+            feeds: feeds.map(({ _count, ...feed }) => ({
+                ...feed,
+                unreadCount: _count.signals,
+            })),
+        });
+    } catch (error) {
+        console.error("Error fetching feeds:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch feeds" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * POST /api/feeds
+ *
+ * Subscribe to an RSS, Atom or JSON feed. The feed is polled right
+ * after the response is sent.
+ *
+ * Request body:
+ * - url: Feed URL (required)
+ * - title: Display name (optional, defaults to the feed's title)
+ * - pollIntervalMinutes: Minutes between polls (optional, default: 60)
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, feedCreateSchema);
+
+        const feed = await prisma.feed.create({
+            data: {
+                url: body.url,
+                title: body.title || null,
+                pollIntervalMinutes: body.pollIntervalMinutes,
+            },
+        });
+
+        after(async () => {
+            try {
+                const { jobIds } = await pollFeed(feed.id);
+                for (const jobId of jobIds) {
+                    await runJobNow(jobId);
+                }
+            } catch (error) {
+                console.error(`Initial poll of feed ${feed.url} failed:`, error);
+            }
+        });
+
+        return NextResponse.json({
+            success: true,
+            feed: { ...feed, unreadCount: 0 },
+        }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            return NextResponse.json(
+                { error: "Already subscribed to this feed" },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error creating feed:", error);
+        return NextResponse.json(
+            { error: "Failed to create feed" },
+            { status: 500 }
+        );
+    }
+});
@@ -1,72 +1,206 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { PERMISSIONS } from "@/lib/constants";
+import { isLibraryCursor, listHighlights, locateHighlight } from "@/lib/highlights";
+import { decodeCursor } from "@/lib/pagination";
+import { embedRecord } from "@/lib/similarity";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { highlightCreateSchema, highlightListQuerySchema, highlightUpdateSchema, idQuerySchema } from "@/lib/schemas";
+import type { HighlightsResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/highlights
+ * 
+ * The highlight library: highlights across all signals, newest first,
+ * each with its signal and the signal's tags.
+ * 
+ * Query parameters:
+ * - category: Comma-separated categories, or repeated (quote, data-point, counter-argument, question)
+ * - tag: Only highlights of signals with this tag or one of its narrower topics
+ * - source: Only highlights of signals with this source
+ * - signalId: Only highlights of this signal
+ * - from, to: Only highlights made at or after `from` and before `to` (ISO dates)
+ * - limit: Maximum highlights to return (default: 50, max: 100)
+ * - cursor: `nextCursor` of the previous page
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const query = parseQuery(new URL(request.url).searchParams, highlightListQuerySchema);
+
+        const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+        if (cursor === null || (cursor && !isLibraryCursor(cursor))) {
+            throw new ValidationError([{ field: "cursor", message: "is invalid" }]);
+        }
+
+        const response: HighlightsResponse = await listHighlights({
+            categories: query.category,
+            tag: query.tag,
+            source: query.source,
+            signalId: query.signalId,
+            createdFrom: query.from,
+            createdTo: query.to,
+            limit: query.limit,
+            cursor,
+        });
+
+        return NextResponse.json(response);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error fetching highlights:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch highlights" },
+            { status: 500 }
+        );
+    }
+});
 
 /**
  * POST /api/highlights
  * 
- * Create a new highlight for a signal
+ * Create a new highlight for a signal.
+ * The highlight is anchored by its text and the prefix/suffix around it,
+ * unless startPos/endPos point at the text, and it is linked to the page
+ * or section of the signal it falls in. Text that cannot be found is kept
+ * as an orphaned highlight.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     try {
-        const body = await request.json();
+        const body = await parseBody(request, highlightCreateSchema);
 
-        if (!body.signalId || !body.text) {
+        // The user's signals only
+        const signal = await prisma.signal.findUnique({
+            where: { id: body.signalId },
+            select: { id: true },
+        });
+        if (!signal) {
             return NextResponse.json(
-                { error: "signalId and text are required" },
-                { status: 400 }
+                { error: "Signal not found" },
+                { status: 404 }
             );
         }
 
+        const location = await locateHighlight(
+            body.signalId,
+            { exact: body.text, prefix: body.prefix, suffix: body.suffix },
+            body.startPos,
+            body.endPos
+        );
+
         const highlight = await prisma.highlight.create({
             data: {
                 signalId: body.signalId,
                 text: body.text,
                 note: body.note,
-                startPos: body.startPos,
-                endPos: body.endPos,
+                category: body.category,
+                ...location,
+            },
+            include: {
+                section: { select: { kind: true, label: true } },
             },
         });
 
+        after(() => embedRecord("highlight", highlight.id));
+
         return NextResponse.json({
             success: true,
             highlight,
         }, { status: 201 });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error creating highlight:", error);
         return NextResponse.json(
             { error: "Failed to create highlight" },
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.COMMENT });
 
 /**
- * DELETE /api/highlights
+ * PATCH /api/highlights
  * 
- * Delete a highlight by ID
+ * Change a highlight's category or note
+ * 
+ * Request body:
+ * - id: Highlight ID (required)
+ * - category: quote, data-point, counter-argument or question; null removes it (optional)
+ * - note: Note on the highlight (optional)
  */
-export async function DELETE(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const id = searchParams.get("id");
+        const { id, ...data } = await parseBody(request, highlightUpdateSchema);
 
-        if (!id) {
+        // The note is part of the embedded text; a cleared model marks the vector stale
+        const highlight = await prisma.highlight.update({
+            where: { id },
+            data: { ...data, ...(data.note !== undefined ? { embeddingModel: null } : {}) },
+            include: {
+                section: { select: { kind: true, label: true } },
+            },
+        });
+        if (data.note !== undefined) after(() => embedRecord("highlight", id));
+
+        return NextResponse.json({
+            success: true,
+            highlight,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
             return NextResponse.json(
-                { error: "id is required" },
-                { status: 400 }
+                { error: "Highlight not found" },
+                { status: 404 }
             );
         }
 
+        console.error("Error updating highlight:", error);
+        return NextResponse.json(
+            { error: "Failed to update highlight" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.COMMENT });
+
+/**
+ * DELETE /api/highlights
+ * 
+ * Delete a highlight by ID
+ */
+export const DELETE = withAuth(async (request: NextRequest) => {
+    try {
+        const { id } = parseQuery(new URL(request.url).searchParams, idQuerySchema);
+
         await prisma.highlight.delete({
             where: { id },
         });
 
         return NextResponse.json({ success: true });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Highlight not found" },
+                { status: 404 }
+            );
+        }
+
         console.error("Error deleting highlight:", error);
         return NextResponse.json(
             { error: "Failed to delete highlight" },
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.COMMENT });
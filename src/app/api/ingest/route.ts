@@ -1,9 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
-import prisma from "@/lib/prisma";
-import { triggerIngest } from "@/lib/webhooks";
-import { formatN8nDataToMarkdown } from "@/lib/formatters";
-import { SIGNAL_STATUS, TITLE_MAX_LENGTH } from "@/lib/constants";
-import type { IngestRequest, N8nResponse } from "@/lib/types";
+import { NextRequest, NextResponse, after } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { runJobNow } from "@/lib/jobs";
+import { queueIngest } from "@/lib/ingest";
+import type { UploadedFile } from "@/lib/ingest";
+import { sniffFileType } from "@/lib/files";
+import { API_TOKEN_SCOPES, DUPLICATE_POLICIES, FILE_MAX_BYTES, INPUT_TYPES, OPENAPI_DOCUMENT_PATH } from "@/lib/constants";
+import { ValidationError, parseBody, parseInput, validationErrorResponse } from "@/lib/validation";
+import { ingestRequestSchema } from "@/lib/schemas";
+import type { IngestRequest, IngestResponse } from "@/lib/types";
 
 /**
  * POST /api/ingest
@@ -12,171 +16,167 @@ import type { IngestRequest, N8nResponse } from "@/lib/types";
  * 
  * Supports multiple input types:
  * - text: Direct text content
- * - url: Web article URLs
- * - youtube: YouTube video URLs
- * - file: Base64-encoded file content
+ * - url: Web article URLs (optionally with the page HTML in rawContent)
+ * - youtube: YouTube video URLs (optionally with WebVTT/SRT text in captions)
+ * - file: PDF, EPUB, DOCX, Markdown or plain text, sent as multipart/form-data
+ *   (fields: file, title) or as base64 `content` in a JSON body
  * 
- * The n8n workflow processes the content and returns structured data
- * (summary, key insights, topics, sentiment) which is stored as a Signal.
+ * Uploaded files are type-checked from their bytes and stored in the blob
+ * store; the ingest job extracts their text with page/section boundaries.
+ * For youtube inputs the job stores the transcript as timed segments.
+ * 
+ * A placeholder Signal is created and the n8n call is queued as a job, so
+ * the response returns immediately. For url inputs the job first extracts
+ * the article (title, author, date, canonical URL, lead image, Markdown)
+ * locally, so the signal is readable before the AI step completes. The workflow's structured data
+ * (summary, key insights, topics, sentiment) is stored on the Signal either
+ * by the job (synchronous n8n response) or by /api/signals/receive.
+ * 
+ * URLs are canonicalized (tracking parameters stripped, YouTube/Twitter/
+ * Medium shapes normalized, rel=canonical followed when rawContent is
+ * given); the signal keeps both the canonical and the original URL.
+ * 
+ * Captures whose normalized URL, text or file bytes match an existing
+ * signal are not processed again. `onDuplicate` chooses what happens:
+ * "reject" (409), "merge" (resurface the existing signal) or "sighting"
+ * (default: record the capture on the existing signal). The same check
+ * runs on the extracted content before the processor is called.
  * 
  * @param request - Next.js request object
- * @returns JSON response with success status and signal ID
+ * @returns JSON response with success status, signal ID and job ID
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     try {
-        const body = await request.json() as IngestRequest;
-
-        // Validate required fields
-        if (!body.inputType) {
-            return NextResponse.json(
-                { error: "inputType is required (text, url, youtube, file)" },
-                { status: 400 }
-            );
-        }
+        let body: IngestRequest;
+        let upload: Uint8Array | null = null;
 
-        // Validate based on input type
-        if ((body.inputType === "text" || body.inputType === "file") && !body.content) {
-            return NextResponse.json(
-                { error: "content is required for text and file types" },
-                { status: 400 }
-            );
-        }
+        if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+            const form = await request.formData();
+            const file = form.get("file");
 
-        if ((body.inputType === "url" || body.inputType === "youtube") && !body.url) {
-            return NextResponse.json(
-                { error: "url is required for url and youtube types" },
-                { status: 400 }
-            );
-        }
+            if (!(file instanceof File)) {
+                throw new ValidationError([{ field: "file", message: "is required for multipart uploads" }]);
+            }
 
-        // Detect if it's a URL or text for initial title/source
-        const isUrl = body.inputType === "url" || body.inputType === "youtube";
-        const initialTitle = body.title || (isUrl ? "Processing URL..." : "Shared Note");
-
-        // 1. Create a placeholder signal immediately
-        const signal = await prisma.signal.create({
-            data: {
-                title: initialTitle,
-                content: "Content is being processed by AI...",
-                source: body.inputType,
-                sourceUrl: body.url,
-                rawContent: body.content,
-                status: SIGNAL_STATUS.PROCESSING, // Using a temporary status or keeping as unread
-                tags: "[]",
-            },
-        });
-
-        // 2. Build payload for n8n workflow with the signalId
-        const payload: Record<string, string> = {
-            inputType: body.inputType,
-            signalId: signal.id, // Pass ID for callback update
-        };
+            if (file.size > FILE_MAX_BYTES) {
+                return fileTooLarge();
+            }
 
-        if (body.content) payload.content = body.content;
-        if (body.url) payload.url = body.url;
+            upload = new Uint8Array(await file.arrayBuffer());
+            body = parseInput(ingestRequestSchema, {
+                inputType: INPUT_TYPES.FILE,
+                title: form.get("title")?.toString() || undefined,
+                onDuplicate: form.get("onDuplicate")?.toString() || undefined,
+                fileName: file.name,
+                fileType: file.type,
+            });
+        } else {
+            body = await parseBody(request, ingestRequestSchema);
+
+            if (body.inputType === INPUT_TYPES.FILE && body.content) {
+                upload = Buffer.from(body.content, "base64");
+                body = { ...body, content: undefined };
+            }
+        }
 
-        // 3. Trigger n8n ingestion workflow
-        const result = await triggerIngest(payload);
+        if (body.inputType === INPUT_TYPES.FILE && !upload) {
+            throw new ValidationError([{ field: "content", message: "is required for file inputs sent as JSON (base64)" }]);
+        }
 
-        console.log("triggerIngest result:", JSON.stringify(result, null, 2));
+        // Uploaded files are checked here and stored by queueIngest once they turn out to be new
+        let file: UploadedFile | undefined;
+        if (upload) {
+            if (upload.length > FILE_MAX_BYTES) {
+                return fileTooLarge();
+            }
 
-        if (!result.success) {
-            // Update signal to show failure
-            await prisma.signal.update({
-                where: { id: signal.id },
-                data: {
-                    content: `AI Processing Failed: ${result.error}. You can still review the raw content below.`,
-                    status: SIGNAL_STATUS.UNREAD
-                }
-            });
+            const fileType = sniffFileType(upload, body.fileName, body.fileType);
+            if (!fileType) {
+                return NextResponse.json(
+                    { error: "Unsupported file type. Upload a PDF, EPUB, DOCX, Markdown or plain text file." },
+                    { status: 415 }
+                );
+            }
 
-            return NextResponse.json(
-                { error: result.error },
-                { status: 502 }
-            );
+            body = { ...body, fileType };
+            file = { data: upload, fileName: body.fileName, fileType };
         }
 
-        // 4. Handle synchronous response if available
-        if (result.data) {
-            const data = result.data as any; // Cast for flexible checking
-
-            // Check if this is a real insight response or just a confirmation
-            const hasContent = data.summary || data.key_insights || data.topics;
-
-            if (hasContent) {
-                console.log("Updating signal from n8n data:", JSON.stringify(data, null, 2));
-                // Reuse existing helper but update instead of create
-                await updateSignalWithN8nData(signal.id, result.data, body);
-
-                return NextResponse.json({
-                    success: true,
-                    message: "Signal processed and stored",
-                    signalId: signal.id,
-                    insights: data.key_insights,
-                }, { status: 201 });
-            } else {
-                console.log("n8n returned confirmation, continuing async:", JSON.stringify(data));
+        // 1. Create a placeholder signal and queue the ingestion call; it runs
+        //    right after this response and is retried in the background if
+        //    the processor is unavailable
+        const outcome = await queueIngest(body, { file });
+
+        // 2. Content that is already a signal is not processed again
+        if (outcome.duplicate) {
+            if (outcome.policy === DUPLICATE_POLICIES.REJECT) {
+                return NextResponse.json(
+                    { error: "This content has already been captured", signalId: outcome.signal.id },
+                    { status: 409 }
+                );
             }
+
+            const response: IngestResponse = {
+                success: true,
+                duplicate: true,
+                message: outcome.policy === DUPLICATE_POLICIES.MERGE
+                    ? "Already captured: merged into the existing signal"
+                    : "Already captured: recorded as another sighting",
+                signalId: outcome.signal.id,
+            };
+            return NextResponse.json(response);
         }
 
-        // Return immediately for async - webhook will handle the rest
-        return NextResponse.json({
+        const { signal, job } = outcome;
+        after(() => runJobNow(job.id));
+
+        const response: IngestResponse = {
             success: true,
-            message: "Content sent to n8n for processing",
-            signalId: signal.id
-        });
+            message: "Content queued for processing",
+            signalId: signal.id,
+            jobId: job.id,
+        };
+        return NextResponse.json(response, { status: 202 });
 
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error triggering ingest:", error);
         return NextResponse.json(
             { error: "Failed to process request" },
             { status: 500 }
         );
     }
-}
-
-/**
- * Updates an existing Signal record with data from n8n
- */
-async function updateSignalWithN8nData(id: string, data: N8nResponse, request: IngestRequest) {
-    const title = request.title
-        || data.title
-        || data.summary?.substring(0, TITLE_MAX_LENGTH)
-        || "Extracted Insight";
-
-    const content = data.content || formatN8nDataToMarkdown(data);
-    const tags = data.topics || [];
-
-    return await prisma.signal.update({
-        where: { id },
-        data: {
-            title,
-            content,
-            summary: data.summary,
-            rawContent: request.content || data.rawContent,
-            tags: JSON.stringify(tags),
-            status: SIGNAL_STATUS.UNREAD,
-        },
-    });
-}
+}, { scopes: [API_TOKEN_SCOPES.INGEST] });
 
 /**
  * GET /api/ingest
  * 
- * Returns API documentation and supported input types
+ * Verifies the endpoint is reachable; the payload contract is in the
+ * OpenAPI document
  */
 export async function GET() {
     return NextResponse.json({
         status: "ok",
         endpoint: "/api/ingest",
-        description: "POST content to trigger n8n ingest workflow",
-        supportedTypes: {
-            text: { inputType: "text", content: "Your text..." },
-            url: { inputType: "url", url: "https://..." },
-            youtube: { inputType: "youtube", url: "https://youtube.com/watch?v=..." },
-            file: { inputType: "file", content: "base64-encoded-data" },
-        },
+        docs: OPENAPI_DOCUMENT_PATH,
     });
 }
 
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Response for uploads over FILE_MAX_BYTES
+ */
+function fileTooLarge() {
+    return NextResponse.json(
+        { error: `File is too large (max ${FILE_MAX_BYTES / (1024 * 1024)} MB)` },
+        { status: 413 }
+    );
+}
+
 
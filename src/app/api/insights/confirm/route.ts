@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { EVENT_ACTORS, INSIGHT_STATUS, OPENAPI_DOCUMENT_PATH, WEBHOOK_NAMES } from "@/lib/constants";
+import { InvalidTransitionError, transitionInsight } from "@/lib/lifecycle";
+import { verifyCallback } from "@/lib/signatures";
+import { withInboundDeliveryLog } from "@/lib/deliveries";
+import { recordScope, runInWorkspace } from "@/lib/ownership";
+import { ValidationError, parseJson, validationErrorResponse } from "@/lib/validation";
+import { confirmPayloadSchema } from "@/lib/schemas";
+import type { ConfirmPayload } from "@/lib/schemas";
+import type { InboundDelivery } from "@/lib/deliveries";
 
 /**
  * POST /api/insights/confirm
  * 
  * Receives publish confirmation from n8n after content is posted.
- * Updates the insight status and stores the published URL.
+ * Moves the insight to published and stores the published URL, or to
+ * publish_failed; the preview is kept so publishing can be retried.
  * 
  * Expected payload from n8n:
  * {
@@ -14,77 +24,40 @@ import prisma from "@/lib/prisma";
  *   status: string;          // success, failed
  *   error?: string;          // Error message if failed
  * }
+ * 
+ * Requests must be signed with the publish webhook secret, or send an API token
+ * with the callbacks scope (see lib/signatures).
  */
 
-interface ConfirmPayload {
-    insightId: string;
-    postUrl?: string;
-    status: "success" | "failed";
-    error?: string;
-}
+export const POST = withInboundDeliveryLog(WEBHOOK_NAMES.PUBLISH, confirmPublish);
 
-export async function POST(request: NextRequest) {
+async function confirmPublish(request: NextRequest, delivery: InboundDelivery) {
     try {
-        const body = await request.json() as ConfirmPayload;
-
-        // Validate required fields
-        if (!body.insightId || !body.status) {
+        const verification = await verifyCallback(request, WEBHOOK_NAMES.PUBLISH);
+        if (!verification.valid) {
             return NextResponse.json(
-                { error: "Missing required fields: insightId and status are required" },
-                { status: 400 }
+                { error: verification.error },
+                { status: verification.status }
             );
         }
+        delivery.workspaceId = verification.workspaceId;
 
-        // Find the insight
-        const insight = await prisma.insight.findUnique({
-            where: { id: body.insightId },
-        });
+        const body = parseJson(verification.body, confirmPayloadSchema);
 
-        if (!insight) {
+        // Only insights of the workspace whose secret signed the callback
+        return await runInWorkspace(recordScope(verification), () => storeConfirmation(body));
+
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof InvalidTransitionError) {
             return NextResponse.json(
-                { error: "Insight not found" },
-                { status: 404 }
+                { error: error.message },
+                { status: 409 }
             );
         }
 
-        // Update insight based on status
-        if (body.status === "success") {
-            const updatedInsight = await prisma.insight.update({
-                where: { id: body.insightId },
-                data: {
-                    status: "published",
-                    publishedUrl: body.postUrl,
-                    publishedAt: new Date(),
-                },
-            });
-
-            return NextResponse.json({
-                success: true,
-                insightId: updatedInsight.id,
-                status: "published",
-                publishedUrl: updatedInsight.publishedUrl,
-                message: "Insight published successfully",
-            });
-        } else {
-            // Mark as failed - revert to draft
-            const updatedInsight = await prisma.insight.update({
-                where: { id: body.insightId },
-                data: {
-                    status: "draft",
-                    preview: null,
-                },
-            });
-
-            return NextResponse.json({
-                success: false,
-                insightId: updatedInsight.id,
-                status: "draft",
-                error: body.error ?? "Publish failed",
-                message: "Insight publish failed, reverted to draft",
-            });
-        }
-
-    } catch (error) {
         console.error("Error confirming publish:", error);
         return NextResponse.json(
             { error: "Failed to process confirmation" },
@@ -93,17 +66,68 @@ export async function POST(request: NextRequest) {
     }
 }
 
-// GET endpoint to verify the webhook is working
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Moves an insight to published or publish_failed
+ * 
+ * @param body - Callback payload
+ * @returns Response for n8n
+ */
+async function storeConfirmation(body: ConfirmPayload) {
+    // Find the insight
+    const insight = await prisma.insight.findUnique({
+        where: { id: body.insightId },
+    });
+
+    if (!insight) {
+        return NextResponse.json(
+            { error: "Insight not found" },
+            { status: 404 }
+        );
+    }
+
+    // Update insight based on status
+    if (body.status === "success") {
+        const transition = await transitionInsight(insight.id, INSIGHT_STATUS.PUBLISHED, {
+            actor: EVENT_ACTORS.PROCESSOR,
+            reason: "Published",
+        }, {
+            publishedUrl: body.postUrl,
+            publishedAt: new Date(),
+        });
+
+        return NextResponse.json({
+            success: true,
+            insightId: insight.id,
+            status: INSIGHT_STATUS.PUBLISHED,
+            publishedUrl: transition?.insight.publishedUrl,
+            message: "Insight published successfully",
+        });
+    } else {
+        const error = body.error ?? "Publish failed";
+        await transitionInsight(insight.id, INSIGHT_STATUS.PUBLISH_FAILED, {
+            actor: EVENT_ACTORS.PROCESSOR,
+            reason: error,
+        });
+
+        return NextResponse.json({
+            success: false,
+            insightId: insight.id,
+            status: INSIGHT_STATUS.PUBLISH_FAILED,
+            error,
+            message: "Insight publish failed, preview kept for another attempt",
+        });
+    }
+}
+
+// GET endpoint to verify the webhook is working; the payload contract is in the OpenAPI document
 export async function GET() {
     return NextResponse.json({
         status: "ok",
         endpoint: "/api/insights/confirm",
-        description: "POST publish confirmation from n8n to this endpoint",
-        expectedPayload: {
-            insightId: "string (required)",
-            status: "string (required): success or failed",
-            postUrl: "string (optional): URL of published post",
-            error: "string (optional): error message if failed",
-        },
+        docs: OPENAPI_DOCUMENT_PATH,
     });
 }
@@ -1,6 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import prisma from "@/lib/prisma";
-import { triggerGenerate } from "@/lib/webhooks";
+import { withAuth } from "@/lib/auth";
+import { enqueueJob, runJobNow } from "@/lib/jobs";
+import { API_TOKEN_SCOPES, WEBHOOK_NAMES } from "@/lib/constants";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { insightGenerateSchema } from "@/lib/schemas";
+import type { JobQueuedResponse } from "@/lib/types";
 
 /**
  * POST /api/insights/generate
@@ -9,31 +14,24 @@ import { triggerGenerate } from "@/lib/webhooks";
  * 
  * The n8n workflow analyzes the provided signals and generates
  * synthetic insights by identifying patterns, themes, and connections.
+ * The call is queued as a job and retried in the background on failure.
  * 
  * Request body:
  * - signalIds: Array of signal IDs to analyze (required)
  * 
  * @param request - Next.js request object
- * @returns JSON response confirming generation was triggered
+ * @returns JSON response confirming generation was queued
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     try {
-        const body = await request.json();
-        const { signalIds } = body;
+        const { signalIds } = await parseBody(request, insightGenerateSchema);
 
-        // Validate signal IDs
-        if (!signalIds || !Array.isArray(signalIds) || signalIds.length === 0) {
-            return NextResponse.json(
-                { error: "signalIds array is required" },
-                { status: 400 }
-            );
-        }
-
-        // Fetch full signal objects for n8n processing
+        // Only queue signals that exist; the job re-reads them when it runs
         const signals = await prisma.signal.findMany({
             where: {
                 id: { in: signalIds }
-            }
+            },
+            select: { id: true },
         });
 
         if (signals.length === 0) {
@@ -43,26 +41,28 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Trigger n8n generation workflow
-        const result = await triggerGenerate(signals);
+        const job = await enqueueJob(WEBHOOK_NAMES.GENERATE, {
+            signalIds: signals.map((s) => s.id),
+        }, { signalId: signals.length === 1 ? signals[0].id : undefined });
 
-        if (!result.success) {
-            return NextResponse.json(
-                { error: result.error },
-                { status: 502 }
-            );
-        }
+        after(() => runJobNow(job.id));
 
-        return NextResponse.json({
+        const response: JobQueuedResponse = {
             success: true,
-            message: "Generation triggered successfully",
-        });
+            message: "Generation queued",
+            jobId: job.id,
+        };
+        return NextResponse.json(response, { status: 202 });
 
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error triggering generation:", error);
         return NextResponse.json(
             { error: "Failed to process request" },
             { status: 500 }
         );
     }
-}
+}, { scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH] });
@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { EVENT_ACTORS, INSIGHT_STATUS, OPENAPI_DOCUMENT_PATH, WEBHOOK_NAMES } from "@/lib/constants";
+import { InvalidTransitionError, transitionInsight } from "@/lib/lifecycle";
+import { verifyCallback } from "@/lib/signatures";
+import { withInboundDeliveryLog } from "@/lib/deliveries";
+import { recordScope, runInWorkspace } from "@/lib/ownership";
+import { ValidationError, parseJson, validationErrorResponse } from "@/lib/validation";
+import { previewPayloadSchema } from "@/lib/schemas";
+import type { PreviewPayload } from "@/lib/schemas";
+import type { InboundDelivery } from "@/lib/deliveries";
 
 /**
  * POST /api/insights/preview
  * 
  * Receives formatted content preview from n8n after the formatting workflow.
- * Updates the insight with the preview content for user review.
+ * Updates the insight with the preview content for user review and moves
+ * it to previewing; insights being published or already published are
+ * not changed (409).
  * 
  * Expected payload from n8n:
  * {
@@ -13,56 +24,40 @@ import prisma from "@/lib/prisma";
  *   preview: string;         // Formatted content (e.g., LinkedIn post)
  *   platform: string;        // Target platform: linkedin, twitter, etc.
  * }
+ * 
+ * Requests must be signed with the generate webhook secret, or send an API token
+ * with the callbacks scope (see lib/signatures).
  */
 
-interface PreviewPayload {
-    insightId: string;
-    preview: string;
-    platform: string;
-}
+export const POST = withInboundDeliveryLog(WEBHOOK_NAMES.GENERATE, receivePreview);
 
-export async function POST(request: NextRequest) {
+async function receivePreview(request: NextRequest, delivery: InboundDelivery) {
     try {
-        const body = await request.json() as PreviewPayload;
-
-        // Validate required fields
-        if (!body.insightId || !body.preview || !body.platform) {
+        const verification = await verifyCallback(request, WEBHOOK_NAMES.GENERATE);
+        if (!verification.valid) {
             return NextResponse.json(
-                { error: "Missing required fields: insightId, preview, and platform are required" },
-                { status: 400 }
+                { error: verification.error },
+                { status: verification.status }
             );
         }
+        delivery.workspaceId = verification.workspaceId;
+
+        const body = parseJson(verification.body, previewPayloadSchema);
 
-        // Find and update the insight
-        const insight = await prisma.insight.findUnique({
-            where: { id: body.insightId },
-        });
+        // Only insights of the workspace whose secret signed the callback
+        return await runInWorkspace(recordScope(verification), () => storePreview(body));
 
-        if (!insight) {
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof InvalidTransitionError) {
             return NextResponse.json(
-                { error: "Insight not found" },
-                { status: 404 }
+                { error: error.message },
+                { status: 409 }
             );
         }
 
-        // Update insight with preview
-        const updatedInsight = await prisma.insight.update({
-            where: { id: body.insightId },
-            data: {
-                preview: body.preview,
-                previewPlatform: body.platform,
-                status: "previewing",
-            },
-        });
-
-        return NextResponse.json({
-            success: true,
-            insightId: updatedInsight.id,
-            status: updatedInsight.status,
-            message: "Preview received successfully",
-        });
-
-    } catch (error) {
         console.error("Error receiving preview:", error);
         return NextResponse.json(
             { error: "Failed to process preview" },
@@ -71,16 +66,54 @@ export async function POST(request: NextRequest) {
     }
 }
 
-// GET endpoint to verify the webhook is working
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Moves an insight to previewing with the formatted preview
+ * 
+ * @param body - Callback payload
+ * @returns Response for n8n
+ */
+async function storePreview(body: PreviewPayload) {
+    // Find and update the insight
+    const insight = await prisma.insight.findUnique({
+        where: { id: body.insightId },
+    });
+
+    if (!insight) {
+        return NextResponse.json(
+            { error: "Insight not found" },
+            { status: 404 }
+        );
+    }
+
+    // Update insight with preview; a scheduled insight stays scheduled
+    const status = insight.status === INSIGHT_STATUS.SCHEDULED
+        ? INSIGHT_STATUS.SCHEDULED
+        : INSIGHT_STATUS.PREVIEWING;
+    const transition = await transitionInsight(insight.id, status, {
+        actor: EVENT_ACTORS.PROCESSOR,
+        reason: "Preview received",
+    }, {
+        preview: body.preview,
+        previewPlatform: body.platform,
+    });
+
+    return NextResponse.json({
+        success: true,
+        insightId: insight.id,
+        status: transition?.insight.status,
+        message: "Preview received successfully",
+    });
+}
+
+// GET endpoint to verify the webhook is working; the payload contract is in the OpenAPI document
 export async function GET() {
     return NextResponse.json({
         status: "ok",
         endpoint: "/api/insights/preview",
-        description: "POST formatted preview from n8n to this endpoint",
-        expectedPayload: {
-            insightId: "string (required)",
-            preview: "string (required)",
-            platform: "string (required): linkedin, twitter, etc.",
-        },
+        docs: OPENAPI_DOCUMENT_PATH,
     });
 }
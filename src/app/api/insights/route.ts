@@ -1,17 +1,30 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import prisma from "@/lib/prisma";
-import { triggerPublish } from "@/lib/webhooks";
+import { forbidden, hasPermission, withAuth } from "@/lib/auth";
+import { latestJobArgs, runJobNow } from "@/lib/jobs";
+import {
+    InvalidTransitionError,
+    initialInsightEvent,
+    isInsightEditable,
+    markSignalsProcessed,
+    transitionInsight,
+} from "@/lib/lifecycle";
+import { API_TOKEN_SCOPES, EVENT_ACTORS, INSIGHT_STATUS, PERMISSIONS, PRINCIPAL_TYPES, WORKSPACE_HEADER } from "@/lib/constants";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { idQuerySchema, insightCreateSchema, insightListQuerySchema, insightUpdateSchema } from "@/lib/schemas";
+import type { InsightsResponse } from "@/lib/types";
 
 /**
  * GET /api/insights
  * 
- * Fetch all insights with related data
+ * Fetch all insights with related data and status history
+ * 
+ * Query parameters:
+ * - status: Filter by insight status (see INSIGHT_STATUS)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const status = searchParams.get("status");
-
+        const { status } = parseQuery(new URL(request.url).searchParams, insightListQuerySchema);
         const where = status ? { status } : {};
 
         const insights = await prisma.insight.findMany({
@@ -28,45 +41,52 @@ export async function GET(request: NextRequest) {
                 signals: {
                     select: { id: true, title: true }
                 },
+                events: {
+                    orderBy: { createdAt: "asc" },
+                },
+                jobs: latestJobArgs,
             },
         });
 
-        return NextResponse.json({ insights });
+        const response: InsightsResponse = { insights };
+        return NextResponse.json(response);
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error fetching insights:", error);
         return NextResponse.json(
             { error: "Failed to fetch insights" },
             { status: 500 }
         );
     }
-}
+});
 
 /**
  * POST /api/insights
  * 
- * Create a new insight
+ * Create a new insight. Insights with a preview start in previewing;
+ * insights generated from signals without one wait in formatting for the
+ * preview callback; hand-written insights start as drafts.
+ * 
+ * Accepts the service token for n8n, which must name the insight's
+ * workspace in the workspace header; otherwise signals and thoughts of
+ * any workspace could be linked to it.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, _context: unknown, principal) => {
     try {
-        const body = await request.json();
-        console.log("POST /api/insights payload:", JSON.stringify(body, null, 2));
-
-        // Unwrap n8n array/nested structure
-        let data = body;
-        if (Array.isArray(body) && body.length > 0) {
-            data = body[0];
-        }
-        if (data.output && typeof data.output === "object") {
-            data = { ...data, ...data.output };
-        }
-
-        if (!data.coreInsight) {
+        if (principal.type === PRINCIPAL_TYPES.SERVICE && !principal.workspaceId) {
             return NextResponse.json(
-                { error: "coreInsight is required" },
+                { error: `Service calls that create insights must name a workspace in the ${WORKSPACE_HEADER} header` },
                 { status: 400 }
             );
         }
 
+        // Unwraps the n8n array/nested structure
+        const data = await parseBody(request, insightCreateSchema);
+        console.log("POST /api/insights payload:", JSON.stringify(data, null, 2));
+
         // Validate and filter thoughtIds
         let connectThoughts = undefined;
         if (data.thoughtIds?.length) {
@@ -95,13 +115,20 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        const status = data.preview
+            ? INSIGHT_STATUS.PREVIEWING
+            : connectSignals ? INSIGHT_STATUS.FORMATTING : INSIGHT_STATUS.DRAFT;
+
         // Create insight
         const insight = await prisma.insight.create({
             data: {
                 coreInsight: data.coreInsight,
                 preview: data.preview || data.coreInsight,
                 previewPlatform: data.previewPlatform || "linkedin",
-                status: "draft",
+                status,
+                events: initialInsightEvent(status, connectSignals
+                    ? { actor: EVENT_ACTORS.PROCESSOR, reason: "Generated from signals" }
+                    : { actor: EVENT_ACTORS.USER, reason: "Written" }),
                 thoughts: connectThoughts,
                 signals: connectSignals,
             },
@@ -119,98 +146,127 @@ export async function POST(request: NextRequest) {
             }
         });
 
+        await markSignalsProcessed(insight.signals.map((s) => s.id), {
+            actor: EVENT_ACTORS.PROCESSOR,
+            reason: "Insight generated",
+        });
+
         return NextResponse.json({
             success: true,
             insight: insight,
         }, { status: 201 });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error creating insight:", error);
         return NextResponse.json(
             { error: "Failed to create insight" },
             { status: 500 }
         );
     }
-}
+}, { service: true, scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH, API_TOKEN_SCOPES.CALLBACKS] });
 
 /**
  * PATCH /api/insights
  * 
- * Update an insight or trigger format/publish
+ * Update an insight's copy, or move it through its lifecycle (see lib/lifecycle)
+ * 
+ * Request body:
+ * - id: Insight ID (required)
+ * - action: "publish" (now), "schedule" or "unschedule" (optional)
+ * - scheduledFor: ISO date to publish at, for "schedule"
+ * - coreInsight, preview: Edited copy, without an action; not while publishing or published
+ *
+ * Publishing and scheduling need the publish permission.
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, _context: unknown, principal) => {
     try {
-        const body = await request.json();
+        const body = await parseBody(request, insightUpdateSchema);
+
+        if (body.action && !hasPermission(principal, PERMISSIONS.PUBLISH)) {
+            return forbidden(PERMISSIONS.PUBLISH);
+        }
+
+        const current = await prisma.insight.findUnique({
+            where: { id: body.id },
+        });
 
-        if (!body.id) {
+        if (!current) {
             return NextResponse.json(
-                { error: "id is required" },
-                { status: 400 }
+                { error: "Insight not found" },
+                { status: 404 }
             );
         }
 
-
         // Handle publish action
         if (body.action === "publish") {
-            const insight = await prisma.insight.findUnique({
-                where: { id: body.id },
-            });
-
-            if (!insight || (!insight.preview && !insight.coreInsight)) {
+            if (!current.preview && !current.coreInsight) {
                 return NextResponse.json(
                     { error: "Insight must have content before publishing" },
                     { status: 400 }
                 );
             }
 
-            // Set status to publishing immediately
-            await prisma.insight.update({
-                where: { id: insight.id },
-                data: { status: "publishing" }
-            });
+            // The publish call is queued on entering publishing; the job stores a
+            // synchronous confirmation, otherwise n8n calls back to /api/insights/confirm
+            const transition = await transitionInsight(current.id, INSIGHT_STATUS.PUBLISHING, {
+                actor: EVENT_ACTORS.USER,
+                reason: current.status === INSIGHT_STATUS.PUBLISH_FAILED ? "Retried" : "Published now",
+            }, { scheduledFor: null });
 
-            const result = await triggerPublish({
-                insightId: insight.id,
-                formattedContent: insight.preview || insight.coreInsight,
-                platform: insight.previewPlatform || "linkedin",
-            });
+            const job = transition?.job;
+            if (job) after(() => runJobNow(job.id));
 
-            if (!result.success) {
-                // Revert status on failure
-                await prisma.insight.update({
-                    where: { id: insight.id },
-                    data: { status: "draft" }
-                });
+            return NextResponse.json({
+                success: true,
+                message: "Publish request queued",
+                jobId: job?.id,
+            }, { status: 202 });
+        }
+
+        if (body.action === "schedule" && body.scheduledFor) {
+            const { scheduledFor } = body;
+            const transition = await transitionInsight(current.id, INSIGHT_STATUS.SCHEDULED, {
+                actor: EVENT_ACTORS.USER,
+                reason: `Scheduled for ${scheduledFor.toISOString()}`,
+            }, { scheduledFor });
+
+            return NextResponse.json({
+                success: true,
+                insight: transition?.insight,
+            });
+        }
 
+        if (body.action === "unschedule") {
+            if (current.status !== INSIGHT_STATUS.SCHEDULED) {
                 return NextResponse.json(
-                    { error: result.error },
-                    { status: 502 }
+                    { error: "Insight is not scheduled" },
+                    { status: 409 }
                 );
             }
 
-            // Handle synchronous success response from n8n
-            if (result.data && result.data.status === "success" && result.data.postUrl) {
-                const pubInsight = await prisma.insight.update({
-                    where: { id: insight.id },
-                    data: {
-                        status: "published",
-                        publishedUrl: result.data.postUrl,
-                        publishedAt: new Date(),
-                    },
-                });
-
-                return NextResponse.json({
-                    success: true,
-                    message: "Insight published successfully",
-                    insight: pubInsight
-                });
-            }
+            const transition = await transitionInsight(
+                current.id,
+                current.preview ? INSIGHT_STATUS.PREVIEWING : INSIGHT_STATUS.DRAFT,
+                { actor: EVENT_ACTORS.USER, reason: "Unscheduled" },
+                { scheduledFor: null }
+            );
 
             return NextResponse.json({
                 success: true,
-                message: "Publish request sent to n8n",
+                insight: transition?.insight,
             });
         }
 
+        if (!isInsightEditable(current.status)) {
+            return NextResponse.json(
+                { error: `Insight cannot be edited while ${current.status}` },
+                { status: 409 }
+            );
+        }
+
         // Regular update
         const insight = await prisma.insight.update({
             where: { id: body.id },
@@ -225,30 +281,32 @@ export async function PATCH(request: NextRequest) {
             insight,
         });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof InvalidTransitionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+
         console.error("Error updating insight:", error);
         return NextResponse.json(
             { error: "Failed to update insight" },
             { status: 500 }
         );
     }
-}
+}, { scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH] });
 
 /**
  * DELETE /api/insights
  * 
  * Delete an insight
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const id = searchParams.get("id");
-
-        if (!id) {
-            return NextResponse.json(
-                { error: "id is required" },
-                { status: 400 }
-            );
-        }
+        const { id } = parseQuery(new URL(request.url).searchParams, idQuerySchema);
 
         // Unlink thoughts first
         await prisma.thought.updateMany({
@@ -262,10 +320,14 @@ export async function DELETE(request: NextRequest) {
 
         return NextResponse.json({ success: true });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error deleting insight:", error);
         return NextResponse.json(
             { error: "Failed to delete insight" },
             { status: 500 }
         );
     }
-}
+}, { scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH] });
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { processDueJobs, retryDeadJob } from "@/lib/jobs";
+import { publishDueInsights } from "@/lib/lifecycle";
+import { API_TOKEN_SCOPES, JOB_BATCH_SIZE } from "@/lib/constants";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { jobListQuerySchema, jobRetrySchema, jobRunSchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/jobs
+ * 
+ * List outbound webhook jobs, newest first
+ * 
+ * Query parameters:
+ * - status: Filter by job status (pending, running, succeeded, dead)
+ * - limit: Maximum jobs to return (default: 50)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const { status, limit } = parseQuery(new URL(request.url).searchParams, jobListQuerySchema);
+
+        const jobs = await prisma.webhookJob.findMany({
+            where: status ? { status } : {},
+            orderBy: { createdAt: "desc" },
+            take: limit,
+        });
+
+        return NextResponse.json({ jobs });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error fetching jobs:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch jobs" },
+            { status: 500 }
+        );
+    }
+}, { service: true });
+
+/**
+ * POST /api/jobs
+ * 
+ * Start scheduled insights that are due, then run all due jobs once.
+ * Intended for a cron trigger when the standalone worker
+ * (scripts/job_worker.ts) is not running.
+ * 
+ * Request body (optional):
+ * - limit: Maximum number of jobs to run (default: 10)
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, jobRunSchema);
+        const scheduled = await publishDueInsights();
+        const processed = await processDueJobs(body.limit ?? JOB_BATCH_SIZE);
+
+        return NextResponse.json({
+            success: true,
+            scheduled,
+            processed,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error processing jobs:", error);
+        return NextResponse.json(
+            { error: "Failed to process jobs" },
+            { status: 500 }
+        );
+    }
+}, { service: true, scopes: [API_TOKEN_SCOPES.CALLBACKS] });
+
+/**
+ * PATCH /api/jobs
+ * 
+ * Requeue a job from the dead-letter state
+ * 
+ * Request body:
+ * - id: Job ID (required)
+ * - action: "retry" (required)
+ */
+export const PATCH = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, jobRetrySchema);
+
+        const job = await retryDeadJob(body.id);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: "Job not found or not in dead-letter state" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            job,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error retrying job:", error);
+        return NextResponse.json(
+            { error: "Failed to retry job" },
+            { status: 500 }
+        );
+    }
+}, { service: true, scopes: [API_TOKEN_SCOPES.CALLBACKS] });
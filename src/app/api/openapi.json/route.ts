@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getOpenApiDocument } from "@/lib/openapi";
+
+/**
+ * GET /api/openapi.json
+ *
+ * OpenAPI 3.1 document of the API, generated from the schemas the routes
+ * validate with. Browsable at /api-docs.
+ */
+export async function GET() {
+    try {
+        return NextResponse.json(getOpenApiDocument());
+    } catch (error) {
+        console.error("Error building OpenAPI document:", error);
+        return NextResponse.json(
+            { error: "Failed to build OpenAPI document" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { search } from "@/lib/search";
+import { ValidationError, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { searchQuerySchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/search
+ *
+ * Full-text search across signals, highlights, thoughts and insights.
+ * Hits are ranked and include an HTML-escaped snippet with matches
+ * wrapped in <mark>. Facet counts by type, source and tag cover all
+ * matches of the query, before filters.
+ *
+ * Query parameters:
+ * - q: Search query, web search syntax ("phrase", or, -exclude) (required)
+ * - type: Comma-separated record types (signal, highlight, thought, insight)
+ * - source: Only hits whose signal has this source
+ * - tag: Only hits whose signal has this tag or one of its narrower topics
+ * - limit: Maximum hits to return (default: 20)
+ * - offset: Pagination offset (default: 0)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const query = parseQuery(new URL(request.url).searchParams, searchQuerySchema);
+
+        const results = await search({
+            query: query.q,
+            types: query.type,
+            source: query.source,
+            tag: query.tag,
+            limit: query.limit,
+            offset: query.offset,
+        });
+
+        return NextResponse.json(results);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error searching:", error);
+        return NextResponse.json(
+            { error: "Failed to search" },
+            { status: 500 }
+        );
+    }
+});
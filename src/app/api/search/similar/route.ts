@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { findSimilar } from "@/lib/similarity";
+import { ValidationError, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { similarQuerySchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/search/similar
+ *
+ * Semantic similarity search: signals, highlights and thoughts closest in
+ * meaning to the query text, most similar first
+ *
+ * Query parameters:
+ * - q: Text to compare against (required)
+ * - limit: Maximum results per record type (default: 5)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const { q, limit } = parseQuery(new URL(request.url).searchParams, similarQuerySchema);
+
+        return NextResponse.json(await findSimilar(q, limit));
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error searching similar records:", error);
+        return NextResponse.json(
+            { error: "Failed to search similar records" },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { DELIVERY_DIRECTION, PERMISSIONS } from "@/lib/constants";
+import { replayDelivery } from "@/lib/webhooks";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/settings/deliveries/[id]/replay
+ * 
+ * Re-send the request body of a recorded outbound delivery
+ */
+export const POST = withAuth(async (request: Request, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const delivery = await prisma.webhookDelivery.findUnique({
+            where: { id },
+        });
+
+        if (!delivery) {
+            return NextResponse.json(
+                { error: "Delivery not found" },
+                { status: 404 }
+            );
+        }
+
+        if (delivery.direction !== DELIVERY_DIRECTION.OUTBOUND) {
+            return NextResponse.json(
+                { error: "Only outbound deliveries can be replayed" },
+                { status: 400 }
+            );
+        }
+
+        const result = await replayDelivery(id);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error },
+                { status: 502 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            status: result.status,
+            message: "Delivery replayed",
+        });
+    } catch (error) {
+        console.error("Error replaying delivery:", error);
+        return NextResponse.json(
+            { error: "Failed to replay delivery" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { PERMISSIONS } from "@/lib/constants";
+import { ValidationError, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { deliveryListQuerySchema } from "@/lib/schemas";
+import type { Prisma } from "@prisma/client";
+import type { DeliveriesResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/settings/deliveries
+ * 
+ * Fetch the webhook delivery history, newest first
+ * 
+ * Query parameters:
+ * - direction: outbound or inbound
+ * - name: Webhook name (ingest, generate, publish)
+ * - outcome: success (2xx) or failed (non-2xx or no response)
+ * - limit: Maximum deliveries to return (default: 50)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const { direction, name, outcome, limit } = parseQuery(
+            new URL(request.url).searchParams,
+            deliveryListQuerySchema
+        );
+
+        const where: Prisma.WebhookDeliveryWhereInput = {};
+        if (direction) where.direction = direction;
+        if (name) where.webhookName = name;
+        if (outcome === "success") where.status = { gte: 200, lt: 300 };
+        if (outcome === "failed") {
+            where.OR = [
+                { status: null },
+                { status: { lt: 200 } },
+                { status: { gte: 300 } },
+            ];
+        }
+
+        const deliveries = await prisma.webhookDelivery.findMany({
+            where,
+            orderBy: { createdAt: "desc" },
+            take: limit,
+        });
+
+        const response: DeliveriesResponse = { deliveries };
+        return NextResponse.json(response);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error fetching webhook deliveries:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch webhook deliveries" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { PERMISSIONS, PROCESSOR_NAMES, WEBHOOK_NAMES } from "@/lib/constants";
+import { resolveProcessorName } from "@/lib/processors";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { processorConfigSchema } from "@/lib/schemas";
+
+/**
+ * GET /api/settings/processors
+ * 
+ * Get the processor that runs each pipeline stage and where that
+ * choice comes from (settings, env or default)
+ */
+export const GET = withAuth(async () => {
+    try {
+        const stages = await Promise.all(
+            Object.values(WEBHOOK_NAMES).map(async (stage) => ({
+                stage,
+                ...(await resolveProcessorName(stage)),
+            }))
+        );
+
+        return NextResponse.json({
+            stages,
+            processors: Object.values(PROCESSOR_NAMES),
+        });
+    } catch (error) {
+        console.error("Error fetching processor configs:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch processor configs" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
+
+/**
+ * POST /api/settings/processors
+ * 
+ * Set the processor for a pipeline stage of the current workspace
+ * 
+ * Request body:
+ * - stage: "ingest" | "generate" | "publish" (required)
+ * - processor: "n8n" | "local" | "mock", or null to fall back to env/default
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const { stage, processor } = await parseBody(request, processorConfigSchema);
+
+        if (processor === null) {
+            await prisma.processorConfig.deleteMany({ where: { stage } });
+        } else {
+            const existing = await prisma.processorConfig.findFirst({
+                where: { workspaceId: null, stage },
+            });
+
+            if (existing) {
+                await prisma.processorConfig.update({
+                    where: { id: existing.id },
+                    data: { processor },
+                });
+            } else {
+                await prisma.processorConfig.create({
+                    data: { stage, processor },
+                });
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            stage,
+            ...(await resolveProcessorName(stage)),
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error saving processor config:", error);
+        return NextResponse.json(
+            { error: "Failed to save processor config" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
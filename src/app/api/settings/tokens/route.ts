@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createApiToken, listApiTokens, revokeApiToken, withAuth } from "@/lib/auth";
+import { PERMISSIONS } from "@/lib/constants";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { apiTokenCreateSchema, idQuerySchema } from "@/lib/schemas";
+import type { ApiTokenCreatedResponse, ApiTokensResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/settings/tokens
+ *
+ * The signed-in user's API tokens in the current workspace. Tokens
+ * themselves are never shown again, only their first characters.
+ */
+export const GET = withAuth(async (_request: NextRequest, _context: unknown, principal) => {
+    try {
+        const response: ApiTokensResponse = {
+            tokens: await listApiTokens(principal.user.id, principal.workspace!.id),
+        };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error("Error fetching API tokens:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch API tokens" },
+            { status: 500 }
+        );
+    }
+}, { scopes: [] });
+
+/**
+ * POST /api/settings/tokens
+ *
+ * Create an API token that acts as the signed-in user in the current
+ * workspace. It can do what both the user's role and its scopes allow,
+ * so any member may create one.
+ *
+ * Request body:
+ * - name: What the token is for (required)
+ * - scopes: read, ingest, signals:write, insights:publish, callbacks (at least one)
+ * - expiresAt: ISO date when it stops working (optional)
+ */
+export const POST = withAuth(async (request: NextRequest, _context: unknown, principal) => {
+    try {
+        const body = await parseBody(request, apiTokenCreateSchema);
+
+        const { token, apiToken } = await createApiToken(principal.user.id, principal.workspace!.id, body);
+
+        const response: ApiTokenCreatedResponse = { success: true, token, apiToken };
+        return NextResponse.json(response, { status: 201 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error creating API token:", error);
+        return NextResponse.json(
+            { error: "Failed to create API token" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.READ, scopes: [] });
+
+/**
+ * DELETE /api/settings/tokens?id=
+ *
+ * Revoke one of the signed-in user's API tokens
+ */
+export const DELETE = withAuth(async (request: NextRequest, _context: unknown, principal) => {
+    try {
+        const { id } = parseQuery(new URL(request.url).searchParams, idQuerySchema);
+
+        if (!await revokeApiToken(principal.user.id, id)) {
+            return NextResponse.json(
+                { error: "API token not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error revoking API token:", error);
+        return NextResponse.json(
+            { error: "Failed to revoke API token" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
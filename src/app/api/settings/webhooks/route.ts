@@ -1,18 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { PERMISSIONS, SECRET_ROTATION_GRACE_MS } from "@/lib/constants";
+import { generateWebhookSecret } from "@/lib/signatures";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { webhookConfigSchema, webhookDeleteQuerySchema, webhookRotateSchema } from "@/lib/schemas";
+import type { WebhookConfigsResponse } from "@/lib/types";
 
 /**
  * GET /api/settings/webhooks
  * 
- * Get all webhook configurations
+ * Get the webhook configurations of the workspace. Like every change to
+ * them, this needs the manage permission, since it shows the secrets.
  */
-export async function GET() {
+export const GET = withAuth(async () => {
     try {
         const configs = await prisma.webhookConfig.findMany({
             orderBy: { name: "asc" },
         });
 
-        return NextResponse.json({ configs });
+        const response: WebhookConfigsResponse = { configs };
+        return NextResponse.json(response);
     } catch (error) {
         console.error("Error fetching webhook configs:", error);
         return NextResponse.json(
@@ -20,39 +28,84 @@ export async function GET() {
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
 
 /**
  * POST /api/settings/webhooks
  * 
- * Create or update a webhook configuration
+ * Create or update a webhook configuration.
+ * New configurations get a signing secret generated automatically.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     try {
-        const body = await request.json();
+        const body = await parseBody(request, webhookConfigSchema);
 
-        if (!body.name || !body.url) {
-            return NextResponse.json(
-                { error: "name and url are required" },
-                { status: 400 }
-            );
+        // Upsert the workspace's config
+        const existing = await prisma.webhookConfig.findFirst({
+            where: { name: body.name },
+        });
+        const config = existing
+            ? await prisma.webhookConfig.update({
+                where: { id: existing.id },
+                data: { url: body.url },
+            })
+            : await prisma.webhookConfig.create({
+                data: { name: body.name, url: body.url, secret: generateWebhookSecret() },
+            });
+
+        return NextResponse.json({
+            success: true,
+            config,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
         }
 
-        // Validate URL format
-        try {
-            new URL(body.url);
-        } catch {
+        console.error("Error saving webhook config:", error);
+        return NextResponse.json(
+            { error: "Failed to save webhook config" },
+            { status: 500 }
+        );
+    }
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
+
+/**
+ * PATCH /api/settings/webhooks
+ * 
+ * Rotate the signing secret of a webhook configuration.
+ * The previous secret stays valid for SECRET_ROTATION_GRACE_MS so n8n
+ * can be updated without dropping callbacks.
+ * 
+ * Request body:
+ * - name: Webhook configuration name (required)
+ * - action: "rotate_secret" (required)
+ */
+export const PATCH = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, webhookRotateSchema);
+
+        const existing = await prisma.webhookConfig.findFirst({
+            where: { name: body.name },
+        });
+
+        if (!existing) {
             return NextResponse.json(
-                { error: "Invalid URL format" },
-                { status: 400 }
+                { error: "Webhook config not found" },
+                { status: 404 }
             );
         }
 
-        // Upsert the config
-        const config = await prisma.webhookConfig.upsert({
-            where: { name: body.name },
-            update: { url: body.url },
-            create: { name: body.name, url: body.url },
+        // A config without a secret has nothing to keep alive during the grace window
+        const config = await prisma.webhookConfig.update({
+            where: { id: existing.id },
+            data: {
+                secret: generateWebhookSecret(),
+                previousSecret: existing.secret,
+                previousSecretExpiresAt: existing.secret
+                    ? new Date(Date.now() + SECRET_ROTATION_GRACE_MS)
+                    : null,
+            },
         });
 
         return NextResponse.json({
@@ -60,41 +113,41 @@ export async function POST(request: NextRequest) {
             config,
         });
     } catch (error) {
-        console.error("Error saving webhook config:", error);
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error rotating webhook secret:", error);
         return NextResponse.json(
-            { error: "Failed to save webhook config" },
+            { error: "Failed to rotate webhook secret" },
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
 
 /**
  * DELETE /api/settings/webhooks
  * 
  * Delete a webhook configuration
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const name = searchParams.get("name");
+        const { name } = parseQuery(new URL(request.url).searchParams, webhookDeleteQuerySchema);
 
-        if (!name) {
-            return NextResponse.json(
-                { error: "name is required" },
-                { status: 400 }
-            );
-        }
-
-        await prisma.webhookConfig.delete({
+        await prisma.webhookConfig.deleteMany({
             where: { name },
         });
 
         return NextResponse.json({ success: true });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error deleting webhook config:", error);
         return NextResponse.json(
             { error: "Failed to delete webhook config" },
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.MANAGE, scopes: [] });
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { getBlob } from "@/lib/blobs";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/signals/[id]/file
+ * 
+ * Download the original file a signal was ingested from
+ */
+export const GET = withAuth(async (request: Request, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const signal = await prisma.signal.findUnique({
+            where: { id },
+            select: { fileKey: true, fileName: true, fileType: true },
+        });
+
+        if (!signal?.fileKey) {
+            return NextResponse.json(
+                { error: "Signal has no file" },
+                { status: 404 }
+            );
+        }
+
+        const bytes = await getBlob(signal.fileKey);
+        const fileName = signal.fileName || signal.fileKey;
+
+        return new NextResponse(new Uint8Array(bytes), {
+            headers: {
+                "Content-Type": signal.fileType || "application/octet-stream",
+                "Content-Length": String(bytes.length),
+                "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+                "X-Content-Type-Options": "nosniff",
+            },
+        });
+    } catch (error) {
+        console.error("Error fetching signal file:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch signal file" },
+            { status: 500 }
+        );
+    }
+});
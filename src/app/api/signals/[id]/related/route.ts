@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { findRelated } from "@/lib/similarity";
+import { ValidationError, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { relatedQuerySchema } from "@/lib/schemas";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/signals/[id]/related
+ * 
+ * Fetch other signals, highlights and thoughts on the same idea, by
+ * semantic similarity, most similar first
+ *
+ * Query parameters:
+ * - limit: Maximum results per record type (default: 5)
+ */
+export const GET = withAuth(async (request: Request, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const { limit } = parseQuery(new URL(request.url).searchParams, relatedQuerySchema);
+
+        const related = await findRelated(id, limit);
+
+        if (!related) {
+            return NextResponse.json(
+                { error: "Signal not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(related);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error fetching related records:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch related records" },
+            { status: 500 }
+        );
+    }
+});
@@ -1,6 +1,18 @@
-import { NextResponse } from "next/server";
+import { NextResponse, after } from "next/server";
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
-import { notFound } from "next/navigation";
+import { withAuth } from "@/lib/auth";
+import { latestJobArgs, runJobNow } from "@/lib/jobs";
+import { InvalidTransitionError, canTransition, transitionSignal } from "@/lib/lifecycle";
+import { EVENT_ACTORS } from "@/lib/constants";
+import type { SignalStatus } from "@/lib/constants";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { signalUpdateSchema } from "@/lib/schemas";
+import { tagArgs, withTagNames } from "@/lib/tags";
+import { canonicalTagNames, replaceTags } from "@/lib/taxonomy";
+import { reanchorHighlights } from "@/lib/highlights";
+import { embedRecord } from "@/lib/similarity";
+import type { SignalDetail } from "@/lib/types";
 
 interface Params {
     params: Promise<{ id: string }>;
@@ -11,7 +23,7 @@ interface Params {
  * 
  * Fetch a single signal by ID with all related data
  */
-export async function GET(request: Request, { params }: Params) {
+export const GET = withAuth(async (request: Request, { params }: Params) => {
     const { id } = await params;
 
     try {
@@ -20,10 +32,27 @@ export async function GET(request: Request, { params }: Params) {
             include: {
                 highlights: {
                     orderBy: { createdAt: "asc" },
+                    include: {
+                        section: { select: { kind: true, label: true } },
+                    },
                 },
                 thoughts: {
                     orderBy: { createdAt: "desc" },
+                    include: {
+                        highlight: { select: { id: true, text: true, startTime: true } },
+                    },
                 },
+                sections: {
+                    orderBy: { position: "asc" },
+                },
+                sightings: {
+                    orderBy: { createdAt: "desc" },
+                },
+                events: {
+                    orderBy: { createdAt: "asc" },
+                },
+                tags: tagArgs,
+                jobs: latestJobArgs,
             },
         });
 
@@ -34,10 +63,8 @@ export async function GET(request: Request, { params }: Params) {
             );
         }
 
-        return NextResponse.json({
-            ...signal,
-            tags: JSON.parse(signal.tags),
-        });
+        const response: SignalDetail = withTagNames(signal);
+        return NextResponse.json(response);
     } catch (error) {
         console.error("Error fetching signal:", error);
         return NextResponse.json(
@@ -45,36 +72,96 @@ export async function GET(request: Request, { params }: Params) {
             { status: 500 }
         );
     }
-}
+});
 
 /**
  * PATCH /api/signals/[id]
  * 
- * Update a signal
+ * Update a signal's title, content, summary, source or author. `tags` (an
+ * array of names) replaces all of its tags; aliases are stored as the tags
+ * they stand for. `status` moves the signal through its lifecycle (see
+ * lib/lifecycle), with an optional `reason`. Other fields are rejected.
+ * Changed content re-anchors the signal's highlights (see lib/highlights);
+ * a changed title, summary or content re-embeds the signal.
  */
-export async function PATCH(request: Request, { params }: Params) {
+export const PATCH = withAuth(async (request: Request, { params }: Params) => {
     const { id } = await params;
 
     try {
-        const body = await request.json();
+        const { tags, status, reason, ...body } = await parseBody(request, signalUpdateSchema);
 
-        const signal = await prisma.signal.update({
+        // Reject an unreachable status before anything is written
+        if (status !== undefined) {
+            const current = await prisma.signal.findUnique({ where: { id }, select: { status: true } });
+            if (!current) {
+                return NextResponse.json(
+                    { error: "Signal not found" },
+                    { status: 404 }
+                );
+            }
+
+            const from = current.status as SignalStatus;
+            if (from !== status && !canTransition(from, status)) {
+                throw new InvalidTransitionError("signal", from, status);
+            }
+        }
+
+        // The embedded text changes with these; a cleared model marks the vector stale
+        const reembed = body.title !== undefined || body.summary !== undefined || body.content !== undefined;
+
+        // Fields first, so a failed update leaves the status and its follow-up job untouched
+        let signal = await prisma.signal.update({
             where: { id },
-            data: body,
+            data: {
+                ...body,
+                tags: tags !== undefined ? await replaceTags(await canonicalTagNames(tags)) : undefined,
+                ...(reembed ? { embeddingModel: null } : {}),
+            },
+            include: { tags: tagArgs },
         });
+        if (body.content !== undefined) await reanchorHighlights(id);
+        if (reembed) after(() => embedRecord("signal", id));
+
+        if (status !== undefined) {
+            const transition = await transitionSignal(id, status, {
+                actor: EVENT_ACTORS.USER,
+                reason,
+            });
+
+            if (transition) {
+                const { status: newStatus, updatedAt } = transition.signal;
+                signal = { ...signal, status: newStatus, updatedAt };
+
+                const { job } = transition;
+                if (job) after(() => runJobNow(job.id));
+            }
+        }
 
         return NextResponse.json({
             success: true,
-            signal: {
-                ...signal,
-                tags: JSON.parse(signal.tags),
-            },
+            signal: withTagNames(signal),
         });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof InvalidTransitionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Signal not found" },
+                { status: 404 }
+            );
+        }
+
         console.error("Error updating signal:", error);
         return NextResponse.json(
             { error: "Failed to update signal" },
             { status: 500 }
         );
     }
-}
+});
@@ -1,8 +1,24 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
 import { formatN8nDataToMarkdown } from "@/lib/formatters";
-import { SIGNAL_STATUS, TITLE_MAX_LENGTH } from "@/lib/constants";
+import { EVENT_ACTORS, SIGNAL_STATUS, TITLE_MAX_LENGTH, WEBHOOK_NAMES } from "@/lib/constants";
+import { verifyCallback } from "@/lib/signatures";
+import { withInboundDeliveryLog } from "@/lib/deliveries";
+import { recordScope, runInWorkspace } from "@/lib/ownership";
+import { SignalNotProcessingError, hasSignalSections, updateProcessingSignal } from "@/lib/signals";
+import { reanchorHighlights } from "@/lib/highlights";
+import { findProcessingPlaceholder, hashText, normalizeUrl } from "@/lib/dedup";
+import { canonicalizeUrl } from "@/lib/canonical";
+import { embedRecord } from "@/lib/similarity";
+import { resolveTopics, suggestTopics } from "@/lib/taxonomy";
+import { initialSignalEvent, transitionSignal } from "@/lib/lifecycle";
+import { ValidationError, parseJson, validationErrorResponse } from "@/lib/validation";
+import { signalReceiveSchema } from "@/lib/schemas";
+import type { z } from "zod";
+import type { ResolvedTopics } from "@/lib/taxonomy";
 import type { N8nResponse } from "@/lib/types";
+import type { InboundDelivery } from "@/lib/deliveries";
 
 /**
  * POST /api/signals/receive
@@ -15,93 +31,50 @@ import type { N8nResponse } from "@/lib/types";
  * - Nested structure: { output: { summary, key_insights, ... } }
  * - Array structure: [{ output: { ... } }]
  * 
+ * Requests must be signed with the ingest webhook secret, or send an API token
+ * with the callbacks scope (see lib/signatures).
+ * 
  * @param request - Next.js request object containing n8n payload
  * @returns JSON response with created signal ID
  */
-export async function POST(request: NextRequest) {
-    try {
-        const body = await request.json();
-        console.log("Receive webhook payload:", JSON.stringify(body, null, 2));
+export const POST = withInboundDeliveryLog(WEBHOOK_NAMES.INGEST, receiveSignal);
 
-        // Extract data from potentially nested structure
-        const data = extractN8nData(body);
-
-        // Validate essential data is present
-        if (!data.summary && !data.key_insights && !data.title) {
+async function receiveSignal(request: NextRequest, delivery: InboundDelivery) {
+    try {
+        const verification = await verifyCallback(request, WEBHOOK_NAMES.INGEST);
+        if (!verification.valid) {
             return NextResponse.json(
-                { error: "Invalid payload: missing summary or insights" },
-                { status: 400 }
+                { error: verification.error },
+                { status: verification.status }
             );
         }
+        delivery.workspaceId = verification.workspaceId;
 
-        // Create or Update Signal from extracted data
-        let signalId = data.signalId;
-        let signal;
-
-        // If no ID provided, try to find a matching placeholder signal (deduplication)
-        if (!signalId) {
-            console.log("No signalId provided, attempting deduplication...");
-
-            // Look for recent signals (created in last 10 mins) that are in processing state
-            const fiveMinsAgo = new Date(Date.now() - 10 * 60 * 1000);
-
-            const whereClause: any = {
-                status: "processing", // Only match pending placeholders
-                createdAt: { gte: fiveMinsAgo },
-            };
-
-            // Match by URL if available
-            if (data.sourceUrl) {
-                whereClause.sourceUrl = data.sourceUrl;
-            }
-            // OR match by Raw Content (for text notes) - crude but helpful 
-            else if (data.content && data.content.length > 20) {
-                // We can't query rawContent easily if it's large text search, 
-                // so we might skip text deduplication or rely on source=text
-                // Let's rely on sourceUrl first.
-                // For text, we might leave it as new unless we stored a hash.
-            }
-
-            if (whereClause.sourceUrl) {
-                const existing = await prisma.signal.findFirst({
-                    where: whereClause,
-                    orderBy: { createdAt: 'desc' }
-                });
-
-                if (existing) {
-                    console.log(`Found matching placeholder signal: ${existing.id}`);
-                    signalId = existing.id;
-                }
-            }
-        }
-
-        if (signalId) {
-            console.log("Updating existing signal:", signalId);
-            signal = await prisma.signal.update({
-                where: { id: signalId },
-                data: {
-                    title: data.title || data.summary?.substring(0, TITLE_MAX_LENGTH) || undefined,
-                    content: data.content || formatN8nDataToMarkdown(data),
-                    summary: data.summary,
-                    rawContent: data.rawContent,
-                    tags: data.topics ? JSON.stringify(data.topics) : undefined,
-                    status: SIGNAL_STATUS.UNREAD, // Mark as ready for review
-                },
-            });
-        } else {
-            console.log("Creating new signal (no ID or match found)");
-            signal = await createSignalFromWebhook(data);
-        }
+        // Unwraps the nested structure and checks that essential data is present
+        const data = parseJson(verification.body, signalReceiveSchema);
+        console.log("Receive webhook payload:", JSON.stringify(data, null, 2));
 
-        console.log("Processed signal:", signal.id);
-
-        return NextResponse.json({
-            success: true,
-            signalId: signal.id,
-            message: signalId ? "Signal updated" : "Signal created",
-        }, { status: 201 });
+        // The signal belongs to the workspace whose ingest secret signed the callback
+        return await runInWorkspace(recordScope(verification), () => storeSignal(data));
 
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof SignalNotProcessingError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            // Unknown signalId, or one from another workspace; retrying will not help
+            return NextResponse.json(
+                { error: "Signal not found" },
+                { status: 404 }
+            );
+        }
+
         console.error("Error receiving signal:", error);
         return NextResponse.json(
             { error: "Failed to process signal" },
@@ -115,46 +88,81 @@ export async function POST(request: NextRequest) {
 // ============================================================================
 
 /**
- * Extracts n8n data from various payload structures
- * 
- * Handles multiple formats:
- * 1. Direct object: { summary, key_insights, ... }
- * 2. Nested in output: { output: { summary, ... } }
- * 3. Array format: [{ output: { ... } }]
+ * Updates the placeholder signal of processed data, or creates a signal
  * 
- * @param body - Raw webhook payload
- * @returns Normalized N8nResponse data
+ * @param data - Unwrapped callback payload
+ * @returns 201 response with the signal ID
  */
-function extractN8nData(body: unknown): N8nResponse {
-    // Handle array format
-    if (Array.isArray(body) && body.length > 0) {
-        const firstItem = body[0];
-        return (firstItem.output as N8nResponse) || (firstItem as N8nResponse);
+async function storeSignal(data: z.output<typeof signalReceiveSchema>) {
+    // Map topics to canonical tags; unknown ones are queued for approval
+    const topics = data.topics ? await resolveTopics(data.topics) : null;
+
+    // Create or Update Signal from extracted data
+    let signalId = data.signalId;
+    let signal;
+
+    // If no ID provided, try to find a matching placeholder signal (deduplication)
+    if (!signalId) {
+        console.log("No signalId provided, attempting deduplication...");
+
+        const existing = await findProcessingPlaceholder(data.sourceUrl, data.rawContent);
+        if (existing) {
+            console.log(`Found matching placeholder signal: ${existing.id}`);
+            signalId = existing.id;
+        }
     }
 
-    // Handle object format
-    if (body && typeof body === 'object') {
-        const obj = body as Record<string, unknown>;
-
-        // Check if data is nested in 'output' field
-        if (obj.output && typeof obj.output === 'object') {
-            // Merge top-level props (like source, sourceUrl) with nested output
-            return { ...obj, ...(obj.output as object) } as N8nResponse;
-        }
+    if (signalId) {
+        console.log("Updating existing signal:", signalId);
+        // Keep locally extracted content that sections point into
+        const content = await hasSignalSections(signalId)
+            ? undefined
+            : data.content || formatN8nDataToMarkdown(data);
+        signal = await updateProcessingSignal(signalId, {
+            title: data.title || data.summary?.substring(0, TITLE_MAX_LENGTH) || undefined,
+            content,
+            summary: data.summary,
+            rawContent: data.rawContent,
+            tags: topics ? { set: topics.tagIds.map((tagId) => ({ id: tagId })) } : undefined,
+        });
+        // Highlights made before the re-write are found again in the new content
+        if (content !== undefined) await reanchorHighlights(signalId);
+
+        // Mark as ready for review
+        const transition = await transitionSignal(signalId, SIGNAL_STATUS.UNREAD, {
+            actor: EVENT_ACTORS.PROCESSOR,
+            reason: "Processed",
+        });
+        signal = transition?.signal ?? signal;
+    } else {
+        console.log("Creating new signal (no ID or match found)");
+        signal = await createSignalFromWebhook(data, topics);
+    }
 
-        return body as N8nResponse;
+    if (topics) {
+        await suggestTopics(signal.id, topics.unknown);
     }
 
-    return {};
+    console.log("Processed signal:", signal.id);
+
+    const processedId = signal.id;
+    after(() => embedRecord("signal", processedId));
+
+    return NextResponse.json({
+        success: true,
+        signalId: signal.id,
+        message: signalId ? "Signal updated" : "Signal created",
+    }, { status: 201 });
 }
 
 /**
  * Creates a Signal database record from webhook data
  * 
  * @param data - Extracted n8n response data
+ * @param topics - Topics of the data resolved against the taxonomy
  * @returns Created Signal record
  */
-async function createSignalFromWebhook(data: N8nResponse) {
+async function createSignalFromWebhook(data: N8nResponse, topics: ResolvedTopics | null) {
     const title = data.title
         || data.summary?.substring(0, TITLE_MAX_LENGTH)
         || "Extracted Insight";
@@ -162,7 +170,6 @@ async function createSignalFromWebhook(data: N8nResponse) {
     // 'content' is the actual cleaned up content for display.
     // Fall back to formatted markdown if data.content is missing.
     const content = data.content || formatN8nDataToMarkdown(data);
-    const tags = data.topics || [];
 
     return await prisma.signal.create({
         data: {
@@ -170,10 +177,17 @@ async function createSignalFromWebhook(data: N8nResponse) {
             content,
             summary: data.summary,
             source: data.source || "n8n",
-            sourceUrl: data.sourceUrl,
+            sourceUrl: data.sourceUrl && (canonicalizeUrl(data.sourceUrl) ?? data.sourceUrl),
+            originalUrl: data.sourceUrl,
             rawContent: data.rawContent,
-            tags: JSON.stringify(tags),
+            urlFingerprint: normalizeUrl(data.sourceUrl),
+            contentHash: hashText(data.rawContent || content),
+            tags: { connect: topics?.tagIds.map((tagId) => ({ id: tagId })) ?? [] },
             status: SIGNAL_STATUS.UNREAD,
+            events: initialSignalEvent(SIGNAL_STATUS.UNREAD, {
+                actor: EVENT_ACTORS.PROCESSOR,
+                reason: "Received from processor",
+            }),
         },
     });
 }
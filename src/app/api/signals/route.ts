@@ -1,95 +1,114 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import prisma from "@/lib/prisma";
-import { parseSignalTags } from "@/lib/formatters";
-import { DEFAULT_PAGE_LIMIT, SIGNAL_STATUS } from "@/lib/constants";
-import { triggerGenerate } from "@/lib/webhooks";
-import type { SignalsResponse, SignalWithParsedTags } from "@/lib/types";
+import { withAuth } from "@/lib/auth";
+import { tagArgs, withTagNames } from "@/lib/tags";
+import { DEFAULT_SORT_ORDERS, isCursorForSort, listSignals } from "@/lib/listing";
+import { decodeCursor } from "@/lib/pagination";
+import { EVENT_ACTORS } from "@/lib/constants";
+import { runJobNow } from "@/lib/jobs";
+import { InvalidTransitionError, transitionSignal } from "@/lib/lifecycle";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { signalListQuerySchema, signalStatusUpdateSchema } from "@/lib/schemas";
+import type { SignalsResponse } from "@/lib/types";
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/signals
  * 
- * Fetches signals with optional filtering and pagination.
+ * Fetches signals with filtering, sorting and cursor pagination.
  * 
  * Query parameters:
- * - status: Filter by signal status (unread, reviewed, archived, processed)
- * - limit: Maximum signals to return (default: 50)
- * - offset: Pagination offset (default: 0)
+ * - status: Comma-separated statuses, or repeated (unread, processing, reviewed, processed, archived)
+ * - source: Only signals with this source
+ * - feedId: Only signals created from this feed subscription
+ * - tag: Only signals with this tag or one of its narrower topics (name or alias)
+ * - from, to: Only signals created at or after `from` and before `to` (ISO dates)
+ * - hasHighlights, hasThoughts: true or false
+ * - sort: created, updated or title (default: created)
+ * - order: asc or desc (default: desc for dates, asc for title)
+ * - include: counts (highlight and thought counts) or relations (also the records) (default: counts)
+ * - limit: Maximum signals to return (default: 50, max: 100)
+ * - cursor: `nextCursor` of the previous page
  * 
  * @param request - Next.js request object
  * @returns JSON response with signals array and pagination metadata
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const status = searchParams.get("status");
-        const limit = parseInt(searchParams.get("limit") ?? String(DEFAULT_PAGE_LIMIT));
-        const offset = parseInt(searchParams.get("offset") ?? "0");
+        const query = parseQuery(new URL(request.url).searchParams, signalListQuerySchema);
+        const order = query.order ?? DEFAULT_SORT_ORDERS[query.sort];
 
-        const where = status ? { status } : {};
-
-        // Fetch signals and total count in parallel
-        const [signals, total] = await Promise.all([
-            prisma.signal.findMany({
-                where,
-                orderBy: { createdAt: "desc" },
-                take: limit,
-                skip: offset,
-                include: {
-                    highlights: true,
-                    thoughts: true,
-                },
-            }),
-            prisma.signal.count({ where }),
-        ]);
+        const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+        if (cursor === null || (cursor && !isCursorForSort(cursor, query.sort, order))) {
+            throw new ValidationError([{ field: "cursor", message: "is invalid for this sort" }]);
+        }
 
-        // Parse JSON tags for client consumption
-        const response: SignalsResponse = {
-            signals: (signals as any[]).map(signal => ({
-                ...signal,
-                tags: parseSignalTags(signal.tags),
-            })) as SignalWithParsedTags[],
-            total,
-            limit,
-            offset,
-        };
+        const response: SignalsResponse = await listSignals({
+            statuses: query.status,
+            source: query.source,
+            feedId: query.feedId,
+            tag: query.tag,
+            createdFrom: query.from,
+            createdTo: query.to,
+            hasHighlights: query.hasHighlights,
+            hasThoughts: query.hasThoughts,
+            sort: query.sort,
+            order,
+            include: query.include,
+            limit: query.limit,
+            cursor,
+        });
 
         return NextResponse.json(response);
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error fetching signals:", error);
         return NextResponse.json(
             { error: "Failed to fetch signals" },
             { status: 500 }
         );
     }
-}
+});
 
 /**
  * PATCH /api/signals
  * 
- * Updates a signal's status and optionally creates an associated thought.
+ * Moves a signal to a new status and optionally creates an associated thought.
+ * Only the transitions of the signal lifecycle are allowed (see lib/lifecycle);
+ * entering reviewed queues insight generation.
  * 
  * Request body:
  * - id: Signal ID (required)
  * - status: New status value (required)
+ * - reason: Why the status changed, recorded in the signal's history (optional)
  * - thought: Optional thought content to attach to signal
  * 
  * @param request - Next.js request object
  * @returns JSON response with updated signal
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest) => {
     try {
-        const body = await request.json();
+        const body = await parseBody(request, signalStatusUpdateSchema);
+
+        const transition = await transitionSignal(body.id, body.status, {
+            actor: EVENT_ACTORS.USER,
+            reason: body.reason,
+        });
 
-        // Validate required fields
-        if (!body.id || !body.status) {
+        if (!transition) {
             return NextResponse.json(
-                { error: "id and status are required" },
-                { status: 400 }
+                { error: "Signal not found" },
+                { status: 404 }
             );
         }
 
+        const { job } = transition;
+        if (job) after(() => runJobNow(job.id));
+
         // Create associated thought if provided
         if (body.thought) {
             await prisma.thought.create({
@@ -100,49 +119,34 @@ export async function PATCH(request: NextRequest) {
             });
         }
 
-        // Update signal status
-        const signal = await prisma.signal.update({
+        const signal = await prisma.signal.findUniqueOrThrow({
             where: { id: body.id },
-            data: { status: body.status },
             include: {
                 thoughts: true,
                 highlights: true,
+                tags: tagArgs,
             },
         });
 
-        // If marked as reviewed, automatically trigger insight generation for this individual signal
-        if (body.status === SIGNAL_STATUS.REVIEWED) {
-            try {
-                const structuredSignal = {
-                    ...signal,
-                    tags: parseSignalTags(signal.tags),
-                };
-
-                // Trigger generation with just this signal
-                await triggerGenerate([structuredSignal]);
-
-                // Update to processed to indicate it's been sent to n8n
-                await prisma.signal.update({
-                    where: { id: signal.id },
-                    data: { status: SIGNAL_STATUS.PROCESSED },
-                });
-            } catch (error) {
-                console.error("Failed to trigger automatic generation:", error);
-            }
-        }
-
         return NextResponse.json({
             success: true,
-            signal: {
-                ...signal,
-                tags: parseSignalTags(signal.tags),
-            },
+            signal: withTagNames(signal),
         });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof InvalidTransitionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+
         console.error("Error updating signal:", error);
         return NextResponse.json(
             { error: "Failed to update signal" },
             { status: 500 }
         );
     }
-}
+});
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { addAlias, findTopic } from "@/lib/taxonomy";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { tagAliasCreateSchema, tagAliasDeleteQuerySchema } from "@/lib/schemas";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/tags/[id]/aliases
+ *
+ * Add an alias: another spelling that maps to the tag when processors
+ * return it as a topic. Signals a pending suggestion of the same name was
+ * received for get the tag.
+ *
+ * Request body:
+ * - name: Alias (required)
+ */
+export const POST = withAuth(async (request: NextRequest, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const { name } = await parseBody(request, tagAliasCreateSchema);
+
+        const tag = await prisma.tag.findUnique({ where: { id } });
+        if (!tag) {
+            return NextResponse.json(
+                { error: "Tag not found" },
+                { status: 404 }
+            );
+        }
+
+        if (await findTopic(name)) {
+            return NextResponse.json(
+                { error: "A tag or alias with this name already exists" },
+                { status: 409 }
+            );
+        }
+
+        const alias = await addAlias(id, name);
+
+        return NextResponse.json({
+            success: true,
+            alias,
+        }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error creating tag alias:", error);
+        return NextResponse.json(
+            { error: "Failed to create tag alias" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * DELETE /api/tags/[id]/aliases
+ *
+ * Remove an alias of the tag by alias ID (`aliasId` query parameter)
+ */
+export const DELETE = withAuth(async (request: NextRequest, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const { aliasId } = parseQuery(new URL(request.url).searchParams, tagAliasDeleteQuerySchema);
+
+        const { count } = await prisma.tagAlias.deleteMany({
+            where: { id: aliasId, tagId: id },
+        });
+
+        if (count === 0) {
+            return NextResponse.json(
+                { error: "Alias not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error deleting tag alias:", error);
+        return NextResponse.json(
+            { error: "Failed to delete tag alias" },
+            { status: 500 }
+        );
+    }
+});
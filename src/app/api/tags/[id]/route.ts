@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { findTopic, renameTopic, wouldCreateCycle } from "@/lib/taxonomy";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { tagUpdateSchema } from "@/lib/schemas";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/tags/[id]
+ *
+ * Update a tag. Renaming applies to every signal with the tag and keeps
+ * the old name as an alias; renaming to the name or alias of another tag
+ * is rejected (merge the tags instead).
+ *
+ * Request body (all optional):
+ * - name: New name
+ * - color: Hex color, e.g. #6366f1, or null to clear it
+ * - description: What the tag is for, or null to clear it
+ * - parentId: Broader topic, or null to make it a top-level topic
+ */
+export const PATCH = withAuth(async (request: NextRequest, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        const { name, ...body } = await parseBody(request, tagUpdateSchema);
+        const data: Prisma.TagUncheckedUpdateInput = {};
+
+        if (name !== undefined) {
+            const existing = await findTopic(name);
+            if (existing && existing.tagId !== id) {
+                return NextResponse.json(
+                    { error: "Another tag already has this name or alias; merge the tags instead" },
+                    { status: 409 }
+                );
+            }
+        }
+
+        if (body.parentId !== undefined) {
+            if (body.parentId) {
+                const parent = await prisma.tag.findUnique({ where: { id: body.parentId } });
+                if (!parent) {
+                    return NextResponse.json(
+                        { error: "Parent tag not found" },
+                        { status: 400 }
+                    );
+                }
+                if (await wouldCreateCycle(id, body.parentId)) {
+                    return NextResponse.json(
+                        { error: "A tag cannot be placed under itself or one of its narrower topics" },
+                        { status: 400 }
+                    );
+                }
+            }
+            data.parentId = body.parentId || null;
+        }
+
+        if (body.color !== undefined) {
+            data.color = body.color || null;
+        }
+
+        if (body.description !== undefined) {
+            data.description = body.description || null;
+        }
+
+        if (name !== undefined && !await renameTopic(id, name)) {
+            return NextResponse.json(
+                { error: "Tag not found" },
+                { status: 404 }
+            );
+        }
+
+        const tag = await prisma.tag.update({
+            where: { id },
+            data,
+        });
+
+        return NextResponse.json({
+            success: true,
+            tag,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Tag not found" },
+                { status: 404 }
+            );
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            return NextResponse.json(
+                { error: "Another tag already has this name; merge the tags instead" },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error updating tag:", error);
+        return NextResponse.json(
+            { error: "Failed to update tag" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * DELETE /api/tags/[id]
+ *
+ * Delete a tag and remove it from all signals. The signals are kept.
+ */
+export const DELETE = withAuth(async (request: NextRequest, { params }: Params) => {
+    const { id } = await params;
+
+    try {
+        await prisma.tag.delete({
+            where: { id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Tag not found" },
+                { status: 404 }
+            );
+        }
+
+        console.error("Error deleting tag:", error);
+        return NextResponse.json(
+            { error: "Failed to delete tag" },
+            { status: 500 }
+        );
+    }
+});
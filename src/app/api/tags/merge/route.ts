@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { mergeTopics } from "@/lib/taxonomy";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { tagMergeSchema } from "@/lib/schemas";
+
+/**
+ * POST /api/tags/merge
+ *
+ * Merge tags into another tag: signals with any of the source tags get
+ * the target tag, and the source tags are deleted. Their names become
+ * aliases of the target, and their aliases and narrower topics move to it.
+ *
+ * Request body:
+ * - sourceIds: Tags to merge away (required)
+ * - targetId: Tag to keep (required)
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, tagMergeSchema);
+
+        const tag = await mergeTopics(body.sourceIds, body.targetId);
+
+        if (!tag) {
+            return NextResponse.json(
+                { error: "Target tag not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            tag,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error merging tags:", error);
+        return NextResponse.json(
+            { error: "Failed to merge tags" },
+            { status: 500 }
+        );
+    }
+});
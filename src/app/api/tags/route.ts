@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { workspaceFilter } from "@/lib/ownership";
+import { createTopic, findTopic } from "@/lib/taxonomy";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { tagCreateSchema, tagListQuerySchema } from "@/lib/schemas";
+import type { TagsResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tags
+ *
+ * List tags with the number of the workspace's signals on each, by name
+ *
+ * Query parameters:
+ * - status: Only count signals with this status
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const { status } = parseQuery(new URL(request.url).searchParams, tagListQuerySchema);
+
+        const tags = await prisma.tag.findMany({
+            orderBy: { name: "asc" },
+            include: {
+                _count: {
+                    select: { signals: { where: { ...workspaceFilter(), status } } },
+                },
+            },
+        });
+
+        const response: TagsResponse = {
+            tags: tags.map(({ _count, ...tag }) => ({
+                ...tag,
+                signalCount: _count.signals,
+            })),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error fetching tags:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch tags" },
+            { status: 500 }
+        );
+    }
+});
+
+/**
+ * POST /api/tags
+ *
+ * Create a tag. Signals a pending topic suggestion of the same name was
+ * received for get the new tag.
+ *
+ * Request body:
+ * - name: Tag name (required)
+ * - color: Hex color, e.g. #6366f1 (optional)
+ * - description: What the tag is for (optional)
+ * - parentId: Broader topic (optional)
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const { name, ...body } = await parseBody(request, tagCreateSchema);
+
+        if (body.parentId && !await prisma.tag.findUnique({ where: { id: body.parentId } })) {
+            return NextResponse.json(
+                { error: "Parent tag not found" },
+                { status: 400 }
+            );
+        }
+
+        if (await findTopic(name)) {
+            return NextResponse.json(
+                { error: "A tag or alias with this name already exists" },
+                { status: 409 }
+            );
+        }
+
+        const tag = await createTopic({
+            name,
+            color: body.color,
+            description: body.description,
+            parentId: body.parentId,
+        });
+
+        return NextResponse.json({
+            success: true,
+            tag: { ...tag, signalCount: 0 },
+        }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            return NextResponse.json(
+                { error: "A tag with this name already exists" },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error creating tag:", error);
+        return NextResponse.json(
+            { error: "Failed to create tag" },
+            { status: 500 }
+        );
+    }
+});
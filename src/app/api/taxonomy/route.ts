@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import type { TopicSuggestionStatus } from "@/lib/constants";
+import { ValidationError, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { taxonomyQuerySchema } from "@/lib/schemas";
+import type { TaxonomyResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/taxonomy
+ *
+ * Fetch the topic taxonomy: every tag with its parent, aliases and signal
+ * count, and the topic suggestions waiting for approval
+ *
+ * Query parameters:
+ * - suggestions: Suggestion status to list (pending, rejected; default: pending)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        const { suggestions: status } = parseQuery(new URL(request.url).searchParams, taxonomyQuerySchema);
+
+        const [tags, suggestions] = await Promise.all([
+            prisma.tag.findMany({
+                orderBy: { name: "asc" },
+                include: {
+                    aliases: {
+                        orderBy: { name: "asc" },
+                        select: { id: true, name: true },
+                    },
+                    _count: { select: { signals: true } },
+                },
+            }),
+            prisma.topicSuggestion.findMany({
+                where: { status },
+                orderBy: { createdAt: "desc" },
+                include: { _count: { select: { signals: true } } },
+            }),
+        ]);
+
+        const response: TaxonomyResponse = {
+            topics: tags.map(({ _count, ...tag }) => ({
+                ...tag,
+                signalCount: _count.signals,
+            })),
+            suggestions: suggestions.map(({ _count, ...suggestion }) => ({
+                ...suggestion,
+                status: suggestion.status as TopicSuggestionStatus,
+                signalCount: _count.signals,
+            })),
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error fetching taxonomy:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch taxonomy" },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { aliasSuggestion, approveSuggestion, findTopic, rejectSuggestion } from "@/lib/taxonomy";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { suggestionResolveSchema } from "@/lib/schemas";
+
+/**
+ * PATCH /api/taxonomy/suggestions
+ *
+ * Resolve a topic suggestion (a processor topic that matched no tag or alias)
+ *
+ * Request body:
+ * - id: Suggestion ID (required)
+ * - action: "approve" (new tag), "alias" (alias of an existing tag) or "reject" (required)
+ * - tagId: Tag the topic means, for "alias"
+ * - parentId: Broader topic of the new tag, for "approve" (optional)
+ */
+export const PATCH = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await parseBody(request, suggestionResolveSchema);
+
+        if (body.action === "reject") {
+            const suggestion = await rejectSuggestion(body.id);
+            return NextResponse.json({ success: true, suggestion });
+        }
+
+        const suggestion = await prisma.topicSuggestion.findUnique({ where: { id: body.id } });
+        if (!suggestion) {
+            return NextResponse.json(
+                { error: "Suggestion not found" },
+                { status: 404 }
+            );
+        }
+
+        // A tag or alias may have been added under this name since it was suggested
+        if (await findTopic(suggestion.name)) {
+            return NextResponse.json(
+                { error: "A tag or alias with this name already exists" },
+                { status: 409 }
+            );
+        }
+
+        if (body.action === "alias" && body.tagId) {
+            const tag = await aliasSuggestion(body.id, body.tagId);
+            if (!tag) {
+                return NextResponse.json(
+                    { error: "Tag not found" },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json({ success: true, tag });
+        }
+
+        if (body.parentId && !await prisma.tag.findUnique({ where: { id: body.parentId } })) {
+            return NextResponse.json(
+                { error: "Parent tag not found" },
+                { status: 400 }
+            );
+        }
+
+        const tag = await approveSuggestion(body.id, body.parentId);
+        return NextResponse.json({ success: true, tag }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            return NextResponse.json(
+                { error: "Suggestion not found" },
+                { status: 404 }
+            );
+        }
+
+        console.error("Error resolving topic suggestion:", error);
+        return NextResponse.json(
+            { error: "Failed to resolve topic suggestion" },
+            { status: 500 }
+        );
+    }
+});
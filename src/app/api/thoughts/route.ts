@@ -1,19 +1,34 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/auth";
+import { PERMISSIONS } from "@/lib/constants";
+import { embedRecord } from "@/lib/similarity";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { idQuerySchema, thoughtCreateSchema, thoughtListQuerySchema } from "@/lib/schemas";
+import type { Prisma } from "@prisma/client";
+import type { ThoughtsResponse } from "@/lib/types";
 
 /**
  * POST /api/thoughts
  * 
- * Create a new thought
+ * Create a new thought, optionally responding to a highlight (highlightId)
+ * 
+ * The signal, insight and highlight it refers to must be the user's.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     try {
-        const body = await request.json();
+        const body = await parseBody(request, thoughtCreateSchema);
 
-        if (!body.content) {
+        const [signal, insight, highlight] = await Promise.all([
+            body.signalId ? prisma.signal.findUnique({ where: { id: body.signalId }, select: { id: true } }) : true,
+            body.insightId ? prisma.insight.findUnique({ where: { id: body.insightId }, select: { id: true } }) : true,
+            body.highlightId ? prisma.highlight.findUnique({ where: { id: body.highlightId }, select: { id: true } }) : true,
+        ]);
+        const missing = !signal ? "Signal" : !insight ? "Insight" : !highlight ? "Highlight" : null;
+        if (missing) {
             return NextResponse.json(
-                { error: "content is required" },
-                { status: 400 }
+                { error: `${missing} not found` },
+                { status: 404 }
             );
         }
 
@@ -22,38 +37,42 @@ export async function POST(request: NextRequest) {
                 content: body.content,
                 signalId: body.signalId,
                 insightId: body.insightId,
+                highlightId: body.highlightId,
             },
         });
 
+        after(() => embedRecord("thought", thought.id));
+
         return NextResponse.json({
             success: true,
             thought,
         }, { status: 201 });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error creating thought:", error);
         return NextResponse.json(
             { error: "Failed to create thought" },
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.COMMENT });
 
 /**
  * GET /api/thoughts
  * 
  * Fetch thoughts, optionally filtered by signalId or insightId
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const signalId = searchParams.get("signalId");
-        const insightId = searchParams.get("insightId");
-        const unlinked = searchParams.get("unlinked");
+        const { signalId, insightId, unlinked } = parseQuery(new URL(request.url).searchParams, thoughtListQuerySchema);
 
-        const where: Record<string, unknown> = {};
+        const where: Prisma.ThoughtWhereInput = {};
         if (signalId) where.signalId = signalId;
         if (insightId) where.insightId = insightId;
-        if (unlinked === "true") where.insightId = null;
+        if (unlinked) where.insightId = null;
 
         const thoughts = await prisma.thought.findMany({
             where,
@@ -65,32 +84,29 @@ export async function GET(request: NextRequest) {
             },
         });
 
-        return NextResponse.json({ thoughts });
+        const response: ThoughtsResponse = { thoughts };
+        return NextResponse.json(response);
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error fetching thoughts:", error);
         return NextResponse.json(
             { error: "Failed to fetch thoughts" },
             { status: 500 }
         );
     }
-}
+});
 
 /**
  * DELETE /api/thoughts
  * 
  * Delete a thought by ID
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest) => {
     try {
-        const { searchParams } = new URL(request.url);
-        const id = searchParams.get("id");
-
-        if (!id) {
-            return NextResponse.json(
-                { error: "id is required" },
-                { status: 400 }
-            );
-        }
+        const { id } = parseQuery(new URL(request.url).searchParams, idQuerySchema);
 
         await prisma.thought.delete({
             where: { id },
@@ -98,10 +114,14 @@ export async function DELETE(request: NextRequest) {
 
         return NextResponse.json({ success: true });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
         console.error("Error deleting thought:", error);
         return NextResponse.json(
             { error: "Failed to delete thought" },
             { status: 500 }
         );
     }
-}
+}, { permission: PERMISSIONS.COMMENT });
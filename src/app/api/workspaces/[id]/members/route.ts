@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authorizeWorkspace, withAuth } from "@/lib/auth";
+import { PERMISSIONS } from "@/lib/constants";
+import { LastOwnerError, addMember, listMembers, removeMember, updateMemberRole } from "@/lib/workspaces";
+import { ValidationError, parseBody, parseQuery, validationErrorResponse } from "@/lib/validation";
+import { memberAddSchema, memberRemoveQuerySchema, memberRoleSchema } from "@/lib/schemas";
+import type { WorkspaceMembersResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/workspaces/[id]/members
+ *
+ * Members of a workspace and their roles; any member may look
+ */
+export const GET = withAuth(async (_request: NextRequest, { params }: Params, principal) => {
+    const { id } = await params;
+
+    try {
+        const access = await authorizeWorkspace(principal, id, PERMISSIONS.READ);
+        if (access instanceof NextResponse) return access;
+
+        const response: WorkspaceMembersResponse = { members: await listMembers(id) };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error("Error fetching members:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch members" },
+            { status: 500 }
+        );
+    }
+}, { permission: null });
+
+/**
+ * POST /api/workspaces/[id]/members
+ *
+ * Add an existing account to a workspace; owners only
+ *
+ * Request body:
+ * - email: Email of the account (required)
+ * - role: owner, editor, commenter or viewer (required)
+ */
+export const POST = withAuth(async (request: NextRequest, { params }: Params, principal) => {
+    const { id } = await params;
+
+    try {
+        const { email, role } = await parseBody(request, memberAddSchema);
+
+        const access = await authorizeWorkspace(principal, id, PERMISSIONS.MANAGE);
+        if (access instanceof NextResponse) return access;
+
+        const member = await addMember(id, email, role);
+        if (!member) {
+            return NextResponse.json(
+                { error: "No account with this email" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            member,
+        }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            return NextResponse.json(
+                { error: "Already a member of this workspace" },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error adding member:", error);
+        return NextResponse.json(
+            { error: "Failed to add member" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
+
+/**
+ * PATCH /api/workspaces/[id]/members
+ *
+ * Change a member's role; owners only. The last owner cannot be demoted (409).
+ *
+ * Request body:
+ * - userId: Member (required)
+ * - role: New role (required)
+ */
+export const PATCH = withAuth(async (request: NextRequest, { params }: Params, principal) => {
+    const { id } = await params;
+
+    try {
+        const { userId, role } = await parseBody(request, memberRoleSchema);
+
+        const access = await authorizeWorkspace(principal, id, PERMISSIONS.MANAGE);
+        if (access instanceof NextResponse) return access;
+
+        const member = await updateMemberRole(id, userId, role);
+        if (!member) {
+            return NextResponse.json(
+                { error: "Member not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            member,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof LastOwnerError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error updating member:", error);
+        return NextResponse.json(
+            { error: "Failed to update member" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
+
+/**
+ * DELETE /api/workspaces/[id]/members?userId=
+ *
+ * Remove a member; owners only, though any member may leave. The last
+ * owner cannot leave (409). Their content stays in the workspace.
+ */
+export const DELETE = withAuth(async (request: NextRequest, { params }: Params, principal) => {
+    const { id } = await params;
+
+    try {
+        const { userId } = parseQuery(new URL(request.url).searchParams, memberRemoveQuerySchema);
+
+        const access = await authorizeWorkspace(
+            principal,
+            id,
+            userId === principal.user.id ? PERMISSIONS.READ : PERMISSIONS.MANAGE
+        );
+        if (access instanceof NextResponse) return access;
+
+        if (!await removeMember(id, userId)) {
+            return NextResponse.json(
+                { error: "Member not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+        if (error instanceof LastOwnerError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 409 }
+            );
+        }
+
+        console.error("Error removing member:", error);
+        return NextResponse.json(
+            { error: "Failed to remove member" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
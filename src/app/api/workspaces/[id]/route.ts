@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorizeWorkspace, withAuth } from "@/lib/auth";
+import { PERMISSIONS } from "@/lib/constants";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { workspaceSchema } from "@/lib/schemas";
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/workspaces/[id]
+ *
+ * Rename a workspace; owners only
+ *
+ * Request body:
+ * - name: New name (required)
+ */
+export const PATCH = withAuth(async (request: NextRequest, { params }: Params, principal) => {
+    const { id } = await params;
+
+    try {
+        const { name } = await parseBody(request, workspaceSchema);
+
+        const access = await authorizeWorkspace(principal, id, PERMISSIONS.MANAGE);
+        if (access instanceof NextResponse) return access;
+
+        await prisma.workspace.update({
+            where: { id },
+            data: { name },
+        });
+
+        return NextResponse.json({
+            success: true,
+            workspace: { ...access, name },
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error renaming workspace:", error);
+        return NextResponse.json(
+            { error: "Failed to rename workspace" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setWorkspaceCookie, withAuth } from "@/lib/auth";
+import { createWorkspace, listWorkspaces } from "@/lib/workspaces";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { workspaceSchema } from "@/lib/schemas";
+import type { WorkspacesResponse } from "@/lib/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/workspaces
+ *
+ * Workspaces the signed-in user is a member of, and the current one
+ */
+export const GET = withAuth(async (_request: NextRequest, _context: unknown, principal) => {
+    try {
+        const response: WorkspacesResponse = {
+            workspaces: await listWorkspaces(principal.user.id),
+            currentWorkspaceId: principal.workspace?.id ?? null,
+        };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error("Error fetching workspaces:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch workspaces" },
+            { status: 500 }
+        );
+    }
+}, { permission: null });
+
+/**
+ * POST /api/workspaces
+ *
+ * Create a workspace owned by the signed-in user and switch to it
+ *
+ * Request body:
+ * - name: Workspace name (required)
+ */
+export const POST = withAuth(async (request: NextRequest, _context: unknown, principal) => {
+    try {
+        const { name } = await parseBody(request, workspaceSchema);
+
+        const workspace = await createWorkspace(principal.user.id, name);
+
+        const response = NextResponse.json({
+            success: true,
+            workspace,
+        }, { status: 201 });
+        setWorkspaceCookie(response, workspace.id);
+        return response;
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error creating workspace:", error);
+        return NextResponse.json(
+            { error: "Failed to create workspace" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setWorkspaceCookie, withAuth } from "@/lib/auth";
+import { findMembership } from "@/lib/workspaces";
+import { ValidationError, parseBody, validationErrorResponse } from "@/lib/validation";
+import { workspaceSwitchSchema } from "@/lib/schemas";
+
+/**
+ * POST /api/workspaces/switch
+ *
+ * Make a workspace the current one; later requests see its content
+ *
+ * Request body:
+ * - workspaceId: Workspace the user is a member of (required)
+ */
+export const POST = withAuth(async (request: NextRequest, _context: unknown, principal) => {
+    try {
+        const { workspaceId } = await parseBody(request, workspaceSwitchSchema);
+
+        const workspace = await findMembership(principal.user.id, workspaceId);
+        if (!workspace) {
+            return NextResponse.json(
+                { error: "Workspace not found" },
+                { status: 404 }
+            );
+        }
+
+        const response = NextResponse.json({
+            success: true,
+            workspace,
+        });
+        setWorkspaceCookie(response, workspace.id);
+        return response;
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return validationErrorResponse(error);
+        }
+
+        console.error("Error switching workspace:", error);
+        return NextResponse.json(
+            { error: "Failed to switch workspace" },
+            { status: 500 }
+        );
+    }
+}, { permission: null, scopes: [] });
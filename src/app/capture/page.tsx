@@ -4,6 +4,9 @@ import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useSWRConfig } from "swr";
 import AppHeader from "@/components/AppHeader";
+import { api } from "@/lib/client";
+import { INPUT_TYPES, YOUTUBE_PATTERN } from "@/lib/constants";
+import type { IngestResponse } from "@/lib/types";
 
 export default function CapturePage() {
     const router = useRouter();
@@ -11,8 +14,9 @@ export default function CapturePage() {
     const [input, setInput] = useState("");
     const [submitting, setSubmitting] = useState(false);
     const [error, setError] = useState("");
-    const [success, setSuccess] = useState(false);
+    const [success, setSuccess] = useState<string | null>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Auto-focus on mount
     useEffect(() => {
@@ -25,34 +29,37 @@ export default function CapturePage() {
         const trimmedInput = input.trim();
         if (!trimmedInput) return;
 
-        setError("");
-        setSuccess(false);
-        setSubmitting(true);
+        // Detect if it's a URL or text
+        const isUrl = /^https?:\/\//i.test(trimmedInput);
 
-        try {
-            // Detect if it's a URL or text
-            const isUrl = /^https?:\/\//i.test(trimmedInput);
+        const captured = await sendToIngest(() => api.ingest.submit(isUrl
+            ? {
+                inputType: YOUTUBE_PATTERN.test(trimmedInput) ? INPUT_TYPES.YOUTUBE : INPUT_TYPES.URL,
+                url: trimmedInput,
+            }
+            : { inputType: INPUT_TYPES.TEXT, content: trimmedInput }
+        ));
 
-            const payload: Record<string, string> = {
-                inputType: isUrl ? "url" : "text",
-            };
+        if (captured) {
+            setInput("");
+        }
+    }
 
-            if (isUrl) {
-                payload.url = trimmedInput;
-            } else {
-                payload.content = trimmedInput;
-            }
+    async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0];
+        if (!file) return;
 
-            const res = await fetch("/api/ingest", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(payload),
-            });
+        await sendToIngest(() => api.ingest.upload(file));
+        e.target.value = "";
+    }
 
-            if (!res.ok) {
-                const data = await res.json();
-                throw new Error(data.error || "Failed to capture signal");
-            }
+    async function sendToIngest(send: () => Promise<IngestResponse>): Promise<boolean> {
+        setError("");
+        setSuccess(null);
+        setSubmitting(true);
+
+        try {
+            const data = await send();
 
             // Invalidate cache for signals
             mutate(
@@ -61,18 +68,21 @@ export default function CapturePage() {
                 { revalidate: true }
             );
 
-            // Clear form and show success
-            setInput("");
-            setSuccess(true);
+            // Show success (or that the content was already captured)
+            setSuccess(data.duplicate
+                ? `${data.message}. Ready for the next one.`
+                : "Signal captured successfully! Ready for the next one.");
 
             // Reset success message after 3 seconds
-            setTimeout(() => setSuccess(false), 3000);
+            setTimeout(() => setSuccess(null), 3000);
 
             // Keep focus for rapid entry
             inputRef.current?.focus();
+            return true;
 
         } catch (err) {
             setError(err instanceof Error ? err.message : "Something went wrong");
+            return false;
         } finally {
             setSubmitting(false);
         }
@@ -99,7 +109,7 @@ export default function CapturePage() {
                             Capture
                         </h1>
                         <p className="text-xl text-[var(--text-secondary)]">
-                            Drop a link, paste text, or share a thought
+                            Drop a link, paste text, upload a file, or share a thought
                         </p>
                     </div>
 
@@ -135,14 +145,31 @@ export default function CapturePage() {
                         {/* Success Message */}
                         {success && (
                             <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-xl text-green-500 text-sm animate-fadeIn mb-6">
-                                Signal captured successfully! Ready for the next one.
+                                {success}
                             </div>
                         )}
 
                         {/* Submit Button */}
                         <div className="flex items-center justify-between">
-                            <div className="text-sm text-[var(--text-muted)]">
-                                <kbd className="kbd kbd-sm">⌘</kbd> + <kbd className="kbd kbd-sm">↵</kbd> to submit
+                            <div className="flex items-center gap-4 text-sm text-[var(--text-muted)]">
+                                <span>
+                                    <kbd className="kbd kbd-sm">⌘</kbd> + <kbd className="kbd kbd-sm">↵</kbd> to submit
+                                </span>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".pdf,.epub,.docx,.md,.markdown,.txt,application/pdf,application/epub+zip,text/markdown,text/plain"
+                                    onChange={handleFileChange}
+                                    className="hidden"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={submitting}
+                                    className="hover:underline text-[var(--accent)] disabled:opacity-50"
+                                >
+                                    Upload file (PDF, EPUB, DOCX, Markdown)
+                                </button>
                             </div>
 
                             <button
@@ -195,6 +222,12 @@ export default function CapturePage() {
                                     <strong className="text-[var(--text-primary)]">YouTube:</strong> https://youtube.com/watch?v=...
                                 </div>
                             </div>
+                            <div className="flex items-start gap-3">
+                                <span className="text-[var(--accent)] font-mono">→</span>
+                                <div>
+                                    <strong className="text-[var(--text-primary)]">File:</strong> a PDF report, an EPUB book, a Word document or Markdown notes
+                                </div>
+                            </div>
                             <div className="flex items-start gap-3">
                                 <span className="text-[var(--accent)] font-mono">→</span>
                                 <div>
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState } from "react";
+import AppHeader from "@/components/AppHeader";
+import { api } from "@/lib/client";
+import { formatRelativeDate } from "@/lib/formatters";
+import { useFeeds } from "@/lib/hooks";
+import type { FeedSummary } from "@/lib/types";
+
+const POLL_INTERVALS = [
+    { minutes: 15, label: "Every 15 minutes" },
+    { minutes: 60, label: "Hourly" },
+    { minutes: 360, label: "Every 6 hours" },
+    { minutes: 1440, label: "Daily" },
+];
+
+export default function FeedsPage() {
+    const { data, error: loadError, mutate } = useFeeds({ refreshInterval: 10000 });
+
+    const [url, setUrl] = useState("");
+    const [adding, setAdding] = useState(false);
+    const [addError, setAddError] = useState<string | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    async function addFeed(e: React.FormEvent) {
+        e.preventDefault();
+        if (!url.trim()) return;
+
+        setAdding(true);
+        setAddError(null);
+        try {
+            await api.feeds.create({ url: url.trim() });
+            setUrl("");
+            mutate();
+        } catch (err) {
+            setAddError(err instanceof Error ? err.message : "Failed to add feed");
+        } finally {
+            setAdding(false);
+        }
+    }
+
+    /**
+     * Runs a change to a feed and shows its error, if any
+     */
+    async function run(id: string, change: () => Promise<unknown>, failure: string) {
+        setBusy(id);
+        setError(null);
+        try {
+            await change();
+            mutate();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : failure);
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    async function updateFeed(id: string, changes: Partial<Pick<FeedSummary, "enabled" | "pollIntervalMinutes">>) {
+        await run(id, () => api.feeds.update(id, changes), "Failed to update feed");
+    }
+
+    async function pollNow(id: string) {
+        await run(id, () => api.feeds.poll(id), "Failed to check feed");
+    }
+
+    async function deleteFeed(feed: FeedSummary) {
+        if (!confirm(`Unsubscribe from ${feed.title ?? feed.url}? Signals already created are kept.`)) return;
+
+        await run(feed.id, () => api.feeds.delete(feed.id), "Failed to remove feed");
+    }
+
+    return (
+        <div className="min-h-screen" style={{ background: "var(--background)" }}>
+            <AppHeader />
+
+            <main className="max-w-5xl mx-auto px-6 py-8">
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+                        Feeds
+                    </h1>
+                    <p className="text-sm mt-2 max-w-2xl" style={{ color: "var(--text-secondary)" }}>
+                        Subscribe to RSS, Atom or JSON feeds. New entries are captured as signals and land in your review queue.
+                    </p>
+                </div>
+
+                {/* Add Feed */}
+                <form onSubmit={addFeed} className="mb-8">
+                    <div className="flex gap-3">
+                        <input
+                            type="url"
+                            value={url}
+                            onChange={(e) => setUrl(e.target.value)}
+                            placeholder="https://example.com/feed.xml"
+                            className="input flex-1 font-mono text-sm"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!url.trim() || adding}
+                            className="btn btn-primary"
+                            style={{ opacity: !url.trim() || adding ? 0.6 : 1 }}
+                        >
+                            {adding ? "Adding..." : "Subscribe"}
+                        </button>
+                    </div>
+                    {addError && (
+                        <p className="mt-2 text-sm" style={{ color: "var(--error)" }}>
+                            {addError}
+                        </p>
+                    )}
+                </form>
+
+                {error && (
+                    <p className="mb-4 text-sm" style={{ color: "var(--error)" }}>
+                        {error}
+                    </p>
+                )}
+
+                {/* Feed List */}
+                {loadError ? (
+                    <p className="text-sm" style={{ color: "var(--error)" }}>
+                        {loadError.message}
+                    </p>
+                ) : !data ? (
+                    <div className="space-y-4">
+                        {[1, 2, 3].map((i) => (
+                            <div
+                                key={i}
+                                className="skeleton h-20 rounded-lg"
+                                style={{ background: "var(--background-elevated)" }}
+                            />
+                        ))}
+                    </div>
+                ) : data.feeds.length === 0 ? (
+                    <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                        No feeds yet. Paste a feed URL above to subscribe.
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        {data.feeds.map((feed) => (
+                            <div
+                                key={feed.id}
+                                className="p-5 rounded-xl transition-all"
+                                style={{
+                                    background: "var(--background-elevated)",
+                                    border: `1px solid ${feed.lastError ? "var(--error)" : "var(--border)"}`,
+                                    opacity: feed.enabled ? 1 : 0.6,
+                                }}
+                            >
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <h3
+                                            className="font-medium flex items-center gap-2"
+                                            style={{ color: "var(--text-primary)" }}
+                                        >
+                                            <span className="truncate">{feed.title ?? feed.url}</span>
+                                            {feed.unreadCount > 0 && (
+                                                <span
+                                                    className="px-2 py-0.5 rounded-full text-xs font-medium"
+                                                    style={{ background: "var(--accent-soft)", color: "var(--accent)" }}
+                                                >
+                                                    {feed.unreadCount} unread
+                                                </span>
+                                            )}
+                                            {!feed.enabled && (
+                                                <span
+                                                    className="px-2 py-0.5 rounded text-xs font-medium"
+                                                    style={{ background: "var(--background-hover)", color: "var(--text-muted)" }}
+                                                >
+                                                    Paused
+                                                </span>
+                                            )}
+                                        </h3>
+                                        <p className="text-xs mt-1 font-mono truncate" style={{ color: "var(--text-muted)" }}>
+                                            {feed.url}
+                                        </p>
+                                        <p className="text-xs mt-1" style={{ color: "var(--text-secondary)" }}>
+                                            {feed.lastFetchedAt
+                                                ? `Checked ${formatRelativeDate(feed.lastFetchedAt)}`
+                                                : "Not checked yet"}
+                                        </p>
+                                    </div>
+
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <select
+                                            value={feed.pollIntervalMinutes}
+                                            onChange={(e) => updateFeed(feed.id, { pollIntervalMinutes: Number(e.target.value) })}
+                                            disabled={busy === feed.id}
+                                            className="input text-xs py-1"
+                                        >
+                                            {!POLL_INTERVALS.some((i) => i.minutes === feed.pollIntervalMinutes) && (
+                                                <option value={feed.pollIntervalMinutes}>
+                                                    Every {feed.pollIntervalMinutes} minutes
+                                                </option>
+                                            )}
+                                            {POLL_INTERVALS.map((interval) => (
+                                                <option key={interval.minutes} value={interval.minutes}>
+                                                    {interval.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => pollNow(feed.id)}
+                                            disabled={busy === feed.id}
+                                            className="btn btn-ghost text-xs"
+                                        >
+                                            {busy === feed.id ? "Working..." : "Check now"}
+                                        </button>
+                                        <button
+                                            onClick={() => updateFeed(feed.id, { enabled: !feed.enabled })}
+                                            disabled={busy === feed.id}
+                                            className="btn btn-secondary text-xs"
+                                        >
+                                            {feed.enabled ? "Pause" : "Resume"}
+                                        </button>
+                                        <button
+                                            onClick={() => deleteFeed(feed)}
+                                            disabled={busy === feed.id}
+                                            className="btn btn-ghost text-xs"
+                                            style={{ color: "var(--error)" }}
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {feed.lastError && (
+                                    <div
+                                        className="mt-4 px-3 py-2 rounded-lg text-xs"
+                                        style={{ background: "var(--error-soft)", color: "var(--error)" }}
+                                    >
+                                        {feed.errorCount > 1
+                                            ? `Last ${feed.errorCount} checks failed: `
+                                            : "Last check failed: "}
+                                        {feed.lastError}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
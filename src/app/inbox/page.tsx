@@ -0,0 +1,5 @@
+import SignalInbox from "@/components/SignalInbox";
+
+export default function InboxPage() {
+    return <SignalInbox />;
+}
@@ -5,36 +5,19 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import useSWR from "swr";
-
-interface Thought {
-    id: string;
-    content: string;
-    signal: { id: string; title: string } | null;
-}
-
-interface Insight {
-    id: string;
-    coreInsight: string;
-    status: string;
-    preview: string | null;
-    previewPlatform: string | null;
-    publishedUrl: string | null;
-    createdAt: string;
-    thoughts: Thought[];
-}
-
+import StatusTimeline from "@/components/StatusTimeline";
+import { api } from "@/lib/client";
+import { useInsights } from "@/lib/hooks";
 
 export default function InsightEditorPage() {
     const params = useParams();
     const router = useRouter();
     const insightId = params.id as string;
-    const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
     // Consolidated state
-    const { data: insightsData, mutate } = useSWR("/api/insights", fetcher);
+    const { data: insightsData, mutate } = useInsights();
     // Find the specific insight from the cached list
-    const insight = insightsData?.insights?.find((i: Insight) => i.id === insightId) || null;
+    const insight = insightsData?.insights.find((i) => i.id === insightId) || null;
 
     const [saving, setSaving] = useState(false);
     const [draftContent, setDraftContent] = useState("");
@@ -43,6 +26,7 @@ export default function InsightEditorPage() {
     const [actionLoading, setActionLoading] = useState(false);
     const [actionError, setActionError] = useState<string | null>(null);
     const [isLoaded, setIsLoaded] = useState(false);
+    const [scheduleAt, setScheduleAt] = useState("");
 
     // Sync draft content with insight data when loaded
     useEffect(() => {
@@ -52,19 +36,18 @@ export default function InsightEditorPage() {
         }
     }, [insight, isLoaded]);
 
+    // Copy is locked while publishing and once published
+    const editable = insight ? insight.status !== "publishing" && insight.status !== "published" : false;
+
     async function saveDraft() {
-        if (!draftContent.trim()) return;
+        if (!draftContent.trim() || !editable) return;
 
         setSaving(true);
         try {
-            await fetch("/api/insights", {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    id: insightId,
-                    preview: draftContent,
-                    coreInsight: draftContent,
-                }),
+            await api.insights.update({
+                id: insightId,
+                preview: draftContent,
+                coreInsight: draftContent,
             });
             mutate(); // Refresh SWR cache
         } catch (error) {
@@ -84,19 +67,7 @@ export default function InsightEditorPage() {
         await saveDraft();
 
         try {
-            const res = await fetch("/api/insights", {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    id: insightId,
-                    action: "publish",
-                }),
-            });
-
-            const data = await res.json();
-            if (!res.ok) {
-                throw new Error(data.error || "Failed to trigger publish");
-            }
+            await api.insights.publish(insightId);
 
             // Simple poll-like refresh
             setTimeout(() => mutate(), 2000);
@@ -109,7 +80,32 @@ export default function InsightEditorPage() {
         }
     }
 
-    if (!insight && !insightsData) {
+    /**
+     * Schedules the insight for the chosen time, or cancels the schedule
+     */
+    async function updateSchedule(action: "schedule" | "unschedule") {
+        setActionLoading(true);
+        setActionError(null);
+
+        if (action === "schedule") await saveDraft();
+
+        try {
+            if (action === "schedule") {
+                await api.insights.schedule(insightId, new Date(scheduleAt));
+            } else {
+                await api.insights.unschedule(insightId);
+            }
+
+            setScheduleAt("");
+            mutate();
+        } catch (error) {
+            setActionError(error instanceof Error ? error.message : `Failed to ${action}`);
+        } finally {
+            setActionLoading(false);
+        }
+    }
+
+    if (!insightsData) {
         return (
             <div className="min-h-screen flex items-center justify-center" style={{ background: "var(--background)" }}>
                 <div className="skeleton w-16 h-16 rounded-full" />
@@ -117,7 +113,7 @@ export default function InsightEditorPage() {
         );
     }
 
-    if (insightsData && !insight) {
+    if (!insight) {
         return (
             <div className="min-h-screen flex items-center justify-center text-[var(--text-muted)]">
                 Insight not found
@@ -148,12 +144,19 @@ export default function InsightEditorPage() {
                                 <span
                                     className="w-2 h-2 rounded-full"
                                     style={{
-                                        background: insight.status === "published" ? "var(--success)" : "var(--warning)"
+                                        background: insight.status === "published"
+                                            ? "var(--success)"
+                                            : insight.status === "publish_failed" ? "var(--error)" : "var(--warning)"
                                     }}
                                 />
                                 <span className="text-sm font-medium capitalize" style={{ color: "var(--text-primary)" }}>
-                                    {insight.status}
+                                    {insight.status.replace("_", " ")}
                                 </span>
+                                {insight.status === "scheduled" && insight.scheduledFor && (
+                                    <span className="text-xs text-[var(--text-muted)]">
+                                        for {new Date(insight.scheduledFor).toLocaleString()}
+                                    </span>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -168,15 +171,48 @@ export default function InsightEditorPage() {
                             >
                                 View Live Post ↗
                             </a>
+                        ) : insight.status === "publishing" ? (
+                            <span className="text-sm text-[var(--text-muted)]">Publishing...</span>
                         ) : (
-                            <button
-                                onClick={triggerPublish}
-                                disabled={actionLoading}
-                                className="btn btn-primary"
-                                style={{ opacity: actionLoading ? 0.6 : 1 }}
-                            >
-                                {actionLoading ? "Publishing..." : "Publish Now"}
-                            </button>
+                            <>
+                                {insight.status === "scheduled" ? (
+                                    <button
+                                        onClick={() => updateSchedule("unschedule")}
+                                        disabled={actionLoading}
+                                        className="btn btn-secondary text-sm"
+                                    >
+                                        Unschedule
+                                    </button>
+                                ) : (
+                                    <>
+                                        <input
+                                            type="datetime-local"
+                                            value={scheduleAt}
+                                            onChange={(e) => setScheduleAt(e.target.value)}
+                                            className="input text-sm py-1.5"
+                                            aria-label="Publish at"
+                                        />
+                                        <button
+                                            onClick={() => updateSchedule("schedule")}
+                                            disabled={actionLoading || !scheduleAt}
+                                            className="btn btn-secondary text-sm"
+                                            style={{ opacity: actionLoading || !scheduleAt ? 0.6 : 1 }}
+                                        >
+                                            Schedule
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={triggerPublish}
+                                    disabled={actionLoading}
+                                    className="btn btn-primary"
+                                    style={{ opacity: actionLoading ? 0.6 : 1 }}
+                                >
+                                    {actionLoading
+                                        ? "Working..."
+                                        : insight.status === "publish_failed" ? "Retry Publish" : "Publish Now"}
+                                </button>
+                            </>
                         )}
                     </div>
                 </div>
@@ -230,6 +266,7 @@ export default function InsightEditorPage() {
                                     // Let's rely on blur to save.
                                 }}
                                 onBlur={saveDraft}
+                                readOnly={!editable}
                                 className="w-full h-[500px] p-6 text-lg leading-relaxed bg-[var(--background)] border border-[var(--border)] rounded-xl focus:ring-2 focus:ring-[var(--accent)] focus:outline-none resize-none font-sans"
                                 placeholder="Draft your post here..."
                                 style={{ color: "var(--text-primary)" }}
@@ -300,6 +337,16 @@ export default function InsightEditorPage() {
                         {actionError}
                     </div>
                 )}
+
+                {insight.status === "publish_failed" && (
+                    <div className="mt-4 p-4 rounded-lg bg-[var(--error-soft)] text-[var(--error)] text-sm">
+                        {insight.events?.[insight.events.length - 1]?.reason ?? "Publishing failed"}. Your copy is kept; retry when ready.
+                    </div>
+                )}
+
+                <div className="mt-10">
+                    <StatusTimeline events={insight.events ?? []} />
+                </div>
             </main>
         </div>
     );
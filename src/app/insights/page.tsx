@@ -2,52 +2,26 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import useSWR from "swr";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import AppHeader from "@/components/AppHeader";
-
-interface Thought {
-    id: string;
-    content: string;
-    signal: { id: string; title: string } | null;
-}
-
-interface Insight {
-    id: string;
-    coreInsight: string;
-    status: string;
-    preview: string | null;
-    previewPlatform: string | null;
-    publishedUrl: string | null;
-    publishedAt: string | null;
-    createdAt: string;
-    thoughts: Thought[];
-    signals: { id: string; title: string }[];
-}
-
-const fetcher = (url: string) => fetch(url).then((res) => res.json());
+import { api } from "@/lib/client";
+import { formatJobStatus } from "@/lib/formatters";
+import { useInsights, useThoughts } from "@/lib/hooks";
+import type { InsightStatus } from "@/lib/constants";
 
 export default function InsightsPage() {
-    const [filter, setFilter] = useState("all");
+    const [filter, setFilter] = useState<InsightStatus | "all">("all");
 
-    // Polling setup
-    const params = new URLSearchParams();
-    if (filter !== "all") params.set("status", filter);
-
-    const { data: insightsData, mutate: mutateInsights } = useSWR(
-        `/api/insights?${params}`,
-        fetcher,
+    const { data: insightsData, mutate: mutateInsights } = useInsights(
+        { status: filter === "all" ? undefined : filter },
         { refreshInterval: 3000 } // Poll every 3s to catch async updates from n8n
     );
 
-    const { data: thoughtsData, mutate: mutateThoughts } = useSWR(
-        "/api/thoughts?unlinked=true",
-        fetcher
-    );
+    const { data: thoughtsData, mutate: mutateThoughts } = useThoughts({ unlinked: true });
 
-    const insights: Insight[] = insightsData?.insights || [];
-    const unlinkedThoughts: Thought[] = thoughtsData?.thoughts || [];
+    const insights = insightsData?.insights || [];
+    const unlinkedThoughts = thoughtsData?.thoughts || [];
 
     const [showNewForm, setShowNewForm] = useState(false);
     const [newInsight, setNewInsight] = useState("");
@@ -59,13 +33,9 @@ export default function InsightsPage() {
         setCreating(true);
 
         try {
-            await fetch("/api/insights", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    coreInsight: newInsight.trim(),
-                    thoughtIds: selectedThoughts,
-                }),
+            await api.insights.create({
+                coreInsight: newInsight.trim(),
+                thoughtIds: selectedThoughts,
             });
             setNewInsight("");
             setSelectedThoughts([]);
@@ -86,7 +56,7 @@ export default function InsightsPage() {
         if (!confirm("Delete this insight?")) return;
 
         try {
-            await fetch(`/api/insights?id=${id}`, { method: "DELETE" });
+            await api.insights.delete(id);
             mutateInsights();
         } catch (error) {
             console.error("Failed to delete insight:", error);
@@ -95,8 +65,13 @@ export default function InsightsPage() {
 
     function getStatusColor(status: string) {
         switch (status) {
-            case "draft": return "var(--warning)";
+            case "draft":
+            case "formatting":
+            case "previewing": return "var(--warning)";
+            case "scheduled":
+            case "publishing": return "var(--accent)";
             case "published": return "var(--success)";
+            case "publish_failed": return "var(--error)";
             default: return "var(--text-muted)";
         }
     }
@@ -105,13 +80,7 @@ export default function InsightsPage() {
         if (!confirm("Publish this post to LinkedIn?")) return;
 
         try {
-            const res = await fetch("/api/insights", {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ id, action: "publish" }),
-            });
-
-            if (!res.ok) throw new Error("Failed to publish");
+            await api.insights.publish(id);
 
             alert("Post sent for publication!");
             mutateInsights();
@@ -142,7 +111,7 @@ export default function InsightsPage() {
 
                 {/* Filter Tabs */}
                 <div className="flex gap-2 mb-8">
-                    {["all", "draft", "published"].map((tab) => (
+                    {(["all", "draft", "previewing", "scheduled", "published", "publish_failed"] as const).map((tab) => (
                         <button
                             key={tab}
                             onClick={() => setFilter(tab)}
@@ -153,7 +122,7 @@ export default function InsightsPage() {
                                 border: `1px solid ${filter === tab ? "var(--accent-border)" : "transparent"}`,
                             }}
                         >
-                            {tab}
+                            {tab.replace("_", " ")}
                         </button>
                     ))}
                 </div>
@@ -199,10 +168,10 @@ export default function InsightsPage() {
                                             border: `1px solid ${getStatusColor(insight.status)}30`
                                         }}
                                     >
-                                        {insight.status}
+                                        {insight.status.replace("_", " ")}
                                     </span>
                                     <span className="text-xs text-[var(--text-muted)]">
-                                        {new Date(insight.createdAt).toLocaleDateString()}
+                                        {formatJobStatus(insight.jobs?.[0]) ?? new Date(insight.createdAt).toLocaleDateString()}
                                     </span>
                                 </div>
 
@@ -226,9 +195,9 @@ export default function InsightsPage() {
                                             <p className="line-clamp-4">{insight.coreInsight}</p>
                                         )}
                                     </div>
-                                    {!insight.preview && insight.status === "draft" && (
+                                    {insight.status === "formatting" && (
                                         <div className="mt-2 text-xs italic text-[var(--text-muted)]">
-                                            Generating draft...
+                                            Formatting preview...
                                         </div>
                                     )}
                                 </div>
@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import AppHeader from "@/components/AppHeader";
+import { useHighlightLibrary } from "@/lib/hooks";
+import { formatRelativeDate } from "@/lib/formatters";
+import { HIGHLIGHT_CATEGORIES, HIGHLIGHT_CATEGORY_COLORS, HIGHLIGHT_CATEGORY_LABELS } from "@/lib/constants";
+import type { HighlightCategory } from "@/lib/constants";
+import type { LibraryHighlight, TagsResponse } from "@/lib/types";
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+type GroupBy = "signal" | "topic";
+
+interface HighlightGroup {
+    key: string;
+    title: string;
+    href?: string;          // Review page of the signal, when grouped by signal
+    subtitle?: string | null;
+    highlights: LibraryHighlight[];
+}
+
+/**
+ * Groups highlights by their signal, or by each tag of their signal
+ *
+ * Groups keep the order of their newest highlight; with topics, a
+ * highlight is listed under every tag of its signal.
+ */
+function groupHighlights(highlights: LibraryHighlight[], by: GroupBy): HighlightGroup[] {
+    const groups = new Map<string, HighlightGroup>();
+
+    for (const highlight of highlights) {
+        const { signal } = highlight;
+        const keys = by === "signal"
+            ? [{ key: signal.id, title: signal.title, href: `/review/${signal.id}`, subtitle: signal.source }]
+            : (signal.tags.length > 0 ? signal.tags : [null]).map((tag) => ({
+                key: tag ?? "",
+                title: tag ?? "Untagged",
+            }));
+
+        for (const group of keys) {
+            const existing = groups.get(group.key);
+            if (existing) {
+                existing.highlights.push(highlight);
+            } else {
+                groups.set(group.key, { ...group, highlights: [highlight] });
+            }
+        }
+    }
+
+    return [...groups.values()];
+}
+
+/**
+ * Start of a picked day in the user's time zone, or of the day after for an end date
+ */
+function dayBoundary(day: string, end: boolean): Date | undefined {
+    if (!day) return undefined;
+    const date = new Date(`${day}T00:00:00`);
+    if (end) date.setDate(date.getDate() + 1);
+    return date;
+}
+
+/**
+ * Library Page
+ *
+ * Every highlight across signals, filtered by category, topic, source and
+ * date and grouped by signal or topic, for mining past reading when
+ * writing.
+ */
+export default function LibraryPage() {
+    const [categories, setCategories] = useState<HighlightCategory[]>([]);
+    const [tag, setTag] = useState("");
+    const [source, setSource] = useState("");
+    const [fromDay, setFromDay] = useState("");
+    const [toDay, setToDay] = useState("");
+    const [groupBy, setGroupBy] = useState<GroupBy>("signal");
+
+    const { data, error, size, setSize, isValidating } = useHighlightLibrary({
+        category: categories,
+        tag: tag || undefined,
+        source: source.trim() || undefined,
+        from: dayBoundary(fromDay, false),
+        to: dayBoundary(toDay, true),
+    });
+    const { data: tagData } = useSWR<TagsResponse>("/api/tags", fetcher);
+
+    const highlights = data?.flatMap((page) => page.highlights) ?? [];
+    const total = data?.[0]?.total ?? 0;
+    const hasMore = Boolean(data?.[data.length - 1]?.nextCursor);
+    const loadingMore = isValidating && size > (data?.length ?? 0);
+    const groups = groupHighlights(highlights, groupBy);
+    const tags = (tagData?.tags ?? []).filter((t) => t.signalCount > 0);
+
+    function toggleCategory(category: HighlightCategory) {
+        setCategories(categories.includes(category)
+            ? categories.filter((c) => c !== category)
+            : [...categories, category]);
+    }
+
+    return (
+        <div className="min-h-screen" style={{ background: "var(--background)" }}>
+            <AppHeader />
+
+            <main className="max-w-5xl mx-auto px-6 py-8">
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+                        Library
+                    </h1>
+                    <p className="text-sm mt-2 max-w-2xl" style={{ color: "var(--text-secondary)" }}>
+                        Everything you have highlighted, across all signals. Filter by category, topic, source or date to find material for your next post.
+                    </p>
+                </div>
+
+                {/* Filters */}
+                <div
+                    className="p-4 rounded-xl mb-8 space-y-4"
+                    style={{ background: "var(--background-elevated)", border: "1px solid var(--border)" }}
+                >
+                    <div className="flex flex-wrap gap-2">
+                        {Object.values(HIGHLIGHT_CATEGORIES).map((category) => {
+                            const active = categories.includes(category);
+                            const color = HIGHLIGHT_CATEGORY_COLORS[category];
+
+                            return (
+                                <button
+                                    key={category}
+                                    onClick={() => toggleCategory(category)}
+                                    className="px-3 py-1 rounded-full text-sm transition-all"
+                                    style={{
+                                        background: active ? `${color}33` : "var(--background-hover)",
+                                        color: active ? color : "var(--text-secondary)",
+                                        border: `1px solid ${active ? color : "transparent"}`,
+                                    }}
+                                >
+                                    {HIGHLIGHT_CATEGORY_LABELS[category]}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                        <select
+                            value={tag}
+                            onChange={(e) => setTag(e.target.value)}
+                            aria-label="Topic"
+                            className="input text-sm"
+                            style={{ width: "auto" }}
+                        >
+                            <option value="">All topics</option>
+                            {tags.map((t) => (
+                                <option key={t.id} value={t.name}>
+                                    {t.name}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            value={source}
+                            onChange={(e) => setSource(e.target.value)}
+                            placeholder="Source"
+                            aria-label="Source"
+                            className="input text-sm w-40"
+                        />
+                        <input
+                            type="date"
+                            value={fromDay}
+                            onChange={(e) => setFromDay(e.target.value)}
+                            aria-label="From"
+                            title="Highlighted on or after"
+                            className="input text-sm"
+                            style={{ width: "auto" }}
+                        />
+                        <input
+                            type="date"
+                            value={toDay}
+                            onChange={(e) => setToDay(e.target.value)}
+                            aria-label="To"
+                            title="Highlighted on or before"
+                            className="input text-sm"
+                            style={{ width: "auto" }}
+                        />
+
+                        <div className="flex items-center gap-1 ml-auto text-sm">
+                            <span style={{ color: "var(--text-muted)" }}>Group by</span>
+                            {(["signal", "topic"] as const).map((by) => (
+                                <button
+                                    key={by}
+                                    onClick={() => setGroupBy(by)}
+                                    className={`btn text-xs ${groupBy === by ? "btn-secondary" : "btn-ghost"}`}
+                                >
+                                    {by === "signal" ? "Signal" : "Topic"}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Highlights */}
+                {error ? (
+                    <p className="text-sm" style={{ color: "var(--error)" }}>
+                        {error.message}
+                    </p>
+                ) : !data ? (
+                    <div className="space-y-4">
+                        {[1, 2, 3].map((i) => (
+                            <div
+                                key={i}
+                                className="skeleton h-24 rounded-lg"
+                                style={{ background: "var(--background-elevated)" }}
+                            />
+                        ))}
+                    </div>
+                ) : highlights.length === 0 ? (
+                    <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                        No highlights match. Select text on a signal&apos;s review page to highlight it.
+                    </p>
+                ) : (
+                    <div className="space-y-8">
+                        <p className="text-xs" style={{ color: "var(--text-muted)" }}>
+                            {total} highlight{total === 1 ? "" : "s"}
+                        </p>
+
+                        {groups.map((group) => (
+                            <section key={group.key}>
+                                <h2 className="font-medium mb-3 flex items-baseline gap-2" style={{ color: "var(--text-primary)" }}>
+                                    {group.href ? (
+                                        <Link href={group.href} className="hover:underline">
+                                            {group.title}
+                                        </Link>
+                                    ) : group.title}
+                                    {group.subtitle && (
+                                        <span className="text-xs" style={{ color: "var(--text-muted)" }}>
+                                            {group.subtitle}
+                                        </span>
+                                    )}
+                                </h2>
+
+                                <div className="space-y-3">
+                                    {group.highlights.map((highlight) => (
+                                        <HighlightCard
+                                            key={highlight.id}
+                                            highlight={highlight}
+                                            showSignal={groupBy === "topic"}
+                                        />
+                                    ))}
+                                </div>
+                            </section>
+                        ))}
+
+                        {hasMore && (
+                            <button
+                                onClick={() => setSize(size + 1)}
+                                disabled={loadingMore}
+                                className="btn btn-secondary w-full"
+                            >
+                                {loadingMore ? "Loading..." : "Load more"}
+                            </button>
+                        )}
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
+
+/**
+ * One highlight with its category, note and, when grouped by topic, its signal
+ */
+function HighlightCard({ highlight, showSignal }: { highlight: LibraryHighlight; showSignal: boolean }) {
+    const category = highlight.category as HighlightCategory | null;
+    const color = category ? HIGHLIGHT_CATEGORY_COLORS[category] : "var(--accent)";
+
+    return (
+        <div
+            className="p-4 rounded-lg"
+            style={{
+                background: "var(--background-elevated)",
+                border: "1px solid var(--border)",
+                borderLeft: `3px solid ${color}`,
+            }}
+        >
+            <p style={{ color: "var(--text-primary)" }}>
+                &quot;{highlight.text}&quot;
+            </p>
+            {highlight.note && (
+                <p className="text-sm mt-2" style={{ color: "var(--text-secondary)" }}>
+                    {highlight.note}
+                </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mt-3 text-xs" style={{ color: "var(--text-muted)" }}>
+                {category && (
+                    <span className="px-2 py-0.5 rounded-full font-medium" style={{ background: `${color}33`, color }}>
+                        {HIGHLIGHT_CATEGORY_LABELS[category]}
+                    </span>
+                )}
+                {showSignal && (
+                    <Link href={`/review/${highlight.signal.id}`} className="hover:underline" style={{ color: "var(--accent)" }}>
+                        {highlight.signal.title}
+                    </Link>
+                )}
+                {highlight.section && <span>· {highlight.section.label}</span>}
+                <span>· {formatRelativeDate(highlight.createdAt)}</span>
+                {highlight.orphaned && (
+                    <span style={{ color: "var(--warning)" }}>· no longer in the content</span>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSWRConfig } from "swr";
+import { api, ApiError } from "@/lib/client";
+import { PASSWORD_MIN_LENGTH } from "@/lib/constants";
+
+type Mode = "login" | "signup" | "link";
+
+const MODE_LABELS: Record<Mode, string> = {
+    login: "Sign in",
+    signup: "Create account",
+    link: "Email me a link",
+};
+
+export default function LoginPage() {
+    return (
+        <div className="min-h-screen flex items-center justify-center px-6" style={{ background: "var(--background)" }}>
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+                <LoginForm />
+            </Suspense>
+        </div>
+    );
+}
+
+/**
+ * Password sign-in, sign-up and sign-in link forms
+ *
+ * Returns to the page in `?next=` after signing in.
+ */
+function LoginForm() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { mutate } = useSWRConfig();
+    const [mode, setMode] = useState<Mode>("login");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [name, setName] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState(
+        searchParams.get("error") === "link" ? "This sign-in link is invalid, used or expired." : ""
+    );
+    const [message, setMessage] = useState("");
+
+    // Only same-site paths, so the link cannot send users elsewhere
+    const next = searchParams.get("next");
+    const returnTo = next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+    function switchMode(value: Mode) {
+        setMode(value);
+        setError("");
+        setMessage("");
+    }
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        setError("");
+        setMessage("");
+        setSubmitting(true);
+
+        try {
+            if (mode === "link") {
+                await api.auth.requestLink({ email });
+                setMessage("Check your inbox for a sign-in link.");
+                return;
+            }
+
+            const session = mode === "signup"
+                ? await api.auth.signup({ email, password, name: name || undefined })
+                : await api.auth.login({ email, password });
+
+            await mutate("/api/auth/session", session, { revalidate: false });
+            router.replace(returnTo);
+        } catch (err) {
+            const issue = err instanceof ApiError ? err.issues[0] : undefined;
+            setError(issue
+                ? `${issue.field}: ${issue.message}`
+                : err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+            setSubmitting(false);
+        }
+    }
+
+    return (
+        <div className="w-full max-w-sm">
+            <div className="flex items-center justify-center gap-2 mb-8">
+                <div className="w-8 h-8 rounded-lg bg-[var(--accent)] flex items-center justify-center text-white font-bold text-lg shadow-lg">
+                    S
+                </div>
+                <span className="text-xl font-bold tracking-tight text-[var(--text-primary)]">
+                    Signal Desk
+                </span>
+            </div>
+
+            <div
+                className="p-6 rounded-xl"
+                style={{ background: "var(--background-elevated)", border: "1px solid var(--border)" }}
+            >
+                {/* Mode Tabs */}
+                <div className="flex gap-1 mb-6">
+                    {(Object.keys(MODE_LABELS) as Mode[]).map((value) => (
+                        <button
+                            key={value}
+                            type="button"
+                            onClick={() => switchMode(value)}
+                            className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-medium transition-all ${mode === value
+                                ? "bg-[var(--accent-soft)] text-[var(--accent)]"
+                                : "text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--background-hover)]"
+                                }`}
+                        >
+                            {MODE_LABELS[value]}
+                        </button>
+                    ))}
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    {mode === "signup" && (
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Name (optional)"
+                            autoComplete="name"
+                            className="input w-full text-sm"
+                        />
+                    )}
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder="you@example.com"
+                        autoComplete="email"
+                        required
+                        className="input w-full text-sm"
+                    />
+                    {mode !== "link" && (
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder={mode === "signup" ? `Password (${PASSWORD_MIN_LENGTH}+ characters)` : "Password"}
+                            autoComplete={mode === "signup" ? "new-password" : "current-password"}
+                            minLength={mode === "signup" ? PASSWORD_MIN_LENGTH : undefined}
+                            required
+                            className="input w-full text-sm"
+                        />
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={submitting}
+                        className="btn btn-primary w-full"
+                        style={{ opacity: submitting ? 0.6 : 1 }}
+                    >
+                        {submitting ? "Please wait..." : MODE_LABELS[mode]}
+                    </button>
+                </form>
+
+                {error && (
+                    <p className="mt-4 text-sm" style={{ color: "var(--error)" }}>
+                        {error}
+                    </p>
+                )}
+                {message && (
+                    <p className="mt-4 text-sm" style={{ color: "var(--text-secondary)" }}>
+                        {message}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
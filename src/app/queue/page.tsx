@@ -1,29 +1,17 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import useSWR from "swr";
 import { useRouter } from "next/navigation";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import AppHeader from "@/components/AppHeader";
-
-const fetcher = (url: string) => fetch(url).then((res) => res.json());
-
-interface Signal {
-    id: string;
-    title: string;
-    content: string;
-    summary?: string;
-    rawContent?: string;
-    source?: string;
-    sourceUrl?: string;
-    tags: string[];
-    createdAt: string;
-}
+import { api } from "@/lib/client";
+import { useSignals } from "@/lib/hooks";
+import type { SignalWithParsedTags as Signal } from "@/lib/types";
 
 export default function QueuePage() {
     const router = useRouter();
-    const { data, mutate } = useSWR("/api/signals?status=unread&limit=100", fetcher);
+    const { data, mutate } = useSignals({ status: ["unread"], limit: 100 });
 
     const [queue, setQueue] = useState<Signal[]>([]);
     const [currentIndex, setCurrentIndex] = useState(0);
@@ -84,14 +72,10 @@ export default function QueuePage() {
 
         try {
             // Persist to DB in background
-            await fetch("/api/signals", {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    id: signalId,
-                    status: action,
-                    thought: thoughtToSave || undefined,
-                }),
+            await api.signals.setStatus({
+                id: signalId,
+                status: action,
+                thought: thoughtToSave || undefined,
             });
             mutate();
         } catch (error) {
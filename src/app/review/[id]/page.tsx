@@ -1,40 +1,27 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
+import Image from "next/image";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import AppHeader from "@/components/AppHeader";
-
-interface Signal {
-    id: string;
-    title: string;
-    content: string;
-    summary: string | null;
-    source: string | null;
-    sourceUrl: string | null;
-    tags: string[];
-    status: string;
-    rawContent?: string;
-    createdAt: string;
-    highlights: Highlight[];
-    thoughts: Thought[];
-}
-
-interface Highlight {
-    id: string;
-    text: string;
-    note: string | null;
-    startPos: number | null;
-    endPos: number | null;
-    createdAt: string;
-}
-
-interface Thought {
-    id: string;
-    content: string;
-    createdAt: string;
-}
+import HighlightedMarkdown from "@/components/HighlightedMarkdown";
+import TranscriptView from "@/components/TranscriptView";
+import RelatedPanel from "@/components/RelatedPanel";
+import StatusTimeline from "@/components/StatusTimeline";
+import { formatJobStatus, formatTimestamp } from "@/lib/formatters";
+import { getYouTubeEmbedUrl, getYouTubeVideoId } from "@/lib/youtube";
+import { ApiError, api } from "@/lib/client";
+import { useSignal } from "@/lib/hooks";
+import {
+    HIGHLIGHT_CATEGORIES,
+    HIGHLIGHT_CATEGORY_COLORS,
+    HIGHLIGHT_CATEGORY_LABELS,
+    HIGHLIGHT_CONTEXT_LENGTH,
+} from "@/lib/constants";
+import type { HighlightCategory, SignalStatus } from "@/lib/constants";
+import type { HighlightSummary } from "@/lib/types";
 
 // Reflection prompts from the PRD
 const REFLECTION_PROMPTS = [
@@ -52,34 +39,23 @@ export default function ReviewPage() {
     const router = useRouter();
     const signalId = params.id as string;
 
-    const [signal, setSignal] = useState<Signal | null>(null);
-    const [loading, setLoading] = useState(true);
+    const { data: signal, error: loadError, isLoading: loading, mutate } = useSignal(signalId);
     const [thoughtContent, setThoughtContent] = useState("");
     const [savingThought, setSavingThought] = useState(false);
     const [selectedText, setSelectedText] = useState("");
+    const [selectionContext, setSelectionContext] = useState<{ prefix: string; suffix: string } | null>(null);
+    const [selectedCategory, setSelectedCategory] = useState<HighlightCategory | "">("");
+    const contentRef = useRef<HTMLDivElement>(null);
     const [showPrompts, setShowPrompts] = useState(true);
     const [currentPrompt, setCurrentPrompt] = useState(0);
-
-    const fetchSignal = useCallback(async () => {
-        try {
-            const res = await fetch(`/api/signals/${signalId}`);
-            if (!res.ok) {
-                router.push("/");
-                return;
-            }
-            const data = await res.json();
-            setSignal(data);
-        } catch (error) {
-            console.error("Failed to fetch signal:", error);
-            router.push("/");
-        } finally {
-            setLoading(false);
-        }
-    }, [signalId, router]);
+    const [playerStart, setPlayerStart] = useState<number | undefined>(undefined);
+    const [linkedHighlight, setLinkedHighlight] = useState<HighlightSummary | null>(null);
 
     useEffect(() => {
-        fetchSignal();
-    }, [fetchSignal]);
+        if (!loadError) return;
+        console.error("Failed to fetch signal:", loadError);
+        router.push("/");
+    }, [loadError, router]);
 
     useEffect(() => {
         // Rotate prompts
@@ -94,6 +70,9 @@ export default function ReviewPage() {
         const selection = window.getSelection();
         if (selection && selection.toString().trim()) {
             setSelectedText(selection.toString().trim());
+            setSelectionContext(contentRef.current && selection.rangeCount > 0
+                ? textAround(contentRef.current, selection.getRangeAt(0))
+                : null);
         }
     }
 
@@ -101,26 +80,34 @@ export default function ReviewPage() {
         if (!selectedText || !signal) return;
 
         try {
-            await fetch("/api/highlights", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    signalId: signal.id,
-                    text: selectedText,
-                }),
+            // The text around the selection anchors it in the content
+            await api.highlights.create({
+                signalId: signal.id,
+                text: selectedText,
+                category: selectedCategory || null,
+                ...selectionContext,
             });
             setSelectedText("");
             window.getSelection()?.removeAllRanges();
-            fetchSignal();
+            mutate();
         } catch (error) {
             console.error("Failed to create highlight:", error);
         }
     }
 
+    async function setHighlightCategory(id: string, category: HighlightCategory | null) {
+        try {
+            await api.highlights.update({ id, category });
+            mutate();
+        } catch (error) {
+            console.error("Failed to update highlight:", error);
+        }
+    }
+
     async function deleteHighlight(id: string) {
         try {
-            await fetch(`/api/highlights?id=${id}`, { method: "DELETE" });
-            fetchSignal();
+            await api.highlights.delete(id);
+            mutate();
         } catch (error) {
             console.error("Failed to delete highlight:", error);
         }
@@ -131,16 +118,14 @@ export default function ReviewPage() {
 
         setSavingThought(true);
         try {
-            await fetch("/api/thoughts", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    signalId: signal.id,
-                    content: thoughtContent.trim(),
-                }),
+            await api.thoughts.create({
+                signalId: signal.id,
+                content: thoughtContent.trim(),
+                highlightId: linkedHighlight?.id,
             });
             setThoughtContent("");
-            fetchSignal();
+            setLinkedHighlight(null);
+            mutate();
         } catch (error) {
             console.error("Failed to save thought:", error);
         } finally {
@@ -148,28 +133,35 @@ export default function ReviewPage() {
         }
     }
 
+    // Restart the embedded player at a transcript position
+    function seekTo(seconds: number) {
+        setPlayerStart(seconds);
+        document.getElementById("video-player")?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+
     async function deleteThought(id: string) {
         try {
-            await fetch(`/api/thoughts?id=${id}`, { method: "DELETE" });
-            fetchSignal();
+            await api.thoughts.delete(id);
+            mutate();
         } catch (error) {
             console.error("Failed to delete thought:", error);
         }
     }
 
-    async function markReviewed() {
-        if (!signal || signal.status === "reviewed") return;
+    async function changeStatus(status: SignalStatus) {
+        if (!signal || signal.status === status) return;
 
         try {
-            await fetch(`/api/signals/${signal.id}`, {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ status: "reviewed" }),
-            });
-            fetchSignal();
+            await api.signals.update(signal.id, { status });
         } catch (error) {
-            console.error("Failed to update status:", error);
+            if (error instanceof ApiError) {
+                alert(error.message);
+            } else {
+                console.error("Failed to update status:", error);
+            }
         }
+
+        mutate();
     }
 
     if (loading) {
@@ -187,6 +179,11 @@ export default function ReviewPage() {
         return null;
     }
 
+    const videoId = signal.source === "youtube" && signal.sourceUrl
+        ? getYouTubeVideoId(signal.sourceUrl)
+        : null;
+    const segments = (signal.sections ?? []).filter((section) => section.kind === "segment");
+
     return (
         <div
             className="min-h-screen flex flex-col"
@@ -214,16 +211,34 @@ export default function ReviewPage() {
                                 ← Back
                             </button>
                             <div className="flex items-center gap-3">
+                                {formatJobStatus(signal.jobs?.[0]) && (
+                                    <span
+                                        className="text-xs"
+                                        style={{ color: signal.jobs[0].status === "dead" ? "var(--error)" : "var(--text-muted)" }}
+                                        title={signal.jobs[0].lastError ?? undefined}
+                                    >
+                                        {formatJobStatus(signal.jobs[0])}
+                                    </span>
+                                )}
                                 <span
                                     className={`badge badge-${signal.status === "unread" ? "unread" : "draft"}`}
                                 >
                                     {signal.status}
                                 </span>
                                 {signal.status === "unread" && (
-                                    <button onClick={markReviewed} className="btn btn-secondary text-sm">
+                                    <button onClick={() => changeStatus("reviewed")} className="btn btn-secondary text-sm">
                                         Mark Reviewed
                                     </button>
                                 )}
+                                {signal.status === "archived" ? (
+                                    <button onClick={() => changeStatus("unread")} className="btn btn-ghost text-sm">
+                                        Restore
+                                    </button>
+                                ) : signal.status !== "processing" && (
+                                    <button onClick={() => changeStatus("archived")} className="btn btn-ghost text-sm">
+                                        Archive
+                                    </button>
+                                )}
                             </div>
                         </div>
                     </header>
@@ -243,7 +258,8 @@ export default function ReviewPage() {
                                     style={{ color: "var(--text-secondary)" }}
                                 >
                                     {signal.source && <span>{signal.source}</span>}
-                                    <span>{new Date(signal.createdAt).toLocaleDateString()}</span>
+                                    {signal.author && <span>{signal.author}</span>}
+                                    <span>{new Date(signal.publishedAt || signal.createdAt).toLocaleDateString()}</span>
                                     {signal.sourceUrl && (
                                         <a
                                             href={signal.sourceUrl}
@@ -255,7 +271,50 @@ export default function ReviewPage() {
                                             View Source ↗
                                         </a>
                                     )}
+                                    {signal.fileKey && (
+                                        <a
+                                            href={`/api/signals/${signal.id}/file`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="hover:underline"
+                                            style={{ color: "var(--accent)" }}
+                                        >
+                                            {signal.fileName || "Original File"} ↗
+                                        </a>
+                                    )}
+                                    {signal.sightings.length > 0 && (
+                                        <span
+                                            title={signal.sightings
+                                                .map((s) => `${new Date(s.createdAt).toLocaleString()}: ${s.sourceUrl || s.source || "capture"}`)
+                                                .join("\n")}
+                                        >
+                                            Captured {signal.sightings.length + 1} times
+                                        </span>
+                                    )}
                                 </div>
+                                {videoId ? (
+                                    <div
+                                        id="video-player"
+                                        className="mt-6 aspect-video rounded-xl overflow-hidden"
+                                        style={{ border: "1px solid var(--border)" }}
+                                    >
+                                        <iframe
+                                            src={getYouTubeEmbedUrl(videoId, playerStart)}
+                                            title={signal.title}
+                                            className="w-full h-full"
+                                            allow="autoplay; encrypted-media; picture-in-picture"
+                                            allowFullScreen
+                                        />
+                                    </div>
+                                ) : signal.imageUrl && (
+                                    <div
+                                        className="relative mt-6 h-80 rounded-xl overflow-hidden"
+                                        style={{ border: "1px solid var(--border)" }}
+                                    >
+                                        {/* Lead images come from arbitrary hosts, so skip the optimizer */}
+                                        <Image src={signal.imageUrl} alt="" fill unoptimized className="object-cover" />
+                                    </div>
+                                )}
                             </header>
 
                             {/* Summary (Collapsible) */}
@@ -278,15 +337,26 @@ export default function ReviewPage() {
                             )}
 
                             <div
+                                ref={contentRef}
                                 className="prose prose-lg dark:prose-invert max-w-none"
                                 style={{
                                     color: "var(--text-primary)",
                                     lineHeight: 1.8,
                                 }}
                             >
-                                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                                    {signal.content}
-                                </ReactMarkdown>
+                                {segments.length > 0 ? (
+                                    <TranscriptView
+                                        content={signal.content}
+                                        segments={segments}
+                                        onSeek={seekTo}
+                                    />
+                                ) : (
+                                    <HighlightedMarkdown
+                                        content={signal.content}
+                                        highlights={signal.highlights}
+                                        onSelect={setLinkedHighlight}
+                                    />
+                                )}
                             </div>
 
                             {/* Raw Content Toggle */}
@@ -348,6 +418,10 @@ export default function ReviewPage() {
                                 >
                                     &quot;{selectedText.substring(0, 50)}...&quot;
                                 </span>
+                                <CategorySelect
+                                    value={selectedCategory || null}
+                                    onChange={(category) => setSelectedCategory(category ?? "")}
+                                />
                                 <button onClick={createHighlight} className="btn btn-primary text-sm">
                                     Save Highlight
                                 </button>
@@ -414,6 +488,24 @@ export default function ReviewPage() {
                         >
                             Capture Your Thoughts
                         </h2>
+                        {linkedHighlight && (
+                            <div
+                                className="flex items-start justify-between gap-2 mb-3 p-2 rounded text-xs"
+                                style={{ background: "var(--accent-soft)", color: "var(--text-secondary)" }}
+                            >
+                                <span className="line-clamp-2">
+                                    {linkedHighlight.startTime !== null && `${formatTimestamp(linkedHighlight.startTime)} · `}
+                                    &quot;{linkedHighlight.text}&quot;
+                                </span>
+                                <button
+                                    onClick={() => setLinkedHighlight(null)}
+                                    className="hover:underline shrink-0"
+                                    style={{ color: "var(--text-muted)" }}
+                                >
+                                    Unlink
+                                </button>
+                            </div>
+                        )}
                         <textarea
                             value={thoughtContent}
                             onChange={(e) => setThoughtContent(e.target.value)}
@@ -458,6 +550,24 @@ export default function ReviewPage() {
                                             border: "1px solid var(--border)",
                                         }}
                                     >
+                                        {thought.highlight && (
+                                            <p
+                                                className="text-xs mb-2 line-clamp-2"
+                                                style={{ color: "var(--text-muted)" }}
+                                            >
+                                                {thought.highlight.startTime !== null && videoId ? (
+                                                    <button
+                                                        onClick={() => seekTo(thought.highlight!.startTime!)}
+                                                        className="hover:underline"
+                                                        style={{ color: "var(--accent)" }}
+                                                    >
+                                                        {formatTimestamp(thought.highlight.startTime)} in the video
+                                                    </button>
+                                                ) : (
+                                                    <>On &quot;{thought.highlight.text}&quot;</>
+                                                )}
+                                            </p>
+                                        )}
                                         <p
                                             className="text-sm whitespace-pre-wrap"
                                             style={{ color: "var(--text-primary)" }}
@@ -512,28 +622,135 @@ export default function ReviewPage() {
                                         className="p-3 rounded-lg highlight"
                                         style={{
                                             background: "var(--accent-soft)",
+                                            ...(highlight.category && {
+                                                borderBottomColor: HIGHLIGHT_CATEGORY_COLORS[highlight.category as HighlightCategory],
+                                            }),
                                         }}
                                     >
+                                        {highlight.startTime !== null && videoId ? (
+                                            <button
+                                                onClick={() => seekTo(highlight.startTime!)}
+                                                className="text-xs mb-1 font-mono hover:underline"
+                                                style={{ color: "var(--accent)" }}
+                                            >
+                                                {formatTimestamp(highlight.startTime)}
+                                            </button>
+                                        ) : highlight.section && (
+                                            <p
+                                                className="text-xs mb-1"
+                                                style={{ color: "var(--text-muted)" }}
+                                            >
+                                                {highlight.section.label}
+                                            </p>
+                                        )}
                                         <p
                                             className="text-sm"
                                             style={{ color: "var(--text-primary)" }}
                                         >
                                             &quot;{highlight.text}&quot;
                                         </p>
-                                        <button
-                                            onClick={() => deleteHighlight(highlight.id)}
-                                            className="text-xs mt-2 hover:underline"
-                                            style={{ color: "var(--text-muted)" }}
-                                        >
-                                            Remove
-                                        </button>
+                                        {highlight.orphaned && (
+                                            <p
+                                                className="text-xs mt-1"
+                                                style={{ color: "var(--warning)" }}
+                                                title="The content was re-processed and this text is no longer in it"
+                                            >
+                                                Orphaned: not found in the current content
+                                            </p>
+                                        )}
+                                        <div className="flex items-center gap-3 mt-2">
+                                            <CategorySelect
+                                                value={highlight.category as HighlightCategory | null}
+                                                onChange={(category) => setHighlightCategory(highlight.id, category)}
+                                            />
+                                            <button
+                                                onClick={() => setLinkedHighlight(highlight)}
+                                                className="text-xs hover:underline"
+                                                style={{ color: "var(--accent)" }}
+                                            >
+                                                Add thought
+                                            </button>
+                                            <button
+                                                onClick={() => deleteHighlight(highlight.id)}
+                                                className="text-xs hover:underline"
+                                                style={{ color: "var(--text-muted)" }}
+                                            >
+                                                Remove
+                                            </button>
+                                        </div>
                                     </div>
                                 ))}
                             </div>
                         )}
                     </div>
+
+                    {/* Related Signals & Thoughts */}
+                    {signal.status !== "processing" && (
+                        <div
+                            className="p-6 border-t"
+                            style={{ borderColor: "var(--border)" }}
+                        >
+                            <RelatedPanel signalId={signal.id} />
+                        </div>
+                    )}
+
+                    {/* Status History */}
+                    <div
+                        className="p-6 border-t"
+                        style={{ borderColor: "var(--border)" }}
+                    >
+                        <StatusTimeline events={signal.events ?? []} />
+                    </div>
                 </aside>
             </div>
         </div>
     );
 }
+
+/**
+ * Text just before and after a selection within the content, as shown
+ */
+function textAround(container: HTMLElement, range: Range): { prefix: string; suffix: string } | null {
+    if (!container.contains(range.commonAncestorContainer)) return null;
+
+    const before = document.createRange();
+    before.setStart(container, 0);
+    before.setEnd(range.startContainer, range.startOffset);
+
+    const after = document.createRange();
+    after.setStart(range.endContainer, range.endOffset);
+    after.setEnd(container, container.childNodes.length);
+
+    return {
+        prefix: before.toString().slice(-HIGHLIGHT_CONTEXT_LENGTH),
+        suffix: after.toString().slice(0, HIGHLIGHT_CONTEXT_LENGTH),
+    };
+}
+
+/**
+ * Picker for a highlight's category, in the category's color
+ */
+function CategorySelect({
+    value,
+    onChange,
+}: {
+    value: HighlightCategory | null;
+    onChange: (category: HighlightCategory | null) => void;
+}) {
+    return (
+        <select
+            value={value ?? ""}
+            onChange={(e) => onChange((e.target.value || null) as HighlightCategory | null)}
+            aria-label="Category"
+            className="input text-xs py-1"
+            style={{ color: value ? HIGHLIGHT_CATEGORY_COLORS[value] : "var(--text-muted)", width: "auto" }}
+        >
+            <option value="">No category</option>
+            {Object.values(HIGHLIGHT_CATEGORIES).map((category) => (
+                <option key={category} value={category}>
+                    {HIGHLIGHT_CATEGORY_LABELS[category]}
+                </option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { useRouter, useSearchParams } from "next/navigation";
+import AppHeader from "@/components/AppHeader";
+import { formatRelativeDate } from "@/lib/formatters";
+import type { SearchHit, SearchResponse } from "@/lib/types";
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const TYPE_LABELS: Record<string, string> = {
+    signal: "Signals",
+    highlight: "Highlights",
+    thought: "Thoughts",
+    insight: "Insights",
+};
+
+const FACET_LABELS = {
+    type: "Type",
+    source: "Source",
+    tag: "Tag",
+} as const;
+
+type FacetName = keyof typeof FACET_LABELS;
+
+export default function SearchPage() {
+    return (
+        <div className="min-h-screen" style={{ background: "var(--background)" }}>
+            <AppHeader />
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+                <SearchResults />
+            </Suspense>
+        </div>
+    );
+}
+
+/**
+ * Search form, facet filters and ranked hits for the query in the URL
+ */
+function SearchResults() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const query = searchParams.get("q") ?? "";
+    const [input, setInput] = useState(query);
+
+    const { data, isLoading } = useSWR<SearchResponse & { error?: string }>(
+        query ? `/api/search?${searchParams.toString()}` : null,
+        fetcher
+    );
+
+    /**
+     * Updates one URL parameter and resets pagination
+     */
+    function setParam(name: string, value: string | null) {
+        const params = new URLSearchParams(searchParams.toString());
+        if (value) params.set(name, value);
+        else params.delete(name);
+        params.delete("offset");
+        router.push(`/search?${params.toString()}`);
+    }
+
+    function goToOffset(offset: number) {
+        const params = new URLSearchParams(searchParams.toString());
+        params.set("offset", String(offset));
+        router.push(`/search?${params.toString()}`);
+    }
+
+    function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        const q = input.trim();
+        if (q) router.push(`/search?q=${encodeURIComponent(q)}`);
+    }
+
+    const offset = data?.offset ?? 0;
+    const hasNext = data ? offset + data.hits.length < data.total : false;
+
+    return (
+        <main className="max-w-5xl mx-auto px-6 py-8">
+            <form onSubmit={handleSubmit} className="mb-8">
+                <input
+                    type="search"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder='Search signals, highlights, thoughts and insights ("exact phrase", -exclude)'
+                    className="input w-full text-lg"
+                    autoFocus
+                />
+            </form>
+
+            {!query ? (
+                <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                    Type a query to search everything you have captured.
+                </p>
+            ) : isLoading || !data ? (
+                <p className="text-sm" style={{ color: "var(--text-muted)" }}>Searching...</p>
+            ) : data.error ? (
+                <p className="text-sm" style={{ color: "var(--error)" }}>{data.error}</p>
+            ) : (
+                <div className="flex gap-8">
+                    {/* Facets */}
+                    <aside className="w-48 shrink-0 space-y-6">
+                        {(Object.keys(FACET_LABELS) as FacetName[]).map((facet) => {
+                            const values = Object.entries(data.facets[facet]);
+                            if (values.length === 0) return null;
+
+                            const active = searchParams.get(facet);
+                            return (
+                                <div key={facet}>
+                                    <h3
+                                        className="text-xs font-medium uppercase tracking-wider mb-2"
+                                        style={{ color: "var(--text-muted)" }}
+                                    >
+                                        {FACET_LABELS[facet]}
+                                    </h3>
+                                    <ul className="space-y-1">
+                                        {values.map(([value, count]) => (
+                                            <li key={value}>
+                                                <button
+                                                    onClick={() => setParam(facet, active === value ? null : value)}
+                                                    className="w-full flex justify-between text-sm px-2 py-1 rounded hover:bg-[var(--background-hover)]"
+                                                    style={{
+                                                        color: active === value ? "var(--accent)" : "var(--text-secondary)",
+                                                        fontWeight: active === value ? 600 : 400,
+                                                    }}
+                                                >
+                                                    <span className="truncate">
+                                                        {facet === "type" ? TYPE_LABELS[value] ?? value : value}
+                                                    </span>
+                                                    <span>{count}</span>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            );
+                        })}
+                    </aside>
+
+                    {/* Hits */}
+                    <section className="flex-1 min-w-0">
+                        <p className="text-sm mb-4" style={{ color: "var(--text-secondary)" }}>
+                            {data.total} result{data.total === 1 ? "" : "s"} for “{data.query}”
+                        </p>
+
+                        <div className="space-y-3">
+                            {data.hits.map((hit) => (
+                                <HitCard key={`${hit.type}-${hit.id}`} hit={hit} />
+                            ))}
+                        </div>
+
+                        {(offset > 0 || hasNext) && (
+                            <div className="flex justify-between mt-6">
+                                <button
+                                    onClick={() => goToOffset(Math.max(offset - data.limit, 0))}
+                                    disabled={offset === 0}
+                                    className="btn btn-ghost text-sm"
+                                >
+                                    ← Previous
+                                </button>
+                                <button
+                                    onClick={() => goToOffset(offset + data.limit)}
+                                    disabled={!hasNext}
+                                    className="btn btn-ghost text-sm"
+                                >
+                                    Next →
+                                </button>
+                            </div>
+                        )}
+                    </section>
+                </div>
+            )}
+        </main>
+    );
+}
+
+/**
+ * Single search hit linking to its signal or insight
+ */
+function HitCard({ hit }: { hit: SearchHit }) {
+    const href = hit.signalId
+        ? `/review/${hit.signalId}`
+        : `/insights/${hit.insightId}`;
+
+    return (
+        <Link
+            href={href}
+            className="block p-4 rounded-xl transition-all hover:border-[var(--accent)]"
+            style={{
+                background: "var(--background-elevated)",
+                border: "1px solid var(--border)",
+            }}
+        >
+            <div className="flex items-center gap-2 text-xs mb-1" style={{ color: "var(--text-muted)" }}>
+                <span className="uppercase tracking-wider font-medium">{hit.type}</span>
+                {hit.source && <span>· {hit.source}</span>}
+                <span>· {formatRelativeDate(hit.createdAt)}</span>
+            </div>
+            <h3 className="font-medium mb-1" style={{ color: "var(--text-primary)" }}>
+                {hit.title}
+            </h3>
+            {/* Snippets are HTML-escaped by the search query; only <mark> tags remain */}
+            <p
+                className="text-sm search-snippet"
+                style={{ color: "var(--text-secondary)" }}
+                dangerouslySetInnerHTML={{ __html: hit.snippet }}
+            />
+        </Link>
+    );
+}
@@ -3,12 +3,13 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import AppHeader from "@/components/AppHeader";
-
-interface WebhookConfig {
-    id: string;
-    name: string;
-    url: string;
-}
+import ApiTokenSettings from "@/components/ApiTokenSettings";
+import DeliveryHistory from "@/components/DeliveryHistory";
+import ProcessorSettings from "@/components/ProcessorSettings";
+import WorkspaceSettings from "@/components/WorkspaceSettings";
+import { api } from "@/lib/client";
+import { API_EXPLORER_PATH } from "@/lib/constants";
+import type { WebhookConfigSummary as WebhookConfig } from "@/lib/types";
 
 const WEBHOOK_DESCRIPTIONS: Record<string, string> = {
     ingest: "n8n webhook to process raw inputs (URLs, text) and extract signals",
@@ -20,6 +21,8 @@ export default function SettingsPage() {
     const [configs, setConfigs] = useState<WebhookConfig[]>([]);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState<string | null>(null);
+    const [rotating, setRotating] = useState<string | null>(null);
+    const [revealed, setRevealed] = useState<string | null>(null);
     const [urls, setUrls] = useState<Record<string, string>>({
         ingest: "",
         generate: "",
@@ -32,21 +35,12 @@ export default function SettingsPage() {
 
     async function fetchConfigs() {
         try {
-            const res = await fetch("/api/settings/webhooks");
-
-            if (!res.ok) {
-                console.warn("API returned error status:", res.status);
-                setConfigs([]);
-                return;
-            }
-
-            const data = await res.json();
-            const loadedConfigs = data.configs || [];
+            const { configs: loadedConfigs } = await api.webhooks.list();
             setConfigs(loadedConfigs);
 
             // Populate URLs from existing configs
             const urlMap: Record<string, string> = { ingest: "", generate: "", publish: "" };
-            loadedConfigs.forEach((c: WebhookConfig) => {
+            loadedConfigs.forEach((c) => {
                 if (c.name in urlMap) {
                     urlMap[c.name] = c.url;
                 }
@@ -62,11 +56,7 @@ export default function SettingsPage() {
     async function saveWebhook(name: string) {
         setSaving(name);
         try {
-            await fetch("/api/settings/webhooks", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ name, url: urls[name] }),
-            });
+            await api.webhooks.save({ name, url: urls[name] });
             fetchConfigs();
         } catch (error) {
             console.error("Failed to save webhook:", error);
@@ -75,6 +65,21 @@ export default function SettingsPage() {
         }
     }
 
+    async function rotateSecret(name: string) {
+        if (!confirm(`Rotate the ${name} signing secret? The current secret keeps working for 24 hours.`)) return;
+
+        setRotating(name);
+        try {
+            await api.webhooks.rotateSecret(name);
+            setRevealed(name);
+            fetchConfigs();
+        } catch (error) {
+            console.error("Failed to rotate secret:", error);
+        } finally {
+            setRotating(null);
+        }
+    }
+
     function getConfigForName(name: string): WebhookConfig | undefined {
         return configs.find((c) => c.name === name);
     }
@@ -91,7 +96,25 @@ export default function SettingsPage() {
                     </h1>
                 </div>
 
+                {/* Workspace */}
                 <section className="mb-12">
+                    <h2
+                        className="text-lg font-medium mb-2"
+                        style={{ color: "var(--text-primary)" }}
+                    >
+                        Workspace
+                    </h2>
+                    <p
+                        className="text-sm mb-6 max-w-2xl"
+                        style={{ color: "var(--text-secondary)" }}
+                    >
+                        Members share the workspace&apos;s signals, highlights, thoughts, insights and feeds. Their role decides what they can do there.
+                    </p>
+
+                    <WorkspaceSettings />
+                </section>
+
+                <section className="mb-12 pt-8 border-t" style={{ borderColor: "var(--border)" }}>
                     <h2
                         className="text-lg font-medium mb-2"
                         style={{ color: "var(--text-primary)" }}
@@ -102,7 +125,7 @@ export default function SettingsPage() {
                         className="text-sm mb-6 max-w-2xl"
                         style={{ color: "var(--text-secondary)" }}
                     >
-                        Configure the webhook URLs for your n8n workflows. These endpoints will receive data from Signal Desk.
+                        Configure the webhook URLs for this workspace&apos;s n8n workflows. These endpoints will receive data from Signal Desk. Only owners can change them.
                     </p>
 
                     {loading ? (
@@ -181,6 +204,67 @@ export default function SettingsPage() {
                                                 {saving === name ? "Saving..." : "Save"}
                                             </button>
                                         </div>
+
+                                        {existingConfig && (
+                                            <div
+                                                className="mt-4 pt-4 border-t"
+                                                style={{ borderColor: "var(--border)" }}
+                                            >
+                                                <div className="flex items-center justify-between gap-3">
+                                                    <span
+                                                        className="text-xs font-medium uppercase tracking-wider"
+                                                        style={{ color: "var(--text-muted)" }}
+                                                    >
+                                                        Signing Secret
+                                                    </span>
+                                                    <div className="flex items-center gap-2">
+                                                        {existingConfig.secret && (
+                                                            <>
+                                                                <button
+                                                                    onClick={() => setRevealed(revealed === name ? null : name)}
+                                                                    className="btn btn-ghost text-xs"
+                                                                >
+                                                                    {revealed === name ? "Hide" : "Reveal"}
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => navigator.clipboard.writeText(existingConfig.secret ?? "")}
+                                                                    className="btn btn-ghost text-xs"
+                                                                >
+                                                                    Copy
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                        <button
+                                                            onClick={() => rotateSecret(name)}
+                                                            disabled={rotating === name}
+                                                            className="btn btn-secondary text-xs"
+                                                        >
+                                                            {rotating === name
+                                                                ? "Rotating..."
+                                                                : existingConfig.secret ? "Rotate" : "Generate"}
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                                <p
+                                                    className="mt-2 font-mono text-sm break-all"
+                                                    style={{ color: existingConfig.secret ? "var(--text-primary)" : "var(--error)" }}
+                                                >
+                                                    {!existingConfig.secret
+                                                        ? "No secret yet: callbacks for this webhook are rejected"
+                                                        : revealed === name
+                                                            ? existingConfig.secret
+                                                            : "whsec_" + "•".repeat(24)}
+                                                </p>
+                                                {existingConfig.previousSecretExpiresAt && new Date(existingConfig.previousSecretExpiresAt) > new Date() && (
+                                                    <p
+                                                        className="mt-1 text-xs"
+                                                        style={{ color: "var(--text-muted)" }}
+                                                    >
+                                                        Previous secret accepted until {new Date(existingConfig.previousSecretExpiresAt).toLocaleString()}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
                                 );
                             })}
@@ -188,6 +272,61 @@ export default function SettingsPage() {
                     )}
                 </section>
 
+                {/* API Tokens */}
+                <section className="mb-12 pt-8 border-t" style={{ borderColor: "var(--border)" }}>
+                    <h2
+                        className="text-lg font-medium mb-2"
+                        style={{ color: "var(--text-primary)" }}
+                    >
+                        API Tokens
+                    </h2>
+                    <p
+                        className="text-sm mb-6 max-w-2xl"
+                        style={{ color: "var(--text-secondary)" }}
+                    >
+                        Tokens let scripts, n8n and the browser extension act as you in this workspace. Send one as{" "}
+                        <code>Authorization: Bearer &lt;token&gt;</code>; it can do what both your role and its scopes allow.
+                    </p>
+
+                    <ApiTokenSettings />
+                </section>
+
+                {/* Pipeline Processors */}
+                <section className="mb-12 pt-8 border-t" style={{ borderColor: "var(--border)" }}>
+                    <h2
+                        className="text-lg font-medium mb-2"
+                        style={{ color: "var(--text-primary)" }}
+                    >
+                        Pipeline Processors
+                    </h2>
+                    <p
+                        className="text-sm mb-6 max-w-2xl"
+                        style={{ color: "var(--text-secondary)" }}
+                    >
+                        Choose what runs each stage. Use <code>local</code> to try Signal Desk without n8n, or <code>mock</code> for instant canned results. These apply to this workspace, and only its owners can change them.
+                    </p>
+
+                    <ProcessorSettings />
+                </section>
+
+                {/* Delivery History */}
+                <section className="mb-12 pt-8 border-t" style={{ borderColor: "var(--border)" }}>
+                    <h2
+                        className="text-lg font-medium mb-2"
+                        style={{ color: "var(--text-primary)" }}
+                    >
+                        Delivery History
+                    </h2>
+                    <p
+                        className="text-sm mb-6 max-w-2xl"
+                        style={{ color: "var(--text-secondary)" }}
+                    >
+                        Recent calls to and callbacks from your n8n workflows. Expand an entry to inspect its payloads or replay an outbound call. Only owners can see them.
+                    </p>
+
+                    <DeliveryHistory />
+                </section>
+
                 {/* API Info */}
                 <section className="pt-8 border-t" style={{ borderColor: "var(--border)" }}>
                     <h2
@@ -200,7 +339,17 @@ export default function SettingsPage() {
                         className="text-sm mb-4"
                         style={{ color: "var(--text-secondary)" }}
                     >
-                        These are the endpoints your n8n workflows should call back to:
+                        These are the endpoints your n8n workflows should call back to. Each accepts an API token with the{" "}
+                        <code>callbacks</code> scope as <code>Authorization: Bearer &lt;token&gt;</code>; <code>/api/insights</code>{" "}
+                        also takes the deployment&apos;s service token. Without a token, the other callbacks must be signed
+                        with the matching webhook&apos;s secret:
+                        send <code>x-signal-desk-timestamp</code> (Unix seconds), a single-use{" "}
+                        <code>x-signal-desk-nonce</code>, and <code>x-signal-desk-signature</code> set to{" "}
+                        <code>sha256=</code> + hex HMAC-SHA256 of <code>timestamp.nonce.body</code>.
+                        The exact payload each one accepts is in the{" "}
+                        <Link href={API_EXPLORER_PATH} className="underline" style={{ color: "var(--accent-hover)" }}>
+                            API reference
+                        </Link>.
                     </p>
 
                     <div
@@ -212,19 +361,19 @@ export default function SettingsPage() {
                     >
                         <p style={{ color: "var(--text-primary)" }}>
                             <span style={{ color: "var(--accent)" }}>POST</span> /api/insights
-                            <span style={{ color: "var(--text-muted)" }}> ← Save generated insight (fields: coreInsight, signalIds)</span>
+                            <span style={{ color: "var(--text-muted)" }}> ← Save generated insight (fields: coreInsight, signalIds; API or service token)</span>
                         </p>
                         <p style={{ color: "var(--text-primary)" }}>
                             <span style={{ color: "var(--accent)" }}>POST</span> /api/signals/receive
-                            <span style={{ color: "var(--text-muted)" }}> ← Processed signals from Ingest</span>
+                            <span style={{ color: "var(--text-muted)" }}> ← Processed signals from Ingest (signed with ingest secret or API token)</span>
                         </p>
                         <p style={{ color: "var(--text-primary)" }}>
                             <span style={{ color: "var(--accent)" }}>POST</span> /api/insights/preview
-                            <span style={{ color: "var(--text-muted)" }}> ← Formatted previews</span>
+                            <span style={{ color: "var(--text-muted)" }}> ← Formatted previews (signed with generate secret or API token)</span>
                         </p>
                         <p style={{ color: "var(--text-primary)" }}>
                             <span style={{ color: "var(--accent)" }}>POST</span> /api/insights/confirm
-                            <span style={{ color: "var(--text-muted)" }}> ← Publish confirmations</span>
+                            <span style={{ color: "var(--text-muted)" }}> ← Publish confirmations (signed with publish secret or API token)</span>
                         </p>
                     </div>
                 </section>
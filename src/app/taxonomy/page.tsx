@@ -0,0 +1,303 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import AppHeader from "@/components/AppHeader";
+import type { TaxonomyResponse, TaxonomyTopic } from "@/lib/types";
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+/**
+ * Orders topics depth-first so every topic follows its parent
+ */
+function flattenTree(topics: TaxonomyTopic[]): { topic: TaxonomyTopic; depth: number }[] {
+    const ids = new Set(topics.map((t) => t.id));
+    const children = new Map<string | null, TaxonomyTopic[]>();
+
+    for (const topic of topics) {
+        const parent = topic.parentId && ids.has(topic.parentId) ? topic.parentId : null;
+        children.set(parent, [...(children.get(parent) ?? []), topic]);
+    }
+
+    const rows: { topic: TaxonomyTopic; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        for (const topic of children.get(parentId) ?? []) {
+            rows.push({ topic, depth });
+            visit(topic.id, depth + 1);
+        }
+    };
+    visit(null, 0);
+
+    return rows;
+}
+
+export default function TaxonomyPage() {
+    const { data, mutate } = useSWR<TaxonomyResponse>("/api/taxonomy", fetcher);
+
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Sends a request and refreshes the taxonomy, surfacing the API error if any
+     */
+    async function send(key: string, url: string, method: string, body?: object) {
+        setBusy(key);
+        setError(null);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: body ? { "Content-Type": "application/json" } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+
+            if (!res.ok) {
+                const payload = await res.json().catch(() => ({}));
+                setError(payload.error ?? "Request failed");
+            }
+
+            mutate();
+        } catch (error) {
+            console.error("Taxonomy request failed:", error);
+            setError("Request failed");
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    function resolveSuggestion(id: string, action: "approve" | "alias" | "reject", tagId?: string) {
+        return send(id, "/api/taxonomy/suggestions", "PATCH", { id, action, tagId });
+    }
+
+    function renameTopic(topic: TaxonomyTopic) {
+        const name = prompt("Rename topic. The current name is kept as an alias.", topic.name);
+        if (!name || name.trim() === topic.name) return;
+        return send(topic.id, `/api/tags/${topic.id}`, "PATCH", { name });
+    }
+
+    function addAlias(topic: TaxonomyTopic) {
+        const name = prompt(`Another name for ${topic.name}:`);
+        if (!name?.trim()) return;
+        return send(topic.id, `/api/tags/${topic.id}/aliases`, "POST", { name });
+    }
+
+    function deleteTopic(topic: TaxonomyTopic) {
+        if (!confirm(`Delete ${topic.name}? It is removed from ${topic.signalCount} signal(s) and its subtopics move up.`)) return;
+        return send(topic.id, `/api/tags/${topic.id}`, "DELETE");
+    }
+
+    const rows = data ? flattenTree(data.topics) : [];
+
+    return (
+        <div className="min-h-screen" style={{ background: "var(--background)" }}>
+            <AppHeader />
+
+            <main className="max-w-5xl mx-auto px-6 py-8">
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+                        Taxonomy
+                    </h1>
+                    <p className="text-sm mt-2 max-w-2xl" style={{ color: "var(--text-secondary)" }}>
+                        Topics from processors are mapped onto these tags through their aliases. Topics that match nothing wait here for approval.
+                    </p>
+                </div>
+
+                {error && (
+                    <div
+                        className="mb-6 px-3 py-2 rounded-lg text-sm"
+                        style={{ background: "var(--error-soft)", color: "var(--error)" }}
+                    >
+                        {error}
+                    </div>
+                )}
+
+                {!data ? (
+                    <div className="space-y-4">
+                        {[1, 2, 3].map((i) => (
+                            <div
+                                key={i}
+                                className="skeleton h-16 rounded-lg"
+                                style={{ background: "var(--background-elevated)" }}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        {/* Suggestions */}
+                        <section className="mb-10">
+                            <h2 className="text-lg font-semibold mb-3" style={{ color: "var(--text-primary)" }}>
+                                Suggested topics
+                            </h2>
+                            {data.suggestions.length === 0 ? (
+                                <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                                    Nothing to review. New topics from processors will appear here.
+                                </p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {data.suggestions.map((suggestion) => (
+                                        <div
+                                            key={suggestion.id}
+                                            className="flex items-center justify-between gap-4 px-4 py-3 rounded-lg"
+                                            style={{ background: "var(--background-elevated)", border: "1px solid var(--border)" }}
+                                        >
+                                            <div className="min-w-0">
+                                                <span className="font-medium" style={{ color: "var(--text-primary)" }}>
+                                                    {suggestion.name}
+                                                </span>
+                                                <span className="ml-2 text-xs" style={{ color: "var(--text-muted)" }}>
+                                                    {suggestion.signalCount} signal{suggestion.signalCount === 1 ? "" : "s"}
+                                                </span>
+                                            </div>
+
+                                            <div className="flex items-center gap-2 shrink-0">
+                                                <button
+                                                    onClick={() => resolveSuggestion(suggestion.id, "approve")}
+                                                    disabled={busy === suggestion.id}
+                                                    className="btn btn-primary text-xs"
+                                                >
+                                                    Add topic
+                                                </button>
+                                                <select
+                                                    value=""
+                                                    onChange={(e) => resolveSuggestion(suggestion.id, "alias", e.target.value)}
+                                                    disabled={busy === suggestion.id || data.topics.length === 0}
+                                                    className="input text-xs py-1"
+                                                >
+                                                    <option value="" disabled>Alias of...</option>
+                                                    {data.topics.map((topic) => (
+                                                        <option key={topic.id} value={topic.id}>
+                                                            {topic.name}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <button
+                                                    onClick={() => resolveSuggestion(suggestion.id, "reject")}
+                                                    disabled={busy === suggestion.id}
+                                                    className="btn btn-ghost text-xs"
+                                                    style={{ color: "var(--error)" }}
+                                                >
+                                                    Reject
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </section>
+
+                        {/* Topic Tree */}
+                        <section>
+                            <h2 className="text-lg font-semibold mb-3" style={{ color: "var(--text-primary)" }}>
+                                Topics
+                            </h2>
+                            {rows.length === 0 ? (
+                                <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+                                    No topics yet. Approve a suggestion or tag a signal to create one.
+                                </p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {rows.map(({ topic, depth }) => (
+                                        <div
+                                            key={topic.id}
+                                            className="px-4 py-3 rounded-lg"
+                                            style={{
+                                                marginLeft: depth * 24,
+                                                background: "var(--background-elevated)",
+                                                border: "1px solid var(--border)",
+                                            }}
+                                        >
+                                            <div className="flex items-center justify-between gap-4">
+                                                <div className="min-w-0 flex items-center gap-2">
+                                                    {topic.color && (
+                                                        <span
+                                                            className="w-2.5 h-2.5 rounded-full shrink-0"
+                                                            style={{ background: topic.color }}
+                                                        />
+                                                    )}
+                                                    <span className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+                                                        {topic.name}
+                                                    </span>
+                                                    <span className="text-xs" style={{ color: "var(--text-muted)" }}>
+                                                        {topic.signalCount}
+                                                    </span>
+                                                </div>
+
+                                                <div className="flex items-center gap-2 shrink-0">
+                                                    <select
+                                                        value={topic.parentId ?? ""}
+                                                        onChange={(e) => send(topic.id, `/api/tags/${topic.id}`, "PATCH", {
+                                                            parentId: e.target.value || null,
+                                                        })}
+                                                        disabled={busy === topic.id}
+                                                        className="input text-xs py-1"
+                                                        aria-label="Parent topic"
+                                                    >
+                                                        <option value="">No parent</option>
+                                                        {data.topics
+                                                            .filter((t) => t.id !== topic.id)
+                                                            .map((t) => (
+                                                                <option key={t.id} value={t.id}>
+                                                                    {t.name}
+                                                                </option>
+                                                            ))}
+                                                    </select>
+                                                    <button
+                                                        onClick={() => addAlias(topic)}
+                                                        disabled={busy === topic.id}
+                                                        className="btn btn-ghost text-xs"
+                                                    >
+                                                        Add alias
+                                                    </button>
+                                                    <button
+                                                        onClick={() => renameTopic(topic)}
+                                                        disabled={busy === topic.id}
+                                                        className="btn btn-ghost text-xs"
+                                                    >
+                                                        Rename
+                                                    </button>
+                                                    <button
+                                                        onClick={() => deleteTopic(topic)}
+                                                        disabled={busy === topic.id}
+                                                        className="btn btn-ghost text-xs"
+                                                        style={{ color: "var(--error)" }}
+                                                    >
+                                                        Delete
+                                                    </button>
+                                                </div>
+                                            </div>
+
+                                            {topic.aliases.length > 0 && (
+                                                <div className="flex flex-wrap gap-1.5 mt-2">
+                                                    {topic.aliases.map((alias) => (
+                                                        <span
+                                                            key={alias.id}
+                                                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs"
+                                                            style={{ background: "var(--background-hover)", color: "var(--text-secondary)" }}
+                                                        >
+                                                            {alias.name}
+                                                            <button
+                                                                onClick={() => send(
+                                                                    topic.id,
+                                                                    `/api/tags/${topic.id}/aliases?aliasId=${alias.id}`,
+                                                                    "DELETE"
+                                                                )}
+                                                                disabled={busy === topic.id}
+                                                                aria-label={`Remove alias ${alias.name}`}
+                                                                style={{ color: "var(--text-muted)" }}
+                                                            >
+                                                                ×
+                                                            </button>
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </section>
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
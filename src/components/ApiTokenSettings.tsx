@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/lib/client";
+import { useApiTokens } from "@/lib/hooks";
+import { API_TOKEN_SCOPES } from "@/lib/constants";
+import type { ApiTokenScope } from "@/lib/constants";
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+    read: "Read everything in the workspace",
+    ingest: "Capture signals",
+    "signals:write": "Review signals, highlight, add thoughts, manage tags and feeds",
+    "insights:publish": "Write, generate, schedule and publish insights",
+    callbacks: "n8n callbacks and saving generated insights",
+};
+
+const SCOPES = Object.values(API_TOKEN_SCOPES);
+
+/**
+ * ApiTokenSettings Component
+ *
+ * Lists the user's API tokens for the current workspace and creates and
+ * revokes them. A new token is shown once, right after it is created.
+ * Shown on the Settings page.
+ */
+export default function ApiTokenSettings() {
+    const { data, mutate } = useApiTokens();
+    const [name, setName] = useState("");
+    const [scopes, setScopes] = useState<ApiTokenScope[]>([API_TOKEN_SCOPES.INGEST]);
+    const [expiresOn, setExpiresOn] = useState("");
+    const [created, setCreated] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState("");
+
+    function toggleScope(scope: ApiTokenScope) {
+        setScopes(scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+    }
+
+    async function createToken(e: React.FormEvent) {
+        e.preventDefault();
+        setBusy(true);
+        setError("");
+        try {
+            const { token } = await api.tokens.create({
+                name,
+                scopes,
+                // End of the chosen day, in the user's time zone
+                expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+            });
+            setCreated(token);
+            setName("");
+            setExpiresOn("");
+            mutate();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to create token");
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function revokeToken(id: string, tokenName: string) {
+        if (!confirm(`Revoke "${tokenName}"? Anything using it stops working.`)) return;
+
+        try {
+            await api.tokens.revoke(id);
+            mutate();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to revoke token");
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {created && (
+                <div
+                    className="p-4 rounded-xl"
+                    style={{ background: "var(--success-soft)", border: "1px solid var(--success)" }}
+                >
+                    <p className="text-sm mb-2" style={{ color: "var(--text-primary)" }}>
+                        Copy your new token now. It will not be shown again.
+                    </p>
+                    <div className="flex items-center gap-3">
+                        <code className="flex-1 font-mono text-sm break-all" style={{ color: "var(--text-primary)" }}>
+                            {created}
+                        </code>
+                        <button onClick={() => navigator.clipboard.writeText(created)} className="btn btn-ghost text-xs">
+                            Copy
+                        </button>
+                        <button onClick={() => setCreated(null)} className="btn btn-ghost text-xs">
+                            Done
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {data && data.tokens.length > 0 && (
+                <div
+                    className="rounded-xl divide-y"
+                    style={{
+                        background: "var(--background-elevated)",
+                        border: "1px solid var(--border)",
+                    }}
+                >
+                    {data.tokens.map((token) => {
+                        const expired = token.expiresAt !== null && new Date(token.expiresAt) <= new Date();
+
+                        return (
+                            <div
+                                key={token.id}
+                                className="flex items-center justify-between gap-4 p-4"
+                                style={{ borderColor: "var(--border)" }}
+                            >
+                                <div>
+                                    <h3 className="font-medium" style={{ color: "var(--text-primary)" }}>
+                                        {token.name}
+                                        <span className="ml-2 font-mono text-xs" style={{ color: "var(--text-muted)" }}>
+                                            {token.prefix}…
+                                        </span>
+                                    </h3>
+                                    <p className="text-sm mt-1" style={{ color: "var(--text-secondary)" }}>
+                                        {token.scopes.join(", ")}
+                                    </p>
+                                    <p className="text-xs mt-1" style={{ color: expired ? "var(--error)" : "var(--text-muted)" }}>
+                                        {token.lastUsedAt
+                                            ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                                            : "Never used"}
+                                        {" · "}
+                                        {token.expiresAt
+                                            ? `${expired ? "Expired" : "Expires"} ${new Date(token.expiresAt).toLocaleDateString()}`
+                                            : "No expiry"}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => revokeToken(token.id, token.name)}
+                                    className="btn btn-secondary text-xs"
+                                >
+                                    Revoke
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <form
+                onSubmit={createToken}
+                className="p-6 rounded-xl space-y-4"
+                style={{ background: "var(--background-elevated)", border: "1px solid var(--border)" }}
+            >
+                <div className="flex gap-3">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Token name, e.g. n8n or capture script"
+                        required
+                        className="input flex-1 text-sm"
+                    />
+                    <input
+                        type="date"
+                        value={expiresOn}
+                        onChange={(e) => setExpiresOn(e.target.value)}
+                        aria-label="Expires on (optional)"
+                        title="Expires on (optional)"
+                        className="input text-sm"
+                    />
+                </div>
+
+                <div className="grid gap-2 sm:grid-cols-2">
+                    {SCOPES.map((scope) => (
+                        <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={scopes.includes(scope)}
+                                onChange={() => toggleScope(scope)}
+                                className="mt-1"
+                            />
+                            <span>
+                                <code style={{ color: "var(--text-primary)" }}>{scope}</code>
+                                <span className="block text-xs" style={{ color: "var(--text-muted)" }}>
+                                    {SCOPE_DESCRIPTIONS[scope]}
+                                </span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+
+                <button
+                    type="submit"
+                    disabled={busy || !name.trim() || scopes.length === 0}
+                    className="btn btn-primary"
+                    style={{ opacity: busy || !name.trim() || scopes.length === 0 ? 0.6 : 1 }}
+                >
+                    {busy ? "Creating..." : "Create Token"}
+                </button>
+            </form>
+
+            {error && (
+                <p className="text-sm" style={{ color: "var(--error)" }}>
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
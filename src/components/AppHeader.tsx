@@ -1,16 +1,53 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
+import { api } from "@/lib/client";
+import { useSession, useWorkspaces } from "@/lib/hooks";
+import { LOGIN_PATH } from "@/lib/constants";
 
 /**
  * Application Header Component
  * 
  * Provides consistent navigation across all pages with sticky positioning.
- * Highlights the active page and includes the Signal Desk branding.
+ * Highlights the active page and includes the Signal Desk branding,
+ * a workspace switcher, a global search box and the signed-in user. Sends
+ * the user to the sign-in page when their session has ended.
  */
 export default function AppHeader() {
     const pathname = usePathname();
+    const router = useRouter();
+    const [query, setQuery] = useState("");
+    const { data: session, error: sessionError } = useSession();
+    const { data: workspaceData } = useWorkspaces();
+
+    useEffect(() => {
+        if (sessionError?.status === 401) {
+            router.replace(`${LOGIN_PATH}?next=${encodeURIComponent(pathname)}`);
+        }
+    }, [sessionError, pathname, router]);
+
+    async function handleSignOut() {
+        await api.auth.logout();
+        // A full load drops every cached response of the signed-out user
+        window.location.assign(LOGIN_PATH);
+    }
+
+    async function handleSwitchWorkspace(workspaceId: string) {
+        await api.workspaces.switch(workspaceId);
+        // A full load drops every cached response of the previous workspace
+        window.location.reload();
+    }
+
+    function handleSearch(e: React.FormEvent) {
+        e.preventDefault();
+        const q = query.trim();
+        if (!q) return;
+
+        router.push(`/search?q=${encodeURIComponent(q)}`);
+        setQuery("");
+    }
 
     /**
      * Checks if the given path matches the current pathname
@@ -38,21 +75,73 @@ export default function AppHeader() {
                     </span>
                 </Link>
 
+                {/* Workspace */}
+                {workspaceData && workspaceData.workspaces.length > 0 && (
+                    <select
+                        value={workspaceData.currentWorkspaceId ?? ""}
+                        onChange={(e) => handleSwitchWorkspace(e.target.value)}
+                        aria-label="Workspace"
+                        title={session?.workspace ? `Your role: ${session.workspace.role}` : undefined}
+                        className="input text-sm py-1.5 ml-4 max-w-[10rem]"
+                    >
+                        {workspaceData.workspaces.map((workspace) => (
+                            <option key={workspace.id} value={workspace.id}>
+                                {workspace.name}
+                            </option>
+                        ))}
+                    </select>
+                )}
+
+                {/* Search */}
+                {pathname !== "/search" && (
+                    <form onSubmit={handleSearch} className="flex-1 max-w-xs mx-6">
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search..."
+                            aria-label="Search"
+                            className="input w-full text-sm py-1.5"
+                        />
+                    </form>
+                )}
+
                 {/* Navigation */}
                 <nav className="flex items-center gap-1">
                     <NavLink href="/capture" active={isActive("/")}>
                         Capture
                     </NavLink>
+                    <NavLink href="/inbox" active={isActive("/inbox")}>
+                        Inbox
+                    </NavLink>
                     <NavLink href="/queue" active={isActive("/queue")}>
                         Review
                     </NavLink>
+                    <NavLink href="/library" active={isActive("/library")}>
+                        Library
+                    </NavLink>
                     <NavLink href="/insights" active={isActive("/insights")}>
                         Insights
                     </NavLink>
+                    <NavLink href="/feeds" active={isActive("/feeds")}>
+                        Feeds
+                    </NavLink>
+                    <NavLink href="/taxonomy" active={isActive("/taxonomy")}>
+                        Taxonomy
+                    </NavLink>
                     <div className="w-px h-6 bg-[var(--border)] mx-2" />
                     <NavLink href="/settings" active={isActive("/settings")}>
                         Settings
                     </NavLink>
+                    {session && (
+                        <button
+                            onClick={handleSignOut}
+                            title={`Signed in as ${session.user.email}`}
+                            className="px-4 py-2 rounded-lg text-sm font-medium transition-all text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--background-hover)]"
+                        >
+                            Sign out
+                        </button>
+                    )}
                 </nav>
             </div>
         </header>
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState } from "react";
-import { URL_PATTERN, YOUTUBE_PATTERN } from "@/lib/constants";
+import { api } from "@/lib/client";
+import { INPUT_TYPES, URL_PATTERN, YOUTUBE_PATTERN } from "@/lib/constants";
 
 /**
  * CaptureBar Component Props
@@ -47,31 +48,23 @@ export default function CaptureBar({ onSignalAdded }: CaptureBarProps) {
         try {
             // Detect input type
             const isUrl = URL_PATTERN.test(input.trim());
-            const inputType = isUrl
-                ? (YOUTUBE_PATTERN.test(input) ? "youtube" : "url")
-                : "text";
-
             // Build payload based on type
-            const payload: Record<string, string> = { inputType };
-
-            if (inputType === "text") {
-                payload.content = input.trim();
-                // Generate a simple title from first line
-                payload.title = input.split('\n')[0].substring(0, 50);
-            } else {
-                payload.url = input.trim();
-            }
+            const payload: Parameters<typeof api.ingest.submit>[0] = isUrl
+                ? {
+                    inputType: YOUTUBE_PATTERN.test(input) ? INPUT_TYPES.YOUTUBE : INPUT_TYPES.URL,
+                    url: input.trim(),
+                }
+                : {
+                    inputType: INPUT_TYPES.TEXT,
+                    content: input.trim(),
+                    // Generate a simple title from first line
+                    title: input.split('\n')[0].substring(0, 50),
+                };
 
             console.log("Capturing:", payload);
 
             // Send to ingestion API
-            const res = await fetch("/api/ingest", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(payload),
-            });
-
-            if (!res.ok) throw new Error("Failed to capture");
+            await api.ingest.submit(payload);
 
             // Reset UI and show success
             setInput("");
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { ApiError, api } from "@/lib/client";
+import { formatRelativeDate } from "@/lib/formatters";
+import { useDeliveries } from "@/lib/hooks";
+import type { DeliveryDirection, WebhookName } from "@/lib/constants";
+
+/**
+ * DeliveryHistory Component
+ *
+ * Filterable log of webhook traffic between Signal Desk and n8n, shown on
+ * the Settings page. Each entry expands to show the request and response
+ * bodies; outbound entries can be replayed.
+ */
+export default function DeliveryHistory() {
+    const [direction, setDirection] = useState<DeliveryDirection | "all">("all");
+    const [name, setName] = useState<WebhookName | "all">("all");
+    const [outcome, setOutcome] = useState<"success" | "failed" | "all">("all");
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [replaying, setReplaying] = useState<string | null>(null);
+
+    const { data, mutate } = useDeliveries({
+        direction: direction === "all" ? undefined : direction,
+        name: name === "all" ? undefined : name,
+        outcome: outcome === "all" ? undefined : outcome,
+    }, { refreshInterval: 10000 });
+    const deliveries = data?.deliveries || [];
+
+    async function replay(id: string) {
+        setReplaying(id);
+        try {
+            await api.webhooks.replay(id);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                alert(`Replay failed: ${error.message}`);
+            } else {
+                console.error("Failed to replay delivery:", error);
+            }
+        } finally {
+            mutate();
+            setReplaying(null);
+        }
+    }
+
+    return (
+        <div>
+            {/* Filters */}
+            <div className="flex flex-wrap gap-3 mb-4">
+                <FilterSelect
+                    value={direction}
+                    onChange={setDirection}
+                    options={["all", "outbound", "inbound"]}
+                    label="Direction"
+                />
+                <FilterSelect
+                    value={name}
+                    onChange={setName}
+                    options={["all", "ingest", "generate", "publish"]}
+                    label="Webhook"
+                />
+                <FilterSelect
+                    value={outcome}
+                    onChange={setOutcome}
+                    options={["all", "success", "failed"]}
+                    label="Outcome"
+                />
+            </div>
+
+            {!data ? (
+                <div className="space-y-2">
+                    {[1, 2, 3].map((i) => (
+                        <div
+                            key={i}
+                            className="skeleton h-12 rounded-lg"
+                            style={{ background: "var(--background-elevated)" }}
+                        />
+                    ))}
+                </div>
+            ) : deliveries.length === 0 ? (
+                <p className="text-sm italic" style={{ color: "var(--text-muted)" }}>
+                    No deliveries recorded yet
+                </p>
+            ) : (
+                <div
+                    className="rounded-lg overflow-hidden divide-y"
+                    style={{ border: "1px solid var(--border)", borderColor: "var(--border)" }}
+                >
+                    {deliveries.map((delivery) => {
+                        const succeeded = delivery.status !== null && delivery.status >= 200 && delivery.status < 300;
+                        const expanded = expandedId === delivery.id;
+
+                        return (
+                            <div
+                                key={delivery.id}
+                                style={{ background: "var(--background-elevated)", borderColor: "var(--border)" }}
+                            >
+                                <button
+                                    onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                                    className="w-full flex items-center gap-4 px-4 py-3 text-left text-sm"
+                                >
+                                    <span
+                                        className="font-mono text-xs w-16"
+                                        style={{ color: succeeded ? "var(--success)" : "var(--error)" }}
+                                    >
+                                        {delivery.status ?? "ERR"}
+                                    </span>
+                                    <span className="w-6 text-center" style={{ color: "var(--text-muted)" }}>
+                                        {delivery.direction === "outbound" ? "→" : "←"}
+                                    </span>
+                                    <span className="w-20 capitalize" style={{ color: "var(--text-primary)" }}>
+                                        {delivery.webhookName}
+                                    </span>
+                                    <span className="flex-1 font-mono text-xs truncate" style={{ color: "var(--text-secondary)" }}>
+                                        {delivery.url}
+                                    </span>
+                                    <span className="text-xs w-16 text-right" style={{ color: "var(--text-muted)" }}>
+                                        {delivery.latencyMs} ms
+                                    </span>
+                                    <span className="text-xs w-24 text-right" style={{ color: "var(--text-muted)" }}>
+                                        {formatRelativeDate(delivery.createdAt)}
+                                    </span>
+                                </button>
+
+                                {expanded && (
+                                    <div className="px-4 pb-4 space-y-3">
+                                        {delivery.error && (
+                                            <p className="text-sm" style={{ color: "var(--error)" }}>
+                                                {delivery.error}
+                                            </p>
+                                        )}
+                                        {delivery.replayOfId && (
+                                            <p className="text-xs" style={{ color: "var(--text-muted)" }}>
+                                                Replay of {delivery.replayOfId}
+                                            </p>
+                                        )}
+                                        <BodyBlock label="Request" body={delivery.requestBody} />
+                                        <BodyBlock label="Response" body={delivery.responseBody} />
+                                        {delivery.direction === "outbound" && (
+                                            <button
+                                                onClick={() => replay(delivery.id)}
+                                                disabled={replaying === delivery.id}
+                                                className="btn btn-secondary text-sm"
+                                            >
+                                                {replaying === delivery.id ? "Replaying..." : "Replay"}
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// Subcomponents
+// ============================================================================
+
+/**
+ * Labeled select used for the history filters
+ */
+function FilterSelect<T extends string>({
+    value,
+    onChange,
+    options,
+    label
+}: {
+    value: T;
+    onChange: (value: T) => void;
+    options: T[];
+    label: string;
+}) {
+    return (
+        <label className="flex items-center gap-2 text-sm" style={{ color: "var(--text-secondary)" }}>
+            {label}
+            <select
+                value={value}
+                onChange={(e) => onChange(e.target.value as T)}
+                className="input text-sm capitalize py-1"
+            >
+                {options.map((option) => (
+                    <option key={option} value={option}>
+                        {option}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+}
+
+/**
+ * Preformatted request/response body, pretty-printed when it is JSON
+ */
+function BodyBlock({ label, body }: { label: string; body: string | null }) {
+    let formatted = body ?? "";
+    try {
+        formatted = JSON.stringify(JSON.parse(formatted), null, 2);
+    } catch {
+        // Not JSON (or truncated): show as-is
+    }
+
+    return (
+        <div>
+            <p className="text-xs font-medium uppercase tracking-wider mb-1" style={{ color: "var(--text-muted)" }}>
+                {label}
+            </p>
+            <pre
+                className="p-3 rounded-lg text-xs font-mono overflow-x-auto max-h-64"
+                style={{ background: "var(--background)", border: "1px solid var(--border)", color: "var(--text-primary)" }}
+            >
+                {formatted || "(empty)"}
+            </pre>
+        </div>
+    );
+}
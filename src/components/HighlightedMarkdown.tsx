@@ -0,0 +1,144 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { HIGHLIGHT_CATEGORY_COLORS } from "@/lib/constants";
+import type { HighlightCategory } from "@/lib/constants";
+import type { HighlightSummary } from "@/lib/types";
+
+/**
+ * Parts of a rendered (hast) node the highlight marks need
+ */
+interface HastNode {
+    type: string;
+    value?: string;
+    tagName?: string;
+    properties?: Record<string, unknown>;
+    children?: HastNode[];
+    position?: { start: { offset?: number }; end: { offset?: number } };
+}
+
+interface MarkOptions {
+    content: string;
+    highlights: { id: string; startPos: number; endPos: number; color?: string }[];
+}
+
+/**
+ * HighlightedMarkdown Component
+ *
+ * Renders a signal's Markdown content with its anchored highlights marked
+ * in place, in the color of their category. Orphaned highlights have no
+ * place in the content and are left out. Clicking a mark selects its
+ * highlight.
+ */
+export default function HighlightedMarkdown({
+    content,
+    highlights,
+    onSelect,
+}: {
+    content: string;
+    highlights: HighlightSummary[];
+    onSelect?: (highlight: HighlightSummary) => void;
+}) {
+    const anchored = highlights.flatMap(({ id, orphaned, startPos, endPos, category }) =>
+        !orphaned && startPos !== null && endPos !== null
+            ? [{ id, startPos, endPos, color: HIGHLIGHT_CATEGORY_COLORS[category as HighlightCategory] }]
+            : []
+    );
+
+    function handleClick(event: React.MouseEvent) {
+        const mark = (event.target as HTMLElement).closest<HTMLElement>("mark[data-highlight-id]");
+        const highlight = highlights.find((h) => h.id === mark?.dataset.highlightId);
+        if (highlight) onSelect?.(highlight);
+    }
+
+    return (
+        <div onClick={handleClick}>
+            <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                rehypePlugins={[[rehypeHighlightMarks, { content, highlights: anchored } satisfies MarkOptions]]}
+            >
+                {content}
+            </ReactMarkdown>
+        </div>
+    );
+}
+
+/**
+ * Rehype plugin wrapping the text of each highlight in a <mark>
+ *
+ * Rendered text nodes keep their offsets in the Markdown source, which
+ * are matched against the highlights' offsets in the content.
+ */
+function rehypeHighlightMarks(options: MarkOptions) {
+    return (tree: HastNode) => {
+        if (options.highlights.length > 0) markChildren(tree, options);
+    };
+}
+
+function markChildren(node: HastNode, options: MarkOptions) {
+    if (!node.children) return;
+
+    node.children = node.children.flatMap((child) => {
+        if (child.type === "text") return markText(child, options);
+        markChildren(child, options);
+        return [child];
+    });
+}
+
+/**
+ * Splits a text node into plain and marked runs
+ */
+function markText(node: HastNode, { content, highlights }: MarkOptions): HastNode[] {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    const value = node.value ?? "";
+    if (start === undefined || end === undefined || !value) return [node];
+
+    const overlapping = highlights.filter((h) => h.startPos < end && h.endPos > start);
+    if (overlapping.length === 0) return [node];
+
+    // Source offset of each character; escapes and entities are skipped over
+    const source = content.slice(start, end);
+    const offsets: number[] = [];
+    let cursor = 0;
+    for (const char of value) {
+        const found = source.indexOf(char, cursor);
+        const index = found === -1 ? cursor : found;
+        for (let i = 0; i < char.length; i++) offsets.push(start + index + i);
+        cursor = found === -1 ? cursor : found + char.length;
+    }
+
+    const runs: HastNode[] = [];
+    let runStart = 0;
+    let runId: string | undefined;
+    for (let i = 0; i <= value.length; i++) {
+        const id = i < value.length
+            ? overlapping.find((h) => h.startPos <= offsets[i] && offsets[i] < h.endPos)?.id
+            : undefined;
+        if (i < value.length && (i === 0 || id === runId)) {
+            runId = id;
+            continue;
+        }
+
+        const text: HastNode = { type: "text", value: value.slice(runStart, i) };
+        const color = overlapping.find((h) => h.id === runId)?.color;
+        runs.push(runId
+            ? {
+                type: "element",
+                tagName: "mark",
+                properties: {
+                    className: ["highlight"],
+                    dataHighlightId: runId,
+                    // Uncategorized highlights keep the accent color of .highlight
+                    ...(color ? { style: `background: ${color}33; border-bottom-color: ${color}` } : {}),
+                },
+                children: [text],
+            }
+            : text);
+        runStart = i;
+        runId = id;
+    }
+
+    return runs;
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/lib/client";
+import { useProcessors } from "@/lib/hooks";
+import type { ProcessorName, WebhookName } from "@/lib/constants";
+import type { StageProcessor } from "@/lib/types";
+
+const PROCESSOR_DESCRIPTIONS: Record<ProcessorName, string> = {
+    n8n: "Calls the configured n8n webhook",
+    local: "Runs inside Signal Desk with built-in extraction and drafting",
+    mock: "Returns canned results instantly, for demos and development",
+};
+
+const SOURCE_LABELS: Record<StageProcessor["source"], string> = {
+    settings: "set here",
+    env: "from environment",
+    default: "default",
+};
+
+/**
+ * ProcessorSettings Component
+ *
+ * Lets the user pick which processor (n8n, local or mock) runs each
+ * pipeline stage. Shown on the Settings page.
+ */
+export default function ProcessorSettings() {
+    const [saving, setSaving] = useState<WebhookName | null>(null);
+    const [error, setError] = useState("");
+
+    const { data, error: loadError, mutate } = useProcessors();
+
+    async function saveProcessor(stage: WebhookName, processor: ProcessorName | null) {
+        setSaving(stage);
+        setError("");
+        try {
+            await api.processors.save({ stage, processor });
+            mutate();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save processor");
+        } finally {
+            setSaving(null);
+        }
+    }
+
+    if (loadError) {
+        return (
+            <p className="text-sm" style={{ color: "var(--error)" }}>
+                {loadError.message}
+            </p>
+        );
+    }
+
+    if (!data?.stages) {
+        return (
+            <div
+                className="skeleton h-24 rounded-lg"
+                style={{ background: "var(--background-elevated)" }}
+            />
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div
+                className="rounded-xl divide-y"
+                style={{
+                    background: "var(--background-elevated)",
+                    border: "1px solid var(--border)",
+                }}
+            >
+                {data.stages.map(({ stage, processor, source }) => (
+                    <div
+                        key={stage}
+                        className="flex items-center justify-between gap-4 p-4"
+                        style={{ borderColor: "var(--border)" }}
+                    >
+                        <div>
+                            <h3 className="font-medium capitalize" style={{ color: "var(--text-primary)" }}>
+                                {stage}
+                            </h3>
+                            <p className="text-sm mt-1" style={{ color: "var(--text-secondary)" }}>
+                                {PROCESSOR_DESCRIPTIONS[processor]}
+                                <span style={{ color: "var(--text-muted)" }}> · {SOURCE_LABELS[source]}</span>
+                            </p>
+                        </div>
+
+                        <div className="flex items-center gap-3">
+                            {source === "settings" && (
+                                <button
+                                    onClick={() => saveProcessor(stage, null)}
+                                    disabled={saving === stage}
+                                    className="text-xs underline"
+                                    style={{ color: "var(--text-muted)" }}
+                                >
+                                    Reset
+                                </button>
+                            )}
+                            <select
+                                value={processor}
+                                onChange={(e) => saveProcessor(stage, e.target.value as ProcessorName)}
+                                disabled={saving === stage}
+                                className="input text-sm py-1"
+                            >
+                                {data.processors.map((option) => (
+                                    <option key={option} value={option}>
+                                        {option}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {error && (
+                <p className="text-sm" style={{ color: "var(--error)" }}>
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
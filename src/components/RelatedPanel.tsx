@@ -0,0 +1,121 @@
+"use client";
+
+import Link from "next/link";
+import useSWR from "swr";
+import { formatRelativeDate } from "@/lib/formatters";
+import type { RelatedResponse } from "@/lib/types";
+
+/**
+ * SWR fetcher function
+ */
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+/**
+ * RelatedPanel Component
+ *
+ * Sidebar section of the review page listing other signals, highlights
+ * and thoughts on the same idea, by semantic similarity.
+ */
+export default function RelatedPanel({ signalId }: { signalId: string }) {
+    const { data, isLoading } = useSWR<RelatedResponse & { error?: string }>(
+        `/api/signals/${signalId}/related`,
+        fetcher
+    );
+
+    const signals = data?.signals ?? [];
+    const highlights = data?.highlights ?? [];
+    const thoughts = data?.thoughts ?? [];
+    const isEmpty = signals.length === 0 && highlights.length === 0 && thoughts.length === 0;
+
+    return (
+        <div>
+            <h3
+                className="text-sm font-medium mb-4"
+                style={{ color: "var(--text-secondary)" }}
+            >
+                Related
+            </h3>
+
+            {isLoading ? (
+                <p className="text-sm italic" style={{ color: "var(--text-muted)" }}>
+                    Looking for related signals...
+                </p>
+            ) : isEmpty ? (
+                <p className="text-sm italic" style={{ color: "var(--text-muted)" }}>
+                    Nothing related captured yet
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    {signals.map((related) => (
+                        <RelatedItem
+                            key={related.id}
+                            href={`/review/${related.id}`}
+                            label={related.source ?? "signal"}
+                            similarity={related.similarity}
+                            createdAt={related.createdAt}
+                        >
+                            <span className="font-medium">{related.title}</span>
+                        </RelatedItem>
+                    ))}
+                    {highlights.map((related) => (
+                        <RelatedItem
+                            key={related.id}
+                            href={`/review/${related.signalId}`}
+                            label={`highlight · ${related.signalTitle}`}
+                            similarity={related.similarity}
+                            createdAt={related.createdAt}
+                        >
+                            &quot;{related.text}&quot;
+                        </RelatedItem>
+                    ))}
+                    {thoughts.map((related) => (
+                        <RelatedItem
+                            key={related.id}
+                            href={related.signalId ? `/review/${related.signalId}` : `/insights/${related.insightId}`}
+                            label={related.signalTitle ? `thought · ${related.signalTitle}` : "thought"}
+                            similarity={related.similarity}
+                            createdAt={related.createdAt}
+                        >
+                            {related.content}
+                        </RelatedItem>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface RelatedItemProps {
+    href: string;
+    label: string;
+    similarity: number;
+    createdAt: Date | string;
+    children: React.ReactNode;
+}
+
+/**
+ * Link to a related record with its kind, age and similarity
+ */
+function RelatedItem({ href, label, similarity, createdAt, children }: RelatedItemProps) {
+    return (
+        <Link
+            href={href}
+            className="block p-3 rounded-lg transition-all hover:border-[var(--accent)]"
+            style={{
+                background: "var(--background)",
+                border: "1px solid var(--border)",
+            }}
+        >
+            <p className="text-sm line-clamp-3" style={{ color: "var(--text-primary)" }}>
+                {children}
+            </p>
+            <div
+                className="flex items-center justify-between gap-2 mt-2 text-xs"
+                style={{ color: "var(--text-muted)" }}
+            >
+                <span className="truncate">{label} · {formatRelativeDate(createdAt)}</span>
+                <span title="Similarity">{Math.round(similarity * 100)}%</span>
+            </div>
+        </Link>
+    );
+}
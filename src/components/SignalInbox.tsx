@@ -1,12 +1,15 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import useSWR from "swr";
+import useSWRInfinite from "swr/infinite";
 import Link from "next/link";
 import CaptureBar from "./CaptureBar";
 import AppHeader from "./AppHeader";
-import { formatRelativeDate, truncateContent } from "@/lib/formatters";
-import type { SignalsResponse, SignalWithParsedTags } from "@/lib/types";
+import { api } from "@/lib/client";
+import type { SignalStatus } from "@/lib/constants";
+import { formatJobStatus, formatRelativeDate, truncateContent } from "@/lib/formatters";
+import type { SignalsResponse, SignalWithParsedTags, TagsResponse, TagWithCount } from "@/lib/types";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -23,19 +26,40 @@ const fetcher = (url: string) => fetch(url).then((res) => res.json());
  * 
  * Features:
  * - Real-time polling with SWR (every 5 seconds)
+ * - Infinite scrolling over cursor-paginated pages
  * - Filter by status (all, unread, reviewed, archived)
+ * - Filter by tag from a sidebar with signal counts per tag
+ * - Sort by created date, last update or title
  * - Multi-select for bulk actions
  * - AI-powered insight generation
  * - Review flow integration
  */
 export default function SignalInbox() {
     const [filter, setFilter] = useState<string>("all");
+    const [tag, setTag] = useState<string | null>(null);
+    const [sort, setSort] = useState<string>("created");
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [generating, setGenerating] = useState(false);
 
+    const params = new URLSearchParams();
+    if (filter !== "all") params.set("status", filter);
+    const tagParams = new URLSearchParams(params);
+    if (tag) params.set("tag", tag);
+    params.set("sort", sort);
+
+    /**
+     * Key of each page: the first page has no cursor, later pages continue
+     * from the previous page; null stops loading after the last page
+     */
+    function getPageKey(index: number, previous: SignalsResponse | null) {
+        if (previous && !previous.nextCursor) return null;
+        if (index === 0) return `/api/signals?${params}`;
+        return `/api/signals?${params}&cursor=${encodeURIComponent(previous?.nextCursor ?? "")}`;
+    }
+
     // Auto-refresh every 5 seconds, pause when tab hidden
-    const { data, error, mutate } = useSWR<SignalsResponse>(
-        `/api/signals${filter !== "all" ? `?status=${filter}` : ""}`,
+    const { data, error, mutate, size, setSize, isValidating } = useSWRInfinite<SignalsResponse>(
+        getPageKey,
         fetcher,
         {
             refreshInterval: 5000,
@@ -43,7 +67,17 @@ export default function SignalInbox() {
         }
     );
 
-    const signals = data?.signals || [];
+    // Tag counts follow the status filter
+    const { data: tagData } = useSWR<TagsResponse>(
+        `/api/tags?${tagParams}`,
+        fetcher,
+        { refreshInterval: 30000 }
+    );
+
+    const signals = data?.flatMap((page) => page.signals ?? []) ?? [];
+    const hasMore = Boolean(data?.[data.length - 1]?.nextCursor);
+    const loadingMore = isValidating && size > (data?.length ?? 0);
+    const tags = (tagData?.tags || []).filter((t) => t.signalCount > 0 || t.name === tag);
     const loading = !data && !error;
 
     /**
@@ -68,13 +102,7 @@ export default function SignalInbox() {
         setGenerating(true);
 
         try {
-            const res = await fetch("/api/insights/generate", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ signalIds: Array.from(selectedIds) }),
-            });
-
-            if (!res.ok) throw new Error("Generation failed");
+            await api.insights.generate({ signalIds: Array.from(selectedIds) });
 
             // Clear selection and notify user
             setSelectedIds(new Set());
@@ -91,13 +119,9 @@ export default function SignalInbox() {
      * Updates a signal's status
      * Immediately revalidates the cache for instant UI update
      */
-    async function updateStatus(id: string, status: string) {
+    async function updateStatus(id: string, status: SignalStatus) {
         try {
-            await fetch("/api/signals", {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ id, status }),
-            });
+            await api.signals.setStatus({ id, status });
             mutate(); // Revalidate immediately
         } catch (error) {
             console.error("Failed to update signal:", error);
@@ -108,53 +132,75 @@ export default function SignalInbox() {
         <div className="min-h-screen" style={{ background: "var(--background)" }}>
             <AppHeader />
 
-            <main className="max-w-5xl mx-auto px-6 py-8 pb-32">
-                {/* Header with Filters */}
-                <div className="flex items-center justify-between mb-8">
-                    <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
-                        Inbox
-                    </h1>
+            <main className="max-w-6xl mx-auto px-6 py-8 pb-32 flex gap-8">
+                {/* Tag Sidebar */}
+                <TagSidebar tags={tags} selected={tag} onSelect={setTag} />
 
-                    {/* Filter Tabs */}
-                    <div className="flex gap-2">
-                        {["all", "unread", "reviewed", "archived"].map((tab) => (
-                            <button
-                                key={tab}
-                                onClick={() => setFilter(tab)}
-                                className="px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all"
-                                style={{
-                                    background: filter === tab ? "var(--accent-soft)" : "transparent",
-                                    color: filter === tab ? "var(--accent)" : "var(--text-secondary)",
-                                    border: `1px solid ${filter === tab ? "var(--accent-border)" : "transparent"}`,
-                                }}
+                <div className="flex-1 min-w-0">
+                    {/* Header with Filters */}
+                    <div className="flex items-center justify-between mb-8">
+                        <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+                            Inbox
+                        </h1>
+
+                        {/* Filter Tabs */}
+                        <div className="flex gap-2">
+                            <select
+                                value={sort}
+                                onChange={(e) => setSort(e.target.value)}
+                                className="input text-sm py-1"
+                                aria-label="Sort signals"
                             >
-                                {tab}
-                            </button>
-                        ))}
+                                <option value="created">Newest</option>
+                                <option value="updated">Recently updated</option>
+                                <option value="title">Title</option>
+                            </select>
+                            {["all", "unread", "reviewed", "archived"].map((tab) => (
+                                <button
+                                    key={tab}
+                                    onClick={() => setFilter(tab)}
+                                    className="px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all"
+                                    style={{
+                                        background: filter === tab ? "var(--accent-soft)" : "transparent",
+                                        color: filter === tab ? "var(--accent)" : "var(--text-secondary)",
+                                        border: `1px solid ${filter === tab ? "var(--accent-border)" : "transparent"}`,
+                                    }}
+                                >
+                                    {tab}
+                                </button>
+                            ))}
+                        </div>
                     </div>
-                </div>
 
-                {/* Capture Bar */}
-                <CaptureBar onSignalAdded={() => mutate()} />
+                    {/* Capture Bar */}
+                    <CaptureBar onSignalAdded={() => mutate()} />
 
-                {/* Signal List */}
-                {loading ? (
-                    <LoadingSkeleton />
-                ) : signals.length === 0 ? (
-                    <EmptyState />
-                ) : (
-                    <div className="space-y-4 pt-2">
-                        {signals.map((signal) => (
-                            <SignalCard
-                                key={signal.id}
-                                signal={signal}
-                                isSelected={selectedIds.has(signal.id)}
-                                onToggleSelection={toggleSelection}
-                                showSelection={selectedIds.size > 0}
-                            />
-                        ))}
-                    </div>
-                )}
+                    {/* Signal List */}
+                    {loading ? (
+                        <LoadingSkeleton />
+                    ) : signals.length === 0 ? (
+                        <EmptyState />
+                    ) : (
+                        <div className="space-y-4 pt-2">
+                            {signals.map((signal) => (
+                                <SignalCard
+                                    key={signal.id}
+                                    signal={signal}
+                                    isSelected={selectedIds.has(signal.id)}
+                                    onToggleSelection={toggleSelection}
+                                    onSelectTag={setTag}
+                                    showSelection={selectedIds.size > 0}
+                                />
+                            ))}
+                            {hasMore && (
+                                <LoadMoreSentinel
+                                    loading={loadingMore}
+                                    onVisible={() => setSize(size + 1)}
+                                />
+                            )}
+                        </div>
+                    )}
+                </div>
             </main>
 
             {/* Floating Action Bar */}
@@ -174,6 +220,124 @@ export default function SignalInbox() {
 // Subcomponents
 // ============================================================================
 
+/**
+ * Sidebar listing tags with their signal counts; selecting one filters the inbox
+ */
+function TagSidebar({
+    tags,
+    selected,
+    onSelect,
+}: {
+    tags: TagWithCount[];
+    selected: string | null;
+    onSelect: (tag: string | null) => void;
+}) {
+    return (
+        <aside className="w-48 shrink-0 pt-2">
+            <h2
+                className="text-xs font-medium uppercase tracking-wider mb-2"
+                style={{ color: "var(--text-muted)" }}
+            >
+                Tags
+            </h2>
+            {tags.length === 0 ? (
+                <p className="text-sm italic" style={{ color: "var(--text-muted)" }}>
+                    No tags yet
+                </p>
+            ) : (
+                <ul className="space-y-1">
+                    <li>
+                        <TagFilterButton active={selected === null} onClick={() => onSelect(null)}>
+                            <span>All tags</span>
+                        </TagFilterButton>
+                    </li>
+                    {tags.map((tag) => (
+                        <li key={tag.id}>
+                            <TagFilterButton
+                                active={selected === tag.name}
+                                onClick={() => onSelect(selected === tag.name ? null : tag.name)}
+                                title={tag.description ?? undefined}
+                            >
+                                <span className="flex items-center gap-2 truncate">
+                                    <span
+                                        className="w-2 h-2 rounded-full shrink-0"
+                                        style={{ background: tag.color ?? "var(--accent)" }}
+                                    />
+                                    <span className="truncate">{tag.name}</span>
+                                </span>
+                                <span>{tag.signalCount}</span>
+                            </TagFilterButton>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </aside>
+    );
+}
+
+/**
+ * Row of the tag sidebar
+ */
+function TagFilterButton({
+    active,
+    onClick,
+    title,
+    children,
+}: {
+    active: boolean;
+    onClick: () => void;
+    title?: string;
+    children: React.ReactNode;
+}) {
+    return (
+        <button
+            onClick={onClick}
+            title={title}
+            className="w-full flex justify-between gap-2 text-sm px-2 py-1 rounded hover:bg-[var(--background-hover)]"
+            style={{
+                color: active ? "var(--accent)" : "var(--text-secondary)",
+                fontWeight: active ? 600 : 400,
+            }}
+        >
+            {children}
+        </button>
+    );
+}
+
+/**
+ * Marker at the end of the list that loads the next page when scrolled into view
+ */
+function LoadMoreSentinel({ loading, onVisible }: { loading: boolean; onVisible: () => void }) {
+    const ref = useRef<HTMLDivElement>(null);
+    const onVisibleRef = useRef(onVisible);
+
+    useEffect(() => {
+        onVisibleRef.current = onVisible;
+    });
+
+    // Observing again after each page fires once more if the marker is still in view
+    useEffect(() => {
+        const element = ref.current;
+        if (!element || loading) return;
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries[0]?.isIntersecting) onVisibleRef.current();
+            },
+            { rootMargin: "400px" }
+        );
+        observer.observe(element);
+
+        return () => observer.disconnect();
+    }, [loading]);
+
+    return (
+        <div ref={ref} className="py-4 text-center text-sm" style={{ color: "var(--text-muted)" }}>
+            {loading ? "Loading more..." : ""}
+        </div>
+    );
+}
+
 /**
  * Loading skeleton while fetching signals
  */
@@ -213,14 +377,18 @@ function SignalCard({
     signal,
     isSelected,
     onToggleSelection,
+    onSelectTag,
     showSelection
 }: {
     signal: SignalWithParsedTags;
     isSelected: boolean;
     onToggleSelection: (id: string) => void;
+    onSelectTag: (tag: string) => void;
     showSelection: boolean;
 }) {
     const [isExpanded, setIsExpanded] = useState(false);
+    const latestJob = signal.jobs?.[0];
+    const jobStatus = formatJobStatus(latestJob);
     return (
         <article
             className={`card card-interactive animate-fadeIn relative group transition-all duration-200 ${isSelected ? 'ring-2 ring-[var(--accent)]' : ''}`}
@@ -257,6 +425,15 @@ function SignalCard({
                     <span className={`badge badge-${signal.status === "unread" ? "unread" : signal.status === "reviewed" ? "draft" : "published"}`}>
                         {signal.status}
                     </span>
+                    {jobStatus && (
+                        <span
+                            className="text-xs"
+                            style={{ color: latestJob?.status === "dead" ? "var(--error)" : "var(--text-muted)" }}
+                            title={latestJob?.lastError ?? undefined}
+                        >
+                            {jobStatus}
+                        </span>
+                    )}
                     <Link
                         href={`/review/${signal.id}`}
                         className="p-1.5 rounded-lg hover:bg-[var(--background)] text-[var(--accent)] transition-colors"
@@ -304,8 +481,9 @@ function SignalCard({
             {signal.tags.length > 0 && (
                 <div className="flex flex-wrap gap-2 mb-4">
                     {signal.tags.map((tag) => (
-                        <span
+                        <button
                             key={tag}
+                            onClick={(e) => { e.stopPropagation(); onSelectTag(tag); }}
                             className="px-2 py-1 rounded text-xs font-medium"
                             style={{
                                 background: "rgba(99, 102, 241, 0.05)",
@@ -314,7 +492,7 @@ function SignalCard({
                             }}
                         >
                             #{tag}
-                        </span>
+                        </button>
                     ))}
                 </div>
             )}
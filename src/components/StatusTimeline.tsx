@@ -0,0 +1,53 @@
+import { formatRelativeDate } from "@/lib/formatters";
+import type { StatusEventSummary } from "@/lib/types";
+
+/**
+ * StatusTimeline Component
+ *
+ * Lists the status changes of a signal or insight, newest first, with who
+ * made them and why.
+ */
+export default function StatusTimeline({ events }: { events: StatusEventSummary[] }) {
+    const ordered = [...events].reverse();
+
+    return (
+        <div>
+            <h3
+                className="text-sm font-medium mb-4"
+                style={{ color: "var(--text-secondary)" }}
+            >
+                History
+            </h3>
+
+            {ordered.length === 0 ? (
+                <p className="text-sm italic" style={{ color: "var(--text-muted)" }}>
+                    No status changes recorded
+                </p>
+            ) : (
+                <ol className="space-y-3 border-l pl-4" style={{ borderColor: "var(--border)" }}>
+                    {ordered.map((event) => (
+                        <li key={event.id} className="relative">
+                            <span
+                                className="absolute -left-[21px] top-1.5 w-2 h-2 rounded-full"
+                                style={{ background: "var(--accent)" }}
+                            />
+                            <p className="text-sm" style={{ color: "var(--text-primary)" }}>
+                                {event.fromStatus
+                                    ? <>{event.fromStatus} → <span className="font-medium">{event.toStatus}</span></>
+                                    : <span className="font-medium">{event.toStatus}</span>}
+                            </p>
+                            {event.reason && (
+                                <p className="text-xs mt-0.5" style={{ color: "var(--text-secondary)" }}>
+                                    {event.reason}
+                                </p>
+                            )}
+                            <p className="text-xs mt-0.5" style={{ color: "var(--text-muted)" }}>
+                                {event.actor} · {formatRelativeDate(event.createdAt)}
+                            </p>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { formatTimestamp } from "@/lib/formatters";
+
+interface TranscriptSegment {
+    id: string;
+    startPos: number;
+    endPos: number;
+    startTime: number | null;
+}
+
+/**
+ * TranscriptView Component
+ *
+ * Renders a video transcript as timestamped segments. Clicking a
+ * timestamp seeks the video player to that segment.
+ */
+export default function TranscriptView({
+    content,
+    segments,
+    onSeek,
+}: {
+    content: string;
+    segments: TranscriptSegment[];
+    onSeek: (seconds: number) => void;
+}) {
+    return (
+        <div className="space-y-3">
+            {segments.map((segment) => (
+                <div key={segment.id} className="flex gap-4 items-baseline">
+                    <button
+                        onClick={() => onSeek(segment.startTime ?? 0)}
+                        className="shrink-0 w-16 text-right text-xs font-mono hover:underline select-none"
+                        style={{ color: "var(--accent)" }}
+                        title="Play from here"
+                    >
+                        {formatTimestamp(segment.startTime ?? 0)}
+                    </button>
+                    <p style={{ color: "var(--text-primary)", lineHeight: 1.8 }}>
+                        {content.slice(segment.startPos, segment.endPos)}
+                    </p>
+                </div>
+            ))}
+        </div>
+    );
+}
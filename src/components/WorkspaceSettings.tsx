@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/lib/client";
+import { useMembers, useSession } from "@/lib/hooks";
+import { PERMISSIONS, ROLE_PERMISSIONS, WORKSPACE_ROLES } from "@/lib/constants";
+import type { WorkspaceRole } from "@/lib/constants";
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+    owner: "Everything, including members and webhooks",
+    editor: "Capture, review, write and publish",
+    commenter: "Highlight and add thoughts",
+    viewer: "Read only",
+};
+
+const ROLES = Object.values(WORKSPACE_ROLES);
+
+/**
+ * WorkspaceSettings Component
+ *
+ * Shows the members of the current workspace and their roles. Owners can
+ * rename it, add accounts by email, change roles and remove members; any
+ * member can leave, and anyone can start a new workspace. Shown on the
+ * Settings page.
+ */
+export default function WorkspaceSettings() {
+    const { data: session } = useSession();
+    const workspace = session?.workspace ?? null;
+    const { data, mutate } = useMembers(workspace?.id ?? null);
+
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<WorkspaceRole>(WORKSPACE_ROLES.EDITOR);
+    const [newName, setNewName] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState("");
+
+    const canManage = !!workspace && ROLE_PERMISSIONS[workspace.role].includes(PERMISSIONS.MANAGE);
+
+    /**
+     * Runs a change and shows its error, if any
+     */
+    async function run(change: () => Promise<unknown>) {
+        setBusy(true);
+        setError("");
+        try {
+            await change();
+            mutate();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function addMember(e: React.FormEvent) {
+        e.preventDefault();
+        if (!workspace) return;
+
+        await run(async () => {
+            await api.workspaces.addMember(workspace.id, { email, role });
+            setEmail("");
+        });
+    }
+
+    async function removeMember(userId: string) {
+        if (!workspace) return;
+        const leaving = userId === session?.user.id;
+        if (!confirm(leaving ? `Leave ${workspace.name}?` : "Remove this member? Their content stays in the workspace.")) return;
+
+        await run(async () => {
+            await api.workspaces.removeMember(workspace.id, userId);
+            // Leaving switches to another workspace on the next load
+            if (leaving) window.location.reload();
+        });
+    }
+
+    async function renameWorkspace() {
+        if (!workspace) return;
+        const name = prompt("Workspace name", workspace.name)?.trim();
+        if (!name || name === workspace.name) return;
+
+        await run(async () => {
+            await api.workspaces.rename(workspace.id, { name });
+            window.location.reload();
+        });
+    }
+
+    async function createWorkspace(e: React.FormEvent) {
+        e.preventDefault();
+
+        await run(async () => {
+            await api.workspaces.create({ name: newName });
+            // The new workspace is now the current one
+            window.location.reload();
+        });
+    }
+
+    if (!session) {
+        return (
+            <div
+                className="skeleton h-24 rounded-lg"
+                style={{ background: "var(--background-elevated)" }}
+            />
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {workspace && (
+                <div
+                    className="rounded-xl divide-y"
+                    style={{
+                        background: "var(--background-elevated)",
+                        border: "1px solid var(--border)",
+                    }}
+                >
+                    <div className="flex items-center justify-between gap-4 p-4" style={{ borderColor: "var(--border)" }}>
+                        <div>
+                            <h3 className="font-medium" style={{ color: "var(--text-primary)" }}>
+                                {workspace.name}
+                            </h3>
+                            <p className="text-sm mt-1" style={{ color: "var(--text-secondary)" }}>
+                                Your role: <span className="capitalize">{workspace.role}</span>
+                                <span style={{ color: "var(--text-muted)" }}> · {ROLE_DESCRIPTIONS[workspace.role]}</span>
+                            </p>
+                        </div>
+                        {canManage && (
+                            <button onClick={renameWorkspace} disabled={busy} className="btn btn-secondary text-sm">
+                                Rename
+                            </button>
+                        )}
+                    </div>
+
+                    {data?.members.map((member) => (
+                        <div
+                            key={member.userId}
+                            className="flex items-center justify-between gap-4 p-4"
+                            style={{ borderColor: "var(--border)" }}
+                        >
+                            <div>
+                                <p className="text-sm" style={{ color: "var(--text-primary)" }}>
+                                    {member.name || member.email}
+                                    {member.userId === session.user.id && (
+                                        <span style={{ color: "var(--text-muted)" }}> (you)</span>
+                                    )}
+                                </p>
+                                {member.name && (
+                                    <p className="text-xs mt-0.5" style={{ color: "var(--text-muted)" }}>
+                                        {member.email}
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className="flex items-center gap-3">
+                                {(canManage || member.userId === session.user.id) && (
+                                    <button
+                                        onClick={() => removeMember(member.userId)}
+                                        disabled={busy}
+                                        className="text-xs underline"
+                                        style={{ color: "var(--text-muted)" }}
+                                    >
+                                        {member.userId === session.user.id ? "Leave" : "Remove"}
+                                    </button>
+                                )}
+                                {canManage ? (
+                                    <select
+                                        value={member.role}
+                                        onChange={(e) => run(() => api.workspaces.updateMember(workspace.id, {
+                                            userId: member.userId,
+                                            role: e.target.value as WorkspaceRole,
+                                        }))}
+                                        disabled={busy}
+                                        className="input text-sm py-1 capitalize"
+                                    >
+                                        {ROLES.map((option) => (
+                                            <option key={option} value={option}>
+                                                {option}
+                                            </option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <span className="text-sm capitalize" style={{ color: "var(--text-secondary)" }}>
+                                        {member.role}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {canManage && (
+                <form onSubmit={addMember} className="flex items-center gap-3">
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder="Email of an existing account"
+                        required
+                        className="input flex-1 text-sm"
+                    />
+                    <select
+                        value={role}
+                        onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                        className="input text-sm capitalize"
+                    >
+                        {ROLES.map((option) => (
+                            <option key={option} value={option}>
+                                {option}
+                            </option>
+                        ))}
+                    </select>
+                    <button type="submit" disabled={busy || !email} className="btn btn-primary">
+                        Add Member
+                    </button>
+                </form>
+            )}
+
+            <form onSubmit={createWorkspace} className="flex items-center gap-3">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="New workspace name"
+                    required
+                    className="input flex-1 text-sm"
+                />
+                <button type="submit" disabled={busy || !newName.trim()} className="btn btn-secondary">
+                    Create Workspace
+                </button>
+            </form>
+
+            {error && (
+                <p className="text-sm" style={{ color: "var(--error)" }}>
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
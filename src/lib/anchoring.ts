@@ -0,0 +1,211 @@
+import { HIGHLIGHT_CONTEXT_LENGTH } from "./constants";
+
+/**
+ * Text anchoring for highlights
+ *
+ * A highlight is anchored by a text-quote selector: the exact quote and the
+ * text just before and after it. Offsets into the content only break ties,
+ * so a highlight can be found again after its signal's content is rewritten,
+ * and text selected in the rendered Markdown can be found in its source.
+ * No database access, so the review page can use it as well.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Text-quote selector of a highlight
+ */
+export interface TextQuote {
+    exact: string;
+    prefix?: string | null;     // Text just before the quote
+    suffix?: string | null;     // Text just after the quote
+}
+
+/**
+ * Range of a quote in the content
+ */
+export interface TextRange {
+    startPos: number;
+    endPos: number;
+}
+
+/**
+ * Text with Markdown syntax removed and whitespace collapsed, with the
+ * offset in the original text of each character
+ */
+interface SearchableText {
+    text: string;
+    offsets: number[];
+}
+
+/**
+ * Markdown syntax that is not part of the rendered text, with the groups
+ * to skip: link and image brackets with their URL, and block markers
+ */
+const MARKDOWN_SYNTAX: { pattern: RegExp; groups: number[] }[] = [
+    { pattern: /(!?\[)[^\]\n]*(\]\([^)\n]*\))/g, groups: [1, 2] },
+    { pattern: /^([ \t]*(?:#{1,6}|>|[-*+]|\d+[.)])[ \t]+)/gm, groups: [1] },
+    { pattern: /([*_`~])/g, groups: [1] },
+];
+
+// ============================================================================
+// Anchoring
+// ============================================================================
+
+/**
+ * Finds a quote in content
+ *
+ * Exact occurrences are preferred; failing that, the quote is matched
+ * ignoring Markdown syntax and differences in whitespace, as in text
+ * selected from the rendered view. Of several occurrences, the one whose
+ * surrounding text best matches the prefix and suffix wins, then the one
+ * closest to the previous position.
+ *
+ * @param content - Markdown content
+ * @param quote - Exact text with optional prefix and suffix
+ * @param hint - Previous start offset, if known
+ * @returns Range of the quote in the content, or null if it is not found
+ *
+ * @example
+ * anchorQuote("A **bold** claim. A bold claim.", { exact: "bold claim", prefix: "A " })
+ * // { startPos: 20, endPos: 30 } (the exact occurrence)
+ */
+export function anchorQuote(content: string, quote: TextQuote, hint?: number | null): TextRange | null {
+    let candidates = exactMatches(content, quote.exact);
+    if (candidates.length === 0) {
+        candidates = looseMatches(content, quote.exact);
+    }
+    if (candidates.length === 0) return null;
+
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    for (const range of candidates) {
+        // Distance stays below 1, so it only decides between equal contexts
+        const distance = hint != null ? Math.abs(range.startPos - hint) / (content.length + 1) : 0;
+        const score = contextScore(content, range, quote) - distance;
+        if (score > bestScore) {
+            best = range;
+            bestScore = score;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Text around a range of the content, stored with a highlight
+ *
+ * @param content - Markdown content
+ * @param range - Range of the quote
+ * @returns Up to HIGHLIGHT_CONTEXT_LENGTH characters on each side
+ */
+export function quoteContext(content: string, range: TextRange): { prefix: string; suffix: string } {
+    return {
+        prefix: content.slice(Math.max(0, range.startPos - HIGHLIGHT_CONTEXT_LENGTH), range.startPos),
+        suffix: content.slice(range.endPos, range.endPos + HIGHLIGHT_CONTEXT_LENGTH),
+    };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Every occurrence of the quote as written
+ */
+function exactMatches(content: string, exact: string): TextRange[] {
+    const ranges: TextRange[] = [];
+    if (!exact) return ranges;
+
+    for (let index = content.indexOf(exact); index !== -1; index = content.indexOf(exact, index + 1)) {
+        ranges.push({ startPos: index, endPos: index + exact.length });
+    }
+    return ranges;
+}
+
+/**
+ * Every occurrence of the quote, ignoring Markdown syntax and whitespace
+ */
+function looseMatches(content: string, exact: string): TextRange[] {
+    const needle = searchable(exact).text.trim();
+    if (!needle) return [];
+
+    const haystack = searchable(content);
+    const ranges: TextRange[] = [];
+    for (
+        let index = haystack.text.indexOf(needle);
+        index !== -1;
+        index = haystack.text.indexOf(needle, index + 1)
+    ) {
+        ranges.push({
+            startPos: haystack.offsets[index],
+            endPos: haystack.offsets[index + needle.length - 1] + 1,
+        });
+    }
+    return ranges;
+}
+
+/**
+ * How many characters of the prefix and suffix match the text around a range
+ */
+function contextScore(content: string, range: TextRange, quote: TextQuote): number {
+    // Markdown syntax may pad the context, so compare against more of it
+    const span = HIGHLIGHT_CONTEXT_LENGTH * 2;
+    let score = 0;
+
+    if (quote.prefix) {
+        const before = searchable(content.slice(Math.max(0, range.startPos - span), range.startPos)).text;
+        const prefix = searchable(quote.prefix).text;
+        while (score < prefix.length && score < before.length
+            && prefix[prefix.length - 1 - score] === before[before.length - 1 - score]) {
+            score++;
+        }
+    }
+    if (quote.suffix) {
+        const after = searchable(content.slice(range.endPos, range.endPos + span)).text;
+        const suffix = searchable(quote.suffix).text;
+        let matched = 0;
+        while (matched < suffix.length && matched < after.length && suffix[matched] === after[matched]) {
+            matched++;
+        }
+        score += matched;
+    }
+
+    return score;
+}
+
+/**
+ * Removes Markdown syntax and collapses whitespace, keeping the offsets
+ */
+function searchable(text: string): SearchableText {
+    const skipped = new Uint8Array(text.length);
+    for (const { pattern, groups } of MARKDOWN_SYNTAX) {
+        for (const match of text.matchAll(pattern)) {
+            // Groups are at the start and end of the match
+            const [first, last] = [groups[0], groups[groups.length - 1]];
+            const start = match.index!;
+            skipped.fill(1, start, start + match[first].length);
+            if (last !== first) {
+                skipped.fill(1, start + match[0].length - match[last].length, start + match[0].length);
+            }
+        }
+    }
+
+    const chars: string[] = [];
+    const offsets: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (skipped[i]) continue;
+
+        if (/\s/.test(text[i])) {
+            if (chars.length === 0 || chars[chars.length - 1] === " ") continue;
+            chars.push(" ");
+        } else {
+            chars.push(text[i]);
+        }
+        offsets.push(i);
+    }
+
+    return { text: chars.join(""), offsets };
+}
@@ -0,0 +1,694 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import { NextResponse } from "next/server";
+import type { ApiToken, User } from "@prisma/client";
+import prisma from "./prisma";
+import { runInWorkspace } from "./ownership";
+import type { WorkspaceScope } from "./ownership";
+import { can, createWorkspace, findMembership } from "./workspaces";
+import {
+    API_TOKEN_PREFIX,
+    API_TOKEN_SCOPES,
+    API_TOKEN_VISIBLE_LENGTH,
+    LOGIN_LINK_TTL_MS,
+    PERMISSIONS,
+    PRINCIPAL_TYPES,
+    SESSION_COOKIE,
+    SESSION_TTL_MS,
+    WORKSPACE_COOKIE,
+    WORKSPACE_HEADER,
+} from "./constants";
+import type { ApiTokenScope, Permission } from "./constants";
+import type { ApiTokenSummary, UserSummary, WorkspaceSummary } from "./types";
+
+/**
+ * Accounts, sessions and route authentication
+ *
+ * Users sign in with a password or an emailed sign-in link and get a
+ * session cookie. Only SHA-256 hashes of session and link tokens are
+ * stored. Routes wrapped in withAuth reject requests without a session,
+ * check the user's role in their current workspace (the workspace cookie
+ * or header, else their oldest workspace), and run in that workspace, so
+ * their queries only see its content (see lib/ownership).
+ *
+ * Scripts, n8n and the browser extension can instead send a user's API
+ * token as a bearer token. It acts as the user in the token's workspace,
+ * limited to the token's scopes; only its hash is stored. Deployment-wide
+ * machine callers (cron jobs) send the SERVICE_TOKEN to the routes that
+ * accept it; they run in the workspace of the workspace header, or
+ * unscoped without one. Signed n8n callbacks authenticate with their
+ * webhook signature or an API token with the callbacks scope.
+ *
+ * The first account claims all content created before accounts existed.
+ * After that, sign-up is closed unless ALLOW_SIGNUP is "true".
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Caller of a route
+ */
+export type Principal = UserPrincipal | ServicePrincipal;
+
+/**
+ * Signed-in user and their current workspace, null if they are not a member of it
+ */
+export interface UserPrincipal {
+    type: typeof PRINCIPAL_TYPES.USER;
+    user: UserSummary;
+    workspace: WorkspaceSummary | null;
+    scopes: ApiTokenScope[] | null;         // Scopes of the API token; null when signed in with a session
+}
+
+/**
+ * Caller with the service token
+ */
+export interface ServicePrincipal {
+    type: typeof PRINCIPAL_TYPES.SERVICE;
+    workspaceId: string | null;
+}
+
+/**
+ * Options of withAuth
+ */
+interface AuthOptions {
+    service?: boolean;              // Also accept the service token
+    permission?: Permission | null; // Needed in the current workspace; default: read for GET, edit otherwise; null for none
+    scopes?: ApiTokenScope[];       // API token scopes accepted (any of); default: read for GET, signals:write otherwise; [] for none
+}
+
+type AuthenticatedHandler<R extends Request, C, P extends Principal = Principal> =
+    (request: R, context: C, principal: P) => Promise<Response>;
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+// ============================================================================
+// Passwords and Tokens
+// ============================================================================
+
+/**
+ * Hashes a password with scrypt and a random salt
+ *
+ * @param password - Plain-text password
+ * @returns Hash in the form "scrypt$<salt>$<key>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+    return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time
+ */
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, key] = stored.split("$");
+    if (scheme !== "scrypt" || !salt || !key) return false;
+
+    const expected = Buffer.from(key, "base64url");
+    const actual = await scrypt(password, Buffer.from(salt, "base64url"), expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Hashes a session, link or API token for storage and lookup
+ */
+function hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function generateToken(): string {
+    return crypto.randomBytes(32).toString("base64url");
+}
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+/**
+ * Whether a new account can be created
+ *
+ * @returns true for the first account, or when ALLOW_SIGNUP is "true"
+ */
+export async function canSignUp(): Promise<boolean> {
+    return process.env.ALLOW_SIGNUP === "true" || (await prisma.user.count()) === 0;
+}
+
+/**
+ * Creates an account with a personal workspace; the first account's
+ * workspace claims all content without one
+ *
+ * @param data - Lowercased email, optional name and password
+ * @returns Created user
+ * @throws Prisma P2002 error if the email is taken
+ */
+export async function createUser(data: { email: string; name?: string; password?: string }): Promise<User> {
+    const passwordHash = data.password ? await hashPassword(data.password) : null;
+
+    return await runInWorkspace(null, () => prisma.$transaction(async (tx) => {
+        const isFirst = (await tx.user.count()) === 0;
+        const user = await tx.user.create({
+            data: { email: data.email, name: data.name || null, passwordHash },
+        });
+        const workspace = await createWorkspace(user.id, undefined, tx);
+
+        if (isFirst) {
+            const unclaimed = { where: { workspaceId: null }, data: { workspaceId: workspace.id, ownerId: user.id } };
+            await tx.signal.updateMany(unclaimed);
+            await tx.highlight.updateMany(unclaimed);
+            await tx.thought.updateMany(unclaimed);
+            await tx.insight.updateMany(unclaimed);
+            await tx.feed.updateMany(unclaimed);
+            await tx.webhookJob.updateMany(unclaimed);
+            const unclaimedByWorkspace = { where: { workspaceId: null }, data: { workspaceId: workspace.id } };
+            await tx.webhookConfig.updateMany(unclaimedByWorkspace);
+            await tx.processorConfig.updateMany(unclaimedByWorkspace);
+            await tx.tag.updateMany(unclaimedByWorkspace);
+            await tx.tagAlias.updateMany(unclaimedByWorkspace);
+            await tx.topicSuggestion.updateMany(unclaimedByWorkspace);
+        }
+
+        return user;
+    }));
+}
+
+/**
+ * Checks an email and password
+ *
+ * @returns The user, or null if either is wrong
+ */
+export async function authenticate(email: string, password: string): Promise<User | null> {
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user?.passwordHash) return null;
+
+    return await verifyPassword(password, user.passwordHash) ? user : null;
+}
+
+export function toUserSummary(user: Pick<User, "id" | "email" | "name">): UserSummary {
+    return { id: user.id, email: user.email, name: user.name };
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Starts a session and returns its token for the cookie
+ *
+ * Expired sessions of the user are removed at the same time.
+ *
+ * @param userId - Signed-in user
+ * @returns Session token and expiry
+ */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    await prisma.session.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } });
+    await prisma.session.create({
+        data: { tokenHash: hashToken(token), userId, expiresAt },
+    });
+
+    return { token, expiresAt };
+}
+
+/**
+ * Ends the session of a cookie
+ */
+export async function deleteSession(token: string): Promise<void> {
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/**
+ * User of a session cookie
+ *
+ * @returns The user, or null for unknown or expired sessions
+ */
+async function getSessionUser(token: string): Promise<UserSummary | null> {
+    const session = await prisma.session.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: { select: { id: true, email: true, name: true } } },
+    });
+
+    return session && session.expiresAt > new Date() ? session.user : null;
+}
+
+/**
+ * Sets the session cookie on a response
+ */
+export function setSessionCookie(response: NextResponse, session: { token: string; expiresAt: Date }): void {
+    response.cookies.set(SESSION_COOKIE, session.token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        expires: session.expiresAt,
+    });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+    response.cookies.delete(SESSION_COOKIE);
+    response.cookies.delete(WORKSPACE_COOKIE);
+}
+
+/**
+ * Makes a workspace the current one for later requests
+ */
+export function setWorkspaceCookie(response: NextResponse, workspaceId: string): void {
+    response.cookies.set(WORKSPACE_COOKIE, workspaceId, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: SESSION_TTL_MS / 1000,
+    });
+}
+
+// ============================================================================
+// API Tokens
+// ============================================================================
+
+/**
+ * Creates an API token for a user in a workspace
+ *
+ * @param userId - User the token acts as
+ * @param workspaceId - Workspace the token works in
+ * @param data - Name, scopes and optional expiry of the token
+ * @returns The token, which is not stored and cannot be shown again, and its summary
+ */
+export async function createApiToken(
+    userId: string,
+    workspaceId: string,
+    data: { name: string; scopes: ApiTokenScope[]; expiresAt?: Date | null }
+): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const token = `${API_TOKEN_PREFIX}${generateToken()}`;
+    const apiToken = await prisma.apiToken.create({
+        data: {
+            name: data.name,
+            tokenHash: hashToken(token),
+            prefix: token.slice(0, API_TOKEN_VISIBLE_LENGTH),
+            scopes: data.scopes,
+            userId,
+            workspaceId,
+            expiresAt: data.expiresAt ?? null,
+        },
+    });
+
+    return { token, apiToken: toApiTokenSummary(apiToken) };
+}
+
+/**
+ * A user's API tokens in a workspace, newest first
+ */
+export async function listApiTokens(userId: string, workspaceId: string): Promise<ApiTokenSummary[]> {
+    const tokens = await prisma.apiToken.findMany({
+        where: { userId, workspaceId },
+        orderBy: { createdAt: "desc" },
+    });
+    return tokens.map(toApiTokenSummary);
+}
+
+/**
+ * Deletes one of a user's API tokens
+ *
+ * @returns false if the user has no such token
+ */
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.apiToken.deleteMany({ where: { id, userId } });
+    return count > 0;
+}
+
+/**
+ * Looks up an unexpired API token and records that it was used
+ */
+async function findApiToken(token: string): Promise<ApiToken | null> {
+    const apiToken = await prisma.apiToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+    });
+    if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) return null;
+
+    return await prisma.apiToken.update({
+        where: { id: apiToken.id },
+        data: { lastUsedAt: new Date() },
+    });
+}
+
+function toApiTokenSummary(apiToken: ApiToken): ApiTokenSummary {
+    return {
+        id: apiToken.id,
+        name: apiToken.name,
+        prefix: apiToken.prefix,
+        scopes: apiToken.scopes as ApiTokenScope[],
+        expiresAt: apiToken.expiresAt,
+        lastUsedAt: apiToken.lastUsedAt,
+        createdAt: apiToken.createdAt,
+    };
+}
+
+// ============================================================================
+// Sign-in Links
+// ============================================================================
+
+/**
+ * Creates a single-use sign-in link
+ *
+ * Links point at APP_URL, never at the host a request was sent to, so a
+ * forged Host header cannot send someone a link to another site.
+ *
+ * @param email - Lowercased email the link signs in to
+ * @returns Link to GET /api/auth/magic-link
+ * @throws Error in production if APP_URL is not set
+ */
+export async function createLoginLink(email: string): Promise<string> {
+    const origin = appOrigin();
+    const token = generateToken();
+
+    await prisma.loginToken.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    await prisma.loginToken.create({
+        data: {
+            tokenHash: hashToken(token),
+            email,
+            expiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MS),
+        },
+    });
+
+    return `${origin}/api/auth/magic-link?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Sends a sign-in link
+ *
+ * With LOGIN_LINK_WEBHOOK_URL set, `{ email, link }` is posted to it (e.g.
+ * an n8n workflow that sends the email). Outside production the link is
+ * otherwise written to the server log; in production it is not sent.
+ *
+ * @throws Error if the webhook does not accept the link, or in production
+ * if there is no webhook
+ */
+export async function sendLoginLink(email: string, link: string): Promise<void> {
+    const url = process.env.LOGIN_LINK_WEBHOOK_URL;
+    if (!url) {
+        if (process.env.NODE_ENV === "production") {
+            throw new Error("LOGIN_LINK_WEBHOOK_URL is not set, so sign-in links cannot be sent");
+        }
+        console.log(`Sign-in link for ${email}: ${link}`);
+        return;
+    }
+
+    const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, link }),
+    });
+    if (!res.ok) {
+        throw new Error(`Sign-in link webhook returned ${res.status}`);
+    }
+}
+
+/**
+ * Uses a sign-in link
+ *
+ * The account is created if the email has none and sign-up is open.
+ *
+ * @param token - Token from the link
+ * @returns The user to sign in, or null if the link is unknown, used,
+ * expired, or for an email that cannot sign up
+ */
+export async function consumeLoginLink(token: string): Promise<User | null> {
+    const tokenHash = hashToken(token);
+
+    // Marking the link used first makes it single-use under concurrent clicks
+    const { count } = await prisma.loginToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+        data: { usedAt: new Date() },
+    });
+    if (count === 0) return null;
+
+    const { email } = await prisma.loginToken.findUniqueOrThrow({ where: { tokenHash } });
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (user) return user;
+
+    return await canSignUp() ? await createUser({ email }) : null;
+}
+
+// ============================================================================
+// Route Authentication
+// ============================================================================
+
+/**
+ * Identifies the caller of a request
+ *
+ * A bearer token must be the service token or an API token; otherwise the
+ * session cookie is checked. An API token works in its own workspace. A
+ * signed-in user's workspace is the one in the workspace header, which
+ * they must be a member of, or else the one in the workspace cookie or
+ * their oldest workspace.
+ *
+ * @param request - Incoming request
+ * @returns The caller, or null if the request is not authenticated
+ */
+export async function resolvePrincipal(request: Request): Promise<Principal | null> {
+    const requestedWorkspaceId = request.headers.get(WORKSPACE_HEADER);
+
+    const authorization = request.headers.get("authorization");
+    if (authorization) {
+        const [scheme, token] = authorization.split(" ");
+        if (scheme?.toLowerCase() !== "bearer" || !token) return null;
+
+        if (isServiceToken(token)) {
+            return { type: PRINCIPAL_TYPES.SERVICE, workspaceId: requestedWorkspaceId };
+        }
+
+        const apiToken = token.startsWith(API_TOKEN_PREFIX) ? await findApiToken(token) : null;
+        if (!apiToken) return null;
+
+        const user = await prisma.user.findUnique({
+            where: { id: apiToken.userId },
+            select: { id: true, email: true, name: true },
+        });
+        if (!user) return null;
+
+        return {
+            type: PRINCIPAL_TYPES.USER,
+            user,
+            // Null once the user has left the workspace, which disables the token
+            workspace: await findMembership(user.id, apiToken.workspaceId),
+            scopes: apiToken.scopes as ApiTokenScope[],
+        };
+    }
+
+    const sessionToken = readCookie(request, SESSION_COOKIE);
+    const user = sessionToken ? await getSessionUser(sessionToken) : null;
+    if (!user) return null;
+
+    const workspace = requestedWorkspaceId
+        ? await findMembership(user.id, requestedWorkspaceId)
+        : await findMembership(user.id, readCookie(request, WORKSPACE_COOKIE)) ?? await findMembership(user.id, null);
+    return { type: PRINCIPAL_TYPES.USER, user, workspace, scopes: null };
+}
+
+/**
+ * Whether the caller may take an action in their current workspace
+ *
+ * The service token may take every action.
+ *
+ * @example
+ * if (!hasPermission(principal, PERMISSIONS.PUBLISH)) return forbidden(PERMISSIONS.PUBLISH);
+ */
+export function hasPermission(principal: Principal, permission: Permission): boolean {
+    if (principal.type === PRINCIPAL_TYPES.SERVICE) return true;
+    return !!principal.workspace && can(principal.workspace.role, permission);
+}
+
+/**
+ * 403 response for a caller whose role lacks a permission
+ */
+export function forbidden(permission: Permission): NextResponse {
+    return NextResponse.json(
+        { error: `Your role in this workspace does not allow this (needs ${permission} permission)` },
+        { status: 403 }
+    );
+}
+
+/**
+ * Whether the caller may use an API token scope
+ *
+ * Sessions and the service token are not limited by scopes.
+ */
+export function hasScope(principal: Principal, scope: ApiTokenScope): boolean {
+    return principal.type === PRINCIPAL_TYPES.SERVICE || !principal.scopes || principal.scopes.includes(scope);
+}
+
+/**
+ * 403 response for an API token without any of the scopes a route accepts
+ */
+export function missingScope(scopes: ApiTokenScope[]): NextResponse {
+    return NextResponse.json(
+        {
+            error: scopes.length
+                ? `This API token lacks the ${scopes.join(" or ")} scope`
+                : "This endpoint does not accept API tokens",
+        },
+        { status: 403 }
+    );
+}
+
+/**
+ * Checks a user's role in a workspace named in the URL, which need not be
+ * their current one
+ *
+ * @param principal - Signed-in user
+ * @param workspaceId - Workspace of the route
+ * @param permission - Permission needed
+ * @returns The workspace with the user's role, or a 404 response if they
+ * are not a member and a 403 response if their role lacks the permission
+ */
+export async function authorizeWorkspace(
+    principal: UserPrincipal,
+    workspaceId: string,
+    permission: Permission
+): Promise<WorkspaceSummary | NextResponse> {
+    const workspace = await findMembership(principal.user.id, workspaceId);
+    if (!workspace) {
+        return NextResponse.json(
+            { error: "Workspace not found" },
+            { status: 404 }
+        );
+    }
+
+    return can(workspace.role, permission) ? workspace : forbidden(permission);
+}
+
+/**
+ * Wraps a route handler so it requires a signed-in user
+ *
+ * The user's role in their current workspace must grant the route's
+ * permission, and the request runs in that workspace (see
+ * lib/ownership). Routes with `permission: null` do not need a workspace
+ * and must not query workspace content. API tokens must also have one of
+ * the route's scopes. With `{ service: true }` the
+ * service token is accepted too. The handler receives the caller as its
+ * third argument; without `service` it is always a user.
+ *
+ * @param handler - Route handler
+ * @param options - Whether service callers are accepted, and the permission needed
+ * @returns Handler that responds 401 to unauthenticated requests and 403
+ * to users whose role lacks the permission or whose token lacks the scope
+ *
+ * @example
+ * ```ts
+ * export const GET = withAuth(async (request: NextRequest) => {
+ *     const signals = await prisma.signal.findMany(); // The workspace's signals only
+ *     return NextResponse.json({ signals });
+ * });
+ * ```
+ */
+export function withAuth<R extends Request, C>(
+    handler: AuthenticatedHandler<R, C, UserPrincipal>,
+    options?: AuthOptions & { service?: false }
+): (request: R, context: C) => Promise<Response>;
+export function withAuth<R extends Request, C>(
+    handler: AuthenticatedHandler<R, C>,
+    options: AuthOptions & { service: true }
+): (request: R, context: C) => Promise<Response>;
+export function withAuth<R extends Request, C>(
+    handler: AuthenticatedHandler<R, C, UserPrincipal> | AuthenticatedHandler<R, C>,
+    options: AuthOptions = {}
+): (request: R, context: C) => Promise<Response> {
+    return async (request: R, context: C) => {
+        const principal = await resolvePrincipal(request);
+
+        if (!principal || (principal.type === PRINCIPAL_TYPES.SERVICE && !options.service)) {
+            return NextResponse.json(
+                { error: principal ? "This endpoint requires a signed-in user" : "Authentication required" },
+                { status: 401 }
+            );
+        }
+
+        const permission = options.permission === undefined
+            ? request.method === "GET" ? PERMISSIONS.READ : PERMISSIONS.EDIT
+            : options.permission;
+        if (permission && principal.type === PRINCIPAL_TYPES.USER) {
+            if (!principal.workspace) {
+                return NextResponse.json(
+                    { error: "Not a member of this workspace" },
+                    { status: 403 }
+                );
+            }
+            if (!hasPermission(principal, permission)) {
+                return forbidden(permission);
+            }
+        }
+
+        if (principal.type === PRINCIPAL_TYPES.USER && principal.scopes) {
+            const scopes = options.scopes
+                ?? [request.method === "GET" ? API_TOKEN_SCOPES.READ : API_TOKEN_SCOPES.SIGNALS_WRITE];
+            if (!scopes.some((scope) => hasScope(principal, scope))) {
+                return missingScope(scopes);
+            }
+        }
+
+        return await runInWorkspace(
+            principalScope(principal),
+            // Service callers were turned away above unless the handler accepts them
+            () => (handler as AuthenticatedHandler<R, C>)(request, context, principal)
+        );
+    };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Workspace a caller's queries run in
+ */
+function principalScope(principal: Principal): WorkspaceScope | null {
+    if (principal.type === PRINCIPAL_TYPES.SERVICE) {
+        return principal.workspaceId ? { workspaceId: principal.workspaceId } : null;
+    }
+    return principal.workspace ? { workspaceId: principal.workspace.id, userId: principal.user.id } : null;
+}
+
+/**
+ * Compares a bearer token to SERVICE_TOKEN in constant time
+ */
+function isServiceToken(token: string): boolean {
+    const serviceToken = process.env.SERVICE_TOKEN;
+    if (!serviceToken) return false;
+
+    return crypto.timingSafeEqual(
+        Buffer.from(hashToken(token), "hex"),
+        Buffer.from(hashToken(serviceToken), "hex")
+    );
+}
+
+/**
+ * Reads a cookie from the request headers
+ */
+function readCookie(request: Request, name: string): string | null {
+    for (const pair of (request.headers.get("cookie") ?? "").split(";")) {
+        const [key, ...value] = pair.trim().split("=");
+        if (key === name) return decodeURIComponent(value.join("="));
+    }
+    return null;
+}
+
+/**
+ * Origin sign-in links point at, from APP_URL
+ *
+ * Outside production it defaults to the local dev server.
+ */
+function appOrigin(): string {
+    const appUrl = process.env.APP_URL;
+    if (appUrl) return new URL(appUrl).origin;
+
+    if (process.env.NODE_ENV === "production") {
+        throw new Error("APP_URL is not set, so sign-in links cannot be built");
+    }
+    return "http://localhost:3000";
+}
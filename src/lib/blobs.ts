@@ -0,0 +1,73 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Content-addressed blob store for uploaded files
+ *
+ * Blobs are stored on the local filesystem under BLOB_STORE_DIR
+ * (default: .data/blobs), keyed by the SHA-256 of their bytes, so
+ * uploading the same file twice stores it once.
+ */
+
+const BLOB_KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Returns the root directory of the blob store
+ */
+function getBlobStoreDir(): string {
+    return path.resolve(process.env.BLOB_STORE_DIR || ".data/blobs");
+}
+
+/**
+ * Returns the file path of a blob, sharded by the first two key characters
+ */
+function getBlobPath(key: string): string {
+    if (!BLOB_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(getBlobStoreDir(), key.slice(0, 2), key);
+}
+
+/**
+ * Computes the key bytes are stored under, without storing them
+ *
+ * @param data - File contents
+ * @returns Blob key (hex SHA-256 of the contents)
+ */
+export function blobKey(data: Uint8Array): string {
+    return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Stores bytes in the blob store
+ *
+ * @param data - File contents
+ * @returns Blob key (hex SHA-256 of the contents)
+ *
+ * @example
+ * ```ts
+ * const key = await putBlob(bytes);
+ * const same = await getBlob(key);
+ * ```
+ */
+export async function putBlob(data: Uint8Array): Promise<string> {
+    const key = blobKey(data);
+    const blobPath = getBlobPath(key);
+
+    await mkdir(path.dirname(blobPath), { recursive: true });
+    await writeFile(blobPath, data);
+
+    return key;
+}
+
+/**
+ * Reads a blob from the store
+ *
+ * @param key - Blob key returned by putBlob
+ * @returns File contents
+ * @throws Error if the key is invalid or the blob does not exist
+ */
+export async function getBlob(key: string): Promise<Buffer> {
+    return await readFile(getBlobPath(key));
+}
@@ -0,0 +1,167 @@
+import { parseHTML } from "linkedom";
+import { getYouTubeVideoId } from "./youtube";
+
+/**
+ * URL canonicalization
+ *
+ * Turns captured URLs into one canonical form per page: tracking
+ * parameters are stripped, YouTube, Twitter/X and Medium links are
+ * reduced to a single shape, and the page's rel=canonical link is
+ * followed when its HTML is available. Signals store the canonical URL
+ * as `sourceUrl` and the URL as captured as `originalUrl`.
+ */
+
+// ============================================================================
+// Tracking Parameters
+// ============================================================================
+
+/**
+ * Campaign and ad-click parameters, stripped on every host
+ *
+ * Names like `ref` or `share` are left alone here: on some sites they
+ * select content, so they are only stripped per host.
+ */
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|fbclid|gclid|gclsrc|gbraid|wbraid|dclid|msclkid|yclid|twclid|mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok)$/i;
+
+/**
+ * Tracking parameters of specific sites, also stripped on their subdomains
+ */
+const SITE_TRACKING_PARAMS: Record<string, string[]> = {
+    "youtube.com": ["si", "feature", "pp", "ab_channel"],
+    "x.com": ["s", "t", "ref_src", "ref_url"],
+    "instagram.com": ["igshid", "igsh"],
+    "medium.com": ["source"],
+};
+
+/**
+ * Medium post ID: the hex suffix of a story slug, or the path of a /p/ link
+ */
+const MEDIUM_POST_PATTERN = /^\/(?:p\/|(?:.+[/-]))([0-9a-f]{10,12})\/?$/;
+
+/**
+ * Hosts serving Twitter/X posts
+ */
+const TWITTER_HOSTS = ["twitter.com", "x.com", "fxtwitter.com", "vxtwitter.com", "fixupx.com"];
+
+// ============================================================================
+// Canonicalization
+// ============================================================================
+
+/**
+ * Canonicalizes a captured URL
+ *
+ * Drops default ports, fragments and tracking parameters (URL parsing
+ * already lowercases the host), and normalizes site-specific shapes:
+ * - YouTube: youtu.be, shorts, live, embed and mobile links become
+ *   `https://www.youtube.com/watch?v=ID`
+ * - Twitter/X: twitter.com, mobile and mirror hosts become x.com, and
+ *   status links become `https://x.com/user/status/ID`
+ * - Medium: stories become `https://medium.com/p/ID`, whether linked
+ *   from a profile (`medium.com/@user/slug-ID`), a user subdomain
+ *   (`user.medium.com/slug-ID`) or a publication (`medium.com/pub/slug-ID`)
+ *
+ * When the page HTML is given, its rel=canonical (or og:url) link is
+ * followed first.
+ *
+ * @param url - URL as captured
+ * @param html - Optional HTML of the page
+ * @returns Canonical URL, or null if the URL is not http(s)
+ *
+ * @example
+ * ```ts
+ * canonicalizeUrl("https://youtu.be/dQw4w9WgXcQ?si=abc");
+ * // Returns: "https://www.youtube.com/watch?v=dQw4w9WgXcQ"
+ * ```
+ */
+export function canonicalizeUrl(url: string, html?: string): string | null {
+    const declared = html ? findCanonicalLink(html, url) : null;
+    const parsed = parseHttpUrl(declared ?? url) ?? (declared ? parseHttpUrl(url) : null);
+    if (!parsed) return null;
+
+    const videoId = getYouTubeVideoId(parsed.toString());
+    if (videoId) {
+        return `https://www.youtube.com/watch?v=${videoId}`;
+    }
+
+    if (TWITTER_HOSTS.includes(bareHost(parsed.hostname))) {
+        const status = parsed.pathname.match(/^\/([A-Za-z0-9_]+)\/status(?:es)?\/(\d+)/);
+        if (status) {
+            return `https://x.com/${status[1]}/status/${status[2]}`;
+        }
+        parsed.hostname = "x.com";
+    }
+
+    const host = bareHost(parsed.hostname);
+    if (host === "medium.com" || host.endsWith(".medium.com")) {
+        const postId = parsed.pathname.match(MEDIUM_POST_PATTERN)?.[1];
+        if (postId) {
+            return `https://medium.com/p/${postId}`;
+        }
+    }
+
+    parsed.hash = "";
+
+    const siteParams = siteTrackingParams(parsed.hostname);
+    for (const key of Array.from(parsed.searchParams.keys())) {
+        if (TRACKING_PARAM_PATTERN.test(key) || siteParams.includes(key)) {
+            parsed.searchParams.delete(key);
+        }
+    }
+
+    // URL keeps a bare "?" after the last parameter is removed
+    return parsed.toString().replace(/\?$/, "");
+}
+
+/**
+ * Reads the canonical URL a page declares for itself
+ *
+ * @param html - Page HTML
+ * @param pageUrl - URL the page was fetched from, to resolve relative links
+ * @returns Absolute canonical URL, or null if none is declared
+ */
+export function findCanonicalLink(html: string, pageUrl?: string): string | null {
+    const { document } = parseHTML(html);
+    const href = document.querySelector("link[rel='canonical']")?.getAttribute("href")
+        || document.querySelector("meta[property='og:url']")?.getAttribute("content");
+
+    if (!href) return null;
+
+    try {
+        return new URL(href.trim(), pageUrl).toString();
+    } catch {
+        return null;
+    }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parses an http(s) URL
+ */
+function parseHttpUrl(url: string): URL | null {
+    try {
+        const parsed = new URL(url.trim());
+        return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Strips the subdomains sites use for their mobile versions
+ */
+function bareHost(hostname: string): string {
+    return hostname.replace(/^(www|m|mobile)\./, "");
+}
+
+/**
+ * Returns the extra tracking parameters of a host and its parent domains
+ */
+function siteTrackingParams(hostname: string): string[] {
+    const host = bareHost(hostname);
+    return Object.entries(SITE_TRACKING_PARAMS)
+        .filter(([domain]) => host === domain || host.endsWith(`.${domain}`))
+        .flatMap(([, params]) => params);
+}
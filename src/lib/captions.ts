@@ -0,0 +1,124 @@
+/**
+ * Caption file parsing (WebVTT and SRT)
+ *
+ * Turns caption files into transcript segments with start/end times in
+ * seconds. Markup and cue settings are stripped, and the repeated lines
+ * of "rolling" auto-generated captions are collapsed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A timed piece of a transcript
+ */
+export interface TranscriptSegment {
+    start: number;  // Seconds from the start of the media
+    end: number;
+    text: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Parses WebVTT or SRT captions
+ *
+ * Both formats are blocks of "start --> end" timing lines followed by
+ * text, so one parser handles them; WebVTT headers, NOTE/STYLE/REGION
+ * blocks and SRT cue numbers are skipped.
+ *
+ * @param captions - Caption file contents
+ * @returns Segments in order, or an empty array if no cues were found
+ *
+ * @example
+ * ```ts
+ * parseCaptions("1\n00:00:01,000 --> 00:00:03,500\nHello there\n");
+ * // Returns: [{ start: 1, end: 3.5, text: "Hello there" }]
+ * ```
+ */
+export function parseCaptions(captions: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let previousLines: string[] = [];
+    const blocks = captions.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split("\n");
+        const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line));
+        if (timingIndex === -1) continue;
+
+        const [, start, end] = lines[timingIndex].match(TIMING_PATTERN)!;
+        const text = lines
+            .slice(timingIndex + 1)
+            .map(cleanCueText)
+            .filter(Boolean);
+
+        appendCue(segments, parseTimestamp(start), parseTimestamp(end), text, previousLines);
+        if (text.length > 0) previousLines = text;
+    }
+
+    return segments;
+}
+
+/**
+ * Checks whether text looks like a WebVTT or SRT caption file
+ */
+export function looksLikeCaptions(text: string): boolean {
+    return text.split("\n").some((line) => TIMING_PATTERN.test(line));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Adds a cue, dropping the lines that roll over from the previous cue
+ *
+ * Auto-generated captions show each line twice as it scrolls up, so a
+ * cue often starts with the previous cue's last lines. Only that overlap
+ * is dropped; a line repeated anywhere else is kept.
+ */
+function appendCue(segments: TranscriptSegment[], start: number, end: number, lines: string[], previousLines: string[]) {
+    const previous = segments[segments.length - 1];
+
+    // Longest run of the previous cue's trailing lines that starts this cue
+    let overlap = Math.min(lines.length, previousLines.length);
+    while (overlap > 0 && !previousLines.slice(-overlap).every((line, i) => line === lines[i])) {
+        overlap--;
+    }
+
+    const fresh = lines.slice(overlap);
+    if (fresh.length === 0) {
+        if (previous) previous.end = Math.max(previous.end, end);
+        return;
+    }
+
+    segments.push({ start, end, text: fresh.join("\n") });
+}
+
+/**
+ * Removes VTT/SRT markup (voice spans, inline timestamps, styling tags)
+ */
+function cleanCueText(line: string): string {
+    return line
+        .replace(/<\d{2}:\d{2}[:.\d]*>/g, "")
+        .replace(/<\/?[^>]+>/g, "")
+        .replace(/\{\\[^}]*\}/g, "")
+        .replace(/&amp;/g, "&")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&nbsp;/g, " ")
+        .trim();
+}
+
+/**
+ * Converts "hh:mm:ss.mmm", "mm:ss.mmm" or "hh:mm:ss,mmm" to seconds
+ */
+function parseTimestamp(timestamp: string): number {
+    const parts = timestamp.replace(",", ".").split(":").map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
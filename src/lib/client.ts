@@ -0,0 +1,457 @@
+import type { z } from "zod";
+import type { DuplicatePolicy } from "./constants";
+import type {
+    apiTokenCreateSchema,
+    deliveryListQuerySchema,
+    feedCreateSchema,
+    feedUpdateSchema,
+    highlightCreateSchema,
+    highlightListQuerySchema,
+    highlightUpdateSchema,
+    ingestRequestSchema,
+    insightCreateSchema,
+    insightGenerateSchema,
+    insightListQuerySchema,
+    insightUpdateSchema,
+    loginLinkRequestSchema,
+    loginSchema,
+    memberAddSchema,
+    memberRoleSchema,
+    processorConfigSchema,
+    relatedQuerySchema,
+    signalListQuerySchema,
+    signalStatusUpdateSchema,
+    signalUpdateSchema,
+    signupSchema,
+    thoughtCreateSchema,
+    thoughtListQuerySchema,
+    webhookConfigSchema,
+    workspaceSchema,
+} from "./schemas";
+import type {
+    ApiErrorResponse,
+    ApiTokenCreatedResponse,
+    ApiTokensResponse,
+    DeliveriesResponse,
+    FeedPollResponse,
+    FeedSummary,
+    FeedsResponse,
+    HighlightSummary,
+    HighlightsResponse,
+    IngestResponse,
+    InsightSummary,
+    InsightsResponse,
+    JobQueuedResponse,
+    ProcessorSettingsResponse,
+    RelatedResponse,
+    SessionResponse,
+    SignalDetail,
+    SignalWithParsedTags,
+    SignalsResponse,
+    StageProcessor,
+    ThoughtSummary,
+    ThoughtsResponse,
+    WebhookConfigSummary,
+    WebhookConfigsResponse,
+    WorkspaceMemberSummary,
+    WorkspaceMembersResponse,
+    WorkspaceSummary,
+    WorkspacesResponse,
+} from "./types";
+import type { FieldIssue } from "./validation";
+
+/**
+ * Typed client for the Signal Desk API
+ *
+ * Request types come from the schemas the routes validate with and
+ * response types from lib/types, so the client and the routes change
+ * together. Reads return the response body and writes the record they
+ * created or changed. Only types are imported, so the module runs anywhere with
+ * fetch: the app's pages, scripts and the browser extension.
+ *
+ * The app's pages are signed in with the session cookie; other callers
+ * pass an API token (or the deployment's service token, with the
+ * workspace to work in as an X-Signal-Desk-Workspace header) as an
+ * Authorization header.
+ *
+ * @example
+ * const client = createApiClient({
+ *     baseUrl: "https://desk.example.com",
+ *     headers: { Authorization: `Bearer ${process.env.SIGNAL_DESK_TOKEN}` },
+ * });
+ * const { signals } = await client.signals.list({ status: ["unread"] });
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options of a client
+ */
+export interface ApiClientOptions {
+    baseUrl?: string;               // Origin of the app; empty for same-origin requests from its pages
+    headers?: HeadersInit;          // Sent with every request
+    fetch?: typeof fetch;           // Default: the global fetch
+}
+
+type QueryValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Query parameters; arrays are sent as repeated parameters
+ */
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+/**
+ * Query string of a route, as its parsed values
+ */
+type Query<T extends z.ZodType> = Partial<z.output<T>>;
+
+/**
+ * Body of a route, as accepted before parsing
+ */
+type Body<T extends z.ZodType> = z.input<T>;
+
+interface RequestOptions {
+    query?: QueryParams;
+    body?: unknown;                 // Sent as JSON, or as is for FormData
+}
+
+/**
+ * Thrown for responses with an error status
+ */
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly body: ApiErrorResponse
+    ) {
+        super(body.error);
+        this.name = "ApiError";
+    }
+
+    /**
+     * Invalid fields, for 400s on invalid input
+     */
+    get issues(): FieldIssue[] {
+        return this.body.issues ?? [];
+    }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Creates an API client
+ *
+ * @param options - Base URL, headers and fetch implementation
+ * @returns Client with a group of methods per resource
+ * @throws ApiError from each method when the API responds with an error
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+    const baseUrl = (options.baseUrl ?? "").replace(/\/+$/, "");
+    const send = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+    async function request<T>(method: string, path: string, { query, body }: RequestOptions = {}): Promise<T> {
+        const headers = new Headers(options.headers);
+        const isForm = typeof FormData !== "undefined" && body instanceof FormData;
+        if (body !== undefined && !isForm) headers.set("Content-Type", "application/json");
+
+        const res = await send(baseUrl + apiPath(path, query), {
+            method,
+            headers,
+            body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+        });
+
+        const payload = await readJson(res);
+        if (!res.ok) {
+            throw new ApiError(res.status, isErrorResponse(payload)
+                ? payload
+                : { error: `Request failed with status ${res.status}` });
+        }
+
+        return payload as T;
+    }
+
+    return {
+        auth: {
+            /** Signed-in user; throws a 401 ApiError when signed out */
+            session: () =>
+                request<SessionResponse>("GET", "/api/auth/session"),
+
+            login: (body: Body<typeof loginSchema>) =>
+                request<SessionResponse>("POST", "/api/auth/login", { body }),
+
+            signup: (body: Body<typeof signupSchema>) =>
+                request<SessionResponse>("POST", "/api/auth/signup", { body }),
+
+            logout: async () => {
+                await request("POST", "/api/auth/logout");
+            },
+
+            /** Emails a sign-in link */
+            requestLink: async (body: Body<typeof loginLinkRequestSchema>) => {
+                await request("POST", "/api/auth/magic-link", { body });
+            },
+        },
+
+        workspaces: {
+            list: () =>
+                request<WorkspacesResponse>("GET", "/api/workspaces"),
+
+            /** Creates a workspace and makes it the current one */
+            create: async (body: Body<typeof workspaceSchema>) =>
+                (await request<{ workspace: WorkspaceSummary }>("POST", "/api/workspaces", { body })).workspace,
+
+            rename: async (id: string, body: Body<typeof workspaceSchema>) =>
+                (await request<{ workspace: WorkspaceSummary }>("PATCH", `/api/workspaces/${encodeURIComponent(id)}`, {
+                    body,
+                })).workspace,
+
+            /** Makes a workspace the current one for later requests */
+            switch: async (workspaceId: string) =>
+                (await request<{ workspace: WorkspaceSummary }>("POST", "/api/workspaces/switch", {
+                    body: { workspaceId },
+                })).workspace,
+
+            members: (id: string) =>
+                request<WorkspaceMembersResponse>("GET", `/api/workspaces/${encodeURIComponent(id)}/members`),
+
+            addMember: async (id: string, body: Body<typeof memberAddSchema>) =>
+                (await request<{ member: WorkspaceMemberSummary }>("POST", `/api/workspaces/${encodeURIComponent(id)}/members`, {
+                    body,
+                })).member,
+
+            updateMember: async (id: string, body: Body<typeof memberRoleSchema>) =>
+                (await request<{ member: WorkspaceMemberSummary }>("PATCH", `/api/workspaces/${encodeURIComponent(id)}/members`, {
+                    body,
+                })).member,
+
+            removeMember: async (id: string, userId: string) => {
+                await request("DELETE", `/api/workspaces/${encodeURIComponent(id)}/members`, { query: { userId } });
+            },
+        },
+
+        signals: {
+            list: (query?: Query<typeof signalListQuerySchema>) =>
+                request<SignalsResponse>("GET", "/api/signals", { query }),
+
+            get: (id: string) =>
+                request<SignalDetail>("GET", `/api/signals/${encodeURIComponent(id)}`),
+
+            /** Edits fields, tags or the status of a signal */
+            update: async (id: string, body: Body<typeof signalUpdateSchema>) =>
+                (await request<{ signal: SignalWithParsedTags }>("PATCH", `/api/signals/${encodeURIComponent(id)}`, { body })).signal,
+
+            /** Moves a signal to a status, optionally saving a thought with it */
+            setStatus: async (body: Body<typeof signalStatusUpdateSchema>) =>
+                (await request<{ signal: SignalWithParsedTags }>("PATCH", "/api/signals", { body })).signal,
+
+            related: (id: string, query?: Query<typeof relatedQuerySchema>) =>
+                request<RelatedResponse>("GET", `/api/signals/${encodeURIComponent(id)}/related`, { query }),
+        },
+
+        highlights: {
+            /** The library: highlights across signals, newest first */
+            list: (query?: Query<typeof highlightListQuerySchema>) =>
+                request<HighlightsResponse>("GET", "/api/highlights", { query }),
+
+            create: async (body: Body<typeof highlightCreateSchema>) =>
+                (await request<{ highlight: HighlightSummary }>("POST", "/api/highlights", { body })).highlight,
+
+            /** Changes the category or note of a highlight */
+            update: async (body: Body<typeof highlightUpdateSchema>) =>
+                (await request<{ highlight: HighlightSummary }>("PATCH", "/api/highlights", { body })).highlight,
+
+            delete: async (id: string) => {
+                await request("DELETE", "/api/highlights", { query: { id } });
+            },
+        },
+
+        thoughts: {
+            list: (query?: Query<typeof thoughtListQuerySchema>) =>
+                request<ThoughtsResponse>("GET", "/api/thoughts", { query }),
+
+            create: async (body: Body<typeof thoughtCreateSchema>) =>
+                (await request<{ thought: ThoughtSummary }>("POST", "/api/thoughts", { body })).thought,
+
+            delete: async (id: string) => {
+                await request("DELETE", "/api/thoughts", { query: { id } });
+            },
+        },
+
+        insights: {
+            list: (query?: Query<typeof insightListQuerySchema>) =>
+                request<InsightsResponse>("GET", "/api/insights", { query }),
+
+            // The schema also unwraps n8n output, so its input type is unknown
+            create: async (body: z.output<typeof insightCreateSchema>) =>
+                (await request<{ insight: InsightSummary }>("POST", "/api/insights", { body })).insight,
+
+            /** Edits the copy of an insight */
+            update: async (body: Omit<Body<typeof insightUpdateSchema>, "action" | "scheduledFor">) =>
+                (await request<{ insight: InsightSummary }>("PATCH", "/api/insights", { body })).insight,
+
+            /** Queues publishing now */
+            publish: (id: string) =>
+                request<JobQueuedResponse>("PATCH", "/api/insights", { body: { id, action: "publish" } }),
+
+            schedule: async (id: string, scheduledFor: Date) =>
+                (await request<{ insight: InsightSummary }>("PATCH", "/api/insights", {
+                    body: { id, action: "schedule", scheduledFor },
+                })).insight,
+
+            unschedule: async (id: string) =>
+                (await request<{ insight: InsightSummary }>("PATCH", "/api/insights", {
+                    body: { id, action: "unschedule" },
+                })).insight,
+
+            delete: async (id: string) => {
+                await request("DELETE", "/api/insights", { query: { id } });
+            },
+
+            /** Queues generating an insight from signals */
+            generate: (body: Body<typeof insightGenerateSchema>) =>
+                request<JobQueuedResponse>("POST", "/api/insights/generate", { body }),
+        },
+
+        webhooks: {
+            list: () =>
+                request<WebhookConfigsResponse>("GET", "/api/settings/webhooks"),
+
+            /** Creates or updates a webhook's URL */
+            save: async (body: Body<typeof webhookConfigSchema>) =>
+                (await request<{ config: WebhookConfigSummary }>("POST", "/api/settings/webhooks", { body })).config,
+
+            rotateSecret: async (name: string) =>
+                (await request<{ config: WebhookConfigSummary }>("PATCH", "/api/settings/webhooks", {
+                    body: { name, action: "rotate_secret" },
+                })).config,
+
+            delete: async (name: string) => {
+                await request("DELETE", "/api/settings/webhooks", { query: { name } });
+            },
+
+            deliveries: (query?: Query<typeof deliveryListQuerySchema>) =>
+                request<DeliveriesResponse>("GET", "/api/settings/deliveries", { query }),
+
+            /** Re-sends an outbound delivery */
+            replay: async (id: string) => {
+                await request("POST", `/api/settings/deliveries/${encodeURIComponent(id)}/replay`);
+            },
+        },
+
+        processors: {
+            list: () =>
+                request<ProcessorSettingsResponse>("GET", "/api/settings/processors"),
+
+            /** Picks the processor of a stage; null falls back to the environment or default */
+            save: (body: Body<typeof processorConfigSchema>) =>
+                request<StageProcessor & { success: true }>("POST", "/api/settings/processors", { body }),
+        },
+
+        feeds: {
+            list: () =>
+                request<FeedsResponse>("GET", "/api/feeds"),
+
+            /** Subscribes to a feed; it is polled right after */
+            create: async (body: Body<typeof feedCreateSchema>) =>
+                (await request<{ feed: FeedSummary }>("POST", "/api/feeds", { body })).feed,
+
+            /** Renames, pauses or reschedules a feed */
+            update: async (id: string, body: Body<typeof feedUpdateSchema>) =>
+                (await request<{ feed: FeedSummary }>("PATCH", `/api/feeds/${encodeURIComponent(id)}`, { body })).feed,
+
+            /** Polls a feed now, regardless of its schedule */
+            poll: (id: string) =>
+                request<FeedPollResponse>("POST", "/api/feeds/poll", { body: { id } }),
+
+            delete: async (id: string) => {
+                await request("DELETE", `/api/feeds/${encodeURIComponent(id)}`);
+            },
+        },
+
+        tokens: {
+            list: () =>
+                request<ApiTokensResponse>("GET", "/api/settings/tokens"),
+
+            /** Creates an API token; the response is the only time the token is shown */
+            create: (body: Body<typeof apiTokenCreateSchema>) =>
+                request<ApiTokenCreatedResponse>("POST", "/api/settings/tokens", { body }),
+
+            revoke: async (id: string) => {
+                await request("DELETE", "/api/settings/tokens", { query: { id } });
+            },
+        },
+
+        ingest: {
+            /** Captures text, a URL, a video or a base64 file */
+            submit: (body: Body<typeof ingestRequestSchema>) =>
+                request<IngestResponse>("POST", "/api/ingest", { body }),
+
+            /** Captures an uploaded file */
+            upload: (file: Blob, fields: { fileName?: string; title?: string; onDuplicate?: DuplicatePolicy } = {}) => {
+                const form = new FormData();
+                form.append("file", file, fields.fileName ?? (file instanceof File ? file.name : "upload"));
+                if (fields.title) form.append("title", fields.title);
+                if (fields.onDuplicate) form.append("onDuplicate", fields.onDuplicate);
+
+                return request<IngestResponse>("POST", "/api/ingest", { body: form });
+            },
+        },
+    };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/**
+ * Client for same-origin requests from the app's pages
+ */
+export const api = createApiClient();
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds a path with a query string, leaving out empty values
+ *
+ * @param path - API path
+ * @param query - Query parameters
+ * @returns Path with its query string, e.g. /api/signals?status=unread
+ *
+ * @example
+ * apiPath("/api/signals", { status: ["unread", "reviewed"], limit: 20 });
+ * // "/api/signals?status=unread&status=reviewed&limit=20"
+ */
+export function apiPath(path: string, query?: QueryParams): string {
+    const params = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(query ?? {})) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (item === undefined || item === null || item === "") continue;
+            params.append(key, item instanceof Date ? item.toISOString() : String(item));
+        }
+    }
+
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Reads a JSON body; undefined for empty or non-JSON bodies
+ */
+async function readJson(res: Response): Promise<unknown> {
+    const text = await res.text();
+    if (!text) return undefined;
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+function isErrorResponse(value: unknown): value is ApiErrorResponse {
+    return typeof value === "object" && value !== null && typeof (value as ApiErrorResponse).error === "string";
+}
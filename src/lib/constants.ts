@@ -16,17 +16,73 @@ export const SIGNAL_STATUS = {
 
 export type SignalStatus = typeof SIGNAL_STATUS[keyof typeof SIGNAL_STATUS];
 
+/**
+ * Statuses a signal can move to from each status (see lib/lifecycle)
+ *
+ * Captures are processed, then reviewed and turned into insights, or
+ * archived. Any signal can return to unread, e.g. when it is captured again.
+ */
+export const SIGNAL_TRANSITIONS: Record<SignalStatus, readonly SignalStatus[]> = {
+    [SIGNAL_STATUS.PROCESSING]: [SIGNAL_STATUS.UNREAD],
+    [SIGNAL_STATUS.UNREAD]: [SIGNAL_STATUS.REVIEWED, SIGNAL_STATUS.ARCHIVED],
+    [SIGNAL_STATUS.REVIEWED]: [SIGNAL_STATUS.PROCESSED, SIGNAL_STATUS.UNREAD, SIGNAL_STATUS.ARCHIVED],
+    [SIGNAL_STATUS.PROCESSED]: [SIGNAL_STATUS.UNREAD, SIGNAL_STATUS.ARCHIVED],
+    [SIGNAL_STATUS.ARCHIVED]: [SIGNAL_STATUS.UNREAD],
+};
+
+/**
+ * Who caused a status change
+ */
+export const EVENT_ACTORS = {
+    USER: "user",
+    SYSTEM: "system",          // Feeds, deduplication and other automation
+    PROCESSOR: "processor",    // Ingest and generate results
+} as const;
+
+export type EventActor = typeof EVENT_ACTORS[keyof typeof EVENT_ACTORS];
+
 // ============================================================================
 // Insight Status Values
 // ============================================================================
 
 export const INSIGHT_STATUS = {
-    DRAFT: "draft",
+    DRAFT: "draft",                     // Written by hand, not formatted
+    FORMATTING: "formatting",           // Generated, waiting for the formatted preview
+    PREVIEWING: "previewing",           // Preview ready for review and editing
+    SCHEDULED: "scheduled",             // Published automatically at scheduledFor
+    PUBLISHING: "publishing",
     PUBLISHED: "published",
+    PUBLISH_FAILED: "publish_failed",   // Preview kept for another attempt
 } as const;
 
 export type InsightStatus = typeof INSIGHT_STATUS[keyof typeof INSIGHT_STATUS];
 
+/**
+ * Statuses an insight can move to from each status (see lib/lifecycle)
+ *
+ * Published insights are final. A late success confirmation can still
+ * move a failed publish to published.
+ */
+export const INSIGHT_TRANSITIONS: Record<InsightStatus, readonly InsightStatus[]> = {
+    [INSIGHT_STATUS.DRAFT]: [
+        INSIGHT_STATUS.FORMATTING,
+        INSIGHT_STATUS.PREVIEWING,
+        INSIGHT_STATUS.SCHEDULED,
+        INSIGHT_STATUS.PUBLISHING,
+    ],
+    [INSIGHT_STATUS.FORMATTING]: [INSIGHT_STATUS.PREVIEWING, INSIGHT_STATUS.SCHEDULED, INSIGHT_STATUS.PUBLISHING],
+    [INSIGHT_STATUS.PREVIEWING]: [INSIGHT_STATUS.SCHEDULED, INSIGHT_STATUS.PUBLISHING],
+    [INSIGHT_STATUS.SCHEDULED]: [INSIGHT_STATUS.PUBLISHING, INSIGHT_STATUS.DRAFT, INSIGHT_STATUS.PREVIEWING],
+    [INSIGHT_STATUS.PUBLISHING]: [INSIGHT_STATUS.PUBLISHED, INSIGHT_STATUS.PUBLISH_FAILED],
+    [INSIGHT_STATUS.PUBLISHED]: [],
+    [INSIGHT_STATUS.PUBLISH_FAILED]: [
+        INSIGHT_STATUS.PUBLISHING,
+        INSIGHT_STATUS.SCHEDULED,
+        INSIGHT_STATUS.PREVIEWING,
+        INSIGHT_STATUS.PUBLISHED,
+    ],
+};
+
 // ============================================================================
 // Webhook Configuration
 // ============================================================================
@@ -48,6 +104,226 @@ export type WebhookName = typeof WEBHOOK_NAMES[keyof typeof WEBHOOK_NAMES];
  */
 export const WEBHOOK_TIMEOUT_MS = 90000;
 
+// ============================================================================
+// Pipeline Processors
+// ============================================================================
+
+/**
+ * Implementations that can run a pipeline stage (ingest, generate, publish)
+ */
+export const PROCESSOR_NAMES = {
+    N8N: "n8n",
+    LOCAL: "local",
+    MOCK: "mock",
+} as const;
+
+export type ProcessorName = typeof PROCESSOR_NAMES[keyof typeof PROCESSOR_NAMES];
+
+/**
+ * Processor used for stages without a ProcessorConfig row or
+ * PROCESSOR_<STAGE> environment override
+ */
+export const DEFAULT_PROCESSOR: ProcessorName = PROCESSOR_NAMES.N8N;
+
+// ============================================================================
+// Webhook Delivery Log
+// ============================================================================
+
+export const DELIVERY_DIRECTION = {
+    OUTBOUND: "outbound",
+    INBOUND: "inbound",
+} as const;
+
+export type DeliveryDirection = typeof DELIVERY_DIRECTION[keyof typeof DELIVERY_DIRECTION];
+
+/**
+ * Maximum stored length of a delivery's response body
+ */
+export const DELIVERY_BODY_MAX_LENGTH = 10000;
+
+// ============================================================================
+// Webhook Job Queue
+// ============================================================================
+
+export const JOB_STATUS = {
+    PENDING: "pending",
+    RUNNING: "running",
+    SUCCEEDED: "succeeded",
+    DEAD: "dead",
+} as const;
+
+export type JobStatus = typeof JOB_STATUS[keyof typeof JOB_STATUS];
+
+/**
+ * Number of attempts before a job is moved to the dead-letter state
+ */
+export const JOB_MAX_ATTEMPTS = 5;
+
+/**
+ * Delay before the first retry (in milliseconds); doubles with each attempt
+ */
+export const JOB_BACKOFF_BASE_MS = 30 * 1000;
+
+/**
+ * Upper bound for the retry delay (in milliseconds)
+ */
+export const JOB_BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * A running job whose lock is older than this is assumed abandoned
+ * (e.g. the server restarted mid-request) and is picked up again
+ */
+export const JOB_LOCK_TIMEOUT_MS = WEBHOOK_TIMEOUT_MS * 2;
+
+/**
+ * Maximum number of jobs processed in one worker pass
+ */
+export const JOB_BATCH_SIZE = 10;
+
+// ============================================================================
+// Webhook Signing
+// ============================================================================
+
+/**
+ * Headers n8n must send with every signed callback
+ */
+export const SIGNATURE_HEADERS = {
+    TIMESTAMP: "x-signal-desk-timestamp",
+    NONCE: "x-signal-desk-nonce",
+    SIGNATURE: "x-signal-desk-signature",
+} as const;
+
+/**
+ * Maximum age (in seconds) of a signed callback before it is rejected as stale
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * How far (in seconds) a callback's timestamp may be ahead of the server
+ * clock, to allow for clock drift. A nonce is remembered for this long plus
+ * SIGNATURE_TOLERANCE_SECONDS: by then a request signed with it is stale.
+ */
+export const SIGNATURE_MAX_FUTURE_SKEW_SECONDS = 30;
+
+/**
+ * How long a rotated-out secret keeps being accepted (in milliseconds)
+ */
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * Cookie holding the session token of a signed-in user
+ */
+export const SESSION_COOKIE = "signal_desk_session";
+
+/**
+ * How long a session lasts after sign-in (in milliseconds)
+ */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long an emailed sign-in link can be used (in milliseconds)
+ */
+export const LOGIN_LINK_TTL_MS = 15 * 60 * 1000;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Sign-in page; pages redirect here without a session
+ */
+export const LOGIN_PATH = "/login";
+
+/**
+ * Kinds of callers a route accepts
+ */
+export const PRINCIPAL_TYPES = {
+    USER: "user",           // Signed in with a session cookie, or an API token of the user
+    SERVICE: "service",     // n8n, cron jobs and scripts, with the SERVICE_TOKEN bearer token
+} as const;
+
+export type PrincipalType = typeof PRINCIPAL_TYPES[keyof typeof PRINCIPAL_TYPES];
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+/**
+ * Cookie and header selecting the workspace a request works in; without
+ * either, the user's oldest workspace is used
+ */
+export const WORKSPACE_COOKIE = "signal_desk_workspace";
+export const WORKSPACE_HEADER = "x-signal-desk-workspace";
+
+/**
+ * Roles of workspace members, from most to least access
+ */
+export const WORKSPACE_ROLES = {
+    OWNER: "owner",             // Everything, including members and webhooks
+    EDITOR: "editor",           // Capture, edit and publish
+    COMMENTER: "commenter",     // Read, highlight and add thoughts
+    VIEWER: "viewer",           // Read only
+} as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[keyof typeof WORKSPACE_ROLES];
+
+/**
+ * Actions a role may or may not take in a workspace
+ */
+export const PERMISSIONS = {
+    READ: "read",
+    COMMENT: "comment",         // Highlights and thoughts
+    EDIT: "edit",               // Signals, insights, feeds, tags and jobs
+    PUBLISH: "publish",         // Publishing and scheduling insights
+    MANAGE: "manage",           // Members, webhooks, processors and deliveries
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+/**
+ * Permissions of each role
+ */
+export const ROLE_PERMISSIONS: Record<WorkspaceRole, readonly Permission[]> = {
+    owner: [PERMISSIONS.READ, PERMISSIONS.COMMENT, PERMISSIONS.EDIT, PERMISSIONS.PUBLISH, PERMISSIONS.MANAGE],
+    editor: [PERMISSIONS.READ, PERMISSIONS.COMMENT, PERMISSIONS.EDIT, PERMISSIONS.PUBLISH],
+    commenter: [PERMISSIONS.READ, PERMISSIONS.COMMENT],
+    viewer: [PERMISSIONS.READ],
+};
+
+/**
+ * Name of the workspace every account starts with
+ */
+export const PERSONAL_WORKSPACE_NAME = "Personal";
+
+// ============================================================================
+// API Tokens
+// ============================================================================
+
+/**
+ * What an API token may do, on top of its user's role in its workspace
+ */
+export const API_TOKEN_SCOPES = {
+    READ: "read",                           // Every GET request
+    INGEST: "ingest",                       // Capturing with POST /api/ingest
+    SIGNALS_WRITE: "signals:write",         // Reviewing signals, highlights, thoughts, tags and feeds
+    INSIGHTS_PUBLISH: "insights:publish",   // Writing, generating, scheduling and publishing insights
+    CALLBACKS: "callbacks",                 // n8n callbacks, saving generated insights, running jobs and feed polls
+} as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[keyof typeof API_TOKEN_SCOPES];
+
+/**
+ * Start of every API token, so leaked tokens are easy to spot
+ */
+export const API_TOKEN_PREFIX = "sd_";
+
+/**
+ * Characters of a token kept in the clear, to tell tokens apart
+ */
+export const API_TOKEN_VISIBLE_LENGTH = 10;
+
 // ============================================================================
 // Pagination Defaults
 // ============================================================================
@@ -62,10 +338,196 @@ export const DEFAULT_PAGE_LIMIT = 50;
  */
 export const MAX_PAGE_LIMIT = 100;
 
+// ============================================================================
+// Signal Listing
+// ============================================================================
+
+/**
+ * Sort fields of GET /api/signals
+ */
+export const SIGNAL_SORTS = {
+    CREATED: "created",
+    UPDATED: "updated",
+    TITLE: "title",
+} as const;
+
+export type SignalSort = typeof SIGNAL_SORTS[keyof typeof SIGNAL_SORTS];
+
+export const SORT_ORDERS = {
+    ASC: "asc",
+    DESC: "desc",
+} as const;
+
+export type SortOrder = typeof SORT_ORDERS[keyof typeof SORT_ORDERS];
+
+/**
+ * What GET /api/signals returns of each signal's highlights and thoughts:
+ * their number, or the full records
+ */
+export const SIGNAL_INCLUDES = {
+    COUNTS: "counts",
+    RELATIONS: "relations",
+} as const;
+
+export type SignalInclude = typeof SIGNAL_INCLUDES[keyof typeof SIGNAL_INCLUDES];
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Record types returned by /api/search
+ */
+export const SEARCH_TYPES = {
+    SIGNAL: "signal",
+    HIGHLIGHT: "highlight",
+    THOUGHT: "thought",
+    INSIGHT: "insight",
+} as const;
+
+export type SearchType = typeof SEARCH_TYPES[keyof typeof SEARCH_TYPES];
+
+/**
+ * Default number of search hits per page
+ */
+export const SEARCH_PAGE_LIMIT = 20;
+
+/**
+ * Maximum number of values returned per facet
+ */
+export const SEARCH_FACET_LIMIT = 20;
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+/**
+ * Implementations that can embed text for similarity search
+ */
+export const EMBEDDER_NAMES = {
+    HASHING: "hashing",
+    OLLAMA: "ollama",
+} as const;
+
+export type EmbedderName = typeof EMBEDDER_NAMES[keyof typeof EMBEDDER_NAMES];
+
+/**
+ * Embedder used without an EMBEDDER environment override
+ */
+export const DEFAULT_EMBEDDER: EmbedderName = EMBEDDER_NAMES.HASHING;
+
+/**
+ * Dimensions of the local hashing embedder
+ */
+export const HASHING_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * Maximum characters of a record passed to the embedder
+ */
+export const EMBEDDING_INPUT_MAX_LENGTH = 8000;
+
+/**
+ * Maximum records embedded per table in one worker pass
+ */
+export const EMBEDDING_BATCH_SIZE = 20;
+
+/**
+ * Timeout for calls to an embedding server (30 seconds)
+ */
+export const EMBEDDING_TIMEOUT_MS = 30000;
+
+/**
+ * Default number of related records returned per type
+ */
+export const RELATED_LIMIT = 5;
+
+/**
+ * Minimum cosine similarity for a record to count as related
+ */
+export const RELATED_MIN_SIMILARITY = 0.2;
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * Maximum length of a tag name
+ */
+export const TAG_NAME_MAX_LENGTH = 50;
+
+/**
+ * Tag colors are hex RGB values, e.g. #6366f1
+ */
+export const TAG_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Review states of topics received from processors that match no tag or alias
+ */
+export const TOPIC_SUGGESTION_STATUS = {
+    PENDING: "pending",
+    REJECTED: "rejected",
+} as const;
+
+export type TopicSuggestionStatus = typeof TOPIC_SUGGESTION_STATUS[keyof typeof TOPIC_SUGGESTION_STATUS];
+
+// ============================================================================
+// Highlights
+// ============================================================================
+
+/**
+ * Characters of surrounding text kept on each side of a highlight, used
+ * to find it again after its signal's content is rewritten
+ */
+export const HIGHLIGHT_CONTEXT_LENGTH = 32;
+
+/**
+ * Categories a highlight can be filed under; highlights may have none
+ */
+export const HIGHLIGHT_CATEGORIES = {
+    QUOTE: "quote",
+    DATA_POINT: "data-point",
+    COUNTER_ARGUMENT: "counter-argument",
+    QUESTION: "question",
+} as const;
+
+export type HighlightCategory = typeof HIGHLIGHT_CATEGORIES[keyof typeof HIGHLIGHT_CATEGORIES];
+
+/**
+ * Display name of each highlight category
+ */
+export const HIGHLIGHT_CATEGORY_LABELS: Record<HighlightCategory, string> = {
+    [HIGHLIGHT_CATEGORIES.QUOTE]: "Quote",
+    [HIGHLIGHT_CATEGORIES.DATA_POINT]: "Data point",
+    [HIGHLIGHT_CATEGORIES.COUNTER_ARGUMENT]: "Counter-argument",
+    [HIGHLIGHT_CATEGORIES.QUESTION]: "Question",
+};
+
+/**
+ * Color of each highlight category, as hex RGB like tag colors
+ */
+export const HIGHLIGHT_CATEGORY_COLORS: Record<HighlightCategory, string> = {
+    [HIGHLIGHT_CATEGORIES.QUOTE]: "#6366f1",
+    [HIGHLIGHT_CATEGORIES.DATA_POINT]: "#22c55e",
+    [HIGHLIGHT_CATEGORIES.COUNTER_ARGUMENT]: "#ef4444",
+    [HIGHLIGHT_CATEGORIES.QUESTION]: "#eab308",
+};
+
 // ============================================================================
 // Content Processing
 // ============================================================================
 
+/**
+ * Kinds of content accepted by /api/ingest
+ */
+export const INPUT_TYPES = {
+    TEXT: "text",
+    URL: "url",
+    YOUTUBE: "youtube",
+    FILE: "file",
+} as const;
+
+export type InputType = typeof INPUT_TYPES[keyof typeof INPUT_TYPES];
+
 /**
  * Regex pattern for detecting URLs
  */
@@ -86,6 +548,107 @@ export const PREVIEW_MAX_LENGTH = 200;
  */
 export const TITLE_MAX_LENGTH = 100;
 
+/**
+ * Largest response body read when fetching a page, feed or video (in bytes)
+ */
+export const FETCH_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Most redirects followed when fetching a page, feed or video
+ */
+export const FETCH_MAX_REDIRECTS = 5;
+
+/**
+ * Content of a signal whose source has not been extracted yet
+ */
+export const PROCESSING_PLACEHOLDER_CONTENT = "Content is being processed by AI...";
+
+/**
+ * How long an n8n callback without a signalId can be matched to a
+ * processing placeholder (in milliseconds)
+ */
+export const PLACEHOLDER_MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Duplicate Detection
+// ============================================================================
+
+/**
+ * What /api/ingest does with a capture of content that is already a signal
+ */
+export const DUPLICATE_POLICIES = {
+    REJECT: "reject",       // Respond with 409 and keep nothing
+    MERGE: "merge",         // Record a sighting and move the signal back to the review queue
+    SIGHTING: "sighting",   // Record a sighting of the existing signal
+} as const;
+
+export type DuplicatePolicy = typeof DUPLICATE_POLICIES[keyof typeof DUPLICATE_POLICIES];
+
+/**
+ * Policy used when an ingest request does not set `onDuplicate`
+ */
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = DUPLICATE_POLICIES.SIGHTING;
+
+// ============================================================================
+// File Ingestion
+// ============================================================================
+
+/**
+ * File types that can be uploaded and extracted locally
+ */
+export const FILE_MIME_TYPES = {
+    PDF: "application/pdf",
+    EPUB: "application/epub+zip",
+    DOCX: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    MARKDOWN: "text/markdown",
+    TEXT: "text/plain",
+} as const;
+
+export type FileMimeType = typeof FILE_MIME_TYPES[keyof typeof FILE_MIME_TYPES];
+
+/**
+ * Maximum size of an uploaded file (in bytes)
+ */
+export const FILE_MAX_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Kinds of boundaries kept when a source is split into sections
+ */
+export const SECTION_KINDS = {
+    PAGE: "page",
+    CHAPTER: "chapter",
+    SECTION: "section",
+    SEGMENT: "segment",     // Timed transcript segment
+} as const;
+
+export type SectionKind = typeof SECTION_KINDS[keyof typeof SECTION_KINDS];
+
+// ============================================================================
+// Feed Subscriptions
+// ============================================================================
+
+/**
+ * Default minutes between polls of a feed
+ */
+export const FEED_DEFAULT_POLL_MINUTES = 60;
+
+/**
+ * Shortest poll interval a feed can be set to (in minutes)
+ */
+export const FEED_MIN_POLL_MINUTES = 5;
+
+/**
+ * Maximum number of new entries ingested from one poll; older entries
+ * beyond this are marked as seen so a new subscription does not flood
+ * the review queue with a feed's whole archive
+ */
+export const FEED_MAX_NEW_ITEMS = 20;
+
+/**
+ * Source recorded on signals created from feed entries
+ */
+export const FEED_SIGNAL_SOURCE = "rss";
+
 // ============================================================================
 // Social Media Platforms
 // ============================================================================
@@ -97,3 +660,17 @@ export const SOCIAL_PLATFORMS = {
 } as const;
 
 export type SocialPlatform = typeof SOCIAL_PLATFORMS[keyof typeof SOCIAL_PLATFORMS];
+
+// ============================================================================
+// API Reference
+// ============================================================================
+
+/**
+ * Where the OpenAPI document of the API is served
+ */
+export const OPENAPI_DOCUMENT_PATH = "/api/openapi.json";
+
+/**
+ * Page for browsing the OpenAPI document
+ */
+export const API_EXPLORER_PATH = "/api-docs";
@@ -0,0 +1,280 @@
+import { createHash } from "crypto";
+import type { Prisma, Signal } from "@prisma/client";
+import prisma from "./prisma";
+import { canonicalizeUrl } from "./canonical";
+import { transitionSignal } from "./lifecycle";
+import {
+    DEFAULT_DUPLICATE_POLICY,
+    DUPLICATE_POLICIES,
+    EVENT_ACTORS,
+    PLACEHOLDER_MATCH_WINDOW_MS,
+    PROCESSING_PLACEHOLDER_CONTENT,
+    SIGNAL_STATUS,
+} from "./constants";
+import type { DuplicatePolicy } from "./constants";
+import type { IngestRequest } from "./types";
+
+/**
+ * Duplicate detection for ingested content
+ *
+ * Every signal stores a fingerprint: its normalized source URL and a hash
+ * of its normalized text. Ingest requests are checked against it before a
+ * job is queued, and again once the ingest job has extracted the content
+ * (the same article can be captured through different URLs), before the
+ * processor runs.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Values compared to find an existing copy of a capture
+ */
+export interface SignalFingerprint {
+    urlFingerprint: string | null;
+    contentHash: string | null;
+    fileKey?: string | null;
+}
+
+/**
+ * Where a duplicate capture came from
+ */
+export interface CaptureOrigin {
+    source?: string | null;
+    sourceUrl?: string | null;
+    title?: string | null;
+    feedId?: string | null;
+}
+
+// ============================================================================
+// Fingerprints
+// ============================================================================
+
+/**
+ * Normalizes a URL so links to the same page compare equal
+ *
+ * Canonicalizes the URL (see lib/canonical), then also ignores the scheme,
+ * "www." and trailing slashes and sorts the query parameters. The result
+ * is for comparison only and is not meant to be fetched.
+ *
+ * @param url - URL as captured
+ * @returns Normalized URL, or null if it cannot be parsed
+ *
+ * @example
+ * ```ts
+ * normalizeUrl("https://www.Example.com/post/?utm_source=x&b=2&a=1#top");
+ * // Returns: "https://example.com/post?a=1&b=2"
+ * ```
+ */
+export function normalizeUrl(url: string | null | undefined): string | null {
+    const canonical = url ? canonicalizeUrl(url) : null;
+    if (!canonical) return null;
+
+    const parsed = new URL(canonical);
+    const params = Array.from(parsed.searchParams.entries())
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    const host = parsed.hostname.replace(/^www\./, "");
+    const port = parsed.port ? `:${parsed.port}` : "";
+    const path = parsed.pathname.replace(/\/+$/, "");
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+    return `https://${host}${port}${path}${query}`;
+}
+
+/**
+ * Hashes text after normalizing it, so copies that only differ in case,
+ * punctuation, Markdown or whitespace get the same hash
+ *
+ * @param text - Text or Markdown content
+ * @returns Hex SHA-256 of the normalized text, or null if nothing is left
+ */
+export function hashText(text: string | null | undefined): string | null {
+    const normalized = (text ?? "")
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim();
+
+    return normalized
+        ? createHash("sha256").update(normalized).digest("hex")
+        : null;
+}
+
+/**
+ * Computes the fingerprint of an ingest request before anything is extracted
+ *
+ * Urls are compared by their normalized form and text notes by their hash.
+ * Files are compared by their blob key, which is the hash of their bytes.
+ *
+ * @param request - Validated ingest request
+ * @param fileKey - Blob store key of an uploaded file
+ * @returns Request fingerprint
+ */
+export function fingerprintRequest(request: IngestRequest, fileKey?: string): SignalFingerprint {
+    return {
+        urlFingerprint: normalizeUrl(request.url),
+        contentHash: request.inputType === "text" ? hashText(request.content) : null,
+        fileKey: fileKey ?? null,
+    };
+}
+
+// ============================================================================
+// Duplicate Detection
+// ============================================================================
+
+/**
+ * Finds the earliest signal sharing any part of a fingerprint
+ *
+ * @param fingerprint - Fingerprint to look up
+ * @param excludeId - Signal to ignore (the one being checked)
+ * @returns Matching signal, or null if the capture is new
+ */
+export async function findDuplicateSignal(
+    fingerprint: SignalFingerprint,
+    excludeId?: string
+): Promise<Signal | null> {
+    const conditions: Prisma.SignalWhereInput[] = [];
+    if (fingerprint.urlFingerprint) conditions.push({ urlFingerprint: fingerprint.urlFingerprint });
+    if (fingerprint.contentHash) conditions.push({ contentHash: fingerprint.contentHash });
+    if (fingerprint.fileKey) conditions.push({ fileKey: fingerprint.fileKey });
+
+    if (conditions.length === 0) return null;
+
+    return await prisma.signal.findFirst({
+        where: {
+            OR: conditions,
+            ...(excludeId ? { id: { not: excludeId } } : {}),
+        },
+        orderBy: { createdAt: "asc" },
+    });
+}
+
+/**
+ * Applies a duplicate policy to a capture of an existing signal
+ *
+ * - reject: nothing is recorded
+ * - sighting: the capture is recorded as a sighting of the existing signal
+ * - merge: the capture is recorded as a sighting, missing source details
+ *   are filled in, and the existing signal is moved back to the review
+ *   queue if it was already reviewed or archived
+ *
+ * @param existing - Signal the capture duplicates
+ * @param origin - Where the new capture came from
+ * @param policy - What to do with the capture
+ * @returns The existing signal, updated for merges
+ */
+export async function applyDuplicatePolicy(
+    existing: Signal,
+    origin: CaptureOrigin,
+    policy: DuplicatePolicy
+): Promise<Signal> {
+    if (policy === DUPLICATE_POLICIES.REJECT) {
+        return existing;
+    }
+
+    await prisma.signalSighting.create({
+        data: {
+            signalId: existing.id,
+            source: origin.source,
+            sourceUrl: origin.sourceUrl,
+            title: origin.title,
+            feedId: origin.feedId,
+        },
+    });
+
+    if (policy !== DUPLICATE_POLICIES.MERGE) {
+        return existing;
+    }
+
+    const resurface = existing.status === SIGNAL_STATUS.REVIEWED
+        || existing.status === SIGNAL_STATUS.ARCHIVED;
+
+    const signal = await prisma.signal.update({
+        where: { id: existing.id },
+        data: {
+            sourceUrl: existing.sourceUrl ?? origin.sourceUrl,
+            feedId: existing.feedId ?? origin.feedId,
+        },
+    });
+
+    if (!resurface) return signal;
+
+    const transition = await transitionSignal(existing.id, SIGNAL_STATUS.UNREAD, {
+        actor: EVENT_ACTORS.SYSTEM,
+        reason: "Captured again",
+    });
+    return transition?.signal ?? signal;
+}
+
+/**
+ * Finds the processing placeholder an n8n callback without a signalId belongs to
+ *
+ * Matches recent placeholders by normalized source URL, or by the hash of
+ * the original text when the workflow echoes it back as rawContent.
+ *
+ * @param sourceUrl - Source URL reported by the workflow
+ * @param rawContent - Original text reported by the workflow
+ * @returns Matching placeholder, or null
+ */
+export async function findProcessingPlaceholder(
+    sourceUrl: string | undefined,
+    rawContent: string | undefined
+): Promise<Signal | null> {
+    const urlFingerprint = normalizeUrl(sourceUrl);
+    const contentHash = hashText(rawContent);
+
+    const conditions: Prisma.SignalWhereInput[] = [];
+    if (urlFingerprint) conditions.push({ urlFingerprint });
+    if (contentHash) conditions.push({ contentHash });
+
+    if (conditions.length === 0) return null;
+
+    return await prisma.signal.findFirst({
+        where: {
+            status: SIGNAL_STATUS.PROCESSING,
+            createdAt: { gte: new Date(Date.now() - PLACEHOLDER_MATCH_WINDOW_MS) },
+            OR: conditions,
+        },
+        orderBy: { createdAt: "desc" },
+    });
+}
+
+/**
+ * Checks a placeholder against existing signals once its content is extracted
+ *
+ * Stores the fingerprint of the extracted content (and canonical URL) on
+ * the signal. If another signal already has it, the request's duplicate
+ * policy is applied and the placeholder is deleted, so the processor is
+ * never called for it.
+ *
+ * @param id - Signal ID (the processing placeholder)
+ * @param request - Original ingest request
+ * @returns The existing signal if the placeholder was a duplicate, otherwise null
+ */
+export async function resolveExtractedDuplicate(id: string, request: IngestRequest): Promise<Signal | null> {
+    const signal = await prisma.signal.findUnique({ where: { id } });
+    if (!signal || signal.content === PROCESSING_PLACEHOLDER_CONTENT) return null;
+
+    const fingerprint = {
+        urlFingerprint: normalizeUrl(signal.sourceUrl) ?? signal.urlFingerprint,
+        contentHash: signal.contentHash ?? hashText(signal.content),
+    };
+
+    const existing = await findDuplicateSignal(fingerprint, id);
+    if (!existing) {
+        await prisma.signal.update({ where: { id }, data: fingerprint });
+        return null;
+    }
+
+    await applyDuplicatePolicy(existing, {
+        source: signal.source,
+        sourceUrl: request.url ?? signal.sourceUrl,
+        title: request.title ?? signal.title,
+        feedId: signal.feedId,
+    }, request.onDuplicate ?? DEFAULT_DUPLICATE_POLICY);
+
+    await prisma.signal.delete({ where: { id } });
+    return existing;
+}
@@ -0,0 +1,122 @@
+import prisma from "./prisma";
+import { currentScope } from "./ownership";
+import { DELIVERY_BODY_MAX_LENGTH, DELIVERY_DIRECTION } from "./constants";
+import type { DeliveryDirection, WebhookName } from "./constants";
+
+/**
+ * Delivery log for webhook traffic between Signal Desk and n8n
+ *
+ * Every outbound call made by lib/webhooks.ts and every inbound callback
+ * is recorded with its URL, request body, status, latency and (truncated)
+ * response body, so failures can be inspected and replayed from Settings.
+ * Deliveries belong to the workspace that made the call or, for callbacks,
+ * the workspace the verified callback is for; unverified callbacks belong
+ * to none and are only listed for service tokens.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Data recorded for a single delivery
+ */
+export interface DeliveryRecord {
+    direction: DeliveryDirection;
+    webhookName: WebhookName;
+    url: string;
+    requestBody?: string;
+    status?: number;
+    latencyMs: number;
+    responseBody?: string;
+    error?: string;
+    replayOfId?: string;
+    workspaceId?: string | null;    // Defaults to the current workspace
+}
+
+/**
+ * What an inbound callback handler tells the delivery log about its request
+ */
+export interface InboundDelivery {
+    workspaceId: string | null;     // Set once the callback is verified
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Stores a delivery record
+ *
+ * Logging must never break the webhook flow, so database errors are
+ * reported to the console and swallowed.
+ *
+ * @param record - Delivery data
+ * @returns Created delivery ID, or null if it could not be stored
+ */
+export async function recordDelivery(record: DeliveryRecord): Promise<string | null> {
+    try {
+        const delivery = await prisma.webhookDelivery.create({
+            data: {
+                ...record,
+                workspaceId: record.workspaceId ?? currentScope()?.workspaceId ?? null,
+                responseBody: record.responseBody !== undefined
+                    ? truncateBody(record.responseBody)
+                    : undefined,
+            },
+        });
+        return delivery.id;
+    } catch (error) {
+        console.error("Failed to record webhook delivery:", error);
+        return null;
+    }
+}
+
+/**
+ * Truncates a body to DELIVERY_BODY_MAX_LENGTH characters
+ */
+function truncateBody(body: string): string {
+    if (body.length <= DELIVERY_BODY_MAX_LENGTH) return body;
+    return `${body.substring(0, DELIVERY_BODY_MAX_LENGTH)}… [truncated ${body.length - DELIVERY_BODY_MAX_LENGTH} chars]`;
+}
+
+/**
+ * Wraps an inbound callback route handler so each request is logged
+ *
+ * The handler sets the workspace of the delivery once it has verified
+ * the callback, so unverified requests are logged without one.
+ *
+ * @param webhookName - Webhook workflow that sends this callback
+ * @param handler - Route handler to wrap
+ * @returns Route handler that records the request and its response
+ *
+ * @example
+ * ```ts
+ * export const POST = withInboundDeliveryLog(WEBHOOK_NAMES.PUBLISH, confirmPublish);
+ * ```
+ */
+export function withInboundDeliveryLog<T extends Request>(
+    webhookName: WebhookName,
+    handler: (request: T, delivery: InboundDelivery) => Promise<Response>
+): (request: T) => Promise<Response> {
+    return async (request: T) => {
+        const startedAt = Date.now();
+        const requestBody = await request.clone().text().catch(() => undefined);
+        const delivery: InboundDelivery = { workspaceId: null };
+
+        const response = await handler(request, delivery);
+
+        await recordDelivery({
+            direction: DELIVERY_DIRECTION.INBOUND,
+            webhookName,
+            url: new URL(request.url).pathname,
+            requestBody,
+            status: response.status,
+            latencyMs: Date.now() - startedAt,
+            responseBody: await response.clone().text().catch(() => undefined),
+            workspaceId: delivery.workspaceId,
+        });
+
+        return response;
+    };
+}
@@ -0,0 +1,83 @@
+import { EMBEDDER_NAMES, HASHING_EMBEDDING_DIMENSIONS } from "../constants";
+import { isStopWord, tokenize } from "../text";
+import type { Embedder } from "../types";
+
+/**
+ * Local hashing embedder
+ *
+ * Deterministic bag-of-words vectors built with the hashing trick: words
+ * and word pairs are hashed into a fixed number of dimensions, weighted by
+ * their log frequency and normalized. Needs no model or network access, so
+ * related signals work offline and the same text always gets the same
+ * vector. Texts are similar when they share vocabulary, not meaning.
+ */
+export const hashingEmbedder: Embedder = {
+    name: EMBEDDER_NAMES.HASHING,
+    model: `${EMBEDDER_NAMES.HASHING}-${HASHING_EMBEDDING_DIMENSIONS}`,
+
+    async embed(texts) {
+        return texts.map((text) => hashText(text, HASHING_EMBEDDING_DIMENSIONS));
+    },
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Weight of a word pair relative to a single word
+ */
+const BIGRAM_WEIGHT = 0.5;
+
+/**
+ * Embeds one text into a unit vector (all zeros if it has no words)
+ */
+function hashText(text: string, dimensions: number): number[] {
+    const words = tokenize(text)
+        .filter((token) => !isStopWord(token))
+        .map(stem);
+
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+        counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    };
+
+    words.forEach((word, i) => {
+        add(word, 1);
+        if (i > 0) add(`${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+        const hash = fnv1a(feature);
+        // One hash bit picks the sign so collisions tend to cancel out
+        const sign = hash & 0x80000000 ? -1 : 1;
+        vector[hash % dimensions] += sign * (1 + Math.log(1 + count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Strips common English suffixes so word forms share a feature
+ */
+function stem(word: string): string {
+    return word
+        .replace(/['’]s$/, "")
+        .replace(/(?<=\p{L}{3})(ies)$/u, "y")
+        .replace(/(?<=\p{L}{3})(es|s|ing|ed)$/u, (suffix, _, offset, whole) =>
+            suffix === "s" && whole[offset - 1] === "s" ? suffix : "");
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,37 @@
+import { DEFAULT_EMBEDDER, EMBEDDER_NAMES } from "../constants";
+import type { EmbedderName } from "../constants";
+import type { Embedder } from "../types";
+import { hashingEmbedder } from "./hashing";
+import { ollamaEmbedder } from "./ollama";
+
+/**
+ * Embedder registry
+ *
+ * Signals, highlights and thoughts are embedded by one embedder, chosen
+ * with the EMBEDDER environment variable (default: hashing, which runs
+ * locally without a model). Vectors remember the model that produced
+ * them, so switching embedders re-embeds records instead of comparing
+ * vectors from different models.
+ */
+
+const EMBEDDERS: Record<EmbedderName, Embedder> = {
+    [EMBEDDER_NAMES.HASHING]: hashingEmbedder,
+    [EMBEDDER_NAMES.OLLAMA]: ollamaEmbedder,
+};
+
+/**
+ * Checks whether a string names a known embedder
+ */
+export function isEmbedderName(name: unknown): name is EmbedderName {
+    return typeof name === "string" && name in EMBEDDERS;
+}
+
+/**
+ * Returns the configured embedder
+ *
+ * @returns Embedder implementation
+ */
+export function getEmbedder(): Embedder {
+    const fromEnv = process.env.EMBEDDER;
+    return EMBEDDERS[isEmbedderName(fromEnv) ? fromEnv : DEFAULT_EMBEDDER];
+}
@@ -0,0 +1,48 @@
+import { EMBEDDER_NAMES, EMBEDDING_TIMEOUT_MS } from "../constants";
+import type { Embedder } from "../types";
+
+/**
+ * Ollama embedder
+ *
+ * Embeds text with a model served by a local Ollama instance, for
+ * similarity by meaning rather than shared words. Configured with
+ * OLLAMA_URL (default http://localhost:11434) and EMBEDDING_MODEL
+ * (default nomic-embed-text).
+ */
+export const ollamaEmbedder: Embedder = {
+    name: EMBEDDER_NAMES.OLLAMA,
+
+    get model() {
+        return `${EMBEDDER_NAMES.OLLAMA}:${modelName()}`;
+    },
+
+    async embed(texts) {
+        if (texts.length === 0) return [];
+
+        const baseUrl = (process.env.OLLAMA_URL || "http://localhost:11434").replace(/\/+$/, "");
+        const response = await fetch(`${baseUrl}/api/embed`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ model: modelName(), input: texts }),
+            signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Ollama returned ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json() as { embeddings?: number[][] };
+        if (data.embeddings?.length !== texts.length) {
+            throw new Error("Ollama returned an unexpected number of embeddings");
+        }
+
+        return data.embeddings;
+    },
+};
+
+/**
+ * Ollama model used for embeddings
+ */
+function modelName(): string {
+    return process.env.EMBEDDING_MODEL || "nomic-embed-text";
+}
@@ -0,0 +1,262 @@
+import { parseHTML } from "linkedom";
+import { Readability } from "@mozilla/readability";
+import TurndownService from "turndown";
+import { fetchRemote } from "./remote";
+
+/**
+ * Built-in article extraction
+ *
+ * Turns a web page into readable Markdown plus its metadata, without n8n.
+ * Used by the ingest job for url inputs so signals have readable content
+ * even when the AI step fails.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Article extracted from an HTML page
+ */
+export interface ExtractedArticle {
+    title: string | null;
+    author: string | null;
+    publishedAt: Date | null;
+    canonicalUrl: string | null;
+    leadImageUrl: string | null;
+    excerpt: string | null;
+    content: string;        // Main content as Markdown
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+const turndown = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+});
+
+// Elements that never contain article text
+turndown.remove(["script", "style", "noscript", "iframe", "form", "button"]);
+
+/**
+ * Extracts the main article of an HTML document
+ *
+ * Metadata is read from Open Graph, Twitter, Dublin Core and JSON-LD tags,
+ * falling back to what Readability finds in the page body. Relative URLs
+ * are resolved against `pageUrl`.
+ *
+ * @param html - Full HTML document
+ * @param pageUrl - URL the document was fetched from
+ * @returns Extracted article, or null if no readable content was found
+ *
+ * @example
+ * ```ts
+ * const article = extractArticle(html, "https://example.com/post");
+ * // { title: "Post", author: "Jane Doe", content: "# Post\n\n...", ... }
+ * ```
+ */
+export function extractArticle(html: string, pageUrl?: string): ExtractedArticle | null {
+    const { document } = parseHTML(html);
+
+    // Read metadata first: Readability strips the document while parsing
+    const jsonLd = readJsonLdArticle(document);
+    const metadata = {
+        title: readMeta(document, ["og:title", "twitter:title"]) || jsonLd.headline,
+        author: readMeta(document, ["author", "article:author", "dc.creator", "parsely-author"]) || jsonLd.author,
+        published: readMeta(document, ["article:published_time", "og:published_time", "dc.date", "date", "parsely-pub-date"])
+            || jsonLd.datePublished
+            || document.querySelector("time[datetime]")?.getAttribute("datetime"),
+        canonical: document.querySelector("link[rel='canonical']")?.getAttribute("href")
+            || readMeta(document, ["og:url"]),
+        image: readMeta(document, ["og:image", "og:image:url", "twitter:image", "twitter:image:src"]) || jsonLd.image,
+    };
+
+    const article = new Readability(document as unknown as Document).parse();
+    if (!article?.content) {
+        return null;
+    }
+
+    const content = htmlToMarkdown(absolutizeUrls(article.content, pageUrl));
+    if (!content) {
+        return null;
+    }
+
+    return {
+        title: cleanText(metadata.title) || cleanText(article.title),
+        author: cleanText(metadata.author) || cleanText(article.byline),
+        publishedAt: parseDate(metadata.published) ?? parseDate(article.publishedTime),
+        canonicalUrl: resolveUrl(metadata.canonical, pageUrl) ?? pageUrl ?? null,
+        leadImageUrl: resolveUrl(metadata.image, pageUrl) ?? findFirstImage(article.content, pageUrl),
+        excerpt: cleanText(article.excerpt),
+        content,
+    };
+}
+
+/**
+ * Fetches a web page and extracts its article
+ *
+ * @param url - Page URL
+ * @returns Extracted article (with the final URL after redirects as
+ *          canonical fallback), or null if the page has no readable content
+ * @throws Error if the page cannot be fetched, is not public or is not HTML
+ */
+export async function fetchArticle(url: string): Promise<ExtractedArticle | null> {
+    const response = await fetchRemote(url, {
+        "User-Agent": "Mozilla/5.0 (compatible; SignalDesk/1.0)",
+        "Accept": "text/html,application/xhtml+xml",
+    });
+
+    if (!response.ok) {
+        throw new Error(`Fetching ${url} returned ${response.status}`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType && !contentType.includes("html")) {
+        throw new Error(`Expected an HTML page but got ${contentType}`);
+    }
+
+    return extractArticle(response.text, response.url);
+}
+
+/**
+ * Converts an HTML fragment to Markdown
+ *
+ * @param html - HTML fragment
+ * @returns Trimmed Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+    return turndown.turndown(html).trim();
+}
+
+/**
+ * Checks whether a string looks like an HTML document or fragment
+ */
+export function looksLikeHtml(text: string): boolean {
+    return /<(html|body|article|main|div|p)[\s>]/i.test(text);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+type ParsedDocument = ReturnType<typeof parseHTML>["document"];
+
+/**
+ * Returns the first non-empty <meta> value among the given names/properties
+ */
+function readMeta(document: ParsedDocument, keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = document.querySelector(`meta[property='${key}'], meta[name='${key}'], meta[name='${key.toUpperCase()}']`)
+            ?.getAttribute("content");
+        if (value?.trim()) return value;
+    }
+    return undefined;
+}
+
+/**
+ * Reads article metadata from schema.org JSON-LD blocks
+ */
+function readJsonLdArticle(document: ParsedDocument): { headline?: string; author?: string; datePublished?: string; image?: string } {
+    for (const script of Array.from(document.querySelectorAll("script[type='application/ld+json']"))) {
+        let data: unknown;
+        try {
+            data = JSON.parse(script.textContent ?? "");
+        } catch {
+            continue;
+        }
+
+        const nodes = (Array.isArray(data) ? data : [data]).flatMap((node) =>
+            node && typeof node === "object" && "@graph" in node ? (node["@graph"] as unknown[]) : [node]
+        ) as Record<string, unknown>[];
+
+        const article = nodes.find((node) =>
+            typeof node?.["@type"] === "string" && /Article|BlogPosting|Report/.test(node["@type"])
+        );
+        if (!article) continue;
+
+        return {
+            headline: asString(article.headline),
+            author: asString(firstOf(article.author)),
+            datePublished: asString(article.datePublished),
+            image: asString(firstOf(article.image)),
+        };
+    }
+
+    return {};
+}
+
+/**
+ * Returns the first item of a JSON-LD value that may be a list
+ */
+function firstOf(value: unknown): unknown {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads a JSON-LD value that is either a string or an object with a name/url
+ */
+function asString(value: unknown): string | undefined {
+    if (typeof value === "string") return value;
+    if (value && typeof value === "object") {
+        const { name, url } = value as { name?: unknown; url?: unknown };
+        if (typeof name === "string") return name;
+        if (typeof url === "string") return url;
+    }
+    return undefined;
+}
+
+/**
+ * Rewrites relative href/src attributes to absolute URLs
+ */
+function absolutizeUrls(html: string, pageUrl?: string): string {
+    if (!pageUrl) return html;
+
+    return html.replace(/\s(href|src)="([^"]*)"/g, (match, attribute: string, value: string) => {
+        const resolved = resolveUrl(value, pageUrl);
+        return resolved ? ` ${attribute}="${resolved}"` : match;
+    });
+}
+
+/**
+ * Finds the first image in an HTML fragment
+ */
+function findFirstImage(html: string, pageUrl?: string): string | null {
+    const match = html.match(/<img[^>]+src="([^"]+)"/i);
+    return match ? resolveUrl(match[1], pageUrl) : null;
+}
+
+/**
+ * Resolves a possibly relative URL against the page URL
+ *
+ * @returns Absolute http(s) URL, or null if it cannot be resolved
+ */
+function resolveUrl(value: string | null | undefined, pageUrl?: string): string | null {
+    if (!value?.trim()) return null;
+
+    try {
+        const url = new URL(value.trim(), pageUrl);
+        return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parses a date string, ignoring invalid dates
+ */
+function parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Collapses whitespace and turns empty strings into null
+ */
+function cleanText(value: string | null | undefined): string | null {
+    const text = value?.replace(/\s+/g, " ").trim();
+    return text ? text : null;
+}
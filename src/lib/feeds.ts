@@ -0,0 +1,552 @@
+import { Prisma } from "@prisma/client";
+import { DOMParser } from "linkedom";
+import prisma from "./prisma";
+import { queueIngest } from "./ingest";
+import { recordScope, runInWorkspace } from "./ownership";
+import { htmlToMarkdown } from "./extract";
+import { fetchRemote } from "./remote";
+import {
+    FEED_MAX_NEW_ITEMS,
+    FEED_SIGNAL_SOURCE,
+} from "./constants";
+import type { IngestRequest } from "./types";
+
+/**
+ * RSS, Atom and JSON Feed subscriptions
+ *
+ * Due feeds are polled by the job worker (scripts/job_worker.ts) or
+ * POST /api/feeds/poll. Polls use conditional requests, entries are
+ * deduplicated by GUID or link, and each new entry is sent through the
+ * normal ingest pipeline as a signal linked to its feed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Entry of a parsed feed
+ */
+export interface ParsedFeedItem {
+    guid: string;               // GUID/ID, falling back to the link
+    link: string | null;
+    title: string | null;
+    author: string | null;
+    publishedAt: Date | null;
+    content: string | null;     // Full HTML content, when the feed includes it
+    summary: string | null;
+}
+
+/**
+ * Parsed RSS 2.0, RSS 1.0 (RDF), Atom or JSON Feed document
+ */
+export interface ParsedFeed {
+    title: string | null;
+    siteUrl: string | null;
+    items: ParsedFeedItem[];
+}
+
+/**
+ * Outcome of polling one feed
+ */
+export interface FeedPollResult {
+    newItems: number;
+    jobIds: string[];       // Ingest jobs queued for the new entries
+}
+
+/**
+ * Minimal view of linkedom's XML elements
+ */
+interface XmlElement {
+    tagName: string;
+    textContent: string | null;
+    children: ArrayLike<XmlElement>;
+    getAttribute(name: string): string | null;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses an RSS, Atom or JSON Feed document
+ *
+ * Relative links are resolved against `feedUrl`. Entries without a GUID,
+ * ID or link cannot be deduplicated and are skipped.
+ *
+ * @param body - Feed document
+ * @param feedUrl - URL the feed was fetched from
+ * @returns Feed title, site URL and entries in document order
+ * @throws Error if the document is not a supported feed
+ *
+ * @example
+ * ```ts
+ * const feed = parseFeed(xml, "https://example.com/feed.xml");
+ * // { title: "Example", siteUrl: "https://example.com/", items: [...] }
+ * ```
+ */
+export function parseFeed(body: string, feedUrl?: string): ParsedFeed {
+    const trimmed = body.replace(/^\uFEFF/, "").trim();
+
+    const feed = trimmed.startsWith("{")
+        ? parseJsonFeed(trimmed)
+        : parseXmlFeed(trimmed);
+
+    return {
+        title: feed.title,
+        siteUrl: resolveLink(feed.siteUrl, feedUrl),
+        items: feed.items
+            .map((item) => {
+                const link = resolveLink(item.link, feedUrl);
+                return { ...item, link, guid: item.guid || link || "" };
+            })
+            .filter((item) => item.guid),
+    };
+}
+
+/**
+ * Parses a JSON Feed (https://jsonfeed.org) document
+ */
+function parseJsonFeed(body: string): ParsedFeed {
+    let data: {
+        version?: string;
+        title?: string;
+        home_page_url?: string;
+        items?: {
+            id?: string | number;
+            url?: string;
+            external_url?: string;
+            title?: string;
+            content_html?: string;
+            content_text?: string;
+            summary?: string;
+            date_published?: string;
+            authors?: { name?: string }[];
+            author?: { name?: string };
+        }[];
+    };
+
+    try {
+        data = JSON.parse(body);
+    } catch {
+        throw new Error("Feed is not valid JSON");
+    }
+
+    if (!data.version?.includes("jsonfeed.org") || !Array.isArray(data.items)) {
+        throw new Error("Document is not a JSON Feed");
+    }
+
+    return {
+        title: cleanText(data.title),
+        siteUrl: data.home_page_url ?? null,
+        items: data.items.map((item) => ({
+            guid: item.id != null ? String(item.id) : "",
+            link: item.url ?? item.external_url ?? null,
+            title: cleanText(item.title),
+            author: cleanText(item.authors?.[0]?.name ?? item.author?.name),
+            publishedAt: parseDate(item.date_published),
+            content: item.content_html
+                ?? (item.content_text ? `<pre>${escapeHtml(item.content_text)}</pre>` : null),
+            summary: cleanText(item.summary),
+        })),
+    };
+}
+
+/**
+ * Parses an RSS 2.0, RSS 1.0 (RDF) or Atom document
+ */
+function parseXmlFeed(body: string): ParsedFeed {
+    const document = new DOMParser().parseFromString(body, "text/xml");
+    const root = document.documentElement as unknown as XmlElement | null;
+    const rootName = root?.tagName.toLowerCase();
+
+    if (rootName === "feed") {
+        return parseAtomFeed(document);
+    }
+
+    if (rootName !== "rss" && rootName !== "rdf:rdf") {
+        throw new Error("Document is not an RSS, Atom or JSON feed");
+    }
+
+    const channel = document.getElementsByTagName("channel")[0] as unknown as XmlElement | undefined;
+    const items = Array.from(document.getElementsByTagName("item") as unknown as ArrayLike<XmlElement>);
+
+    return {
+        title: cleanText(childText(channel, "title")),
+        siteUrl: childText(channel, "link"),
+        items: items.map((item) => {
+            const guid = childText(item, "guid") ?? item.getAttribute("rdf:about");
+            return {
+                guid: guid ?? "",
+                link: childText(item, "link") ?? permalinkGuid(item),
+                title: cleanText(childText(item, "title")),
+                author: cleanText(childText(item, "dc:creator", "author")),
+                publishedAt: parseDate(childText(item, "pubDate", "dc:date")),
+                content: childText(item, "content:encoded"),
+                summary: cleanText(stripTags(childText(item, "description"))),
+            };
+        }),
+    };
+}
+
+/**
+ * Parses an Atom document
+ */
+function parseAtomFeed(document: ReturnType<DOMParser["parseFromString"]>): ParsedFeed {
+    const root = document.documentElement as unknown as XmlElement;
+    const entries = Array.from(document.getElementsByTagName("entry") as unknown as ArrayLike<XmlElement>);
+
+    return {
+        title: cleanText(childText(root, "title")),
+        siteUrl: atomLink(root),
+        items: entries.map((entry) => {
+            const content = childElement(entry, "content");
+            const author = childElement(entry, "author");
+            return {
+                guid: childText(entry, "id") ?? "",
+                link: atomLink(entry),
+                title: cleanText(childText(entry, "title")),
+                author: cleanText(childText(author, "name")),
+                publishedAt: parseDate(childText(entry, "published", "updated")),
+                content: content ? atomContentHtml(content) : null,
+                summary: cleanText(stripTags(childText(entry, "summary"))),
+            };
+        }),
+    };
+}
+
+// ============================================================================
+// Polling
+// ============================================================================
+
+/**
+ * Polls one feed and ingests its new entries
+ *
+ * Entries already captured some other way are recorded as sightings of
+ * the existing signal rather than ingested again.
+ *
+ * Sends the stored ETag/Last-Modified validators; a 304 response only
+ * reschedules the feed. At most FEED_MAX_NEW_ITEMS entries are ingested
+ * per poll, and the rest are marked as seen. Failures are recorded on
+ * the feed (lastError, errorCount) before being rethrown.
+ *
+ * New entries become signals of the feed's workspace. Ingest jobs are queued,
+ * not run: the caller runs them (e.g. with `after()`) or leaves them to
+ * the job worker.
+ *
+ * @param feedId - Feed ID
+ * @returns Number of new entries and their ingest job IDs
+ * @throws Error if the feed does not exist, cannot be fetched or cannot be parsed
+ */
+export async function pollFeed(feedId: string): Promise<FeedPollResult> {
+    const feed = await prisma.feed.findUniqueOrThrow({ where: { id: feedId } });
+    const nextPollAt = new Date(Date.now() + feed.pollIntervalMinutes * 60 * 1000);
+
+    try {
+        const response = await fetchFeed(feed.url, feed.etag, feed.lastModified);
+
+        if (response.status === 304) {
+            await prisma.feed.update({
+                where: { id: feed.id },
+                data: { lastFetchedAt: new Date(), nextPollAt, lastError: null, errorCount: 0 },
+            });
+            return { newItems: 0, jobIds: [] };
+        }
+
+        const parsed = parseFeed(response.body, feed.url);
+        const result = await runInWorkspace(recordScope(feed), () => ingestNewItems(feed.id, parsed.items));
+
+        await prisma.feed.update({
+            where: { id: feed.id },
+            data: {
+                title: feed.title ?? parsed.title,
+                siteUrl: parsed.siteUrl,
+                etag: response.etag,
+                lastModified: response.lastModified,
+                lastFetchedAt: new Date(),
+                nextPollAt,
+                lastError: null,
+                errorCount: 0,
+            },
+        });
+
+        return result;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await prisma.feed.update({
+            where: { id: feed.id },
+            data: {
+                lastFetchedAt: new Date(),
+                nextPollAt,
+                lastError: message,
+                errorCount: { increment: 1 },
+            },
+        });
+        throw error;
+    }
+}
+
+/**
+ * Polls every enabled feed whose next poll time has passed
+ *
+ * A failing feed is logged and does not stop the others.
+ *
+ * @returns New entries and ingest job IDs across all polled feeds
+ */
+export async function pollDueFeeds(): Promise<FeedPollResult> {
+    const feeds = await prisma.feed.findMany({
+        where: { enabled: true, nextPollAt: { lte: new Date() } },
+        select: { id: true, url: true },
+        orderBy: { nextPollAt: "asc" },
+    });
+
+    const total: FeedPollResult = { newItems: 0, jobIds: [] };
+    for (const feed of feeds) {
+        try {
+            const result = await pollFeed(feed.id);
+            total.newItems += result.newItems;
+            total.jobIds.push(...result.jobIds);
+        } catch (error) {
+            console.error(`Polling feed ${feed.url} failed:`, error);
+        }
+    }
+
+    return total;
+}
+
+/**
+ * Records unseen entries and queues ingestion for the newest of them
+ */
+async function ingestNewItems(feedId: string, items: ParsedFeedItem[]): Promise<FeedPollResult> {
+    const links = items.map((item) => item.link).filter((link): link is string => !!link);
+    const seen = await prisma.feedItem.findMany({
+        where: {
+            feedId,
+            OR: [
+                { guid: { in: items.map((item) => item.guid) } },
+                { link: { in: links } },
+            ],
+        },
+        select: { guid: true, link: true },
+    });
+
+    const seenKeys = new Set(seen.flatMap((item) => [item.guid, item.link]));
+    const unseen = items.filter((item, index) =>
+        !seenKeys.has(item.guid)
+        && !(item.link && seenKeys.has(item.link))
+        && items.findIndex((other) => other.guid === item.guid) === index
+    );
+
+    // Feeds list the newest entries first
+    const toIngest = unseen.slice(0, FEED_MAX_NEW_ITEMS);
+    const skipped = unseen.slice(FEED_MAX_NEW_ITEMS);
+
+    if (skipped.length > 0) {
+        await prisma.feedItem.createMany({
+            data: skipped.map((item) => ({ feedId, guid: item.guid, link: item.link })),
+            skipDuplicates: true,
+        });
+    }
+
+    const jobIds: string[] = [];
+    for (const item of toIngest.reverse()) {
+        let claim;
+        try {
+            claim = await prisma.feedItem.create({
+                data: { feedId, guid: item.guid, link: item.link },
+                select: { id: true },
+            });
+        } catch (error) {
+            // Another poll of the same feed got there first
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;
+            throw error;
+        }
+
+        let outcome;
+        try {
+            outcome = await queueIngest(toIngestRequest(item), {
+                source: FEED_SIGNAL_SOURCE,
+                feedId,
+            });
+        } catch (error) {
+            // Unmark the entry so the next poll tries it again
+            await prisma.feedItem.delete({ where: { id: claim.id } });
+            throw error;
+        }
+        if (!outcome.duplicate) {
+            jobIds.push(outcome.job.id);
+        }
+    }
+
+    return { newItems: jobIds.length, jobIds };
+}
+
+/**
+ * Builds the ingest request for a feed entry
+ *
+ * Entries with a link are ingested as URLs. When the feed carries the full
+ * content it is passed as the page HTML, so the article is extracted from
+ * the feed instead of being fetched; otherwise the page is fetched as usual.
+ */
+function toIngestRequest(item: ParsedFeedItem): IngestRequest {
+    if (!item.link) {
+        return {
+            inputType: "text",
+            title: item.title ?? undefined,
+            content: htmlToMarkdown(item.content ?? item.summary ?? "") || item.title || item.guid,
+        };
+    }
+
+    return {
+        inputType: "url",
+        url: item.link,
+        title: item.title ?? undefined,
+        rawContent: item.content ? toHtmlDocument(item) : undefined,
+    };
+}
+
+/**
+ * Wraps an entry's content in a document carrying its metadata
+ */
+function toHtmlDocument(item: ParsedFeedItem): string {
+    const meta = [
+        item.author && `<meta name="author" content="${escapeHtml(item.author)}">`,
+        item.publishedAt && `<meta property="article:published_time" content="${item.publishedAt.toISOString()}">`,
+    ].filter(Boolean).join("");
+
+    return `<!DOCTYPE html><html><head><title>${escapeHtml(item.title ?? "")}</title>${meta}</head>`
+        + `<body><article>${item.content}</article></body></html>`;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Fetches a feed with conditional request headers
+ */
+async function fetchFeed(url: string, etag: string | null, lastModified: string | null) {
+    const headers: Record<string, string> = {
+        "User-Agent": "Mozilla/5.0 (compatible; SignalDesk/1.0)",
+        "Accept": "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8",
+    };
+    if (etag) headers["If-None-Match"] = etag;
+    if (lastModified) headers["If-Modified-Since"] = lastModified;
+
+    const response = await fetchRemote(url, headers);
+
+    if (response.status !== 304 && !response.ok) {
+        throw new Error(`Fetching ${url} returned ${response.status}`);
+    }
+
+    return {
+        status: response.status,
+        body: response.status === 304 ? "" : response.text,
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+    };
+}
+
+/**
+ * Finds the first direct child with one of the given tag names
+ */
+function childElement(element: XmlElement | null | undefined, ...names: string[]): XmlElement | null {
+    if (!element) return null;
+
+    for (const name of names) {
+        const match = Array.from(element.children)
+            .find((child) => child.tagName.toLowerCase() === name.toLowerCase());
+        if (match) return match;
+    }
+
+    return null;
+}
+
+/**
+ * Returns the trimmed text of the first matching child, if not empty
+ */
+function childText(element: XmlElement | null | undefined, ...names: string[]): string | null {
+    return childElement(element, ...names)?.textContent?.trim() || null;
+}
+
+/**
+ * Returns an RSS guid when it doubles as the entry's permalink
+ */
+function permalinkGuid(item: XmlElement): string | null {
+    const guid = childElement(item, "guid");
+    const text = guid?.textContent?.trim();
+    if (!guid || !text || guid.getAttribute("isPermaLink") === "false") return null;
+    return /^https?:\/\//.test(text) ? text : null;
+}
+
+/**
+ * Returns the alternate (or first unqualified) link of an Atom element
+ */
+function atomLink(element: XmlElement): string | null {
+    const links = Array.from(element.children).filter((child) => child.tagName.toLowerCase() === "link");
+    const alternate = links.find((link) => (link.getAttribute("rel") ?? "alternate") === "alternate");
+    return alternate?.getAttribute("href") ?? null;
+}
+
+/**
+ * Returns an Atom content element as HTML
+ */
+function atomContentHtml(content: XmlElement): string | null {
+    const type = content.getAttribute("type") ?? "text";
+    const text = content.textContent?.trim();
+    if (!text || content.getAttribute("src")) return null;
+
+    if (type === "html") return text;
+    if (type === "xhtml") {
+        const div = childElement(content, "div");
+        return (div as unknown as { innerHTML?: string })?.innerHTML ?? escapeHtml(text);
+    }
+    return `<p>${escapeHtml(text)}</p>`;
+}
+
+/**
+ * Resolves a possibly relative link against the feed URL
+ */
+function resolveLink(link: string | null, base?: string): string | null {
+    if (!link) return null;
+    try {
+        return new URL(link, base).toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Removes HTML tags from a summary
+ */
+function stripTags(html: string | null): string | null {
+    return html ? html.replace(/<[^>]+>/g, " ") : null;
+}
+
+/**
+ * Escapes text for use in HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Parses a feed date (RFC 822 or ISO 8601)
+ */
+function parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Collapses whitespace; returns null for empty text
+ */
+function cleanText(value: string | null | undefined): string | null {
+    const text = value?.replace(/\s+/g, " ").trim();
+    return text || null;
+}
@@ -0,0 +1,366 @@
+import { unzipSync, strFromU8 } from "fflate";
+import { DOMParser, parseHTML } from "linkedom";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import { htmlToMarkdown } from "./extract";
+import { FILE_MIME_TYPES, SECTION_KINDS } from "./constants";
+import type { FileMimeType, SectionKind } from "./constants";
+
+/**
+ * Local text extraction for uploaded files
+ *
+ * Supports PDF, EPUB, DOCX, Markdown and plain text. Each file is turned
+ * into Markdown, and its page, chapter or heading boundaries are kept as
+ * sections (character ranges into that Markdown) so highlights can
+ * reference them.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Page, chapter, heading section or transcript segment as a range of the
+ * extracted content
+ */
+export interface ExtractedSection {
+    kind: SectionKind;
+    label: string;
+    startPos: number;
+    endPos: number;
+    startTime?: number;     // Seconds, for transcript segments
+    endTime?: number;
+}
+
+/**
+ * Text and structure extracted from a file
+ */
+export interface ExtractedFile {
+    title: string | null;
+    author: string | null;
+    content: string;        // Full text as Markdown
+    sections: ExtractedSection[];
+}
+
+/**
+ * Section content before it is joined into the full document
+ */
+export interface SectionPart {
+    kind: SectionKind;
+    label: string;
+    markdown: string;
+    startTime?: number;
+    endTime?: number;
+}
+
+// ============================================================================
+// MIME Sniffing
+// ============================================================================
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdx)$/i;
+
+/**
+ * Detects the type of an uploaded file from its bytes
+ *
+ * The declared MIME type is not trusted: PDFs and ZIP containers are
+ * recognized by their signature, and anything else must be valid UTF-8
+ * text. The file name and declared type only choose between Markdown and
+ * plain text.
+ *
+ * @param bytes - File contents
+ * @param fileName - Original file name
+ * @param declaredType - MIME type sent by the client
+ * @returns Detected type, or null if the file is not supported
+ *
+ * @example
+ * ```ts
+ * sniffFileType(bytes, "notes.md"); // "text/markdown"
+ * ```
+ */
+export function sniffFileType(bytes: Uint8Array, fileName?: string, declaredType?: string): FileMimeType | null {
+    if (startsWith(bytes, "%PDF-")) {
+        return FILE_MIME_TYPES.PDF;
+    }
+
+    if (startsWith(bytes, "PK\x03\x04")) {
+        return sniffZipType(bytes);
+    }
+
+    if (!isUtf8Text(bytes)) {
+        return null;
+    }
+
+    return MARKDOWN_EXTENSIONS.test(fileName ?? "") || declaredType === FILE_MIME_TYPES.MARKDOWN
+        ? FILE_MIME_TYPES.MARKDOWN
+        : FILE_MIME_TYPES.TEXT;
+}
+
+/**
+ * Tells EPUB and DOCX archives apart by their required entries
+ */
+function sniffZipType(bytes: Uint8Array): FileMimeType | null {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(bytes, {
+            filter: (file) => file.name === "mimetype" || file.name === "word/document.xml",
+        });
+    } catch {
+        return null;
+    }
+
+    if (entries.mimetype && strFromU8(entries.mimetype).trim() === FILE_MIME_TYPES.EPUB) {
+        return FILE_MIME_TYPES.EPUB;
+    }
+
+    if (entries["word/document.xml"]) {
+        return FILE_MIME_TYPES.DOCX;
+    }
+
+    return null;
+}
+
+/**
+ * Checks whether bytes decode as UTF-8 text without control characters
+ */
+function isUtf8Text(bytes: Uint8Array): boolean {
+    try {
+        const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+        return !/[\u0000-\u0008\u000E-\u001F]/.test(text);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks whether bytes start with an ASCII signature
+ */
+function startsWith(bytes: Uint8Array, signature: string): boolean {
+    return signature.split("").every((char, i) => bytes[i] === char.charCodeAt(0));
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extracts text and sections from a file
+ *
+ * @param bytes - File contents
+ * @param mimeType - Type detected by sniffFileType
+ * @param fileName - Original file name, used as fallback title
+ * @returns Extracted file
+ * @throws Error if the file cannot be parsed
+ */
+export async function extractFile(bytes: Uint8Array, mimeType: FileMimeType, fileName?: string): Promise<ExtractedFile> {
+    const fallbackTitle = fileName ? fileName.replace(/\.[^.]+$/, "") : null;
+
+    let extracted: ExtractedFile;
+    switch (mimeType) {
+        case FILE_MIME_TYPES.PDF:
+            extracted = await extractPdf(bytes);
+            break;
+        case FILE_MIME_TYPES.EPUB:
+            extracted = extractEpub(bytes);
+            break;
+        case FILE_MIME_TYPES.DOCX:
+            extracted = extractDocx(bytes);
+            break;
+        case FILE_MIME_TYPES.MARKDOWN:
+            extracted = extractMarkdown(new TextDecoder().decode(bytes));
+            break;
+        default:
+            extracted = {
+                title: null,
+                author: null,
+                content: new TextDecoder().decode(bytes).trim(),
+                sections: [],
+            };
+    }
+
+    return { ...extracted, title: extracted.title || fallbackTitle };
+}
+
+/**
+ * Extracts a PDF page by page
+ */
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedFile> {
+    // pdf.js takes ownership of the buffer, so hand it a copy
+    const pdf = await getDocumentProxy(new Uint8Array(bytes));
+    const { text } = await extractText(pdf, { mergePages: false });
+    const { info } = await getMeta(pdf);
+
+    const parts = text.map((pageText, i) => ({
+        kind: SECTION_KINDS.PAGE,
+        label: `Page ${i + 1}`,
+        markdown: pageText.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim(),
+    }));
+
+    return {
+        title: typeof info?.Title === "string" ? info.Title.trim() || null : null,
+        author: typeof info?.Author === "string" ? info.Author.trim() || null : null,
+        ...joinSections(parts),
+    };
+}
+
+/**
+ * Extracts an EPUB chapter by chapter, following the spine order
+ */
+function extractEpub(bytes: Uint8Array): ExtractedFile {
+    const entries = unzipSync(bytes);
+    const readEntry = (name: string) => entries[name] ? strFromU8(entries[name]) : null;
+
+    const container = parseXml(readEntry("META-INF/container.xml") ?? "");
+    const opfPath = container.querySelector("rootfile")?.getAttribute("full-path");
+    const opfXml = opfPath ? readEntry(opfPath) : null;
+    if (!opfPath || !opfXml) {
+        throw new Error("EPUB has no package document");
+    }
+
+    const opf = parseXml(opfXml);
+    const baseDir = opfPath.includes("/") ? opfPath.slice(0, opfPath.lastIndexOf("/") + 1) : "";
+
+    const manifest = new Map<string, string>();
+    for (const item of Array.from(opf.getElementsByTagName("item"))) {
+        const id = item.getAttribute("id");
+        const href = item.getAttribute("href");
+        if (id && href) manifest.set(id, baseDir + decodeURIComponent(href));
+    }
+
+    const parts: SectionPart[] = [];
+    for (const itemref of Array.from(opf.getElementsByTagName("itemref"))) {
+        const href = manifest.get(itemref.getAttribute("idref") ?? "");
+        const xhtml = href ? readEntry(href) : null;
+        if (!xhtml) continue;
+
+        const { document } = parseHTML(xhtml);
+        const markdown = htmlToMarkdown(document.body?.innerHTML ?? "");
+        if (!markdown) continue;
+
+        const heading = document.querySelector("h1, h2, h3")?.textContent?.replace(/\s+/g, " ").trim();
+        parts.push({
+            kind: SECTION_KINDS.CHAPTER,
+            label: heading || `Chapter ${parts.length + 1}`,
+            markdown,
+        });
+    }
+
+    return {
+        title: opf.getElementsByTagName("dc:title")[0]?.textContent?.trim() || null,
+        author: opf.getElementsByTagName("dc:creator")[0]?.textContent?.trim() || null,
+        ...joinSections(parts),
+    };
+}
+
+/**
+ * Extracts a DOCX document, starting a new section at each heading
+ */
+function extractDocx(bytes: Uint8Array): ExtractedFile {
+    const entries = unzipSync(bytes, {
+        filter: (file) => file.name === "word/document.xml" || file.name === "docProps/core.xml",
+    });
+
+    const document = parseXml(strFromU8(entries["word/document.xml"]));
+    const core = entries["docProps/core.xml"] ? parseXml(strFromU8(entries["docProps/core.xml"])) : null;
+    const title = core?.getElementsByTagName("dc:title")[0]?.textContent?.trim() || null;
+
+    const parts: SectionPart[] = [];
+    let current: SectionPart | null = null;
+
+    for (const paragraph of Array.from(document.getElementsByTagName("w:p"))) {
+        const text = Array.from(paragraph.getElementsByTagName("w:t") as ArrayLike<{ textContent: string | null }>)
+            .map((node) => node.textContent ?? "")
+            .join("")
+            .trim();
+        if (!text) continue;
+
+        const style = paragraph.getElementsByTagName("w:pStyle")[0]?.getAttribute("w:val") ?? "";
+        const level = style === "Title" ? 1 : Number(style.match(/^Heading(\d)$/)?.[1] ?? 0);
+
+        if (level > 0) {
+            current = { kind: SECTION_KINDS.SECTION, label: text, markdown: `${"#".repeat(level)} ${text}` };
+            parts.push(current);
+            continue;
+        }
+
+        const line = paragraph.getElementsByTagName("w:numPr").length > 0 ? `- ${text}` : text;
+        if (!current) {
+            current = { kind: SECTION_KINDS.SECTION, label: title || "Introduction", markdown: line };
+            parts.push(current);
+        } else {
+            current.markdown += `\n\n${line}`;
+        }
+    }
+
+    return {
+        title,
+        author: core?.getElementsByTagName("dc:creator")[0]?.textContent?.trim() || null,
+        ...joinSections(parts),
+    };
+}
+
+/**
+ * Splits Markdown into sections at level 1 and 2 headings
+ */
+function extractMarkdown(markdown: string): ExtractedFile {
+    const content = markdown.trim();
+    const sections: ExtractedSection[] = [];
+
+    let offset = 0;
+    let inCodeBlock = false;
+    for (const line of content.split("\n")) {
+        if (/^(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+
+        const heading = inCodeBlock ? null : line.match(/^#{1,2}\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            if (sections.length > 0) sections[sections.length - 1].endPos = offset;
+            sections.push({ kind: SECTION_KINDS.SECTION, label: heading[1], startPos: offset, endPos: content.length });
+        }
+
+        offset += line.length + 1;
+    }
+
+    return {
+        title: content.match(/^#\s+(.+)$/m)?.[1].trim() ?? null,
+        author: null,
+        content,
+        sections,
+    };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Joins section parts into one document and records each part's range
+ *
+ * @param parts - Sections in document order
+ * @returns Joined Markdown and the sections' ranges within it
+ */
+export function joinSections(parts: SectionPart[]): { content: string; sections: ExtractedSection[] } {
+    let content = "";
+    const sections: ExtractedSection[] = [];
+
+    for (const part of parts) {
+        if (!part.markdown) continue;
+        if (content) content += "\n\n";
+
+        sections.push({
+            kind: part.kind,
+            label: part.label,
+            startPos: content.length,
+            endPos: content.length + part.markdown.length,
+            startTime: part.startTime,
+            endTime: part.endTime,
+        });
+        content += part.markdown;
+    }
+
+    return { content, sections };
+}
+
+/**
+ * Parses an XML document (OPF, OOXML)
+ */
+function parseXml(xml: string) {
+    return new DOMParser().parseFromString(xml, "text/xml");
+}
@@ -1,4 +1,4 @@
-import type { N8nResponse } from "./types";
+import type { JobSummary, N8nResponse } from "./types";
 
 /**
  * Formatting utilities for Core Perigee
@@ -45,41 +45,6 @@ export function formatN8nDataToMarkdown(data: N8nResponse): string {
     return parts.join("\n\n");
 }
 
-// ============================================================================
-// Tag Parsing
-// ============================================================================
-
-/**
- * Safely parses signal tags from JSON string
- * 
- * @param tagsJson - JSON string containing tags array
- * @returns Parsed array of strings, empty array if parsing fails
- * 
- * @example
- * ```ts
- * const tags = parseSignalTags('["AI", "Technology"]');
- * // Returns: ["AI", "Technology"]
- * ```
- */
-export function parseSignalTags(tagsJson: string): string[] {
-    try {
-        const parsed = JSON.parse(tagsJson);
-        return Array.isArray(parsed) ? parsed : [];
-    } catch {
-        return [];
-    }
-}
-
-/**
- * Serializes tags array to JSON string for database storage
- * 
- * @param tags - Array of tag strings
- * @returns JSON string representation
- */
-export function serializeSignalTags(tags: string[]): string {
-    return JSON.stringify(tags);
-}
-
 // ============================================================================
 // Date Formatting
 // ============================================================================
@@ -113,6 +78,29 @@ export function formatRelativeDate(dateStr: string | Date): string {
     return date.toLocaleDateString();
 }
 
+/**
+ * Formats a media position as a clock timestamp
+ * 
+ * @param seconds - Position in seconds
+ * @returns "m:ss", or "h:mm:ss" for positions past an hour
+ * 
+ * @example
+ * ```ts
+ * formatTimestamp(763);
+ * // Returns: "12:43"
+ * ```
+ */
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, "0");
+
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+        : `${minutes}:${secs}`;
+}
+
 // ============================================================================
 // Content Truncation
 // ============================================================================
@@ -134,3 +122,34 @@ export function truncateContent(content: string, maxLength = 200): string {
     if (content.length <= maxLength) return content;
     return content.substring(0, maxLength).trim() + "...";
 }
+
+// ============================================================================
+// Job Status
+// ============================================================================
+
+/**
+ * Describes the state of a signal's or insight's latest outbound job
+ * 
+ * @param job - Latest job summary, if any
+ * @returns Short label like "retrying (3/5)", or null when nothing is pending
+ * 
+ * @example
+ * ```ts
+ * formatJobStatus({ status: "pending", attempts: 3, maxAttempts: 5, ... });
+ * // Returns: "retrying (3/5)"
+ * ```
+ */
+export function formatJobStatus(job: JobSummary | undefined): string | null {
+    if (!job) return null;
+
+    switch (job.status) {
+        case "pending":
+            return job.attempts > 0 ? `retrying (${job.attempts}/${job.maxAttempts})` : "queued";
+        case "running":
+            return job.attempts > 0 ? `retrying (${job.attempts + 1}/${job.maxAttempts})` : "sending";
+        case "dead":
+            return `failed after ${job.attempts} attempts`;
+        default:
+            return null;
+    }
+}
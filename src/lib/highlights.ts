@@ -0,0 +1,255 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { anchorQuote, quoteContext } from "./anchoring";
+import type { TextQuote, TextRange } from "./anchoring";
+import { tagArgs, withTagNames } from "./tags";
+import { expandTopic } from "./taxonomy";
+import { encodeCursor } from "./pagination";
+import type { CursorPosition } from "./pagination";
+import type { HighlightCategory } from "./constants";
+import type { HighlightsResponse } from "./types";
+
+/**
+ * Highlight helpers shared by API routes
+ */
+
+// ============================================================================
+// Anchoring
+// ============================================================================
+
+/**
+ * Position of a highlight within its signal's content
+ */
+export interface HighlightLocation {
+    startPos: number | null;
+    endPos: number | null;
+    prefix: string | null;
+    suffix: string | null;
+    orphaned: boolean;          // The quote is not in the content
+    sectionId: string | null;
+    startTime: number | null;   // From the transcript segment, for videos
+}
+
+/**
+ * Locates a highlight in its signal and finds the section containing it
+ *
+ * Client-provided positions are used when they hold the quote; otherwise
+ * the quote is anchored by its text and surrounding text (see
+ * lib/anchoring). The section is the page, chapter, heading section or
+ * transcript segment the highlight starts in; a segment's start time is
+ * kept on the highlight.
+ *
+ * @param signalId - Signal ID
+ * @param quote - Highlighted text with the text around it, if known
+ * @param startPos - Optional start offset in the signal's content
+ * @param endPos - Optional end offset in the signal's content
+ * @returns Offsets, context, section ID and media time; orphaned when the quote is not found
+ */
+export async function locateHighlight(
+    signalId: string,
+    quote: TextQuote,
+    startPos?: number | null,
+    endPos?: number | null
+): Promise<HighlightLocation> {
+    const signal = await prisma.signal.findUnique({
+        where: { id: signalId },
+        select: { content: true },
+    });
+    const content = signal?.content ?? "";
+
+    const range = startPos != null && endPos != null && content.slice(startPos, endPos) === quote.exact
+        ? { startPos, endPos }
+        : anchorQuote(content, quote, startPos);
+
+    return await locateRange(signalId, content, quote, range);
+}
+
+/**
+ * Anchors a signal's highlights again after its content changed
+ *
+ * Each highlight is looked up by its quote and surrounding text, near its
+ * old position. Highlights whose quote is gone are flagged as orphaned and
+ * keep their quote and context, so a later rewrite may bring them back.
+ *
+ * @param signalId - Signal ID
+ * @returns Number of highlights left orphaned
+ */
+export async function reanchorHighlights(signalId: string): Promise<number> {
+    const highlights = await prisma.highlight.findMany({
+        where: { signalId },
+        select: { id: true, text: true, prefix: true, suffix: true, startPos: true },
+    });
+    if (highlights.length === 0) return 0;
+
+    const signal = await prisma.signal.findUnique({
+        where: { id: signalId },
+        select: { content: true },
+    });
+    if (!signal) return 0;
+
+    let orphaned = 0;
+    for (const highlight of highlights) {
+        const quote = { exact: highlight.text, prefix: highlight.prefix, suffix: highlight.suffix };
+        const range = anchorQuote(signal.content, quote, highlight.startPos);
+        const location = await locateRange(signalId, signal.content, quote, range);
+
+        await prisma.highlight.update({
+            where: { id: highlight.id },
+            data: location,
+        });
+        if (location.orphaned) orphaned++;
+    }
+
+    if (orphaned > 0) {
+        console.warn(`${orphaned} of ${highlights.length} highlights of signal ${signalId} are orphaned`);
+    }
+    return orphaned;
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+/**
+ * Filters and page of the highlight library
+ */
+export interface HighlightListParams {
+    categories: HighlightCategory[];    // Any of these categories (all when empty)
+    tag?: string;                       // Tag of the signal, including narrower topics
+    source?: string;                    // Source of the signal
+    signalId?: string;
+    createdFrom?: Date;                 // Highlighted at or after
+    createdTo?: Date;                   // Highlighted before
+    limit: number;
+    cursor?: CursorPosition;            // Position of the previous page's last highlight
+}
+
+/**
+ * Sort recorded in library cursors; the library is always newest first
+ */
+const LIBRARY_CURSOR_SORT = "created:desc";
+
+/**
+ * Lists a page of highlights across all signals, newest first
+ *
+ * Pages are fetched by keyset like signal listings (see lib/listing).
+ *
+ * @param params - Filters and page
+ * @returns Highlights with their signals, total matches and the next page's cursor
+ */
+export async function listHighlights(params: HighlightListParams): Promise<HighlightsResponse> {
+    const where = await libraryConditions(params);
+
+    const [highlights, total] = await Promise.all([
+        prisma.highlight.findMany({
+            where: params.cursor ? { AND: [where, afterCursor(params.cursor)] } : where,
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            // One extra row tells whether there is a next page
+            take: params.limit + 1,
+            include: {
+                section: { select: { kind: true, label: true } },
+                signal: {
+                    select: { id: true, title: true, source: true, sourceUrl: true, tags: tagArgs },
+                },
+            },
+        }),
+        prisma.highlight.count({ where }),
+    ]);
+
+    const page = highlights.slice(0, params.limit);
+    const last = page[page.length - 1];
+    const nextCursor = highlights.length > params.limit && last
+        ? encodeCursor({ sort: LIBRARY_CURSOR_SORT, value: last.createdAt.toISOString(), id: last.id })
+        : null;
+
+    return {
+        highlights: page.map(({ signal, ...highlight }) => ({ ...highlight, signal: withTagNames(signal) })),
+        total,
+        limit: params.limit,
+        nextCursor,
+    };
+}
+
+/**
+ * Checks that a cursor was issued by the library
+ *
+ * @param cursor - Decoded cursor
+ * @returns true if the cursor can continue a library listing
+ */
+export function isLibraryCursor(cursor: CursorPosition): boolean {
+    return cursor.sort === LIBRARY_CURSOR_SORT && !Number.isNaN(Date.parse(cursor.value));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds the where clause of the library filters
+ */
+async function libraryConditions(params: HighlightListParams): Promise<Prisma.HighlightWhereInput> {
+    const conditions: Prisma.HighlightWhereInput[] = [];
+
+    if (params.categories.length > 0) conditions.push({ category: { in: params.categories } });
+    if (params.signalId) conditions.push({ signalId: params.signalId });
+    if (params.source) conditions.push({ signal: { source: params.source } });
+    if (params.tag) conditions.push({ signal: { tags: { some: { id: { in: await expandTopic(params.tag) } } } } });
+    if (params.createdFrom) conditions.push({ createdAt: { gte: params.createdFrom } });
+    if (params.createdTo) conditions.push({ createdAt: { lt: params.createdTo } });
+
+    return { AND: conditions };
+}
+
+/**
+ * Builds the where clause for highlights after the cursor position
+ */
+function afterCursor(cursor: CursorPosition): Prisma.HighlightWhereInput {
+    const createdAt = new Date(cursor.value);
+
+    return {
+        OR: [
+            { createdAt: { lt: createdAt } },
+            { createdAt, id: { lt: cursor.id } },
+        ],
+    };
+}
+
+/**
+ * Location of an anchored range, with its context and section
+ */
+async function locateRange(
+    signalId: string,
+    content: string,
+    quote: TextQuote,
+    range: TextRange | null
+): Promise<HighlightLocation> {
+    if (!range) {
+        return {
+            startPos: null,
+            endPos: null,
+            prefix: quote.prefix ?? null,
+            suffix: quote.suffix ?? null,
+            orphaned: true,
+            sectionId: null,
+            startTime: null,
+        };
+    }
+
+    const section = await prisma.signalSection.findFirst({
+        where: {
+            signalId,
+            startPos: { lte: range.startPos },
+            endPos: { gt: range.startPos },
+        },
+        orderBy: { position: "asc" },
+        select: { id: true, startTime: true },
+    });
+
+    return {
+        ...range,
+        ...quoteContext(content, range),
+        orphaned: false,
+        sectionId: section?.id ?? null,
+        startTime: section?.startTime ?? null,
+    };
+}
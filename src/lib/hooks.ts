@@ -0,0 +1,182 @@
+import useSWR from "swr";
+import useSWRInfinite from "swr/infinite";
+import type { SWRConfiguration } from "swr";
+import type { SWRInfiniteConfiguration } from "swr/infinite";
+import { api, apiPath } from "./client";
+import type { ApiClient, ApiError } from "./client";
+import type {
+    ApiTokensResponse,
+    DeliveriesResponse,
+    FeedsResponse,
+    HighlightsResponse,
+    InsightsResponse,
+    ProcessorSettingsResponse,
+    RelatedResponse,
+    SessionResponse,
+    SignalDetail,
+    SignalsResponse,
+    ThoughtsResponse,
+    WebhookConfigsResponse,
+    WorkspaceMembersResponse,
+    WorkspacesResponse,
+} from "./types";
+
+/**
+ * SWR hooks for the API
+ *
+ * Each hook is keyed by the request URL and caches its response body, the
+ * same as a plain fetcher for that URL, so
+ * `mutate((key) => key.startsWith("/api/signals"))` still refreshes every
+ * signal list. Errors are ApiErrors; a null ID skips the request.
+ */
+
+type Parameter<T extends (...args: never[]) => unknown, N extends number = 0> = Parameters<T>[N];
+
+// ============================================================================
+// Session
+// ============================================================================
+
+/**
+ * Signed-in user and their current workspace; errors with status 401 when signed out
+ */
+export function useSession(config?: SWRConfiguration) {
+    return useSWR<SessionResponse, ApiError>("/api/auth/session", () => api.auth.session(), config);
+}
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+/**
+ * Workspaces of the signed-in user, and the current one
+ */
+export function useWorkspaces(config?: SWRConfiguration) {
+    return useSWR<WorkspacesResponse, ApiError>("/api/workspaces", () => api.workspaces.list(), config);
+}
+
+/**
+ * Members of a workspace and their roles
+ */
+export function useMembers(id: string | null, config?: SWRConfiguration) {
+    return useSWR<WorkspaceMembersResponse, ApiError>(
+        id ? `/api/workspaces/${id}/members` : null,
+        () => api.workspaces.members(id!),
+        config
+    );
+}
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * Page of signals
+ *
+ * @example
+ * const { data } = useSignals({ status: ["unread"], limit: 100 });
+ */
+export function useSignals(query?: Parameter<ApiClient["signals"]["list"]>, config?: SWRConfiguration) {
+    return useSWR<SignalsResponse, ApiError>(apiPath("/api/signals", query), () => api.signals.list(query), config);
+}
+
+/**
+ * Signal with its highlights, thoughts, sections and history
+ */
+export function useSignal(id: string | null, config?: SWRConfiguration) {
+    return useSWR<SignalDetail, ApiError>(id ? `/api/signals/${id}` : null, () => api.signals.get(id!), config);
+}
+
+/**
+ * Signals, highlights and thoughts similar to a signal
+ */
+export function useRelated(
+    id: string | null,
+    query?: Parameter<ApiClient["signals"]["related"], 1>,
+    config?: SWRConfiguration
+) {
+    return useSWR<RelatedResponse, ApiError>(
+        id ? apiPath(`/api/signals/${id}/related`, query) : null,
+        () => api.signals.related(id!, query),
+        config
+    );
+}
+
+// ============================================================================
+// Highlights
+// ============================================================================
+
+/**
+ * Pages of the highlight library; `setSize(size + 1)` loads the next page
+ *
+ * @example
+ * const { data, size, setSize } = useHighlightLibrary({ category: ["quote"] });
+ * const highlights = data?.flatMap((page) => page.highlights) ?? [];
+ */
+export function useHighlightLibrary(
+    query?: Omit<NonNullable<Parameter<ApiClient["highlights"]["list"]>>, "cursor">,
+    config?: SWRInfiniteConfiguration
+) {
+    return useSWRInfinite<HighlightsResponse, ApiError>(
+        // Each page continues from the previous one; null stops after the last page
+        (index, previous: HighlightsResponse | null) => {
+            if (previous && !previous.nextCursor) return null;
+            const cursor = index === 0 ? undefined : previous!.nextCursor!;
+            return [apiPath("/api/highlights", { ...query, cursor }), cursor];
+        },
+        ([, cursor]: [string, string | undefined]) => api.highlights.list({ ...query, cursor }),
+        config
+    );
+}
+
+// ============================================================================
+// Thoughts and Insights
+// ============================================================================
+
+export function useThoughts(query?: Parameter<ApiClient["thoughts"]["list"]>, config?: SWRConfiguration) {
+    return useSWR<ThoughtsResponse, ApiError>(apiPath("/api/thoughts", query), () => api.thoughts.list(query), config);
+}
+
+export function useInsights(query?: Parameter<ApiClient["insights"]["list"]>, config?: SWRConfiguration) {
+    return useSWR<InsightsResponse, ApiError>(apiPath("/api/insights", query), () => api.insights.list(query), config);
+}
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+export function useWebhookConfigs(config?: SWRConfiguration) {
+    return useSWR<WebhookConfigsResponse, ApiError>("/api/settings/webhooks", () => api.webhooks.list(), config);
+}
+
+export function useDeliveries(query?: Parameter<ApiClient["webhooks"]["deliveries"]>, config?: SWRConfiguration) {
+    return useSWR<DeliveriesResponse, ApiError>(apiPath("/api/settings/deliveries", query), () => api.webhooks.deliveries(query), config);
+}
+
+/**
+ * Processor of each pipeline stage in the current workspace
+ */
+export function useProcessors(config?: SWRConfiguration) {
+    return useSWR<ProcessorSettingsResponse, ApiError>("/api/settings/processors", () => api.processors.list(), config);
+}
+
+// ============================================================================
+// Feeds
+// ============================================================================
+
+/**
+ * Feed subscriptions with their unread counts
+ */
+export function useFeeds(config?: SWRConfiguration) {
+    return useSWR<FeedsResponse, ApiError>("/api/feeds", () => api.feeds.list(), config);
+}
+
+// ============================================================================
+// API Tokens
+// ============================================================================
+
+/**
+ * The signed-in user's API tokens in the current workspace
+ */
+export function useApiTokens(config?: SWRConfiguration) {
+    return useSWR<ApiTokensResponse, ApiError>("/api/settings/tokens", () => api.tokens.list(), config);
+}
@@ -0,0 +1,145 @@
+import type { Signal, WebhookJob } from "@prisma/client";
+import prisma from "./prisma";
+import { enqueueJob } from "./jobs";
+import { applyDuplicatePolicy, findDuplicateSignal, fingerprintRequest } from "./dedup";
+import { canonicalizeUrl } from "./canonical";
+import { initialSignalEvent } from "./lifecycle";
+import { blobKey, putBlob } from "./blobs";
+import {
+    DEFAULT_DUPLICATE_POLICY,
+    EVENT_ACTORS,
+    PROCESSING_PLACEHOLDER_CONTENT,
+    SIGNAL_STATUS,
+    WEBHOOK_NAMES,
+} from "./constants";
+import type { DuplicatePolicy } from "./constants";
+import type { IngestRequest } from "./types";
+
+/**
+ * Entry point of the ingest pipeline, shared by /api/ingest and the feed poller
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Uploaded file, saved in the blob store only once the capture turns out
+ * not to be a duplicate
+ */
+export interface UploadedFile {
+    data: Uint8Array;
+    fileName?: string;
+    fileType: string;
+}
+
+/**
+ * Where an ingested item came from
+ */
+export interface IngestOptions {
+    source?: string;        // Defaults to the input type
+    feedId?: string;        // Feed subscription that found the item
+    file?: UploadedFile;
+}
+
+/**
+ * Result of queueing a capture: a new placeholder and its job, or the
+ * existing signal the capture duplicates
+ */
+export type IngestOutcome =
+    | { duplicate: false; signal: Signal; job: WebhookJob }
+    | { duplicate: true; signal: Signal; policy: DuplicatePolicy };
+
+// ============================================================================
+// Queueing
+// ============================================================================
+
+/**
+ * Creates a processing placeholder signal and queues its ingest job
+ *
+ * URLs are canonicalized first (see lib/canonical), using the page HTML
+ * in `rawContent` when given; the job and processor receive the canonical
+ * URL and the URL as captured is kept as the signal's `originalUrl`.
+ *
+ * Captures whose URL, text or file matches an existing signal are not
+ * queued; the request's duplicate policy (see lib/dedup) is applied to
+ * the existing signal instead. An uploaded file is only written to the
+ * blob store for a new signal, so duplicates leave no blob behind.
+ *
+ * The caller decides when the job runs: routes use `after(() => runJobNow(job.id))`,
+ * background callers leave it to the job worker.
+ *
+ * @param request - Validated ingest request
+ * @param options - Source, feed and uploaded file of the item
+ * @returns Placeholder signal and queued job, or the duplicated signal
+ *
+ * @example
+ * ```ts
+ * const outcome = await queueIngest({ inputType: "url", url });
+ * if (!outcome.duplicate) after(() => runJobNow(outcome.job.id));
+ * ```
+ */
+export async function queueIngest(
+    request: IngestRequest,
+    options: IngestOptions = {}
+): Promise<IngestOutcome> {
+    const originalUrl = request.url;
+    if (originalUrl) {
+        request = { ...request, url: canonicalizeUrl(originalUrl, request.rawContent) ?? originalUrl };
+    }
+
+    const source = options.source ?? request.inputType;
+    const fingerprint = fingerprintRequest(request, options.file && blobKey(options.file.data));
+
+    const existing = await findDuplicateSignal(fingerprint);
+    if (existing) {
+        const policy = request.onDuplicate ?? DEFAULT_DUPLICATE_POLICY;
+        const signal = await applyDuplicatePolicy(existing, {
+            source,
+            sourceUrl: originalUrl,
+            title: request.title || request.fileName,
+            feedId: options.feedId,
+        }, policy);
+
+        return { duplicate: true, signal, policy };
+    }
+
+    const file = options.file && {
+        fileKey: await putBlob(options.file.data),
+        fileName: options.file.fileName,
+        fileType: options.file.fileType,
+        fileSize: options.file.data.length,
+    };
+
+    // Detect if it's a URL or text for initial title/source
+    const isUrl = request.inputType === "url" || request.inputType === "youtube";
+    const initialTitle = request.title
+        || request.fileName
+        || (isUrl ? "Processing URL..." : "Shared Note");
+
+    const signal = await prisma.signal.create({
+        data: {
+            title: initialTitle,
+            content: PROCESSING_PLACEHOLDER_CONTENT,
+            source,
+            sourceUrl: request.url,
+            originalUrl,
+            rawContent: request.content ?? request.rawContent,
+            status: SIGNAL_STATUS.PROCESSING,
+            events: initialSignalEvent(SIGNAL_STATUS.PROCESSING, options.feedId
+                ? { actor: EVENT_ACTORS.SYSTEM, reason: "Captured from feed" }
+                : { actor: EVENT_ACTORS.USER, reason: "Captured" }),
+            feedId: options.feedId,
+            urlFingerprint: fingerprint.urlFingerprint,
+            contentHash: fingerprint.contentHash,
+            ...file,
+        },
+    });
+
+    const job = await enqueueJob(WEBHOOK_NAMES.INGEST, {
+        signalId: signal.id,
+        request,
+    }, { signalId: signal.id });
+
+    return { duplicate: false, signal, job };
+}
@@ -0,0 +1,423 @@
+import { Prisma, type WebhookJob } from "@prisma/client";
+import prisma from "./prisma";
+import { getProcessor } from "./processors";
+import {
+    extractSignalSource,
+    hasExtractedContent,
+    markSignalProcessingFailed,
+    SignalNotProcessingError,
+    updateSignalWithN8nData,
+} from "./signals";
+import { resolveExtractedDuplicate } from "./dedup";
+import { recordScope, runInWorkspace } from "./ownership";
+import { tagArgs, withTagNames } from "./tags";
+import {
+    InvalidTransitionError,
+    initialInsightEvent,
+    markSignalsProcessed,
+    transitionInsight,
+} from "./lifecycle";
+import {
+    EVENT_ACTORS,
+    INSIGHT_STATUS,
+    JOB_BACKOFF_BASE_MS,
+    JOB_BACKOFF_MAX_MS,
+    JOB_BATCH_SIZE,
+    JOB_LOCK_TIMEOUT_MS,
+    JOB_MAX_ATTEMPTS,
+    JOB_STATUS,
+    WEBHOOK_NAMES,
+} from "./constants";
+import type { WebhookName } from "./constants";
+import type {
+    GenerateJobPayload,
+    IngestJobPayload,
+    JobPayloadMap,
+    PublishPayload,
+    WebhookResult,
+} from "./types";
+
+/**
+ * Durable job queue for pipeline stages (ingest, generate, publish)
+ *
+ * Each job runs its stage through the configured processor (n8n by default,
+ * see lib/processors). API routes enqueue a job and return immediately.
+ * Jobs are executed right after the response is sent, and failed attempts
+ * are retried by a worker
+ * (scripts/job_worker.ts or POST /api/jobs) with exponential backoff and
+ * jitter. After JOB_MAX_ATTEMPTS failures a job is moved to the dead-letter
+ * state and its signal or insight is marked as failed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Records a job can be linked to, so the UI can show its progress
+ */
+interface EnqueueOptions {
+    signalId?: string;
+    insightId?: string;
+    runAt?: Date;
+}
+
+type JobHandlers = {
+    [K in WebhookName]: {
+        run: (payload: JobPayloadMap[K]) => Promise<WebhookResult>;
+        onDead?: (payload: JobPayloadMap[K], error: string) => Promise<void>;
+    };
+};
+
+/**
+ * Job fields to include with a signal or insight to show its latest job
+ */
+export const latestJobArgs = {
+    orderBy: { createdAt: "desc" },
+    take: 1,
+    select: {
+        id: true,
+        type: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        nextRunAt: true,
+        lastError: true,
+    },
+} satisfies Prisma.Signal$jobsArgs;
+
+// ============================================================================
+// Enqueueing
+// ============================================================================
+
+/**
+ * Persists a new job for a pipeline stage
+ *
+ * @param type - Stage the job runs
+ * @param payload - Arguments for the stage
+ * @param options - Linked signal/insight and an optional earliest run time
+ * @returns Created job record
+ *
+ * @example
+ * ```ts
+ * const job = await enqueueJob("generate", { signalIds: ["clx..."] });
+ * after(() => runJobNow(job.id));
+ * ```
+ */
+export async function enqueueJob<T extends WebhookName>(
+    type: T,
+    payload: JobPayloadMap[T],
+    options: EnqueueOptions = {}
+): Promise<WebhookJob> {
+    return await prisma.webhookJob.create({
+        data: {
+            type,
+            payload: payload as unknown as Prisma.InputJsonObject,
+            maxAttempts: JOB_MAX_ATTEMPTS,
+            nextRunAt: options.runAt ?? new Date(),
+            signalId: options.signalId,
+            insightId: options.insightId,
+        },
+    });
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * Uses exponential backoff capped at JOB_BACKOFF_MAX_MS with "equal jitter":
+ * half of the delay is fixed, the other half is random, so retries from many
+ * failed jobs do not hit n8n at the same moment.
+ *
+ * @param attempt - Number of attempts made so far (1-based)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffMs(attempt: number): number {
+    const exponential = Math.min(JOB_BACKOFF_MAX_MS, JOB_BACKOFF_BASE_MS * 2 ** (attempt - 1));
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Runs a single job immediately if it is still pending
+ *
+ * Intended to be called from `after()` right after a route enqueues a job.
+ *
+ * @param id - Job ID
+ */
+export async function runJobNow(id: string): Promise<void> {
+    const job = await prisma.webhookJob.findUnique({ where: { id } });
+    if (!job || job.status !== JOB_STATUS.PENDING) return;
+
+    if (await claimJob(job)) {
+        await executeJob(job);
+    }
+}
+
+/**
+ * Runs all jobs that are due, including abandoned running jobs
+ *
+ * @param limit - Maximum number of jobs to run in this pass
+ * @returns Number of jobs that were run
+ */
+export async function processDueJobs(limit = JOB_BATCH_SIZE): Promise<number> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+
+    const candidates = await prisma.webhookJob.findMany({
+        where: {
+            OR: [
+                { status: JOB_STATUS.PENDING, nextRunAt: { lte: now } },
+                { status: JOB_STATUS.RUNNING, lockedAt: { lt: staleBefore } },
+            ],
+        },
+        orderBy: { nextRunAt: "asc" },
+        take: limit,
+    });
+
+    let processed = 0;
+    for (const job of candidates) {
+        if (await claimJob(job)) {
+            await executeJob(job);
+            processed++;
+        }
+    }
+
+    return processed;
+}
+
+/**
+ * Moves a dead job back to pending with a fresh attempt budget
+ *
+ * @param id - Job ID
+ * @returns Updated job, or null if the job is not in the dead-letter state
+ */
+export async function retryDeadJob(id: string): Promise<WebhookJob | null> {
+    const { count } = await prisma.webhookJob.updateMany({
+        where: { id, status: JOB_STATUS.DEAD },
+        data: {
+            status: JOB_STATUS.PENDING,
+            attempts: 0,
+            nextRunAt: new Date(),
+        },
+    });
+
+    return count > 0 ? await prisma.webhookJob.findUnique({ where: { id } }) : null;
+}
+
+/**
+ * Atomically marks a job as running
+ *
+ * The `updatedAt` check makes the claim fail if another worker touched
+ * the job since it was read.
+ *
+ * @returns true if this worker owns the job
+ */
+async function claimJob(job: WebhookJob): Promise<boolean> {
+    const { count } = await prisma.webhookJob.updateMany({
+        where: { id: job.id, status: job.status, updatedAt: job.updatedAt },
+        data: { status: JOB_STATUS.RUNNING, lockedAt: new Date() },
+    });
+    return count > 0;
+}
+
+/**
+ * Executes a claimed job and records the outcome
+ *
+ * The handler runs in the job's workspace, so the records it creates
+ * belong to the workspace it was queued in.
+ */
+async function executeJob(job: WebhookJob): Promise<void> {
+    const attempts = job.attempts + 1;
+    const handler = JOB_HANDLERS[job.type as WebhookName];
+
+    let result: WebhookResult;
+    if (!handler) {
+        result = { success: false, error: `Unknown job type: ${job.type}` };
+    } else {
+        try {
+            result = await runInWorkspace(recordScope(job), () => handler.run(job.payload as never));
+        } catch (error) {
+            result = {
+                success: false,
+                error: error instanceof Error ? error.message : "Job failed",
+            };
+        }
+    }
+
+    if (result.success) {
+        await prisma.webhookJob.update({
+            where: { id: job.id },
+            data: {
+                status: JOB_STATUS.SUCCEEDED,
+                attempts,
+                lockedAt: null,
+                lastError: null,
+            },
+        });
+        return;
+    }
+
+    const error = result.error ?? "Unknown error";
+
+    if (attempts >= job.maxAttempts || !handler) {
+        console.error(`Job ${job.id} (${job.type}) moved to dead-letter after ${attempts} attempts:`, error);
+        await prisma.webhookJob.update({
+            where: { id: job.id },
+            data: {
+                status: JOB_STATUS.DEAD,
+                attempts,
+                lockedAt: null,
+                lastError: error,
+            },
+        });
+        await runInWorkspace(recordScope(job), async () => handler?.onDead?.(job.payload as never, error));
+        return;
+    }
+
+    const delay = computeBackoffMs(attempts);
+    console.warn(`Job ${job.id} (${job.type}) failed attempt ${attempts}/${job.maxAttempts}, retrying in ${Math.round(delay / 1000)}s:`, error);
+    await prisma.webhookJob.update({
+        where: { id: job.id },
+        data: {
+            status: JOB_STATUS.PENDING,
+            attempts,
+            lockedAt: null,
+            lastError: error,
+            nextRunAt: new Date(Date.now() + delay),
+        },
+    });
+}
+
+// ============================================================================
+// Job Handlers
+// ============================================================================
+
+const JOB_HANDLERS: JobHandlers = {
+    [WEBHOOK_NAMES.INGEST]: {
+        run: runIngestJob,
+        onDead: async ({ signalId }, error) => {
+            await markSignalProcessingFailed(signalId, error);
+        },
+    },
+    [WEBHOOK_NAMES.GENERATE]: {
+        run: runGenerateJob,
+    },
+    [WEBHOOK_NAMES.PUBLISH]: {
+        run: runPublishJob,
+        onDead: async ({ insightId }, error) => {
+            // The preview stays, so publishing can be retried as is
+            try {
+                await transitionInsight(insightId, INSIGHT_STATUS.PUBLISH_FAILED, {
+                    actor: EVENT_ACTORS.SYSTEM,
+                    reason: `Publishing failed: ${error}`,
+                });
+            } catch (transitionError) {
+                // A confirmation settled the insight in the meantime
+                if (!(transitionError instanceof InvalidTransitionError)) throw transitionError;
+            }
+        },
+    },
+};
+
+/**
+ * Runs the ingest stage and stores a synchronous result
+ *
+ * Url, file and youtube inputs are extracted locally first, so the processor
+ * receives Markdown (or the transcript) and the signal is readable even if
+ * processing fails. Extracted content that is already a signal is handled
+ * as a duplicate and never reaches the processor.
+ */
+async function runIngestJob({ signalId, request }: IngestJobPayload): Promise<WebhookResult> {
+    const extracted = await extractSignalSource(signalId, request);
+
+    const duplicateOf = await resolveExtractedDuplicate(signalId, request);
+    if (duplicateOf) {
+        console.log(`Signal ${signalId} duplicates ${duplicateOf.id}, skipping processing`);
+        return { success: true, data: { status: "duplicate", signalId: duplicateOf.id } };
+    }
+
+    const processor = await getProcessor(WEBHOOK_NAMES.INGEST);
+    const result = await processor.ingest(signalId, extracted);
+
+    if (result.success && result.data) {
+        if (hasExtractedContent(result.data)) {
+            try {
+                await updateSignalWithN8nData(signalId, result.data, request);
+            } catch (error) {
+                // A retried job finishing after the signal was already processed
+                if (!(error instanceof SignalNotProcessingError)) throw error;
+                console.warn(error.message);
+            }
+        } else {
+            console.log(`${processor.name} returned confirmation, continuing async:`, JSON.stringify(result.data));
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Runs the generate stage on the current state of the selected signals
+ * and stores a synchronously generated insight
+ */
+async function runGenerateJob({ signalIds }: GenerateJobPayload): Promise<WebhookResult> {
+    const signals = await prisma.signal.findMany({
+        where: { id: { in: signalIds } },
+        include: { tags: tagArgs },
+    });
+
+    if (signals.length === 0) {
+        return { success: false, error: "No signals found for the provided IDs" };
+    }
+
+    const processor = await getProcessor(WEBHOOK_NAMES.GENERATE);
+    const result = await processor.generate(signals.map(withTagNames));
+
+    if (result.success && result.insight) {
+        await prisma.insight.create({
+            data: {
+                coreInsight: result.insight.coreInsight,
+                preview: result.insight.preview || result.insight.coreInsight,
+                previewPlatform: result.insight.previewPlatform || "linkedin",
+                status: INSIGHT_STATUS.PREVIEWING,
+                events: initialInsightEvent(INSIGHT_STATUS.PREVIEWING, {
+                    actor: EVENT_ACTORS.PROCESSOR,
+                    reason: "Generated from signals",
+                }),
+                signals: {
+                    connect: signals.map((s) => ({ id: s.id })),
+                },
+            },
+        });
+
+        await markSignalsProcessed(signalIds, {
+            actor: EVENT_ACTORS.PROCESSOR,
+            reason: "Insight generated",
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Runs the publish stage and stores a synchronous confirmation
+ */
+async function runPublishJob(payload: PublishPayload): Promise<WebhookResult> {
+    const processor = await getProcessor(WEBHOOK_NAMES.PUBLISH);
+    const result = await processor.publish(payload);
+
+    if (result.success && result.data?.status === "success" && result.data.postUrl) {
+        await transitionInsight(payload.insightId, INSIGHT_STATUS.PUBLISHED, {
+            actor: EVENT_ACTORS.PROCESSOR,
+            reason: "Published",
+        }, {
+            publishedUrl: result.data.postUrl,
+            publishedAt: new Date(),
+        });
+    }
+
+    return result;
+}
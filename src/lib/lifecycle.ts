@@ -0,0 +1,340 @@
+import type { Insight, InsightEvent, Prisma, Signal, SignalEvent, WebhookJob } from "@prisma/client";
+import prisma from "./prisma";
+import { enqueueJob } from "./jobs";
+import { recordScope, runInWorkspace } from "./ownership";
+import {
+    EVENT_ACTORS,
+    INSIGHT_STATUS,
+    INSIGHT_TRANSITIONS,
+    SIGNAL_STATUS,
+    SIGNAL_TRANSITIONS,
+    WEBHOOK_NAMES,
+} from "./constants";
+import type { EventActor, InsightStatus, SignalStatus } from "./constants";
+
+/**
+ * Signal and insight lifecycles
+ *
+ * Status changes go through transitionSignal and transitionInsight, which
+ * allow only the moves in SIGNAL_TRANSITIONS and INSIGHT_TRANSITIONS,
+ * record each one as an event and run the side effects of entering the
+ * new status.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Who changed the status, and why
+ */
+export interface TransitionContext {
+    actor: EventActor;
+    reason?: string;
+}
+
+/**
+ * Outcome of a status change
+ */
+export interface SignalTransition {
+    signal: Signal;
+    event: SignalEvent | null;      // null if the signal already had the status
+    job?: WebhookJob;               // Job queued on entering the status
+}
+
+/**
+ * Outcome of an insight status change
+ */
+export interface InsightTransition {
+    insight: Insight;
+    event: InsightEvent | null;     // null if the insight already had the status
+    job?: WebhookJob;               // Job queued on entering the status
+}
+
+/**
+ * Thrown when a signal or insight is asked to move to a status it cannot reach
+ */
+export class InvalidTransitionError extends Error {
+    constructor(
+        public readonly entity: "signal" | "insight",
+        public readonly from: string,
+        public readonly to: string
+    ) {
+        super(`Cannot move ${entity === "insight" ? "an" : "a"} ${entity} from ${from} to ${to}`);
+        this.name = "InvalidTransitionError";
+    }
+}
+
+// ============================================================================
+// Signal Transitions
+// ============================================================================
+
+/**
+ * Side effects of entering a status, run after the change is stored
+ */
+const SIGNAL_ENTRY_EFFECTS: Partial<Record<SignalStatus, (signal: Signal) => Promise<WebhookJob | void>>> = {
+    // Reviewed signals are turned into an insight; they become processed once it exists
+    [SIGNAL_STATUS.REVIEWED]: async (signal) => await enqueueJob(WEBHOOK_NAMES.GENERATE, {
+        signalIds: [signal.id],
+    }, { signalId: signal.id }),
+};
+
+/**
+ * Checks whether a value is a signal status
+ */
+export function isSignalStatus(value: unknown): value is SignalStatus {
+    return (Object.values(SIGNAL_STATUS) as unknown[]).includes(value);
+}
+
+/**
+ * Checks whether a signal may move between two statuses
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns true if the transition is allowed
+ */
+export function canTransition(from: SignalStatus, to: SignalStatus): boolean {
+    return SIGNAL_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Moves a signal to a new status
+ *
+ * Moving a signal to the status it already has is a no-op without an event.
+ *
+ * @param id - Signal ID
+ * @param to - New status
+ * @param context - Actor and reason recorded with the event
+ * @returns The transition, or null if the signal does not exist
+ * @throws InvalidTransitionError if the status cannot be reached from the current one
+ *
+ * @example
+ * await transitionSignal(id, "archived", { actor: "user", reason: "Not relevant" });
+ */
+export async function transitionSignal(
+    id: string,
+    to: SignalStatus,
+    context: TransitionContext
+): Promise<SignalTransition | null> {
+    const current = await prisma.signal.findUnique({ where: { id } });
+    if (!current) return null;
+
+    const from = current.status as SignalStatus;
+    if (from === to) return { signal: current, event: null };
+    if (!canTransition(from, to)) throw new InvalidTransitionError("signal", from, to);
+
+    const stored = await prisma.$transaction(async (tx) => {
+        // Only move from the status that was checked, in case it changed meanwhile
+        const { count } = await tx.signal.updateMany({
+            where: { id, status: from },
+            data: { status: to },
+        });
+        if (count === 0) return null;
+
+        const event = await tx.signalEvent.create({
+            data: { signalId: id, fromStatus: from, toStatus: to, ...context },
+        });
+        const signal = await tx.signal.findUniqueOrThrow({ where: { id } });
+
+        return { signal, event };
+    });
+
+    if (!stored) {
+        // Another request changed the status first; retry from the new one
+        return await transitionSignal(id, to, context);
+    }
+
+    try {
+        const job = await SIGNAL_ENTRY_EFFECTS[to]?.(stored.signal);
+        return { ...stored, ...(job ? { job } : {}) };
+    } catch (error) {
+        // The status change stands; its follow-up can be retried by hand
+        console.error(`Failed to run ${to} entry effect for signal ${id}:`, error);
+        return stored;
+    }
+}
+
+/**
+ * Moves the reviewed signals among the given ones to processed, once an
+ * insight was generated from them
+ *
+ * @param signalIds - Signals the insight was generated from
+ * @param context - Actor and reason recorded with the events
+ */
+export async function markSignalsProcessed(signalIds: string[], context: TransitionContext): Promise<void> {
+    const reviewed = await prisma.signal.findMany({
+        where: { id: { in: signalIds }, status: SIGNAL_STATUS.REVIEWED },
+        select: { id: true },
+    });
+
+    for (const { id } of reviewed) {
+        try {
+            await transitionSignal(id, SIGNAL_STATUS.PROCESSED, context);
+        } catch (error) {
+            // The signal was moved elsewhere in the meantime
+            if (!(error instanceof InvalidTransitionError)) throw error;
+        }
+    }
+}
+
+/**
+ * Builds the nested write that records the status a new signal starts with
+ *
+ * @param status - Status the signal is created with
+ * @param context - Actor and reason of the capture
+ * @returns Value for `events` in `prisma.signal.create`
+ *
+ * @example
+ * await prisma.signal.create({ data: { ..., status, events: initialSignalEvent(status, { actor: "user" }) } });
+ */
+export function initialSignalEvent(
+    status: SignalStatus,
+    context: TransitionContext
+): Prisma.SignalEventCreateNestedManyWithoutSignalInput {
+    return { create: { fromStatus: null, toStatus: status, ...context } };
+}
+
+// ============================================================================
+// Insight Transitions
+// ============================================================================
+
+/**
+ * Side effects of entering an insight status, run after the change is stored
+ */
+const INSIGHT_ENTRY_EFFECTS: Partial<Record<InsightStatus, (insight: Insight) => Promise<WebhookJob | void>>> = {
+    // The current copy is published, including edits made while scheduled
+    [INSIGHT_STATUS.PUBLISHING]: async (insight) => await enqueueJob(WEBHOOK_NAMES.PUBLISH, {
+        insightId: insight.id,
+        formattedContent: insight.preview || insight.coreInsight,
+        platform: insight.previewPlatform || "linkedin",
+    }, { insightId: insight.id }),
+};
+
+/**
+ * Checks whether a value is an insight status
+ */
+export function isInsightStatus(value: unknown): value is InsightStatus {
+    return (Object.values(INSIGHT_STATUS) as unknown[]).includes(value);
+}
+
+/**
+ * Checks whether an insight's copy can still be edited
+ *
+ * @param status - Current status
+ * @returns false while publishing and once published
+ */
+export function isInsightEditable(status: string): boolean {
+    return status !== INSIGHT_STATUS.PUBLISHING && status !== INSIGHT_STATUS.PUBLISHED;
+}
+
+/**
+ * Moves an insight to a new status
+ *
+ * `data` is written together with the status, e.g. the published URL.
+ * Moving an insight to the status it already has only writes `data`.
+ *
+ * @param id - Insight ID
+ * @param to - New status
+ * @param context - Actor and reason recorded with the event
+ * @param data - Fields to update along with the status
+ * @returns The transition, or null if the insight does not exist
+ * @throws InvalidTransitionError if the status cannot be reached from the current one
+ *
+ * @example
+ * await transitionInsight(id, "scheduled", { actor: "user" }, { scheduledFor });
+ */
+export async function transitionInsight(
+    id: string,
+    to: InsightStatus,
+    context: TransitionContext,
+    data: Prisma.InsightUpdateManyMutationInput = {}
+): Promise<InsightTransition | null> {
+    const current = await prisma.insight.findUnique({ where: { id } });
+    if (!current) return null;
+
+    const from = current.status as InsightStatus;
+    if (from === to) {
+        const insight = Object.keys(data).length > 0
+            ? await prisma.insight.update({ where: { id }, data })
+            : current;
+        return { insight, event: null };
+    }
+    if (!INSIGHT_TRANSITIONS[from]?.includes(to)) throw new InvalidTransitionError("insight", from, to);
+
+    const stored = await prisma.$transaction(async (tx) => {
+        // Only move from the status that was checked, in case it changed meanwhile
+        const { count } = await tx.insight.updateMany({
+            where: { id, status: from },
+            data: { ...data, status: to },
+        });
+        if (count === 0) return null;
+
+        const event = await tx.insightEvent.create({
+            data: { insightId: id, fromStatus: from, toStatus: to, ...context },
+        });
+        const insight = await tx.insight.findUniqueOrThrow({ where: { id } });
+
+        return { insight, event };
+    });
+
+    if (!stored) {
+        // Another request changed the status first; retry from the new one
+        return await transitionInsight(id, to, context, data);
+    }
+
+    try {
+        const job = await INSIGHT_ENTRY_EFFECTS[to]?.(stored.insight);
+        return { ...stored, ...(job ? { job } : {}) };
+    } catch (error) {
+        console.error(`Failed to run ${to} entry effect for insight ${id}:`, error);
+        return stored;
+    }
+}
+
+/**
+ * Starts publishing scheduled insights whose time has come
+ *
+ * Called by the job worker and POST /api/jobs before due jobs run, so the
+ * publish jobs queued here go out in the same pass. Each insight is
+ * published in its own workspace, with that workspace's publish webhook.
+ *
+ * @returns Number of insights moved to publishing
+ */
+export async function publishDueInsights(): Promise<number> {
+    const due = await prisma.insight.findMany({
+        where: { status: INSIGHT_STATUS.SCHEDULED, scheduledFor: { lte: new Date() } },
+        select: { id: true, workspaceId: true, ownerId: true },
+    });
+
+    let started = 0;
+    for (const insight of due) {
+        try {
+            const transition = await runInWorkspace(recordScope(insight), () =>
+                transitionInsight(insight.id, INSIGHT_STATUS.PUBLISHING, {
+                    actor: EVENT_ACTORS.SYSTEM,
+                    reason: "Scheduled time reached",
+                })
+            );
+            if (transition?.event) started++;
+        } catch (error) {
+            // Unscheduled or published by hand in the meantime
+            if (!(error instanceof InvalidTransitionError)) throw error;
+        }
+    }
+
+    return started;
+}
+
+/**
+ * Builds the nested write that records the status a new insight starts with
+ *
+ * @param status - Status the insight is created with
+ * @param context - Actor and reason of the creation
+ * @returns Value for `events` in `prisma.insight.create`
+ */
+export function initialInsightEvent(
+    status: InsightStatus,
+    context: TransitionContext
+): Prisma.InsightEventCreateNestedManyWithoutInsightInput {
+    return { create: { fromStatus: null, toStatus: status, ...context } };
+}
@@ -0,0 +1,187 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { latestJobArgs } from "./jobs";
+import { tagArgs, withTagNames } from "./tags";
+import { expandTopic } from "./taxonomy";
+import { encodeCursor } from "./pagination";
+import type { CursorPosition } from "./pagination";
+import { SIGNAL_INCLUDES, SIGNAL_SORTS, SORT_ORDERS } from "./constants";
+import type { SignalInclude, SignalSort, SignalStatus, SortOrder } from "./constants";
+import type { SignalsResponse } from "./types";
+
+/**
+ * Signal listing for GET /api/signals
+ *
+ * Pages are fetched by keyset: each page starts after the sort key and ID
+ * of the previous page's last signal, so pages stay stable while new
+ * signals arrive and deep pages cost the same as the first.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filters, sort and page of a signal listing
+ */
+export interface SignalListParams {
+    statuses: SignalStatus[];       // Any of these statuses (all when empty)
+    source?: string;
+    feedId?: string;
+    tag?: string;                   // Tag name or alias, including narrower topics
+    createdFrom?: Date;             // Created at or after
+    createdTo?: Date;               // Created before
+    hasHighlights?: boolean;
+    hasThoughts?: boolean;
+    sort: SignalSort;
+    order: SortOrder;
+    include: SignalInclude;
+    limit: number;
+    cursor?: CursorPosition;        // Position of the previous page's last signal
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+/**
+ * Signal column behind each sort
+ */
+const SORT_FIELDS = {
+    [SIGNAL_SORTS.CREATED]: "createdAt",
+    [SIGNAL_SORTS.UPDATED]: "updatedAt",
+    [SIGNAL_SORTS.TITLE]: "title",
+} as const;
+
+/**
+ * Default order of each sort: newest first for dates, A to Z for titles
+ */
+export const DEFAULT_SORT_ORDERS: Record<SignalSort, SortOrder> = {
+    [SIGNAL_SORTS.CREATED]: SORT_ORDERS.DESC,
+    [SIGNAL_SORTS.UPDATED]: SORT_ORDERS.DESC,
+    [SIGNAL_SORTS.TITLE]: SORT_ORDERS.ASC,
+};
+
+/**
+ * Lists a page of signals
+ *
+ * Highlights and thoughts are always counted; their records are only
+ * loaded with `include: "relations"`.
+ *
+ * @param params - Filters, sort and page
+ * @returns Signals of the page, total matches and the next page's cursor
+ *
+ * @example
+ * const page = await listSignals({ statuses: ["unread"], sort: "created", order: "desc", include: "counts", limit: 50 });
+ * // page.nextCursor, decoded, continues the listing as `cursor`
+ */
+export async function listSignals(params: SignalListParams): Promise<SignalsResponse> {
+    const where = await filterConditions(params);
+    const field = SORT_FIELDS[params.sort];
+    const relations = params.include === SIGNAL_INCLUDES.RELATIONS;
+
+    const [signals, total] = await Promise.all([
+        prisma.signal.findMany({
+            where: params.cursor ? { AND: [where, afterCursor(field, params.order, params.cursor)] } : where,
+            orderBy: [{ [field]: params.order }, { id: params.order }],
+            // One extra row tells whether there is a next page
+            take: params.limit + 1,
+            include: {
+                highlights: relations,
+                thoughts: relations,
+                tags: tagArgs,
+                jobs: latestJobArgs,
+                _count: { select: { highlights: true, thoughts: true } },
+            },
+        }),
+        prisma.signal.count({ where }),
+    ]);
+
+    const page = signals.slice(0, params.limit);
+    const last = page[page.length - 1];
+    const nextCursor = signals.length > params.limit && last
+        ? encodeCursor({
+            sort: cursorSort(params.sort, params.order),
+            value: field === "title" ? last.title : last[field].toISOString(),
+            id: last.id,
+        })
+        : null;
+
+    return {
+        signals: page.map(({ _count, highlights, thoughts, ...signal }) => ({
+            ...withTagNames(signal),
+            ...(relations ? { highlights, thoughts } : {}),
+            highlightCount: _count.highlights,
+            thoughtCount: _count.thoughts,
+        })),
+        total,
+        limit: params.limit,
+        nextCursor,
+    };
+}
+
+/**
+ * Checks that a cursor was issued for this sort and holds a usable sort key
+ *
+ * @param cursor - Decoded cursor
+ * @param sort - Sort of the request
+ * @param order - Order of the request
+ * @returns true if the cursor can continue this listing
+ */
+export function isCursorForSort(cursor: CursorPosition, sort: SignalSort, order: SortOrder): boolean {
+    if (cursor.sort !== cursorSort(sort, order)) return false;
+    return sort === SIGNAL_SORTS.TITLE || !Number.isNaN(Date.parse(cursor.value));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Identifies a sort inside cursors
+ */
+function cursorSort(sort: SignalSort, order: SortOrder): string {
+    return `${sort}:${order}`;
+}
+
+/**
+ * Builds the where clause of the filters
+ */
+async function filterConditions(params: SignalListParams): Promise<Prisma.SignalWhereInput> {
+    const conditions: Prisma.SignalWhereInput[] = [];
+
+    if (params.statuses.length > 0) conditions.push({ status: { in: params.statuses } });
+    if (params.source) conditions.push({ source: params.source });
+    if (params.feedId) conditions.push({ feedId: params.feedId });
+    if (params.tag) conditions.push({ tags: { some: { id: { in: await expandTopic(params.tag) } } } });
+    if (params.createdFrom) conditions.push({ createdAt: { gte: params.createdFrom } });
+    if (params.createdTo) conditions.push({ createdAt: { lt: params.createdTo } });
+
+    if (params.hasHighlights !== undefined) {
+        conditions.push(params.hasHighlights ? { highlights: { some: {} } } : { highlights: { none: {} } });
+    }
+    if (params.hasThoughts !== undefined) {
+        conditions.push(params.hasThoughts ? { thoughts: { some: {} } } : { thoughts: { none: {} } });
+    }
+
+    return { AND: conditions };
+}
+
+/**
+ * Builds the where clause for signals after the cursor position in sort order
+ */
+function afterCursor(
+    field: typeof SORT_FIELDS[SignalSort],
+    order: SortOrder,
+    cursor: CursorPosition
+): Prisma.SignalWhereInput {
+    const value = field === "title" ? cursor.value : new Date(cursor.value);
+    const beyond = order === SORT_ORDERS.DESC ? "lt" : "gt";
+
+    return {
+        OR: [
+            { [field]: { [beyond]: value } },
+            { [field]: value, id: { [beyond]: cursor.id } },
+        ],
+    };
+}
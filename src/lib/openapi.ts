@@ -0,0 +1,1392 @@
+import { z } from "zod";
+import packageJson from "../../package.json";
+import {
+    API_TOKEN_SCOPES,
+    DUPLICATE_POLICIES,
+    HIGHLIGHT_CATEGORIES,
+    FILE_MAX_BYTES,
+    INSIGHT_STATUS,
+    PERMISSIONS,
+    SEARCH_TYPES,
+    SESSION_COOKIE,
+    SIGNATURE_HEADERS,
+    SIGNATURE_MAX_FUTURE_SKEW_SECONDS,
+    SIGNATURE_TOLERANCE_SECONDS,
+    TOPIC_SUGGESTION_STATUS,
+    WEBHOOK_NAMES,
+    WORKSPACE_HEADER,
+    WORKSPACE_ROLES,
+} from "./constants";
+import type { ApiTokenScope, Permission, WebhookName } from "./constants";
+import {
+    apiTokenCreateSchema,
+    confirmPayloadSchema,
+    deliveryListQuerySchema,
+    feedCreateSchema,
+    feedPollSchema,
+    feedUpdateSchema,
+    highlightCreateSchema,
+    highlightListQuerySchema,
+    highlightUpdateSchema,
+    idQuerySchema,
+    ingestRequestSchema,
+    insightCreateSchema,
+    insightGenerateSchema,
+    insightListQuerySchema,
+    insightUpdateSchema,
+    jobListQuerySchema,
+    jobRetrySchema,
+    jobRunSchema,
+    loginLinkQuerySchema,
+    loginLinkRequestSchema,
+    loginSchema,
+    memberAddSchema,
+    memberRemoveQuerySchema,
+    memberRoleSchema,
+    previewPayloadSchema,
+    processorConfigSchema,
+    relatedQuerySchema,
+    searchQuerySchema,
+    signalListQuerySchema,
+    signalReceiveSchema,
+    signalStatusUpdateSchema,
+    signalUpdateSchema,
+    signupSchema,
+    similarQuerySchema,
+    suggestionResolveSchema,
+    tagAliasCreateSchema,
+    tagAliasDeleteQuerySchema,
+    tagCreateSchema,
+    tagListQuerySchema,
+    tagMergeSchema,
+    tagUpdateSchema,
+    taxonomyQuerySchema,
+    thoughtCreateSchema,
+    thoughtListQuerySchema,
+    webhookConfigSchema,
+    webhookDeleteQuerySchema,
+    webhookRotateSchema,
+    workspaceSchema,
+    workspaceSwitchSchema,
+} from "./schemas";
+import type { ValidationErrorResponse } from "./validation";
+import type {
+    ApiTokenSummary,
+    HighlightSummary,
+    HighlightsResponse,
+    JobSummary,
+    RelatedResponse,
+    SearchResponse,
+    SessionResponse,
+    SignalWithParsedTags,
+    SignalsResponse,
+    TagWithCount,
+    TagsResponse,
+    TaxonomyResponse,
+    WorkspaceMemberSummary,
+    WorkspaceSummary,
+} from "./types";
+
+/**
+ * OpenAPI document of the API
+ *
+ * Request bodies and query parameters are converted from the schemas the
+ * routes validate with (lib/schemas). Response schemas are declared here
+ * against the response types of lib/types, so they fail to compile when
+ * a type changes. Served at /api/openapi.json and browsed at /api-docs.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JsonSchema = Record<string, unknown>;
+
+export type HttpMethod = "get" | "post" | "patch" | "delete";
+
+/**
+ * Who may call an operation: signed-in users, signed-in users and the
+ * service token, or anyone
+ */
+type Access = "user" | "service" | "public";
+
+/**
+ * Documented response of an operation
+ */
+interface ResponseSpec {
+    description: string;
+    schema?: z.ZodType;             // JSON body; omitted for bodies without a schema
+    contentType?: string;           // Default: application/json
+}
+
+/**
+ * One method of one route
+ */
+interface ApiOperation {
+    method: HttpMethod;
+    path: string;                   // OpenAPI path, e.g. /api/signals/{id}
+    tag: string;
+    summary: string;
+    description?: string;
+    query?: z.ZodObject;
+    body?: z.ZodType;
+    upload?: z.ZodObject;           // multipart/form-data alternative to the JSON body
+    signedBy?: WebhookName;         // Callback signed with this webhook's secret
+    access?: Access;                // Default: "user"; signed callbacks are "public"
+    permission?: Permission | null; // Needed in the workspace; default as in withAuth: read for GET, edit otherwise; null for none
+    scopes?: ApiTokenScope[];       // API token scopes accepted; default as in withAuth: read for GET, signals:write otherwise
+    responses: Record<number, ResponseSpec>;
+}
+
+/**
+ * Request or response body by content type
+ */
+export type OpenApiContent = Record<string, { schema: JsonSchema }>;
+
+/**
+ * Path, query or header parameter
+ */
+export interface OpenApiParameter {
+    name: string;
+    in: "path" | "query" | "header";
+    required: boolean;
+    description?: string;
+    schema: JsonSchema;
+}
+
+/**
+ * Operation in the document
+ */
+export interface OpenApiOperation {
+    tags: string[];
+    summary: string;
+    description?: string;
+    operationId: string;
+    parameters: OpenApiParameter[];
+    requestBody?: { required: boolean; content: OpenApiContent };
+    responses: Record<string, { description: string; content?: OpenApiContent }>;
+    security: Record<string, string[]>[];   // Empty for public operations; {} when a signature suffices
+}
+
+/**
+ * OpenAPI 3.1 document, as far as it is built here
+ */
+export interface OpenApiDocument {
+    openapi: "3.1.0";
+    info: { title: string; version: string; description: string };
+    tags: { name: string; description: string }[];
+    paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+    components: { securitySchemes: Record<string, Record<string, string>> };
+}
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+const dateTime = z.iso.datetime();
+
+const errorResponseSchema = z.object({
+    error: z.string(),
+});
+
+const validationErrorResponseSchema: z.ZodType<ValidationErrorResponse> = z.object({
+    error: z.string().describe("All issues in one line, for display"),
+    issues: z.array(z.object({
+        field: z.string().describe("Dotted path, e.g. signalIds.0; empty for the whole input"),
+        message: z.string(),
+    })),
+});
+
+const successResponseSchema = z.object({
+    success: z.literal(true),
+});
+
+const record = (description: string) => z.looseObject({}).describe(description);
+
+const jobSummarySchema: z.ZodType<JobSummary> = z.object({
+    id: z.string(),
+    type: z.enum(WEBHOOK_NAMES),
+    status: z.string(),
+    attempts: z.number().int(),
+    maxAttempts: z.number().int(),
+    nextRunAt: dateTime,
+    lastError: z.string().nullable(),
+});
+
+const signalSummarySchema: z.ZodType<SignalWithParsedTags> = z.object({
+    id: z.string(),
+    title: z.string(),
+    content: z.string(),
+    summary: z.string().nullable(),
+    source: z.string().nullable(),
+    sourceUrl: z.string().nullable(),
+    author: z.string().nullable().optional(),
+    publishedAt: dateTime.nullable().optional(),
+    imageUrl: z.string().nullable().optional(),
+    rawContent: z.string().nullable().optional(),
+    tags: z.array(z.string()).describe("Tag names"),
+    status: z.string(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    highlights: z.array(z.looseObject({ id: z.string() })).optional().describe("With include=relations"),
+    thoughts: z.array(z.looseObject({ id: z.string() })).optional().describe("With include=relations"),
+    highlightCount: z.number().int().optional(),
+    thoughtCount: z.number().int().optional(),
+    jobs: z.array(jobSummarySchema).optional().describe("Latest outbound job, if any"),
+});
+
+const signalsResponseSchema: z.ZodType<SignalsResponse> = z.object({
+    signals: z.array(signalSummarySchema),
+    total: z.number().int().describe("Signals matching the filters, across all pages"),
+    limit: z.number().int(),
+    nextCursor: z.string().nullable().describe("Pass as cursor for the next page; null on the last page"),
+});
+
+const highlightSummarySchema: z.ZodType<HighlightSummary> = z.object({
+    id: z.string(),
+    text: z.string(),
+    note: z.string().nullable(),
+    prefix: z.string().nullable().describe("Text just before the highlight in the content"),
+    suffix: z.string().nullable().describe("Text just after the highlight in the content"),
+    startPos: z.number().int().nullable(),
+    endPos: z.number().int().nullable(),
+    orphaned: z.boolean().describe("The text is no longer in the signal's content"),
+    category: z.enum(HIGHLIGHT_CATEGORIES).nullable(),
+    signalId: z.string(),
+    sectionId: z.string().nullable(),
+    startTime: z.number().nullable(),
+    createdAt: dateTime,
+    section: z.object({ kind: z.string(), label: z.string() }).nullable().optional(),
+});
+
+const highlightsResponseSchema: z.ZodType<HighlightsResponse> = z.object({
+    highlights: z.array(z.intersection(highlightSummarySchema, z.object({
+        signal: z.object({
+            id: z.string(),
+            title: z.string(),
+            source: z.string().nullable(),
+            sourceUrl: z.string().nullable(),
+            tags: z.array(z.string()),
+        }),
+    }))),
+    total: z.number().int().describe("Highlights matching the filters, across all pages"),
+    limit: z.number().int(),
+    nextCursor: z.string().nullable().describe("Pass as cursor for the next page; null on the last page"),
+});
+
+const tagSchema: z.ZodType<TagWithCount> = z.object({
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    color: z.string().nullable(),
+    description: z.string().nullable(),
+    parentId: z.string().nullable().describe("Broader topic"),
+    signalCount: z.number().int(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+});
+
+const tagsResponseSchema: z.ZodType<TagsResponse> = z.object({
+    tags: z.array(tagSchema),
+});
+
+const taxonomyResponseSchema: z.ZodType<TaxonomyResponse> = z.object({
+    topics: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        slug: z.string(),
+        color: z.string().nullable(),
+        description: z.string().nullable(),
+        parentId: z.string().nullable(),
+        signalCount: z.number().int(),
+        createdAt: dateTime,
+        updatedAt: dateTime,
+        aliases: z.array(z.object({ id: z.string(), name: z.string() })),
+    })),
+    suggestions: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        slug: z.string(),
+        status: z.enum(TOPIC_SUGGESTION_STATUS),
+        signalCount: z.number().int().describe("Signals the topic was received for"),
+        createdAt: dateTime,
+    })),
+});
+
+const searchResponseSchema: z.ZodType<SearchResponse> = z.object({
+    query: z.string(),
+    hits: z.array(z.object({
+        type: z.enum(SEARCH_TYPES),
+        id: z.string(),
+        signalId: z.string().nullable(),
+        insightId: z.string().nullable(),
+        title: z.string(),
+        source: z.string().nullable(),
+        snippet: z.string().describe("HTML-escaped excerpt with matches wrapped in <mark>"),
+        rank: z.number(),
+        createdAt: dateTime,
+    })),
+    total: z.number().int(),
+    limit: z.number().int(),
+    offset: z.number().int(),
+    facets: z.object({
+        type: z.record(z.string(), z.number().int()),
+        source: z.record(z.string(), z.number().int()),
+        tag: z.record(z.string(), z.number().int()),
+    }).describe("Hit counts per value, before filters"),
+});
+
+const relatedResponseSchema: z.ZodType<RelatedResponse> = z.object({
+    signals: z.array(z.object({
+        id: z.string(),
+        title: z.string(),
+        source: z.string().nullable(),
+        summary: z.string().nullable(),
+        similarity: z.number().describe("Cosine similarity, 1 is identical"),
+        createdAt: dateTime,
+    })),
+    highlights: z.array(z.object({
+        id: z.string(),
+        text: z.string(),
+        signalId: z.string(),
+        signalTitle: z.string(),
+        similarity: z.number(),
+        createdAt: dateTime,
+    })),
+    thoughts: z.array(z.object({
+        id: z.string(),
+        content: z.string(),
+        signalId: z.string().nullable(),
+        insightId: z.string().nullable(),
+        signalTitle: z.string().nullable(),
+        similarity: z.number(),
+        createdAt: dateTime,
+    })),
+});
+
+const queuedResponseSchema = z.object({
+    success: z.literal(true),
+    message: z.string(),
+    jobId: z.string().optional(),
+});
+
+const ingestAcceptedSchema = z.object({
+    success: z.literal(true),
+    message: z.string(),
+    signalId: z.string().describe("Placeholder signal, processing until the job completes"),
+    jobId: z.string(),
+});
+
+const ingestDuplicateSchema = z.object({
+    success: z.literal(true),
+    duplicate: z.literal(true),
+    message: z.string(),
+    signalId: z.string().describe("Existing signal"),
+});
+
+const signalReceivedSchema = z.object({
+    success: z.literal(true),
+    signalId: z.string(),
+    message: z.string(),
+});
+
+const previewReceivedSchema = z.object({
+    success: z.literal(true),
+    insightId: z.string(),
+    status: z.enum(INSIGHT_STATUS),
+    message: z.string(),
+});
+
+const publishConfirmedSchema = z.object({
+    success: z.boolean(),
+    insightId: z.string(),
+    status: z.enum([INSIGHT_STATUS.PUBLISHED, INSIGHT_STATUS.PUBLISH_FAILED]),
+    publishedUrl: z.string().nullable().optional(),
+    error: z.string().optional(),
+    message: z.string(),
+});
+
+const callbackStatusSchema = z.object({
+    status: z.literal("ok"),
+    endpoint: z.string(),
+    docs: z.string().describe("Where the payload contract is documented"),
+});
+
+/**
+ * Multipart alternative to the JSON body of POST /api/ingest
+ */
+const workspaceSummarySchema: z.ZodType<WorkspaceSummary> = z.object({
+    id: z.string(),
+    name: z.string(),
+    role: z.enum(WORKSPACE_ROLES),
+    createdAt: dateTime,
+});
+
+const memberSummarySchema: z.ZodType<WorkspaceMemberSummary> = z.object({
+    userId: z.string(),
+    email: z.string(),
+    name: z.string().nullable(),
+    role: z.enum(WORKSPACE_ROLES),
+    createdAt: dateTime,
+});
+
+const apiTokenSummarySchema: z.ZodType<ApiTokenSummary> = z.object({
+    id: z.string(),
+    name: z.string(),
+    prefix: z.string().describe("First characters of the token"),
+    scopes: z.array(z.enum(API_TOKEN_SCOPES)),
+    expiresAt: dateTime.nullable(),
+    lastUsedAt: dateTime.nullable(),
+    createdAt: dateTime,
+});
+
+const sessionResponseSchema: z.ZodType<SessionResponse> = z.object({
+    user: z.object({
+        id: z.string(),
+        email: z.string(),
+        name: z.string().nullable(),
+    }),
+    workspace: workspaceSummarySchema.nullable().optional().describe("Current workspace; only from GET /api/auth/session"),
+});
+
+const ingestUploadSchema = z.object({
+    file: z.file().max(FILE_MAX_BYTES).describe("PDF, EPUB, DOCX, Markdown or plain text file"),
+    title: z.string().optional(),
+    onDuplicate: z.enum(DUPLICATE_POLICIES).optional(),
+});
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+const TAGS = [
+    { name: "Auth", description: "Accounts, sign-in and sessions" },
+    { name: "Workspaces", description: "Shared workspaces, their members and roles" },
+    { name: "Signals", description: "Captured content and its review lifecycle" },
+    { name: "Capture", description: "Creating signals from text, URLs, videos and files" },
+    { name: "Callbacks", description: "Endpoints n8n workflows call back to, signed with the webhook's secret" },
+    { name: "Insights", description: "Insights synthesized from signals and their publishing lifecycle" },
+    { name: "Highlights & Thoughts", description: "Annotations on signals" },
+    { name: "Tags", description: "Tags, aliases and the topic taxonomy" },
+    { name: "Feeds", description: "RSS, Atom and JSON feed subscriptions" },
+    { name: "Search", description: "Full-text and semantic search" },
+    { name: "Jobs", description: "Outbound webhook job queue" },
+    { name: "Settings", description: "Webhooks, processors and delivery history of the workspace; owners only" },
+];
+
+const OPERATIONS: ApiOperation[] = [
+    // Auth
+    {
+        method: "post", path: "/api/auth/signup", tag: "Auth",
+        summary: "Create an account",
+        description: "Open for the first account, which takes over all existing content, and afterwards only when ALLOW_SIGNUP is set. Signs in with a session cookie.",
+        body: signupSchema,
+        access: "public",
+        responses: {
+            201: { description: "Signed in as the new user", schema: sessionResponseSchema },
+            403: { description: "Sign-up is closed", schema: errorResponseSchema },
+            409: { description: "An account with this email exists", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/auth/login", tag: "Auth",
+        summary: "Sign in with a password",
+        body: loginSchema,
+        access: "public",
+        responses: {
+            200: { description: "Signed in; the session cookie is set", schema: sessionResponseSchema },
+            401: { description: "Invalid email or password", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/auth/logout", tag: "Auth",
+        summary: "Sign out",
+        access: "public",
+        responses: { 200: { description: "Session ended and cookie cleared", schema: successResponseSchema } },
+    },
+    {
+        method: "get", path: "/api/auth/session", tag: "Auth",
+        summary: "Get the signed-in user",
+        permission: null,
+        responses: { 200: { description: "Signed-in user and their current workspace", schema: sessionResponseSchema } },
+    },
+    {
+        method: "post", path: "/api/auth/magic-link", tag: "Auth",
+        summary: "Email a sign-in link",
+        description: "The response is the same whether or not the email has an account.",
+        body: loginLinkRequestSchema,
+        access: "public",
+        responses: { 202: { description: "Link sent if the email can sign in", schema: z.object({ success: z.literal(true), message: z.string() }) } },
+    },
+    {
+        method: "get", path: "/api/auth/magic-link", tag: "Auth",
+        summary: "Sign in with an emailed link",
+        description: "Target of the emailed link. Redirects to the app with the session cookie set, or to the sign-in page if the link is invalid, used or expired.",
+        query: loginLinkQuerySchema,
+        access: "public",
+        responses: { 302: { description: "Redirect to the app or the sign-in page" } },
+    },
+
+    // Workspaces
+    {
+        method: "get", path: "/api/workspaces", tag: "Workspaces",
+        summary: "List the user's workspaces",
+        permission: null,
+        responses: {
+            200: {
+                description: "Oldest first, with the user's role in each",
+                schema: z.object({ workspaces: z.array(workspaceSummarySchema), currentWorkspaceId: z.string().nullable() }),
+            },
+        },
+    },
+    {
+        method: "post", path: "/api/workspaces", tag: "Workspaces",
+        summary: "Create a workspace",
+        scopes: [],
+        description: "The user becomes its owner, and it becomes their current workspace.",
+        body: workspaceSchema,
+        permission: null,
+        responses: { 201: { description: "Created workspace", schema: z.object({ success: z.literal(true), workspace: workspaceSummarySchema }) } },
+    },
+    {
+        method: "patch", path: "/api/workspaces/{id}", tag: "Workspaces",
+        summary: "Rename a workspace",
+        scopes: [],
+        body: workspaceSchema,
+        permission: null,
+        responses: {
+            200: { description: "Renamed workspace", schema: z.object({ success: z.literal(true), workspace: workspaceSummarySchema }) },
+            403: { description: "Only owners can rename the workspace", schema: errorResponseSchema },
+            404: { description: "Not a member of the workspace", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/workspaces/switch", tag: "Workspaces",
+        summary: "Switch the current workspace",
+        scopes: [],
+        description: "Sets the workspace cookie; later requests see the workspace's content.",
+        body: workspaceSwitchSchema,
+        permission: null,
+        responses: {
+            200: { description: "New current workspace", schema: z.object({ success: z.literal(true), workspace: workspaceSummarySchema }) },
+            404: { description: "Not a member of the workspace", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/workspaces/{id}/members", tag: "Workspaces",
+        summary: "List the members of a workspace",
+        permission: null,
+        responses: {
+            200: { description: "Oldest first", schema: z.object({ members: z.array(memberSummarySchema) }) },
+            404: { description: "Not a member of the workspace", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/workspaces/{id}/members", tag: "Workspaces",
+        summary: "Add a member",
+        scopes: [],
+        description: "The email must belong to an existing account.",
+        body: memberAddSchema,
+        permission: null,
+        responses: {
+            201: { description: "Added member", schema: z.object({ success: z.literal(true), member: memberSummarySchema }) },
+            403: { description: "Only owners can add members", schema: errorResponseSchema },
+            404: { description: "Workspace or account not found", schema: errorResponseSchema },
+            409: { description: "Already a member", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "patch", path: "/api/workspaces/{id}/members", tag: "Workspaces",
+        summary: "Change a member's role",
+        scopes: [],
+        body: memberRoleSchema,
+        permission: null,
+        responses: {
+            200: { description: "Updated member", schema: z.object({ success: z.literal(true), member: memberSummarySchema }) },
+            403: { description: "Only owners can change roles", schema: errorResponseSchema },
+            404: { description: "Workspace or member not found", schema: errorResponseSchema },
+            409: { description: "The workspace would have no owner left", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/workspaces/{id}/members", tag: "Workspaces",
+        summary: "Remove a member, or leave",
+        scopes: [],
+        description: "Owners can remove anyone; other members can only remove themselves. Their content stays in the workspace.",
+        query: memberRemoveQuerySchema,
+        permission: null,
+        responses: {
+            200: { description: "Removed", schema: successResponseSchema },
+            403: { description: "Only owners can remove other members", schema: errorResponseSchema },
+            404: { description: "Workspace or member not found", schema: errorResponseSchema },
+            409: { description: "The workspace would have no owner left", schema: errorResponseSchema },
+        },
+    },
+
+    // Signals
+    {
+        method: "get", path: "/api/signals", tag: "Signals",
+        summary: "List signals",
+        description: "Filters, sorts and pages signals by cursor: pass `nextCursor` of a page as `cursor` for the next one.",
+        query: signalListQuerySchema,
+        responses: { 200: { description: "A page of signals", schema: signalsResponseSchema } },
+    },
+    {
+        method: "patch", path: "/api/signals", tag: "Signals",
+        summary: "Change a signal's status",
+        description: "Only lifecycle transitions are allowed; entering reviewed queues insight generation.",
+        body: signalStatusUpdateSchema,
+        responses: {
+            200: { description: "Updated signal", schema: z.object({ success: z.literal(true), signal: record("Signal with thoughts, highlights and tags") }) },
+            404: { description: "Signal not found", schema: errorResponseSchema },
+            409: { description: "Transition not allowed", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/signals/{id}", tag: "Signals",
+        summary: "Get a signal",
+        responses: {
+            200: { description: "Signal with highlights, thoughts, sections, sightings, status history and tags", schema: record("Signal") },
+            404: { description: "Signal not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "patch", path: "/api/signals/{id}", tag: "Signals",
+        summary: "Edit a signal",
+        description: "`tags` replaces all tags; `status` moves the signal through its lifecycle. Other fields are rejected.",
+        body: signalUpdateSchema,
+        responses: {
+            200: { description: "Updated signal", schema: z.object({ success: z.literal(true), signal: record("Signal with tags") }) },
+            404: { description: "Signal not found", schema: errorResponseSchema },
+            409: { description: "Transition not allowed", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/signals/{id}/file", tag: "Signals",
+        summary: "Download the file a signal was ingested from",
+        responses: {
+            200: { description: "Original file", contentType: "application/octet-stream" },
+            404: { description: "Signal has no file", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/signals/{id}/related", tag: "Signals",
+        summary: "Find related signals, highlights and thoughts",
+        query: relatedQuerySchema,
+        responses: {
+            200: { description: "Most similar first", schema: relatedResponseSchema },
+            404: { description: "Signal not found", schema: errorResponseSchema },
+        },
+    },
+
+    // Capture
+    {
+        method: "post", path: "/api/ingest", tag: "Capture",
+        summary: "Capture content",
+        scopes: [API_TOKEN_SCOPES.INGEST],
+        description: "Creates a placeholder signal and queues processing. Files are sent as multipart/form-data or as base64 `content`. Content that is already a signal is handled by `onDuplicate`.",
+        body: ingestRequestSchema,
+        upload: ingestUploadSchema,
+        responses: {
+            200: { description: "Already captured: merged or recorded as a sighting", schema: ingestDuplicateSchema },
+            202: { description: "Queued for processing", schema: ingestAcceptedSchema },
+            409: { description: "Already captured, with onDuplicate=reject", schema: errorResponseSchema.extend({ signalId: z.string() }) },
+            413: { description: "File is too large", schema: errorResponseSchema },
+            415: { description: "Unsupported file type", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/ingest", tag: "Capture",
+        summary: "Check that ingestion is reachable",
+        access: "public",
+        responses: { 200: { description: "Reachable", schema: callbackStatusSchema } },
+    },
+
+    // Callbacks
+    {
+        method: "post", path: "/api/signals/receive", tag: "Callbacks",
+        summary: "Receive a processed signal",
+        description: "Called by the ingest workflow. The payload may also be wrapped in an array or nested under `output`; top-level fields are merged with `output`. Without `signalId`, a matching processing placeholder is updated, or a new signal is created. Results for a signal that is no longer processing are ignored.",
+        body: signalReceiveSchema,
+        signedBy: WEBHOOK_NAMES.INGEST,
+        responses: {
+            201: { description: "Signal updated or created", schema: signalReceivedSchema },
+            404: { description: "Signal not found", schema: errorResponseSchema },
+            409: { description: "Signal is no longer processing", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/insights/preview", tag: "Callbacks",
+        summary: "Receive a formatted preview",
+        description: "Called by the generate workflow. The insight moves to previewing; scheduled insights stay scheduled.",
+        body: previewPayloadSchema,
+        signedBy: WEBHOOK_NAMES.GENERATE,
+        responses: {
+            200: { description: "Preview stored", schema: previewReceivedSchema },
+            404: { description: "Insight not found", schema: errorResponseSchema },
+            409: { description: "Insight is publishing or published", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/insights/preview", tag: "Callbacks",
+        summary: "Check that the preview callback is reachable",
+        access: "public",
+        responses: { 200: { description: "Reachable", schema: callbackStatusSchema } },
+    },
+    {
+        method: "post", path: "/api/insights/confirm", tag: "Callbacks",
+        summary: "Confirm a publish",
+        description: "Called by the publish workflow. The insight moves to published, or to publish_failed with its preview kept for a retry.",
+        body: confirmPayloadSchema,
+        signedBy: WEBHOOK_NAMES.PUBLISH,
+        responses: {
+            200: { description: "Outcome stored", schema: publishConfirmedSchema },
+            404: { description: "Insight not found", schema: errorResponseSchema },
+            409: { description: "Insight is not being published", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/insights/confirm", tag: "Callbacks",
+        summary: "Check that the confirm callback is reachable",
+        access: "public",
+        responses: { 200: { description: "Reachable", schema: callbackStatusSchema } },
+    },
+
+    // Insights
+    {
+        method: "get", path: "/api/insights", tag: "Insights",
+        summary: "List insights",
+        query: insightListQuerySchema,
+        responses: { 200: { description: "Newest first", schema: z.object({ insights: z.array(record("Insight with thoughts, signals, status history and latest job")) }) } },
+    },
+    {
+        method: "post", path: "/api/insights", tag: "Insights",
+        summary: "Create an insight",
+        scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH, API_TOKEN_SCOPES.CALLBACKS],
+        description: `Written by hand or sent by the generate workflow with the service token, which must name the workspace in the \`${WORKSPACE_HEADER}\` header (the generate payload carries its \`workspaceId\`). Like the callbacks, the payload may be wrapped in an array or nested under \`output\`.`,
+        body: insightCreateSchema,
+        access: "service",
+        responses: {
+            201: { description: "Created insight", schema: z.object({ success: z.literal(true), insight: record("Insight") }) },
+            400: { description: "Invalid input, or a service call without a workspace", schema: validationErrorResponseSchema.or(errorResponseSchema) },
+        },
+    },
+    {
+        method: "patch", path: "/api/insights", tag: "Insights",
+        summary: "Edit, publish or schedule an insight",
+        scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH],
+        description: "Without `action` the copy is edited, which is not possible while publishing or once published. Actions need the publish permission.",
+        body: insightUpdateSchema,
+        responses: {
+            403: { description: `Role lacks the ${PERMISSIONS.EDIT} permission, or the ${PERMISSIONS.PUBLISH} permission for an action`, schema: errorResponseSchema },
+            200: { description: "Updated insight", schema: z.object({ success: z.literal(true), insight: record("Insight") }) },
+            202: { description: "Publish queued", schema: queuedResponseSchema },
+            404: { description: "Insight not found", schema: errorResponseSchema },
+            409: { description: "Not possible in the insight's status", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/insights", tag: "Insights",
+        summary: "Delete an insight",
+        scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH],
+        query: idQuerySchema,
+        responses: { 200: { description: "Deleted", schema: successResponseSchema } },
+    },
+    {
+        method: "post", path: "/api/insights/generate", tag: "Insights",
+        summary: "Generate an insight from signals",
+        scopes: [API_TOKEN_SCOPES.INSIGHTS_PUBLISH],
+        body: insightGenerateSchema,
+        responses: {
+            202: { description: "Generation queued", schema: queuedResponseSchema },
+            404: { description: "None of the signals exist", schema: errorResponseSchema },
+        },
+    },
+
+    // Highlights & Thoughts
+    {
+        method: "get", path: "/api/highlights", tag: "Highlights & Thoughts",
+        summary: "List highlights across signals",
+        description: "The highlight library, newest first, with each highlight's signal. Pass `nextCursor` of a page as `cursor` for the next one.",
+        query: highlightListQuerySchema,
+        responses: { 200: { description: "A page of highlights", schema: highlightsResponseSchema } },
+    },
+    {
+        method: "post", path: "/api/highlights", tag: "Highlights & Thoughts",
+        summary: "Highlight a passage of a signal",
+        description: "The text is anchored in the content by the text around it, so it can be found again after the content is re-processed. Text that is not found makes an orphaned highlight.",
+        permission: PERMISSIONS.COMMENT,
+        body: highlightCreateSchema,
+        responses: {
+            201: { description: "Created highlight", schema: z.object({ success: z.literal(true), highlight: highlightSummarySchema }) },
+            404: { description: "Signal not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "patch", path: "/api/highlights", tag: "Highlights & Thoughts",
+        summary: "Change a highlight's category or note",
+        permission: PERMISSIONS.COMMENT,
+        body: highlightUpdateSchema,
+        responses: {
+            200: { description: "Updated highlight", schema: z.object({ success: z.literal(true), highlight: highlightSummarySchema }) },
+            404: { description: "Highlight not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/highlights", tag: "Highlights & Thoughts",
+        summary: "Delete a highlight",
+        permission: PERMISSIONS.COMMENT,
+        query: idQuerySchema,
+        responses: {
+            200: { description: "Deleted", schema: successResponseSchema },
+            404: { description: "Highlight not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/thoughts", tag: "Highlights & Thoughts",
+        summary: "List thoughts",
+        query: thoughtListQuerySchema,
+        responses: { 200: { description: "Newest first", schema: z.object({ thoughts: z.array(record("Thought with its signal")) }) } },
+    },
+    {
+        method: "post", path: "/api/thoughts", tag: "Highlights & Thoughts",
+        summary: "Write a thought",
+        permission: PERMISSIONS.COMMENT,
+        body: thoughtCreateSchema,
+        responses: {
+            201: { description: "Created thought", schema: z.object({ success: z.literal(true), thought: record("Thought") }) },
+            404: { description: "Signal, insight or highlight not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/thoughts", tag: "Highlights & Thoughts",
+        summary: "Delete a thought",
+        permission: PERMISSIONS.COMMENT,
+        query: idQuerySchema,
+        responses: { 200: { description: "Deleted", schema: successResponseSchema } },
+    },
+
+    // Tags
+    {
+        method: "get", path: "/api/tags", tag: "Tags",
+        summary: "List tags",
+        query: tagListQuerySchema,
+        responses: { 200: { description: "By name", schema: tagsResponseSchema } },
+    },
+    {
+        method: "post", path: "/api/tags", tag: "Tags",
+        summary: "Create a tag",
+        body: tagCreateSchema,
+        responses: {
+            201: { description: "Created tag", schema: z.object({ success: z.literal(true), tag: tagSchema }) },
+            409: { description: "A tag or alias with this name exists", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "patch", path: "/api/tags/{id}", tag: "Tags",
+        summary: "Edit a tag",
+        description: "Renaming keeps the old name as an alias.",
+        body: tagUpdateSchema,
+        responses: {
+            200: { description: "Updated tag", schema: z.object({ success: z.literal(true), tag: record("Tag") }) },
+            404: { description: "Tag not found", schema: errorResponseSchema },
+            409: { description: "Another tag has this name or alias", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/tags/{id}", tag: "Tags",
+        summary: "Delete a tag",
+        responses: {
+            200: { description: "Deleted", schema: successResponseSchema },
+            404: { description: "Tag not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/tags/merge", tag: "Tags",
+        summary: "Merge tags into another tag",
+        body: tagMergeSchema,
+        responses: {
+            200: { description: "Tag that was kept", schema: z.object({ success: z.literal(true), tag: record("Tag") }) },
+            404: { description: "Target tag not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/tags/{id}/aliases", tag: "Tags",
+        summary: "Add an alias to a tag",
+        body: tagAliasCreateSchema,
+        responses: {
+            201: { description: "Created alias", schema: z.object({ success: z.literal(true), alias: record("Alias") }) },
+            404: { description: "Tag not found", schema: errorResponseSchema },
+            409: { description: "A tag or alias with this name exists", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/tags/{id}/aliases", tag: "Tags",
+        summary: "Remove an alias from a tag",
+        query: tagAliasDeleteQuerySchema,
+        responses: {
+            200: { description: "Removed", schema: successResponseSchema },
+            404: { description: "Alias not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/taxonomy", tag: "Tags",
+        summary: "Get the topic taxonomy and topic suggestions",
+        query: taxonomyQuerySchema,
+        responses: { 200: { description: "Topics and suggestions", schema: taxonomyResponseSchema } },
+    },
+    {
+        method: "patch", path: "/api/taxonomy/suggestions", tag: "Tags",
+        summary: "Approve, alias or reject a topic suggestion",
+        body: suggestionResolveSchema,
+        responses: {
+            200: { description: "Suggestion rejected, or approved as an alias", schema: z.looseObject({ success: z.literal(true) }) },
+            201: { description: "Suggestion approved as a new tag", schema: z.object({ success: z.literal(true), tag: record("Tag") }) },
+            400: { description: "Invalid input, or the parent tag does not exist", schema: validationErrorResponseSchema.or(errorResponseSchema) },
+            404: { description: "Suggestion or tag not found", schema: errorResponseSchema },
+            409: { description: "A tag or alias with this name exists", schema: errorResponseSchema },
+        },
+    },
+
+    // Feeds
+    {
+        method: "get", path: "/api/feeds", tag: "Feeds",
+        summary: "List feed subscriptions",
+        responses: { 200: { description: "Feeds with their unread count", schema: z.object({ feeds: z.array(record("Feed with unreadCount")) }) } },
+    },
+    {
+        method: "post", path: "/api/feeds", tag: "Feeds",
+        summary: "Subscribe to a feed",
+        body: feedCreateSchema,
+        responses: {
+            201: { description: "Created subscription", schema: z.object({ success: z.literal(true), feed: record("Feed") }) },
+            409: { description: "Already subscribed", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "patch", path: "/api/feeds/{id}", tag: "Feeds",
+        summary: "Edit a feed subscription",
+        body: feedUpdateSchema,
+        responses: {
+            200: { description: "Updated subscription", schema: z.object({ success: z.literal(true), feed: record("Feed") }) },
+            404: { description: "Feed not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/feeds/{id}", tag: "Feeds",
+        summary: "Unsubscribe from a feed",
+        responses: {
+            200: { description: "Deleted; its signals are kept", schema: successResponseSchema },
+            404: { description: "Feed not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "post", path: "/api/feeds/poll", tag: "Feeds",
+        summary: "Poll one feed, or all due feeds",
+        scopes: [API_TOKEN_SCOPES.CALLBACKS],
+        body: feedPollSchema,
+        access: "service",
+        responses: {
+            200: { description: "New entries found", schema: z.object({ success: z.literal(true), newItems: z.number().int() }) },
+            404: { description: "Feed not found", schema: errorResponseSchema },
+            502: { description: "Polling failed", schema: errorResponseSchema },
+        },
+    },
+
+    // Search
+    {
+        method: "get", path: "/api/search", tag: "Search",
+        summary: "Full-text search",
+        description: "`q` uses web search syntax: \"phrase\", or, -exclude.",
+        query: searchQuerySchema,
+        responses: { 200: { description: "Ranked hits with facets", schema: searchResponseSchema } },
+    },
+    {
+        method: "get", path: "/api/search/similar", tag: "Search",
+        summary: "Semantic similarity search",
+        query: similarQuerySchema,
+        responses: { 200: { description: "Most similar first", schema: relatedResponseSchema } },
+    },
+
+    // Jobs
+    {
+        method: "get", path: "/api/jobs", tag: "Jobs",
+        summary: "List jobs",
+        query: jobListQuerySchema,
+        access: "service",
+        responses: { 200: { description: "Newest first", schema: z.object({ jobs: z.array(record("Webhook job")) }) } },
+    },
+    {
+        method: "post", path: "/api/jobs", tag: "Jobs",
+        summary: "Run due jobs once",
+        scopes: [API_TOKEN_SCOPES.CALLBACKS],
+        description: "Starts scheduled insights that are due, then runs due jobs. For a cron trigger when the worker is not running.",
+        body: jobRunSchema,
+        access: "service",
+        responses: { 200: { description: "Work done", schema: z.object({ success: z.literal(true), scheduled: z.number().int(), processed: z.number().int() }) } },
+    },
+    {
+        method: "patch", path: "/api/jobs", tag: "Jobs",
+        summary: "Retry a dead job",
+        scopes: [API_TOKEN_SCOPES.CALLBACKS],
+        body: jobRetrySchema,
+        access: "service",
+        responses: {
+            200: { description: "Requeued job", schema: z.object({ success: z.literal(true), job: record("Webhook job") }) },
+            404: { description: "Job not found or not dead", schema: errorResponseSchema },
+        },
+    },
+
+    // Settings
+    {
+        method: "get", path: "/api/settings/webhooks", tag: "Settings",
+        summary: "List webhook configurations",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        responses: { 200: { description: "By name", schema: z.object({ configs: z.array(record("Webhook configuration")) }) } },
+    },
+    {
+        method: "post", path: "/api/settings/webhooks", tag: "Settings",
+        summary: "Create or update a webhook configuration",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        body: webhookConfigSchema,
+        responses: { 200: { description: "Saved configuration", schema: z.object({ success: z.literal(true), config: record("Webhook configuration") }) } },
+    },
+    {
+        method: "patch", path: "/api/settings/webhooks", tag: "Settings",
+        summary: "Rotate a webhook's signing secret",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        body: webhookRotateSchema,
+        responses: {
+            200: { description: "Configuration with the new secret", schema: z.object({ success: z.literal(true), config: record("Webhook configuration") }) },
+            404: { description: "Configuration not found", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "delete", path: "/api/settings/webhooks", tag: "Settings",
+        summary: "Delete a webhook configuration",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        query: webhookDeleteQuerySchema,
+        responses: { 200: { description: "Deleted", schema: successResponseSchema } },
+    },
+    {
+        method: "get", path: "/api/settings/processors", tag: "Settings",
+        summary: "Get the processor of each pipeline stage",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        responses: { 200: { description: "Stages and available processors", schema: record("Stages and processors") } },
+    },
+    {
+        method: "post", path: "/api/settings/processors", tag: "Settings",
+        summary: "Set the processor of a pipeline stage",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        body: processorConfigSchema,
+        responses: { 200: { description: "Resolved processor of the stage", schema: z.looseObject({ success: z.literal(true), stage: z.enum(WEBHOOK_NAMES) }) } },
+    },
+    {
+        method: "get", path: "/api/settings/deliveries", tag: "Settings",
+        summary: "List webhook deliveries",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        query: deliveryListQuerySchema,
+        responses: { 200: { description: "Newest first", schema: z.object({ deliveries: z.array(record("Webhook delivery")) }) } },
+    },
+    {
+        method: "post", path: "/api/settings/deliveries/{id}/replay", tag: "Settings",
+        summary: "Re-send an outbound delivery",
+        permission: PERMISSIONS.MANAGE,
+        scopes: [],
+        responses: {
+            200: { description: "Replayed", schema: z.object({ success: z.literal(true), status: z.number().int().nullable(), message: z.string() }) },
+            400: { description: "Not an outbound delivery", schema: errorResponseSchema },
+            404: { description: "Delivery not found", schema: errorResponseSchema },
+            502: { description: "Replay failed", schema: errorResponseSchema },
+        },
+    },
+    {
+        method: "get", path: "/api/settings/tokens", tag: "Settings",
+        summary: "List your API tokens in the workspace",
+        scopes: [],
+        responses: { 200: { description: "Newest first", schema: z.object({ tokens: z.array(apiTokenSummarySchema) }) } },
+    },
+    {
+        method: "post", path: "/api/settings/tokens", tag: "Settings",
+        summary: "Create an API token",
+        description: "The token acts as you in the current workspace, limited to its scopes. It is only returned here; store it safely.",
+        permission: PERMISSIONS.READ,
+        scopes: [],
+        body: apiTokenCreateSchema,
+        responses: {
+            201: {
+                description: "Created token",
+                schema: z.object({ success: z.literal(true), token: z.string(), apiToken: apiTokenSummarySchema }),
+            },
+        },
+    },
+    {
+        method: "delete", path: "/api/settings/tokens", tag: "Settings",
+        summary: "Revoke one of your API tokens",
+        permission: null,
+        scopes: [],
+        query: idQuerySchema,
+        responses: {
+            200: { description: "Revoked", schema: successResponseSchema },
+            404: { description: "API token not found", schema: errorResponseSchema },
+        },
+    },
+];
+
+// ============================================================================
+// Document
+// ============================================================================
+
+let cachedDocument: OpenApiDocument | null = null;
+
+/**
+ * Builds the OpenAPI document of the API
+ *
+ * The document only changes with the code, so it is built once.
+ *
+ * @returns OpenAPI 3.1 document
+ */
+export function getOpenApiDocument(): OpenApiDocument {
+    if (cachedDocument) return cachedDocument;
+
+    const paths: OpenApiDocument["paths"] = {};
+    for (const operation of OPERATIONS) {
+        paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+    }
+
+    cachedDocument = {
+        openapi: "3.1.0",
+        info: {
+            title: "Signal Desk API",
+            version: packageJson.version,
+            description: [
+                "Capture signals, review them, and turn them into published insights.",
+                `Requests are signed in with the \`${SESSION_COOKIE}\` session cookie and run in the user's current workspace,`,
+                `or the one in the \`${WORKSPACE_HEADER}\` header, only seeing its content; the user's role there`,
+                "(owner, editor, commenter or viewer) must grant the operation's permission.",
+                "Scripts and integrations send `Authorization: Bearer <token>` with a personal API token from Settings,",
+                "which acts as its user in the token's workspace and only reaches operations accepting one of its scopes.",
+                "Machine callers send `Authorization: Bearer <SERVICE_TOKEN>` to the operations that accept it.",
+                `Callbacks send an API token with the \`${API_TOKEN_SCOPES.CALLBACKS}\` scope, or are signed with the secret of their webhook: send \`${SIGNATURE_HEADERS.TIMESTAMP}\` (Unix seconds),`,
+                `a single-use \`${SIGNATURE_HEADERS.NONCE}\`, and \`${SIGNATURE_HEADERS.SIGNATURE}\` set to`,
+                "`sha256=` + hex HMAC-SHA256 of `timestamp.nonce.body`.",
+                "Invalid input is rejected with 400 and an `issues` list naming each invalid field.",
+            ].join(" "),
+        },
+        tags: TAGS,
+        paths,
+        components: {
+            securitySchemes: {
+                session: { type: "apiKey", in: "cookie", name: SESSION_COOKIE },
+                apiToken: { type: "http", scheme: "bearer", description: "Personal API token; the requirement lists the accepted scopes" },
+                serviceToken: { type: "http", scheme: "bearer", description: "SERVICE_TOKEN of the deployment" },
+            },
+        },
+    };
+
+    return cachedDocument;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Converts an operation to its OpenAPI form
+ */
+function buildOperation(operation: ApiOperation): OpenApiOperation {
+    const responses: Record<number, ResponseSpec> = { ...operation.responses };
+    const access = operation.signedBy ? "public" : operation.access ?? "user";
+    const permission = access === "public" ? null : operation.permission === undefined
+        ? operation.method === "get" ? PERMISSIONS.READ : PERMISSIONS.EDIT
+        : operation.permission;
+    const scopes = operation.signedBy ? [API_TOKEN_SCOPES.CALLBACKS] : access === "public" ? [] : operation.scopes
+        ?? [operation.method === "get" ? API_TOKEN_SCOPES.READ : API_TOKEN_SCOPES.SIGNALS_WRITE];
+
+    if (operation.query || operation.body) {
+        responses[400] ??= { description: "Invalid input", schema: validationErrorResponseSchema };
+    }
+    if (operation.signedBy) {
+        responses[401] = { description: "Missing, stale or invalid signature, or invalid API token", schema: errorResponseSchema };
+        responses[409] = {
+            description: responses[409] ? `${responses[409].description}, or replayed request` : "Replayed request",
+            schema: errorResponseSchema,
+        };
+        responses[503] = { description: "Webhook secret not configured", schema: errorResponseSchema };
+    }
+    if (access !== "public") {
+        responses[401] ??= { description: "Not signed in", schema: errorResponseSchema };
+    }
+    if (permission) {
+        responses[403] ??= {
+            description: `Not a member of the workspace, the role lacks the ${permission} permission, or ${scopes.length ? "the API token lacks the scope" : "sent with an API token"}`,
+            schema: errorResponseSchema,
+        };
+    } else if (operation.signedBy) {
+        responses[403] = { description: `The API token lacks the scope, or its role the ${PERMISSIONS.EDIT} permission`, schema: errorResponseSchema };
+    } else if (access !== "public") {
+        responses[403] ??= { description: scopes.length ? "The API token lacks the scope" : "Sent with an API token", schema: errorResponseSchema };
+    }
+    responses[500] = { description: "Unexpected error", schema: errorResponseSchema };
+
+    return {
+        tags: [operation.tag],
+        summary: operation.summary,
+        ...(operation.description ? { description: operation.description } : {}),
+        operationId: operationId(operation),
+        parameters: [
+            ...pathParameters(operation.path),
+            ...(operation.query ? queryParameters(operation.query) : []),
+            ...(operation.signedBy ? signatureParameters(operation.signedBy) : []),
+            ...(permission ? [workspaceParameter()] : []),
+        ],
+        ...(operation.body ? { requestBody: requestBody(operation) } : {}),
+        responses: Object.fromEntries(Object.entries(responses).map(([status, response]) => [status, {
+            description: response.description,
+            ...(response.schema || response.contentType ? {
+                content: {
+                    [response.contentType ?? "application/json"]: {
+                        schema: response.schema ? toJsonSchema(response.schema, "output") : { type: "string", format: "binary" },
+                    },
+                },
+            } : {}),
+        }])),
+        security: [
+            ...(access === "public" ? [] : [{ session: [] }]),
+            ...(scopes.length ? [{ apiToken: scopes }] : []),
+            ...(access === "service" ? [{ serviceToken: [] }] : []),
+            // Signed callbacks may also go without a token
+            ...(operation.signedBy ? [{}] : []),
+        ],
+    };
+}
+
+/**
+ * Request body in JSON, and multipart for uploads
+ */
+function requestBody(operation: ApiOperation): OpenApiOperation["requestBody"] {
+    const body = toJsonSchema(operation.body!, "input");
+    // Bodies that may be omitted accept undefined, so they have a default
+    const optional = operation.body!.safeParse(undefined).success;
+
+    return {
+        required: !optional,
+        content: {
+            "application/json": { schema: body },
+            ...(operation.upload ? { "multipart/form-data": { schema: toJsonSchema(operation.upload, "input") } } : {}),
+        },
+    };
+}
+
+/**
+ * Parameters for each {name} in the path
+ */
+function pathParameters(path: string): OpenApiParameter[] {
+    return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+        name,
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+    }));
+}
+
+/**
+ * Parameters for each field of a query schema
+ */
+function queryParameters(query: z.ZodObject): OpenApiParameter[] {
+    const schema = toJsonSchema(query, "input");
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = (schema.required ?? []) as string[];
+
+    return Object.entries(properties).map(([name, { description, ...property }]) => ({
+        name,
+        in: "query",
+        required: required.includes(name),
+        ...(typeof description === "string" ? { description } : {}),
+        schema: property,
+    }));
+}
+
+/**
+ * Signature headers of a callback signed with a webhook's secret; not
+ * needed when the callback sends an API token instead
+ */
+function signatureParameters(webhook: WebhookName): OpenApiParameter[] {
+    return [
+        {
+            name: SIGNATURE_HEADERS.TIMESTAMP,
+            in: "header",
+            required: false,
+            description: `Unix time in seconds, at most ${SIGNATURE_TOLERANCE_SECONDS} seconds old and ${SIGNATURE_MAX_FUTURE_SKEW_SECONDS} seconds ahead`,
+            schema: { type: "string" },
+        },
+        {
+            name: SIGNATURE_HEADERS.NONCE,
+            in: "header",
+            required: false,
+            description: "Single-use random value",
+            schema: { type: "string" },
+        },
+        {
+            name: SIGNATURE_HEADERS.SIGNATURE,
+            in: "header",
+            required: false,
+            description: `sha256= + hex HMAC-SHA256 of timestamp.nonce.body, keyed with the ${webhook} webhook's secret`,
+            schema: { type: "string" },
+        },
+    ];
+}
+
+/**
+ * Header choosing the workspace a request runs in
+ */
+function workspaceParameter(): OpenApiParameter {
+    return {
+        name: WORKSPACE_HEADER,
+        in: "header",
+        required: false,
+        description: "Workspace to run in; defaults to the workspace cookie, or the user's oldest workspace",
+        schema: { type: "string" },
+    };
+}
+
+/**
+ * Converts a schema to JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ */
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+    const converted: JsonSchema = z.toJSONSchema(schema, {
+        io,
+        // Refinements and transforms are documented by their descriptions
+        unrepresentable: "any",
+        override: ({ jsonSchema }) => {
+            // Unbounded integers get the safe integer range, which is noise here
+            if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum;
+            if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum;
+            // Responses may carry more fields than are documented, e.g. new columns
+            if (io === "output" && jsonSchema.additionalProperties === false) delete jsonSchema.additionalProperties;
+        },
+    });
+    delete converted.$schema;
+
+    return converted;
+}
+
+/**
+ * Stable operation ID, e.g. patchSignalsById
+ */
+function operationId({ method, path }: ApiOperation): string {
+    const words = path
+        .replace(/^\/api\//, "")
+        .split(/[/.]/)
+        .map((segment) => segment.replace(/^\{(\w+)\}$/, "by-$1"))
+        .flatMap((segment) => segment.split("-"));
+
+    return method + words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+}
@@ -0,0 +1,204 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Prisma } from "@prisma/client";
+
+/**
+ * Per-workspace scoping of content
+ *
+ * Signals, highlights, thoughts, insights, feeds, jobs, webhook and
+ * processor configs, webhook deliveries and the topic taxonomy belong to a
+ * workspace. Content (all but the configs, deliveries and taxonomy) also
+ * records the user who created it. While code runs in a workspace (see runInWorkspace;
+ * lib/auth's withAuth runs each signed-in request in the user's current
+ * workspace), the Prisma client in lib/prisma adds the workspace to the
+ * filter of every query on those models and to the data of every record
+ * they create. Raw SQL adds the condition itself with inWorkspace.
+ *
+ * Outside a workspace (unsigned health checks, the job worker, service
+ * tokens) queries see every record.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Workspace code runs in, and the user it runs for
+ */
+export interface WorkspaceScope {
+    workspaceId: string;
+    userId?: string;                // Recorded as the creator of new records
+}
+
+/**
+ * Models that belong to a workspace
+ */
+export const SCOPED_MODELS = new Set<string>([
+    "Signal",
+    "Highlight",
+    "Thought",
+    "Insight",
+    "Feed",
+    "WebhookJob",
+    "WebhookConfig",
+    "ProcessorConfig",
+    "WebhookDelivery",
+    "Tag",
+    "TagAlias",
+    "TopicSuggestion",
+]);
+
+/**
+ * Scoped models that record their creator as ownerId
+ */
+const AUTHORED_MODELS = new Set<string>([
+    "Signal",
+    "Highlight",
+    "Thought",
+    "Insight",
+    "Feed",
+    "WebhookJob",
+]);
+
+type QueryArgs = Record<string, unknown>;
+
+/**
+ * Operations whose `where` selects the records they read or change
+ */
+const FILTERED_OPERATIONS = new Set([
+    "findUnique",
+    "findUniqueOrThrow",
+    "findFirst",
+    "findFirstOrThrow",
+    "findMany",
+    "count",
+    "aggregate",
+    "groupBy",
+    "update",
+    "updateMany",
+    "updateManyAndReturn",
+    "delete",
+    "deleteMany",
+    "upsert",
+]);
+
+const globalForOwnership = globalThis as unknown as {
+    workspaceScope: AsyncLocalStorage<WorkspaceScope> | undefined;
+};
+
+// Shared across module copies and hot reloads, like the Prisma client that reads it
+const workspaceScope = globalForOwnership.workspaceScope ?? new AsyncLocalStorage<WorkspaceScope>();
+globalForOwnership.workspaceScope = workspaceScope;
+
+// ============================================================================
+// Scope
+// ============================================================================
+
+/**
+ * Runs a function in a workspace, so its queries only see and create that
+ * workspace's content
+ *
+ * @param scope - Workspace and user, or null to run unscoped
+ * @param fn - Function to run
+ * @returns The function's result
+ *
+ * @example
+ * ```ts
+ * await runInWorkspace(recordScope(feed), () => ingestNewItems(feed.id, items));
+ * ```
+ */
+export function runInWorkspace<T>(scope: WorkspaceScope | null, fn: () => T): T {
+    return scope ? workspaceScope.run(scope, fn) : workspaceScope.exit(fn);
+}
+
+/**
+ * Workspace the current code runs in
+ *
+ * @returns The scope, or undefined outside a workspace
+ */
+export function currentScope(): WorkspaceScope | undefined {
+    return workspaceScope.getStore();
+}
+
+/**
+ * Scope a stored record was created in, to continue work on it later
+ *
+ * @param record - Record with its workspace and creator
+ * @returns Its scope, or null for records without a workspace
+ */
+export function recordScope(record: { workspaceId: string | null; ownerId?: string | null }): WorkspaceScope | null {
+    return record.workspaceId
+        ? { workspaceId: record.workspaceId, userId: record.ownerId ?? undefined }
+        : null;
+}
+
+/**
+ * SQL condition limiting a table to the current workspace's rows
+ *
+ * @param alias - Table alias in the query
+ * @returns `alias."workspaceId" = <workspace>`, or TRUE outside a workspace
+ *
+ * @example
+ * ```ts
+ * prisma.$queryRaw`SELECT id FROM "Signal" s WHERE ${inWorkspace("s")}`;
+ * ```
+ */
+export function inWorkspace(alias: string): Prisma.Sql {
+    const scope = currentScope();
+    return scope
+        ? Prisma.sql`${Prisma.raw(`${alias}."workspaceId"`)} = ${scope.workspaceId}`
+        : Prisma.sql`TRUE`;
+}
+
+/**
+ * Filter on the current workspace, for relation filters the client does not scope
+ *
+ * @returns `{ workspaceId }`, or no condition outside a workspace
+ *
+ * @example
+ * ```ts
+ * include: { _count: { select: { signals: { where: workspaceFilter() } } } }
+ * ```
+ */
+export function workspaceFilter(): { workspaceId?: string } {
+    const scope = currentScope();
+    return scope ? { workspaceId: scope.workspaceId } : {};
+}
+
+/**
+ * Adds the workspace to the arguments of a query on a scoped model
+ *
+ * Filters get `workspaceId` added to their `where`, and created records
+ * get it as data, along with the user as `ownerId`. Nested writes are not
+ * scoped, so scoped records are created with their own model's query
+ * rather than through a relation.
+ *
+ * @param model - Prisma model, e.g. Signal
+ * @param operation - Prisma operation, e.g. findMany
+ * @param args - Arguments of the query
+ * @param scope - Current workspace
+ * @returns Arguments limited to the workspace
+ */
+export function scopeQueryArgs(model: string, operation: string, args: QueryArgs, scope: WorkspaceScope): QueryArgs {
+    const scoped: QueryArgs = { ...args };
+    const { workspaceId } = scope;
+    const created: QueryArgs = AUTHORED_MODELS.has(model) && scope.userId
+        ? { workspaceId, ownerId: scope.userId }
+        : { workspaceId };
+
+    if (FILTERED_OPERATIONS.has(operation)) {
+        scoped.where = { ...(args.where as QueryArgs | undefined), workspaceId };
+    }
+
+    if (operation === "create") {
+        scoped.data = { ...(args.data as QueryArgs), ...created };
+    } else if (operation === "createMany" || operation === "createManyAndReturn") {
+        const data = args.data as QueryArgs | QueryArgs[];
+        scoped.data = Array.isArray(data)
+            ? data.map((row) => ({ ...row, ...created }))
+            : { ...data, ...created };
+    } else if (operation === "upsert") {
+        scoped.create = { ...(args.create as QueryArgs), ...created };
+    }
+
+    return scoped;
+}
@@ -0,0 +1,54 @@
+/**
+ * Opaque cursors for keyset pagination
+ *
+ * A cursor records the sort key and ID of the last item of a page; the
+ * next page starts after it. Clients treat cursors as opaque strings, so
+ * their contents can change without breaking the API.
+ */
+
+// ============================================================================
+// Cursors
+// ============================================================================
+
+/**
+ * Position of the last item of a page
+ */
+export interface CursorPosition {
+    sort: string;              // Sort the position belongs to, e.g. "created:desc"
+    value: string;             // Sort key of the item (ISO date for date sorts)
+    id: string;                // Tiebreaker for items with the same sort key
+}
+
+/**
+ * Encodes a page position as an opaque cursor
+ *
+ * @param position - Position of the last item of the page
+ * @returns URL-safe cursor string
+ */
+export function encodeCursor(position: CursorPosition): string {
+    return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/**
+ * Decodes an opaque cursor
+ *
+ * @param cursor - Cursor from a previous page
+ * @returns The position, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+    try {
+        const position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+
+        if (
+            typeof position?.sort !== "string" ||
+            typeof position.value !== "string" ||
+            typeof position.id !== "string"
+        ) {
+            return null;
+        }
+
+        return position;
+    } catch {
+        return null;
+    }
+}
@@ -1,6 +1,7 @@
 import { PrismaClient } from "@prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
+import { SCOPED_MODELS, currentScope, scopeQueryArgs } from "./ownership";
 
 /**
  * Prisma Client Singleton
@@ -8,10 +9,13 @@ import { Pool } from "pg";
  * This module provides a singleton Prisma client instance.
  * The singleton pattern ensures we reuse the same Prisma client instance
  * across hot reloads during development, preventing connection exhaustion.
+ *
+ * Queries on content models are limited to the workspace the request runs
+ * in (see lib/ownership).
  */
 
 const globalForPrisma = globalThis as unknown as {
-    prisma: PrismaClient | undefined;
+    prisma: ReturnType<typeof createPrismaClient> | undefined;
 };
 
 const createPrismaClient = () => {
@@ -28,11 +32,27 @@ const createPrismaClient = () => {
             : undefined,
     });
     const adapter = new PrismaPg(pool);
-    return new PrismaClient({ adapter });
+    return new PrismaClient({ adapter }).$extends({
+        query: {
+            $allModels: {
+                async $allOperations({ model, operation, args, query }) {
+                    const scope = currentScope();
+                    if (!scope || !SCOPED_MODELS.has(model)) return query(args);
+
+                    return query(scopeQueryArgs(model, operation, args as Record<string, unknown>, scope) as typeof args);
+                },
+            },
+        },
+    });
 };
 
 export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
+/**
+ * Client passed to interactive transaction callbacks
+ */
+export type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
 if (process.env.NODE_ENV !== "production") {
     globalForPrisma.prisma = prisma;
 }
@@ -0,0 +1,67 @@
+import prisma from "../prisma";
+import { DEFAULT_PROCESSOR, PROCESSOR_NAMES } from "../constants";
+import type { ProcessorName, WebhookName } from "../constants";
+import type { Processor } from "../types";
+import { n8nProcessor } from "./n8n";
+import { localProcessor } from "./local";
+import { mockProcessor } from "./mock";
+
+/**
+ * Pipeline processor registry
+ *
+ * Each pipeline stage (ingest, generate, publish) is run by one processor.
+ * The processor for a stage is resolved in this order:
+ * 1. The current workspace's ProcessorConfig row for the stage (set from
+ *    the Settings page); outside a workspace, the row without one
+ * 2. PROCESSOR_<STAGE> environment variable, e.g. PROCESSOR_INGEST=local
+ * 3. PROCESSOR environment variable
+ * 4. DEFAULT_PROCESSOR (n8n)
+ */
+
+const PROCESSORS: Record<ProcessorName, Processor> = {
+    [PROCESSOR_NAMES.N8N]: n8nProcessor,
+    [PROCESSOR_NAMES.LOCAL]: localProcessor,
+    [PROCESSOR_NAMES.MOCK]: mockProcessor,
+};
+
+/**
+ * Checks whether a string names a known processor
+ */
+export function isProcessorName(name: unknown): name is ProcessorName {
+    return typeof name === "string" && name in PROCESSORS;
+}
+
+/**
+ * Resolves which processor runs a pipeline stage
+ *
+ * @param stage - Pipeline stage
+ * @returns Processor name and where the choice came from
+ */
+export async function resolveProcessorName(stage: WebhookName): Promise<{ processor: ProcessorName; source: "settings" | "env" | "default" }> {
+    // The scoped client replaces the workspace condition with the current workspace
+    const config = await prisma.processorConfig.findFirst({
+        where: { workspaceId: null, stage },
+    });
+
+    if (isProcessorName(config?.processor)) {
+        return { processor: config.processor, source: "settings" };
+    }
+
+    const fromEnv = process.env[`PROCESSOR_${stage.toUpperCase()}`] ?? process.env.PROCESSOR;
+    if (isProcessorName(fromEnv)) {
+        return { processor: fromEnv, source: "env" };
+    }
+
+    return { processor: DEFAULT_PROCESSOR, source: "default" };
+}
+
+/**
+ * Returns the processor that runs a pipeline stage
+ *
+ * @param stage - Pipeline stage
+ * @returns Processor implementation
+ */
+export async function getProcessor(stage: WebhookName): Promise<Processor> {
+    const { processor } = await resolveProcessorName(stage);
+    return PROCESSORS[processor];
+}
@@ -0,0 +1,113 @@
+import { PROCESSOR_NAMES, TITLE_MAX_LENGTH } from "../constants";
+import { fetchArticle } from "../extract";
+import { extractKeySentences, extractKeywords, summarizeText } from "../text";
+import { fetchYouTubeMetadata } from "../youtube";
+import type { N8nResponse, Processor, ProcessorResult } from "../types";
+
+/**
+ * Local built-in processor
+ *
+ * Runs every stage inside Signal Desk without n8n or an AI model, so the
+ * app works end to end on a laptop:
+ * - ingest: builds an extractive summary, key sentences and keyword topics
+ * - generate: drafts an insight from the signals' summaries and shared topics
+ * - publish: marks the insight as published within Signal Desk
+ */
+export const localProcessor: Processor = {
+    name: PROCESSOR_NAMES.LOCAL,
+
+    async ingest(signalId, request) {
+        try {
+            let title = request.title;
+            let text = request.content ?? "";
+            let sourceUrl = request.url;
+
+            // File text is extracted by the ingest job before the processor runs
+            if (request.inputType === "file" && !request.content) {
+                throw new Error("No text could be extracted from the file");
+            }
+
+            // Url content is normally extracted by the ingest job already
+            if (request.inputType === "url" && request.url && !request.content) {
+                const article = await fetchArticle(request.url);
+                if (!article) {
+                    throw new Error(`No readable article found at ${request.url}`);
+                }
+                title = title || article.title || undefined;
+                text = article.content;
+                sourceUrl = article.canonicalUrl ?? request.url;
+            }
+
+            // Without a transcript, fall back to the video's title and channel
+            if (request.inputType === "youtube" && request.url && !request.content) {
+                const video = await fetchYouTubeMetadata(request.url);
+                title = title || video.title;
+                text = video.author ? `${video.title} by ${video.author}` : video.title;
+            }
+
+            return {
+                success: true,
+                data: analyzeText(signalId, text, title, sourceUrl),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : "Local extraction failed",
+            };
+        }
+    },
+
+    async generate(signals) {
+        const topics = extractKeywords(
+            signals.map((s) => `${s.tags.join(" ")} ${s.title} ${s.summary ?? ""}`).join(" "),
+            3
+        );
+        const theme = topics.length > 0 ? topics.join(", ") : "these signals";
+
+        const coreInsight = signals.length === 1
+            ? signals[0].summary || summarizeText(signals[0].content)
+            : `${signals.length} signals point at a shared theme: ${theme}.`;
+
+        const preview = [
+            coreInsight,
+            ...signals.map((s) => `• ${s.title}${s.summary ? ` — ${summarizeText(s.summary, 140)}` : ""}`),
+        ].join("\n\n");
+
+        return {
+            success: true,
+            insight: { coreInsight, preview },
+        };
+    },
+
+    async publish(payload): Promise<ProcessorResult> {
+        // There is no external platform: the insight page is the published post
+        return {
+            success: true,
+            data: {
+                status: "success",
+                postUrl: `/insights/${payload.insightId}`,
+            },
+        };
+    },
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds n8n-shaped extraction data from plain text
+ */
+function analyzeText(signalId: string, text: string, title?: string, sourceUrl?: string): N8nResponse {
+    const summary = summarizeText(text);
+
+    return {
+        signalId,
+        title: title || summary.substring(0, TITLE_MAX_LENGTH) || "Untitled",
+        content: text,
+        summary,
+        key_insights: extractKeySentences(text),
+        topics: extractKeywords(text),
+        sourceUrl,
+    };
+}
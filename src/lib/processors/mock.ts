@@ -0,0 +1,47 @@
+import { PROCESSOR_NAMES } from "../constants";
+import type { Processor } from "../types";
+
+/**
+ * Mock processor
+ *
+ * Echoes its input back deterministically without any network access.
+ * Useful for tests and for exercising the UI offline.
+ */
+export const mockProcessor: Processor = {
+    name: PROCESSOR_NAMES.MOCK,
+
+    async ingest(signalId, request) {
+        const input = request.content ?? request.url ?? "";
+
+        return {
+            success: true,
+            data: {
+                signalId,
+                title: `Mock: ${input.substring(0, 40)}`,
+                content: input,
+                summary: `Mock summary of ${request.inputType} input`,
+                key_insights: ["Mock insight"],
+                topics: ["mock"],
+            },
+        };
+    },
+
+    async generate(signals) {
+        return {
+            success: true,
+            insight: {
+                coreInsight: `Mock insight from ${signals.length} signal${signals.length === 1 ? "" : "s"}: ${signals.map((s) => s.title).join(", ")}`,
+            },
+        };
+    },
+
+    async publish(payload) {
+        return {
+            success: true,
+            data: {
+                status: "success",
+                postUrl: `mock://${payload.platform}/${payload.insightId}`,
+            },
+        };
+    },
+};
@@ -0,0 +1,38 @@
+import { triggerGenerate, triggerIngest, triggerPublish } from "../webhooks";
+import { PROCESSOR_NAMES } from "../constants";
+import type { Processor } from "../types";
+
+/**
+ * n8n processor
+ *
+ * Delegates every stage to the configured n8n webhooks. Results usually
+ * arrive later through the inbound callbacks (/api/signals/receive,
+ * /api/insights, /api/insights/confirm); synchronous responses are
+ * returned as-is.
+ */
+export const n8nProcessor: Processor = {
+    name: PROCESSOR_NAMES.N8N,
+
+    async ingest(signalId, request) {
+        // Pass the signalId so the n8n callback can update the placeholder
+        const payload: Record<string, string> = {
+            inputType: request.inputType,
+            signalId,
+        };
+
+        if (request.content) payload.content = request.content;
+        if (request.url) payload.url = request.url;
+        if (request.fileName) payload.fileName = request.fileName;
+        if (request.fileType) payload.fileType = request.fileType;
+
+        return await triggerIngest(payload);
+    },
+
+    async generate(signals) {
+        return await triggerGenerate(signals);
+    },
+
+    async publish(payload) {
+        return await triggerPublish(payload);
+    },
+};
@@ -0,0 +1,170 @@
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import { FETCH_MAX_BYTES, FETCH_MAX_REDIRECTS, WEBHOOK_TIMEOUT_MS } from "./constants";
+
+/**
+ * Fetching of user-supplied URLs
+ *
+ * Article, feed and video URLs come from users, so they must not point
+ * the server at its own network: every hop of a redirect chain has to be
+ * an http(s) URL whose host resolves to public addresses only. Bodies are
+ * read up to FETCH_MAX_BYTES, and the whole request, redirects included,
+ * is bounded by WEBHOOK_TIMEOUT_MS.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Final response of a fetch, with its body read
+ */
+export interface RemoteResponse {
+    url: string;            // URL after redirects
+    status: number;
+    ok: boolean;
+    headers: Headers;
+    text: string;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Private, loopback, link-local, shared, multicast and reserved addresses
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 3],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    ["::ffff:0:0", 96],     // IPv4-mapped
+    ["64:ff9b::", 96],      // NAT64
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Fetches a user-supplied URL
+ *
+ * Redirects are followed one hop at a time, so each target is checked
+ * before it is requested.
+ *
+ * @param url - URL to fetch
+ * @param headers - Request headers
+ * @returns Final response with its body as text
+ * @throws Error if a hop is not a public http(s) URL, there are more than
+ * FETCH_MAX_REDIRECTS redirects, the body is larger than FETCH_MAX_BYTES
+ * or the request times out
+ *
+ * @example
+ * ```ts
+ * const { ok, text } = await fetchRemote("https://example.com/feed.xml", { Accept: "application/rss+xml" });
+ * ```
+ */
+export async function fetchRemote(url: string, headers: Record<string, string> = {}): Promise<RemoteResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+    try {
+        let current = url;
+        for (let redirects = 0; ; redirects++) {
+            await assertPublicUrl(current);
+
+            const response = await fetch(current, {
+                headers,
+                redirect: "manual",
+                signal: controller.signal,
+            });
+
+            const location = response.headers.get("location");
+            if (!REDIRECT_STATUSES.has(response.status) || !location) {
+                return {
+                    url: current,
+                    status: response.status,
+                    ok: response.ok,
+                    headers: response.headers,
+                    text: await readText(response, current),
+                };
+            }
+
+            await response.body?.cancel();
+            if (redirects >= FETCH_MAX_REDIRECTS) {
+                throw new Error(`Fetching ${url} redirected more than ${FETCH_MAX_REDIRECTS} times`);
+            }
+            current = new URL(location, current).toString();
+        }
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Rejects URLs that are not http(s) or whose host resolves to an address
+ * in BLOCKED_ADDRESSES
+ */
+async function assertPublicUrl(url: string): Promise<void> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== "http:" && protocol !== "https:") {
+        throw new Error(`Only http and https URLs can be fetched, not ${url}`);
+    }
+
+    // IPv6 literals keep their brackets in URLs
+    const addresses = await lookup(hostname.replace(/^\[|\]$/g, ""), { all: true, verbatim: true });
+    const blocked = addresses.some(({ address, family }) =>
+        BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+    );
+    if (addresses.length === 0 || blocked) {
+        throw new Error(`Refusing to fetch ${url}: its host is not a public address`);
+    }
+}
+
+/**
+ * Reads a response body as UTF-8 text, up to FETCH_MAX_BYTES
+ */
+async function readText(response: Response, url: string): Promise<string> {
+    const tooLarge = new Error(`The response from ${url} is larger than ${FETCH_MAX_BYTES} bytes`);
+
+    if (Number(response.headers.get("content-length")) > FETCH_MAX_BYTES) {
+        await response.body?.cancel();
+        throw tooLarge;
+    }
+    if (!response.body) return "";
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+        if (size > FETCH_MAX_BYTES) {
+            await reader.cancel();
+            throw tooLarge;
+        }
+        chunks.push(chunk.value);
+    }
+
+    return new TextDecoder().decode(Buffer.concat(chunks));
+}
@@ -0,0 +1,716 @@
+import { z } from "zod";
+import { canonicalizeUrl } from "./canonical";
+import { looksLikeCaptions } from "./captions";
+import { getYouTubeVideoId } from "./youtube";
+import { normalizeTagName, tagSlug } from "./tags";
+import {
+    API_TOKEN_SCOPES,
+    DEFAULT_PAGE_LIMIT,
+    DELIVERY_DIRECTION,
+    DUPLICATE_POLICIES,
+    FEED_DEFAULT_POLL_MINUTES,
+    FEED_MIN_POLL_MINUTES,
+    HIGHLIGHT_CATEGORIES,
+    INPUT_TYPES,
+    INSIGHT_STATUS,
+    JOB_STATUS,
+    MAX_PAGE_LIMIT,
+    PASSWORD_MIN_LENGTH,
+    PROCESSOR_NAMES,
+    RELATED_LIMIT,
+    SEARCH_PAGE_LIMIT,
+    SEARCH_TYPES,
+    SIGNAL_INCLUDES,
+    SIGNAL_SORTS,
+    SIGNAL_STATUS,
+    SORT_ORDERS,
+    TAG_COLOR_PATTERN,
+    TOPIC_SUGGESTION_STATUS,
+    WEBHOOK_NAMES,
+    WORKSPACE_ROLES,
+} from "./constants";
+
+/**
+ * Request schemas of the API routes
+ *
+ * Each route parses its body and query string with one of these (see
+ * lib/validation); the request types used elsewhere are inferred from
+ * them, and lib/openapi documents the API from them, so the checks, the
+ * types and the docs cannot drift apart. Field descriptions end up in the
+ * OpenAPI document.
+ */
+
+// ============================================================================
+// Fields
+// ============================================================================
+
+/**
+ * Non-blank string; missing values are reported as required
+ */
+const requiredText = z
+    .string({ error: (issue) => issue.input === undefined ? "is required" : "must be a string" })
+    .refine((value) => value.trim().length > 0, "is required");
+
+/**
+ * Absolute http or https URL
+ */
+const httpUrl = requiredText.refine((value) => {
+    try {
+        const { protocol } = new URL(value);
+        return protocol === "http:" || protocol === "https:";
+    } catch {
+        return false;
+    }
+}, "must be an http or https URL");
+
+/**
+ * Date in any format Date.parse accepts, ISO 8601 in practice
+ */
+const isoDate = z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "must be an ISO date")
+    .transform((value) => new Date(value));
+
+/**
+ * Non-empty list of record IDs
+ */
+const idList = z.array(requiredText).min(1, "must list at least one ID");
+
+/**
+ * Tag name, normalized; it must contain letters or digits
+ */
+const tagName = requiredText
+    .transform(normalizeTagName)
+    .refine((name) => tagSlug(name) !== "", "must contain letters or digits");
+
+/**
+ * Hex color like #6366f1
+ */
+const tagColor = z.string().regex(TAG_COLOR_PATTERN, "must be a hex color like #6366f1");
+
+/**
+ * Page size from the query string, capped at MAX_PAGE_LIMIT
+ */
+function queryLimit(defaultLimit: number) {
+    return z.coerce
+        .number()
+        .int()
+        .min(1)
+        .default(defaultLimit)
+        .transform((limit) => Math.min(limit, MAX_PAGE_LIMIT))
+        .describe(`Maximum results (at most ${MAX_PAGE_LIMIT})`);
+}
+
+/**
+ * List of constant values from the query string, comma-separated or
+ * repeated (`?a=x,y` or `?a=x&a=y`)
+ */
+function queryList<const T extends Record<string, string>>(values: T) {
+    return z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .transform((value) => [value ?? []].flat().flatMap((part) => part.split(",")).filter(Boolean))
+        .pipe(z.array(z.enum(values)))
+        .describe(`Comma-separated or repeated: ${Object.values(values).join(", ")}`);
+}
+
+/**
+ * true/false from the query string
+ */
+const queryBoolean = z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === undefined ? undefined : value === "true");
+
+/**
+ * Query string of routes that delete a record by `id`
+ */
+export const idQuerySchema = z.object({
+    id: requiredText,
+});
+
+// ============================================================================
+// n8n Payloads
+// ============================================================================
+
+/**
+ * Unwraps an n8n payload: workflows send an object, an array of items, or
+ * put their result under `output` next to top-level fields like `source`
+ *
+ * @param body - Raw payload
+ * @returns The first item, with its `output` merged in
+ */
+export function unwrapN8nOutput(body: unknown): unknown {
+    const item = Array.isArray(body) ? body[0] : body;
+
+    if (item && typeof item === "object" && "output" in item && item.output && typeof item.output === "object") {
+        return { ...item, ...item.output };
+    }
+
+    return item;
+}
+
+/**
+ * Data returned from n8n ingestion workflows, and by processors in general
+ */
+export const n8nResponseSchema = z.object({
+    summary: z.string().optional(),
+    content: z.string().optional(),
+    key_insights: z.array(z.string()).optional(),
+    actionable_takeaways: z.array(z.string()).optional(),
+    topics: z.array(z.string()).optional(),
+    sentiment: z.string().optional(),
+    source: z.string().optional(),
+    sourceUrl: z.string().optional().describe("Original source URL"),
+    title: z.string().optional(),
+    rawContent: z.string().optional(),
+    // Ingest/Signal workflow specific
+    signalId: z.string().optional().describe("For updating existing signals"),
+    // Publish workflow specific
+    postUrl: z.string().optional().describe("Published post URL"),
+    status: z.string().optional().describe("Publish outcome: success or failed"),
+    error: z.string().optional(),
+});
+
+export type N8nResponse = z.infer<typeof n8nResponseSchema>;
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * Query string of GET /api/signals
+ */
+export const signalListQuerySchema = z.object({
+    status: queryList(SIGNAL_STATUS),
+    source: z.string().optional(),
+    feedId: z.string().optional(),
+    tag: z.string().optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    hasHighlights: queryBoolean,
+    hasThoughts: queryBoolean,
+    sort: z.enum(SIGNAL_SORTS).default(SIGNAL_SORTS.CREATED),
+    order: z.enum(SORT_ORDERS).optional().describe("Default depends on the sort"),
+    include: z.enum(SIGNAL_INCLUDES).default(SIGNAL_INCLUDES.COUNTS),
+    limit: queryLimit(DEFAULT_PAGE_LIMIT),
+    cursor: z.string().optional(),
+});
+
+/**
+ * Body of PATCH /api/signals
+ */
+export const signalStatusUpdateSchema = z.object({
+    id: requiredText,
+    status: z.enum(SIGNAL_STATUS),
+    reason: z.string().optional(),
+    thought: z.string().optional(),
+});
+
+/**
+ * Body of PATCH /api/signals/[id]; other fields are rejected, so IDs,
+ * timestamps and extraction results cannot be overwritten
+ */
+export const signalUpdateSchema = z.strictObject({
+    title: requiredText.optional(),
+    content: requiredText.optional(),
+    summary: z.string().nullable().optional(),
+    source: z.string().nullable().optional(),
+    author: z.string().nullable().optional(),
+    tags: z.array(z.string()).optional().describe("Replaces all tags"),
+    status: z.enum(SIGNAL_STATUS).optional(),
+    reason: z.string().optional(),
+});
+
+/**
+ * Body of POST /api/signals/receive: processed content for a new or placeholder signal
+ */
+export const signalReceiveSchema = z.preprocess(
+    unwrapN8nOutput,
+    n8nResponseSchema.refine(
+        (data) => data.summary || data.key_insights || data.title,
+        "summary, key_insights or title is required"
+    )
+);
+
+/**
+ * Query string of GET /api/signals/[id]/related
+ */
+export const relatedQuerySchema = z.object({
+    limit: queryLimit(RELATED_LIMIT),
+});
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Body of POST /api/ingest; multipart uploads are checked against it too
+ */
+export const ingestRequestSchema = z.object({
+    inputType: z.enum(INPUT_TYPES),
+    content: z.string().optional().describe("For text and file (base64); extracted Markdown when passed to a processor"),
+    url: z.string().optional().describe("For url and youtube"),
+    title: z.string().optional().describe("Optional title for manual notes"),
+    rawContent: z.string().optional().describe("Optional page HTML for url, used instead of fetching the page"),
+    fileName: z.string().optional().describe("Original name of an uploaded file"),
+    fileType: z.string().optional().describe("MIME type of an uploaded file, detected from its bytes"),
+    captions: z.string().optional().describe("Optional WebVTT or SRT captions for youtube"),
+    onDuplicate: z.enum(DUPLICATE_POLICIES).optional().describe("What to do if the content is already a signal (default: sighting)"),
+}).superRefine((body, ctx) => {
+    if (body.inputType === INPUT_TYPES.TEXT && !body.content) {
+        ctx.addIssue({ code: "custom", path: ["content"], message: "is required for text inputs" });
+    }
+
+    if (body.inputType === INPUT_TYPES.URL || body.inputType === INPUT_TYPES.YOUTUBE) {
+        if (!body.url) {
+            ctx.addIssue({ code: "custom", path: ["url"], message: "is required for url and youtube inputs" });
+        } else if (body.inputType === INPUT_TYPES.YOUTUBE && !getYouTubeVideoId(body.url)) {
+            ctx.addIssue({ code: "custom", path: ["url"], message: "must link to a YouTube video" });
+        }
+    }
+
+    if (body.url && !canonicalizeUrl(body.url)) {
+        ctx.addIssue({ code: "custom", path: ["url"], message: "must be an http or https URL" });
+    }
+
+    if (body.captions && !looksLikeCaptions(body.captions)) {
+        ctx.addIssue({ code: "custom", path: ["captions"], message: "must be WebVTT or SRT" });
+    }
+});
+
+export type IngestRequest = z.infer<typeof ingestRequestSchema>;
+
+// ============================================================================
+// Insights
+// ============================================================================
+
+/**
+ * Query string of GET /api/insights
+ */
+export const insightListQuerySchema = z.object({
+    status: z.enum(INSIGHT_STATUS).optional(),
+});
+
+/**
+ * Body of POST /api/insights, written by hand or sent by n8n
+ */
+export const insightCreateSchema = z.preprocess(unwrapN8nOutput, z.object({
+    coreInsight: requiredText,
+    preview: z.string().optional(),
+    previewPlatform: z.string().optional(),
+    thoughtIds: z.array(z.string()).optional().describe("Unknown IDs are skipped"),
+    signalIds: z.array(z.string()).optional().describe("Unknown IDs are skipped"),
+}));
+
+/**
+ * Body of PATCH /api/insights: an edit of the copy, or a lifecycle action
+ */
+export const insightUpdateSchema = z.object({
+    id: requiredText,
+    action: z.enum(["publish", "schedule", "unschedule"]).optional(),
+    scheduledFor: isoDate.optional().describe("When to publish, for the schedule action"),
+    coreInsight: requiredText.optional(),
+    preview: z.string().optional(),
+}).superRefine((body, ctx) => {
+    if (body.action !== "schedule") return;
+
+    if (!body.scheduledFor) {
+        ctx.addIssue({ code: "custom", path: ["scheduledFor"], message: "is required to schedule" });
+    } else if (body.scheduledFor <= new Date()) {
+        ctx.addIssue({ code: "custom", path: ["scheduledFor"], message: "must be in the future" });
+    }
+});
+
+/**
+ * Body of POST /api/insights/generate
+ */
+export const insightGenerateSchema = z.object({
+    signalIds: idList,
+});
+
+/**
+ * Body of POST /api/insights/preview, sent by the n8n formatting workflow
+ */
+export const previewPayloadSchema = z.object({
+    insightId: requiredText.describe("Insight being formatted"),
+    preview: requiredText.describe("Formatted content (e.g., LinkedIn post)"),
+    platform: requiredText.describe("Target platform: linkedin, twitter, etc."),
+});
+
+export type PreviewPayload = z.infer<typeof previewPayloadSchema>;
+
+/**
+ * Body of POST /api/insights/confirm, sent by the n8n publish workflow
+ */
+export const confirmPayloadSchema = z.object({
+    insightId: requiredText.describe("Insight that was published"),
+    postUrl: z.string().optional().describe("URL of the published post"),
+    status: z.enum(["success", "failed"]),
+    error: z.string().optional().describe("Error message if failed"),
+});
+
+export type ConfirmPayload = z.infer<typeof confirmPayloadSchema>;
+
+// ============================================================================
+// Highlights and Thoughts
+// ============================================================================
+
+/**
+ * Body of POST /api/highlights; the text is anchored in the signal by its
+ * surrounding text, with positions as a hint (see lib/anchoring)
+ */
+export const highlightCreateSchema = z.object({
+    signalId: requiredText,
+    text: requiredText,
+    note: z.string().nullable().optional(),
+    category: z.enum(HIGHLIGHT_CATEGORIES).nullable().optional(),
+    prefix: z.string().nullable().optional().describe("Text just before the highlight, as shown"),
+    suffix: z.string().nullable().optional().describe("Text just after the highlight, as shown"),
+    startPos: z.number().int().min(0).nullable().optional(),
+    endPos: z.number().int().min(0).nullable().optional(),
+});
+
+/**
+ * Body of PATCH /api/highlights; the quote itself cannot be changed
+ */
+export const highlightUpdateSchema = z.object({
+    id: requiredText,
+    category: z.enum(HIGHLIGHT_CATEGORIES).nullable().optional().describe("null removes the category"),
+    note: z.string().nullable().optional(),
+});
+
+/**
+ * Query string of GET /api/highlights, the library across signals
+ */
+export const highlightListQuerySchema = z.object({
+    category: queryList(HIGHLIGHT_CATEGORIES),
+    tag: z.string().optional().describe("Tag of the signal, including narrower topics"),
+    source: z.string().optional().describe("Source of the signal"),
+    signalId: z.string().optional(),
+    from: isoDate.optional().describe("Highlighted at or after"),
+    to: isoDate.optional().describe("Highlighted before"),
+    limit: queryLimit(DEFAULT_PAGE_LIMIT),
+    cursor: z.string().optional(),
+});
+
+/**
+ * Body of POST /api/thoughts
+ */
+export const thoughtCreateSchema = z.object({
+    content: requiredText,
+    signalId: z.string().optional(),
+    insightId: z.string().optional(),
+    highlightId: z.string().optional().describe("Highlight the thought responds to"),
+});
+
+/**
+ * Query string of GET /api/thoughts
+ */
+export const thoughtListQuerySchema = z.object({
+    signalId: z.string().optional(),
+    insightId: z.string().optional(),
+    unlinked: queryBoolean.describe("Only thoughts not used in an insight"),
+});
+
+// ============================================================================
+// Feeds
+// ============================================================================
+
+const pollInterval = z
+    .number()
+    .int()
+    .min(FEED_MIN_POLL_MINUTES, `must be a whole number of at least ${FEED_MIN_POLL_MINUTES}`);
+
+/**
+ * Body of POST /api/feeds
+ */
+export const feedCreateSchema = z.object({
+    url: httpUrl,
+    title: z.string().optional(),
+    pollIntervalMinutes: pollInterval.default(FEED_DEFAULT_POLL_MINUTES),
+});
+
+/**
+ * Body of PATCH /api/feeds/[id]
+ */
+export const feedUpdateSchema = z.object({
+    title: z.string().nullable().optional(),
+    enabled: z.boolean().optional(),
+    pollIntervalMinutes: pollInterval.optional(),
+});
+
+/**
+ * Body of POST /api/feeds/poll (optional)
+ */
+export const feedPollSchema = z.object({
+    id: z.string().optional().describe("Feed to poll regardless of its schedule"),
+}).default({});
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * Query string of GET /api/jobs
+ */
+export const jobListQuerySchema = z.object({
+    status: z.enum(JOB_STATUS).optional(),
+    limit: queryLimit(DEFAULT_PAGE_LIMIT),
+});
+
+/**
+ * Body of POST /api/jobs (optional)
+ */
+export const jobRunSchema = z.object({
+    limit: z.number().int().min(1).optional().describe("Maximum number of jobs to run"),
+}).default({});
+
+/**
+ * Body of PATCH /api/jobs
+ */
+export const jobRetrySchema = z.object({
+    id: requiredText,
+    action: z.literal("retry"),
+});
+
+// ============================================================================
+// Search
+// ============================================================================
+
+const searchQuery = z
+    .string({ error: "is required" })
+    .trim()
+    .min(1, "is required");
+
+/**
+ * Query string of GET /api/search
+ */
+export const searchQuerySchema = z.object({
+    q: searchQuery,
+    type: queryList(SEARCH_TYPES),
+    source: z.string().optional(),
+    tag: z.string().optional(),
+    limit: queryLimit(SEARCH_PAGE_LIMIT),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Query string of GET /api/search/similar
+ */
+export const similarQuerySchema = z.object({
+    q: searchQuery,
+    limit: queryLimit(RELATED_LIMIT),
+});
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+const email = requiredText
+    .transform((value) => value.trim().toLowerCase())
+    .pipe(z.email("must be an email address"));
+
+/**
+ * Body of POST /api/auth/signup
+ */
+export const signupSchema = z.object({
+    email,
+    password: z.string().min(PASSWORD_MIN_LENGTH, `must be at least ${PASSWORD_MIN_LENGTH} characters`),
+    name: z.string().trim().optional(),
+});
+
+/**
+ * Body of POST /api/auth/login
+ */
+export const loginSchema = z.object({
+    email,
+    password: requiredText,
+});
+
+/**
+ * Body of POST /api/auth/magic-link
+ */
+export const loginLinkRequestSchema = z.object({
+    email,
+});
+
+/**
+ * Query string of GET /api/auth/magic-link, the link in the email
+ */
+export const loginLinkQuerySchema = z.object({
+    token: requiredText,
+});
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+/**
+ * Body of POST /api/workspaces and PATCH /api/workspaces/[id]
+ */
+export const workspaceSchema = z.object({
+    name: requiredText,
+});
+
+/**
+ * Body of POST /api/workspaces/switch
+ */
+export const workspaceSwitchSchema = z.object({
+    workspaceId: requiredText,
+});
+
+/**
+ * Body of POST /api/workspaces/[id]/members
+ */
+export const memberAddSchema = z.object({
+    email,
+    role: z.enum(WORKSPACE_ROLES),
+});
+
+/**
+ * Body of PATCH /api/workspaces/[id]/members
+ */
+export const memberRoleSchema = z.object({
+    userId: requiredText,
+    role: z.enum(WORKSPACE_ROLES),
+});
+
+/**
+ * Query string of DELETE /api/workspaces/[id]/members
+ */
+export const memberRemoveQuerySchema = z.object({
+    userId: requiredText,
+});
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Body of POST /api/settings/webhooks
+ */
+export const webhookConfigSchema = z.object({
+    name: requiredText,
+    url: httpUrl,
+});
+
+/**
+ * Body of PATCH /api/settings/webhooks
+ */
+export const webhookRotateSchema = z.object({
+    name: requiredText,
+    action: z.literal("rotate_secret"),
+});
+
+/**
+ * Query string of DELETE /api/settings/webhooks
+ */
+export const webhookDeleteQuerySchema = z.object({
+    name: requiredText,
+});
+
+/**
+ * Body of POST /api/settings/tokens
+ */
+export const apiTokenCreateSchema = z.object({
+    name: requiredText,
+    scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "must list at least one scope"),
+    expiresAt: isoDate.optional().describe("When the token stops working; omit for no expiry"),
+}).superRefine((body, ctx) => {
+    if (body.expiresAt && body.expiresAt <= new Date()) {
+        ctx.addIssue({ code: "custom", path: ["expiresAt"], message: "must be in the future" });
+    }
+});
+
+/**
+ * Body of POST /api/settings/processors
+ */
+export const processorConfigSchema = z.object({
+    stage: z.enum(WEBHOOK_NAMES),
+    processor: z.enum(PROCESSOR_NAMES).nullable().describe("null falls back to env/default"),
+});
+
+/**
+ * Query string of GET /api/settings/deliveries
+ */
+export const deliveryListQuerySchema = z.object({
+    direction: z.enum(DELIVERY_DIRECTION).optional(),
+    name: z.enum(WEBHOOK_NAMES).optional(),
+    outcome: z.enum(["success", "failed"]).optional(),
+    limit: queryLimit(DEFAULT_PAGE_LIMIT),
+});
+
+// ============================================================================
+// Tags and Taxonomy
+// ============================================================================
+
+/**
+ * Query string of GET /api/tags
+ */
+export const tagListQuerySchema = z.object({
+    status: z.enum(SIGNAL_STATUS).optional().describe("Only count signals with this status"),
+});
+
+/**
+ * Body of POST /api/tags
+ */
+export const tagCreateSchema = z.object({
+    name: tagName,
+    color: tagColor.optional(),
+    description: z.string().optional(),
+    parentId: z.string().optional(),
+});
+
+/**
+ * Body of PATCH /api/tags/[id]; null or "" clears color, description and parent
+ */
+export const tagUpdateSchema = z.object({
+    name: tagName.optional(),
+    color: z.union([tagColor, z.literal("")]).nullable().optional(),
+    description: z.string().nullable().optional(),
+    parentId: z.string().nullable().optional(),
+});
+
+/**
+ * Body of POST /api/tags/merge
+ */
+export const tagMergeSchema = z.object({
+    sourceIds: idList,
+    targetId: requiredText,
+});
+
+/**
+ * Body of POST /api/tags/[id]/aliases
+ */
+export const tagAliasCreateSchema = z.object({
+    name: tagName,
+});
+
+/**
+ * Query string of DELETE /api/tags/[id]/aliases
+ */
+export const tagAliasDeleteQuerySchema = z.object({
+    aliasId: requiredText,
+});
+
+/**
+ * Query string of GET /api/taxonomy
+ */
+export const taxonomyQuerySchema = z.object({
+    suggestions: z.enum(TOPIC_SUGGESTION_STATUS).default(TOPIC_SUGGESTION_STATUS.PENDING),
+});
+
+/**
+ * Body of PATCH /api/taxonomy/suggestions
+ */
+export const suggestionResolveSchema = z.object({
+    id: requiredText,
+    action: z.enum(["approve", "alias", "reject"]),
+    tagId: z.string().optional().describe("Tag the topic means, for the alias action"),
+    parentId: z.string().optional().describe("Broader topic of the new tag, for the approve action"),
+}).superRefine((body, ctx) => {
+    if (body.action === "alias" && !body.tagId) {
+        ctx.addIssue({ code: "custom", path: ["tagId"], message: "is required to approve a suggestion as an alias" });
+    }
+});
@@ -0,0 +1,197 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { expandTopic } from "./taxonomy";
+import { inWorkspace } from "./ownership";
+import { SEARCH_FACET_LIMIT, SEARCH_PAGE_LIMIT, SIGNAL_STATUS } from "./constants";
+import type { SearchType } from "./constants";
+import type { SearchFacets, SearchHit, SearchResponse } from "./types";
+
+/**
+ * Full-text search across signals, highlights, thoughts and insights
+ *
+ * Backed by Postgres full-text search: each table has a generated
+ * `searchVector` column with a GIN index (see the add_full_text_search
+ * migration). Signal matches are weighted title > summary > content >
+ * byline/URL. Queries use web search syntax ("quoted phrases", or, -not).
+ * Only the current workspace's records are searched (see lib/ownership).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Search query and filters
+ */
+export interface SearchParams {
+    query: string;
+    types?: SearchType[];   // Only return these record types
+    source?: string;        // Only hits whose signal has this source
+    tag?: string;           // Only hits whose signal has this tag or a narrower topic
+    limit?: number;
+    offset?: number;
+}
+
+interface FacetRow {
+    facet: keyof SearchFacets;
+    value: string;
+    count: number;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * ts_headline options: short excerpts with matches wrapped in <mark>
+ */
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=\" … \"";
+
+/**
+ * Runs a ranked full-text search
+ *
+ * Hits are ordered by rank, then newest first. Facet counts cover every
+ * match of the query, before the type/source/tag filters are applied, so
+ * they can be used to offer those filters.
+ *
+ * @param params - Query, filters and pagination
+ * @returns Page of hits with snippets, total hit count and facet counts
+ *
+ * @example
+ * ```ts
+ * const results = await search({ query: "pricing -enterprise", types: ["signal"] });
+ * // { hits: [{ type: "signal", snippet: "... <mark>pricing</mark> ...", ... }], total: 3, ... }
+ * ```
+ */
+export async function search(params: SearchParams): Promise<SearchResponse> {
+    const limit = params.limit ?? SEARCH_PAGE_LIMIT;
+    const offset = params.offset ?? 0;
+    const matches = matchesQuery(params.query);
+    const filters = filterConditions(params, params.tag ? await expandTopic(params.tag) : []);
+
+    const [hits, totals, facetRows] = await Promise.all([
+        prisma.$queryRaw<SearchHit[]>`
+            WITH ${matches}
+            SELECT type, id, "signalId", "insightId", title, source, rank, "createdAt",
+                   ts_headline('english', ${escapedHtml(Prisma.sql`body`)}, q.query, ${HEADLINE_OPTIONS}) AS snippet
+            FROM matches CROSS JOIN q
+            WHERE ${filters}
+            ORDER BY rank DESC, "createdAt" DESC
+            LIMIT ${limit} OFFSET ${offset}
+        `,
+        prisma.$queryRaw<{ total: number }[]>`
+            WITH ${matches}
+            SELECT count(*)::int AS total FROM matches WHERE ${filters}
+        `,
+        prisma.$queryRaw<FacetRow[]>`
+            WITH ${matches}
+            SELECT 'type' AS facet, type AS value, count(*)::int AS count
+            FROM matches GROUP BY type
+            UNION ALL
+            (SELECT 'source', source, count(*)::int FROM matches
+             WHERE source IS NOT NULL GROUP BY source ORDER BY count(*) DESC LIMIT ${SEARCH_FACET_LIMIT})
+            UNION ALL
+            (SELECT 'tag', t.name, count(*)::int FROM matches
+             JOIN "_SignalToTag" st ON st."A" = matches."signalId"
+             JOIN "Tag" t ON t.id = st."B"
+             GROUP BY t.name ORDER BY count(*) DESC LIMIT ${SEARCH_FACET_LIMIT})
+        `,
+    ]);
+
+    const facets: SearchFacets = { type: {}, source: {}, tag: {} };
+    for (const row of facetRows) {
+        facets[row.facet][row.value] = row.count;
+    }
+
+    return {
+        query: params.query,
+        hits: hits.map((hit) => ({ ...hit, rank: Number(hit.rank) })),
+        total: totals[0]?.total ?? 0,
+        limit,
+        offset,
+        facets,
+    };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds the `q` and `matches` CTEs: every record matching the query,
+ * with its rank and the text snippets are taken from
+ */
+function matchesQuery(query: string): Prisma.Sql {
+    return Prisma.sql`
+        q AS (SELECT websearch_to_tsquery('english', ${query}) AS query),
+        matches AS (
+            SELECT 'signal' AS type, s.id, s.id AS "signalId", NULL::text AS "insightId",
+                   s.title, s.source,
+                   coalesce(s.summary || E'\n', '') || s.content AS body,
+                   ts_rank_cd(s."searchVector", q.query) AS rank, s."createdAt"
+            FROM "Signal" s CROSS JOIN q
+            WHERE s."searchVector" @@ q.query AND s.status <> ${SIGNAL_STATUS.PROCESSING} AND ${inWorkspace("s")}
+
+            UNION ALL
+            SELECT 'highlight', h.id, h."signalId", NULL,
+                   s.title, s.source,
+                   h.text || coalesce(E'\n' || h.note, ''),
+                   ts_rank_cd(h."searchVector", q.query), h."createdAt"
+            FROM "Highlight" h JOIN "Signal" s ON s.id = h."signalId" CROSS JOIN q
+            WHERE h."searchVector" @@ q.query AND ${inWorkspace("h")}
+
+            UNION ALL
+            SELECT 'thought', t.id, t."signalId", t."insightId",
+                   coalesce(s.title, left(i."coreInsight", 100), 'Thought'), s.source,
+                   t.content,
+                   ts_rank_cd(t."searchVector", q.query), t."createdAt"
+            FROM "Thought" t
+            LEFT JOIN "Signal" s ON s.id = t."signalId"
+            LEFT JOIN "Insight" i ON i.id = t."insightId"
+            CROSS JOIN q
+            WHERE t."searchVector" @@ q.query AND ${inWorkspace("t")}
+
+            UNION ALL
+            SELECT 'insight', i.id, NULL, i.id,
+                   left(i."coreInsight", 100), NULL,
+                   i."coreInsight" || coalesce(E'\n' || i.preview, ''),
+                   ts_rank_cd(i."searchVector", q.query), i."createdAt"
+            FROM "Insight" i CROSS JOIN q
+            WHERE i."searchVector" @@ q.query AND ${inWorkspace("i")}
+        )
+    `;
+}
+
+/**
+ * Builds the WHERE clause for the type, source and tag filters
+ *
+ * @param params - Search filters
+ * @param tagIds - The filter tag and its narrower topics
+ */
+function filterConditions(params: SearchParams, tagIds: string[]): Prisma.Sql {
+    const conditions = [Prisma.sql`TRUE`];
+
+    if (params.types?.length) {
+        conditions.push(Prisma.sql`type IN (${Prisma.join(params.types)})`);
+    }
+    if (params.source) {
+        conditions.push(Prisma.sql`source = ${params.source}`);
+    }
+    if (params.tag) {
+        conditions.push(tagIds.length > 0
+            ? Prisma.sql`EXISTS (
+                SELECT 1 FROM "_SignalToTag" st
+                WHERE st."A" = "signalId" AND st."B" IN (${Prisma.join(tagIds)})
+            )`
+            : Prisma.sql`FALSE`);
+    }
+
+    return Prisma.join(conditions, " AND ");
+}
+
+/**
+ * Escapes HTML in a text column, so snippets only contain <mark> tags
+ */
+function escapedHtml(column: Prisma.Sql): Prisma.Sql {
+    return Prisma.sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+}
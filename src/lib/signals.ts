@@ -0,0 +1,337 @@
+import { Prisma } from "@prisma/client";
+import type { Signal } from "@prisma/client";
+import prisma from "./prisma";
+import { formatN8nDataToMarkdown, formatTimestamp } from "./formatters";
+import { getBlob } from "./blobs";
+import { extractArticle, fetchArticle, looksLikeHtml } from "./extract";
+import { canonicalizeUrl } from "./canonical";
+import { extractFile, joinSections } from "./files";
+import type { ExtractedSection } from "./files";
+import { parseCaptions } from "./captions";
+import { fetchYouTubeMetadata, fetchYouTubeTranscript, getYouTubeVideoId } from "./youtube";
+import { embedRecord } from "./similarity";
+import { reanchorHighlights } from "./highlights";
+import { resolveTopics, suggestTopics } from "./taxonomy";
+import { transitionSignal } from "./lifecycle";
+import { EVENT_ACTORS, PROCESSING_PLACEHOLDER_CONTENT, SECTION_KINDS, SIGNAL_STATUS, TITLE_MAX_LENGTH } from "./constants";
+import type { FileMimeType } from "./constants";
+import type { IngestRequest, N8nResponse } from "./types";
+
+/**
+ * Signal persistence helpers shared by API routes and background jobs
+ */
+
+/**
+ * Thrown when processor output arrives for a signal that is no longer processing
+ */
+export class SignalNotProcessingError extends Error {
+    constructor(
+        public readonly signalId: string,
+        public readonly status: string
+    ) {
+        super(`Signal ${signalId} is ${status}, not processing; the processor result was ignored`);
+        this.name = "SignalNotProcessingError";
+    }
+}
+
+// ============================================================================
+// N8n Results
+// ============================================================================
+
+/**
+ * Checks whether an n8n response carries extracted content, as opposed to a
+ * bare confirmation that the workflow was started
+ *
+ * @param data - N8n response data
+ * @returns true if the response can be stored on a signal
+ */
+export function hasExtractedContent(data: N8nResponse): boolean {
+    return Boolean(data.summary || data.key_insights || data.topics);
+}
+
+/**
+ * Checks whether a signal's content was split into sections
+ *
+ * Section ranges point into the content, so it must not be replaced by
+ * processor output afterwards.
+ *
+ * @param id - Signal ID
+ * @returns true if the signal has sections
+ */
+export async function hasSignalSections(id: string): Promise<boolean> {
+    const count = await prisma.signalSection.count({ where: { signalId: id } });
+    return count > 0;
+}
+
+/**
+ * Stores processor output on a signal that is still processing
+ *
+ * Late, retried or replayed results arrive after the signal was already
+ * processed once; applying them would overwrite the user's edits and move
+ * the signal back to unread, so the update only matches while the signal
+ * is processing.
+ *
+ * @param id - Signal ID
+ * @param data - Fields to store
+ * @returns Updated Signal record
+ * @throws SignalNotProcessingError if the signal has left processing
+ * @throws Prisma.PrismaClientKnownRequestError (P2025) if the signal does not exist
+ */
+export async function updateProcessingSignal(id: string, data: Prisma.SignalUpdateInput): Promise<Signal> {
+    try {
+        return await prisma.signal.update({
+            where: { id, status: SIGNAL_STATUS.PROCESSING },
+            data,
+        });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+            const current = await prisma.signal.findUnique({ where: { id }, select: { status: true } });
+            if (current) throw new SignalNotProcessingError(id, current.status);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Updates an existing Signal record with data from n8n
+ *
+ * Topics are mapped to canonical tags (see lib/taxonomy); unknown topics
+ * are queued for approval instead of becoming tags.
+ *
+ * @param id - Signal ID (usually the processing placeholder)
+ * @param data - Extracted n8n response data
+ * @param request - Original ingest request
+ * @returns Updated Signal record
+ * @throws SignalNotProcessingError if the signal has left processing
+ */
+export async function updateSignalWithN8nData(id: string, data: N8nResponse, request: IngestRequest) {
+    const title = request.title
+        || data.title
+        || data.summary?.substring(0, TITLE_MAX_LENGTH)
+        || "Extracted Insight";
+
+    const content = await hasSignalSections(id)
+        ? undefined
+        : data.content || formatN8nDataToMarkdown(data);
+    const topics = await resolveTopics(data.topics);
+
+    const signal = await updateProcessingSignal(id, {
+        title,
+        content,
+        summary: data.summary,
+        rawContent: request.content || data.rawContent,
+        tags: { set: topics.tagIds.map((tagId) => ({ id: tagId })) },
+    });
+    if (content !== undefined) await reanchorHighlights(id);
+
+    const transition = await transitionSignal(id, SIGNAL_STATUS.UNREAD, {
+        actor: EVENT_ACTORS.PROCESSOR,
+        reason: "Processed",
+    });
+
+    await suggestTopics(id, topics.unknown);
+    await embedRecord("signal", id);
+    return transition?.signal ?? signal;
+}
+
+/**
+ * Marks a processing placeholder as failed so the raw content can still be reviewed
+ *
+ * Content that was already extracted locally is kept, so the signal stays readable.
+ * Signals that have left processing in the meantime are left alone.
+ *
+ * @param id - Signal ID
+ * @param error - Error message from the last processing attempt
+ */
+export async function markSignalProcessingFailed(id: string, error: string | undefined) {
+    const signal = await prisma.signal.findUnique({
+        where: { id },
+        select: { content: true, status: true },
+    });
+    if (signal?.status !== SIGNAL_STATUS.PROCESSING) return null;
+
+    if (signal.content === PROCESSING_PLACEHOLDER_CONTENT) {
+        await prisma.signal.update({
+            where: { id },
+            data: {
+                content: `AI Processing Failed: ${error}. You can still review the raw content below.`,
+            },
+        });
+    }
+
+    return await transitionSignal(id, SIGNAL_STATUS.UNREAD, {
+        actor: EVENT_ACTORS.SYSTEM,
+        reason: error ? `Processing failed: ${error}` : "Processing failed",
+    });
+}
+
+// ============================================================================
+// Local Extraction
+// ============================================================================
+
+/**
+ * Extracts the source of a url, file or youtube ingest request and stores it on the signal
+ *
+ * Runs before the ingest processor so the signal is readable even if the
+ * AI step fails. If the signal already has extracted content (e.g. on a
+ * retry), that content is reused instead of extracting again. Extraction
+ * failures are logged and leave the request unchanged.
+ *
+ * @param id - Signal ID (the processing placeholder)
+ * @param request - Original ingest request
+ * @returns Request with the extracted Markdown as `content`, for the processor
+ */
+export async function extractSignalSource(id: string, request: IngestRequest): Promise<IngestRequest> {
+    if (request.inputType === "text") {
+        return request;
+    }
+
+    const signal = await prisma.signal.findUnique({ where: { id } });
+    if (!signal) {
+        return request;
+    }
+
+    if (signal.content !== PROCESSING_PLACEHOLDER_CONTENT) {
+        return { ...request, content: signal.content, title: request.title || signal.title };
+    }
+
+    try {
+        const extractors = {
+            url: extractSignalArticle,
+            file: extractSignalFile,
+            youtube: extractSignalVideo,
+        };
+        const updated = await extractors[request.inputType](signal, request);
+
+        return updated
+            ? { ...request, content: updated.content, title: updated.title }
+            : request;
+    } catch (error) {
+        console.warn(`Local extraction failed for signal ${id}:`, error);
+        return request;
+    }
+}
+
+/**
+ * Extracts the article behind a url and stores it on the signal
+ *
+ * Uses the HTML in `request.rawContent` when given, otherwise fetches the page.
+ *
+ * @returns Updated Signal record, or null if the page has no readable content
+ */
+async function extractSignalArticle(signal: Signal, request: IngestRequest) {
+    const url = request.url ?? signal.sourceUrl;
+    if (!url) return null;
+
+    const article = request.rawContent && looksLikeHtml(request.rawContent)
+        ? extractArticle(request.rawContent, url)
+        : await fetchArticle(url);
+
+    if (!article) {
+        console.warn(`No readable article found at ${url}`);
+        return null;
+    }
+
+    const updated = await prisma.signal.update({
+        where: { id: signal.id },
+        data: {
+            title: request.title || article.title || undefined,
+            content: article.content,
+            sourceUrl: canonicalizeUrl(article.canonicalUrl ?? url) ?? url,
+            author: article.author,
+            publishedAt: article.publishedAt,
+            imageUrl: article.leadImageUrl,
+        },
+    });
+
+    await reanchorHighlights(signal.id);
+    return updated;
+}
+
+/**
+ * Extracts the text of an uploaded file and stores it with its sections
+ *
+ * @returns Updated Signal record, or null if the signal has no stored file
+ */
+async function extractSignalFile(signal: Signal, request: IngestRequest) {
+    if (!signal.fileKey || !signal.fileType) return null;
+
+    const bytes = await getBlob(signal.fileKey);
+    const file = await extractFile(bytes, signal.fileType as FileMimeType, signal.fileName ?? undefined);
+
+    return await storeSectionedContent(signal.id, {
+        title: request.title || file.title || undefined,
+        content: file.content || "This file contains no extractable text.",
+        author: file.author,
+    }, file.sections);
+}
+
+/**
+ * Fetches a video's metadata and transcript and stores the transcript as timed segments
+ *
+ * Captions in `request.captions` (WebVTT or SRT) are used when given,
+ * otherwise the video's captions are fetched from YouTube.
+ *
+ * @returns Updated Signal record, or null if no transcript is available
+ */
+async function extractSignalVideo(signal: Signal, request: IngestRequest) {
+    const url = request.url ?? signal.sourceUrl;
+    const videoId = url ? getYouTubeVideoId(url) : null;
+    if (!url || !videoId) return null;
+
+    const metadata = await fetchYouTubeMetadata(url).catch(() => null);
+    const segments = request.captions
+        ? parseCaptions(request.captions)
+        : await fetchYouTubeTranscript(videoId);
+
+    const details = {
+        title: request.title || metadata?.title || undefined,
+        author: metadata?.author,
+        imageUrl: metadata?.thumbnailUrl,
+    };
+
+    if (!segments?.length) {
+        console.warn(`No transcript available for ${url}`);
+        await prisma.signal.update({ where: { id: signal.id }, data: details });
+        return null;
+    }
+
+    const transcript = joinSections(segments.map((segment) => ({
+        kind: SECTION_KINDS.SEGMENT,
+        label: formatTimestamp(segment.start),
+        markdown: segment.text.replace(/\n/g, " "),
+        startTime: segment.start,
+        endTime: segment.end,
+    })));
+
+    return await storeSectionedContent(signal.id, {
+        ...details,
+        content: transcript.content,
+    }, transcript.sections);
+}
+
+/**
+ * Stores extracted content on a signal and replaces its sections
+ *
+ * @param id - Signal ID
+ * @param data - Signal fields to update, including the new content
+ * @param sections - Ranges of the new content
+ * @returns Updated Signal record
+ */
+async function storeSectionedContent(id: string, data: Prisma.SignalUpdateInput, sections: ExtractedSection[]) {
+    const [updated] = await prisma.$transaction([
+        prisma.signal.update({ where: { id }, data }),
+        prisma.signalSection.deleteMany({ where: { signalId: id } }),
+        prisma.signalSection.createMany({
+            data: sections.map((section, position) => ({
+                signalId: id,
+                position,
+                ...section,
+            })),
+        }),
+    ]);
+
+    // Highlights point into the old content and sections
+    await reanchorHighlights(id);
+    return updated;
+}
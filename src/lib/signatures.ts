@@ -0,0 +1,221 @@
+import crypto from "crypto";
+import prisma from "./prisma";
+import { hasPermission, hasScope, resolvePrincipal } from "./auth";
+import {
+    API_TOKEN_SCOPES,
+    PERMISSIONS,
+    PRINCIPAL_TYPES,
+    SIGNATURE_HEADERS,
+    SIGNATURE_MAX_FUTURE_SKEW_SECONDS,
+    SIGNATURE_TOLERANCE_SECONDS,
+} from "./constants";
+import type { WebhookName } from "./constants";
+
+/**
+ * HMAC signing utilities for inbound callbacks from n8n
+ *
+ * Every callback must carry three headers:
+ * - x-signal-desk-timestamp: Unix time in seconds when the request was signed
+ * - x-signal-desk-nonce: Random, single-use value
+ * - x-signal-desk-signature: "sha256=" + hex HMAC-SHA256 of `${timestamp}.${nonce}.${rawBody}`
+ *
+ * The HMAC key is the secret of the matching WebhookConfig. During a rotation
+ * grace window, the previous secret is accepted as well. Each workspace has
+ * its own configurations, so the secret that matches tells which workspace
+ * the callback is for.
+ *
+ * Instead of signing, a callback may carry an API token with the callbacks
+ * scope as a bearer token (see verifyCallback).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of verifying a signed callback
+ */
+export type SignatureVerification =
+    | { valid: true; body: string; workspaceId: string | null }
+    | { valid: false; error: string; status: number };
+
+// ============================================================================
+// Secret Management
+// ============================================================================
+
+/**
+ * Generates a new random signing secret
+ *
+ * @returns Secret string prefixed with "whsec_"
+ */
+export function generateWebhookSecret(): string {
+    return `whsec_${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Computes the signature header value for a request body
+ *
+ * @param secret - Shared signing secret
+ * @param timestamp - Unix time in seconds
+ * @param nonce - Single-use request nonce
+ * @param body - Raw request body
+ * @returns Signature in the form "sha256=<hex>"
+ *
+ * @example
+ * ```ts
+ * const signature = computeSignature(secret, "1735689600", "b1946ac9", '{"insightId":"..."}');
+ * // Returns: "sha256=5d41402abc4b2a76b9719d911017c592..."
+ * ```
+ */
+export function computeSignature(secret: string, timestamp: string, nonce: string, body: string): string {
+    const digest = crypto
+        .createHmac("sha256", secret)
+        .update(`${timestamp}.${nonce}.${body}`)
+        .digest("hex");
+    return `sha256=${digest}`;
+}
+
+/**
+ * Compares two signatures in constant time
+ */
+function signaturesMatch(expected: string, received: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(received);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Authenticates a callback by its API token or, without one, its signature
+ *
+ * A token callback is for the token's workspace, and the token's user
+ * needs the edit permission there.
+ *
+ * @param request - Incoming request (body is consumed)
+ * @param name - Webhook configuration whose secret signs this callback
+ * @returns Verification result with the raw body and the callback's workspace
+ */
+export async function verifyCallback(request: Request, name: WebhookName): Promise<SignatureVerification> {
+    if (!request.headers.has("authorization")) {
+        return await verifyWebhookSignature(request, name);
+    }
+
+    const principal = await resolvePrincipal(request);
+    if (principal?.type !== PRINCIPAL_TYPES.USER || !principal.scopes) {
+        return { valid: false, error: "Invalid API token", status: 401 };
+    }
+    if (!hasScope(principal, API_TOKEN_SCOPES.CALLBACKS)) {
+        return { valid: false, error: `This API token lacks the ${API_TOKEN_SCOPES.CALLBACKS} scope`, status: 403 };
+    }
+    if (!principal.workspace || !hasPermission(principal, PERMISSIONS.EDIT)) {
+        return { valid: false, error: `The API token's user needs the ${PERMISSIONS.EDIT} permission in its workspace`, status: 403 };
+    }
+
+    return { valid: true, body: await request.text(), workspaceId: principal.workspace.id };
+}
+
+/**
+ * Verifies a signed callback and returns its raw body
+ *
+ * Rejects requests when:
+ * - no workspace has a signing secret for the webhook (503)
+ * - any signature header is missing or malformed (401)
+ * - the timestamp is older than the tolerance window, or further ahead of
+ *   the server clock than the allowed skew (401)
+ * - the signature matches no workspace's current or grace-period secret (401)
+ * - the nonce has already been used (409)
+ *
+ * @param request - Incoming request (body is consumed)
+ * @param name - Webhook configuration whose secret signs this callback
+ * @returns Verification result with the raw body and the workspace of the
+ * matching configuration on success
+ */
+export async function verifyWebhookSignature(request: Request, name: WebhookName): Promise<SignatureVerification> {
+    const timestamp = request.headers.get(SIGNATURE_HEADERS.TIMESTAMP);
+    const nonce = request.headers.get(SIGNATURE_HEADERS.NONCE);
+    const signature = request.headers.get(SIGNATURE_HEADERS.SIGNATURE);
+    const body = await request.text();
+
+    const configs = await prisma.webhookConfig.findMany({
+        where: { name, secret: { not: null } },
+    });
+
+    if (configs.length === 0) {
+        return {
+            valid: false,
+            error: `No signing secret configured for the ${name} webhook. Generate one in Settings.`,
+            status: 503,
+        };
+    }
+
+    if (!timestamp || !nonce || !signature) {
+        return { valid: false, error: "Missing signature headers", status: 401 };
+    }
+
+    const signedAt = Number(timestamp);
+    if (!Number.isInteger(signedAt)) {
+        return { valid: false, error: "Invalid signature timestamp", status: 401 };
+    }
+
+    const ageSeconds = Date.now() / 1000 - signedAt;
+    if (ageSeconds > SIGNATURE_TOLERANCE_SECONDS || ageSeconds < -SIGNATURE_MAX_FUTURE_SKEW_SECONDS) {
+        return { valid: false, error: "Signature timestamp is outside the allowed window", status: 401 };
+    }
+
+    const matched = configs.find((config) => {
+        const candidates = [config.secret!];
+        if (config.previousSecret && config.previousSecretExpiresAt && config.previousSecretExpiresAt > new Date()) {
+            candidates.push(config.previousSecret);
+        }
+
+        return candidates.some((secret) =>
+            signaturesMatch(computeSignature(secret, timestamp, nonce, body), signature)
+        );
+    });
+
+    if (!matched) {
+        return { valid: false, error: "Invalid signature", status: 401 };
+    }
+
+    if (!(await consumeNonce(nonce))) {
+        return { valid: false, error: "Replayed request: nonce already used", status: 409 };
+    }
+
+    return { valid: true, body, workspaceId: matched.workspaceId };
+}
+
+/**
+ * Records a nonce as used, pruning nonces whose requests are stale by now
+ *
+ * A request may be dated up to the allowed skew ahead of its arrival, so
+ * nonces are kept for the tolerance window plus that skew.
+ *
+ * @param nonce - Nonce from the request headers
+ * @returns false if the nonce was already used
+ */
+async function consumeNonce(nonce: string): Promise<boolean> {
+    const cutoff = new Date(Date.now() - (SIGNATURE_TOLERANCE_SECONDS + SIGNATURE_MAX_FUTURE_SKEW_SECONDS) * 1000);
+    await prisma.webhookNonce.deleteMany({
+        where: { createdAt: { lt: cutoff } },
+    });
+
+    try {
+        await prisma.webhookNonce.create({
+            data: { nonce },
+        });
+        return true;
+    } catch (error) {
+        // Unique constraint violation: the nonce has been seen before
+        if (error instanceof Error && "code" in error && error.code === "P2002") {
+            return false;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,290 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { getEmbedder } from "./embeddings";
+import { inWorkspace } from "./ownership";
+import {
+    EMBEDDING_BATCH_SIZE,
+    EMBEDDING_INPUT_MAX_LENGTH,
+    RELATED_LIMIT,
+    RELATED_MIN_SIMILARITY,
+    SIGNAL_STATUS,
+} from "./constants";
+import type {
+    Embedder,
+    RelatedHighlight,
+    RelatedResponse,
+    RelatedSignal,
+    RelatedThought,
+} from "./types";
+
+/**
+ * Semantic similarity across signals, highlights and thoughts
+ *
+ * Records are embedded with the configured embedder (see lib/embeddings)
+ * and stored in pgvector `embedding` columns together with the model that
+ * produced them. Records are embedded right after they are created or
+ * their text is edited; the job worker embeds anything missing, stale or
+ * produced by another model.
+ * Similarity is cosine similarity between vectors of the same model.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Record types that are embedded
+ */
+export type EmbeddedRecordType = "signal" | "highlight" | "thought";
+
+/**
+ * Text of a record to embed
+ */
+interface EmbeddingInput {
+    id: string;
+    text: string;
+}
+
+/**
+ * Selects records by ID, or those whose embedding is missing or stale
+ */
+interface RecordFilter {
+    id?: string;
+    OR?: ({ embeddingModel: null } | { embeddingModel: { not: string } })[];
+}
+
+// ============================================================================
+// Embedding
+// ============================================================================
+
+/**
+ * Loads the text embedded for each record type
+ */
+const LOADERS: Record<EmbeddedRecordType, (filter: RecordFilter, take: number) => Promise<EmbeddingInput[]>> = {
+    signal: async (filter, take) => {
+        const signals = await prisma.signal.findMany({
+            where: { ...filter, status: { not: SIGNAL_STATUS.PROCESSING } },
+            select: { id: true, title: true, summary: true, content: true },
+            take,
+        });
+        return signals.map((s) => ({ id: s.id, text: joinText(s.title, s.summary, s.content) }));
+    },
+    highlight: async (filter, take) => {
+        const highlights = await prisma.highlight.findMany({
+            where: filter,
+            select: { id: true, text: true, note: true },
+            take,
+        });
+        return highlights.map((h) => ({ id: h.id, text: joinText(h.text, h.note) }));
+    },
+    thought: async (filter, take) => {
+        const thoughts = await prisma.thought.findMany({
+            where: filter,
+            select: { id: true, content: true },
+            take,
+        });
+        return thoughts.map((t) => ({ id: t.id, text: joinText(t.content) }));
+    },
+};
+
+const TABLES: Record<EmbeddedRecordType, Prisma.Sql> = {
+    signal: Prisma.raw(`"Signal"`),
+    highlight: Prisma.raw(`"Highlight"`),
+    thought: Prisma.raw(`"Thought"`),
+};
+
+/**
+ * Embeds a single record with the configured embedder
+ *
+ * Failures are logged instead of thrown, so capturing a record never fails
+ * because of the embedder; the worker retries with embedMissing. Signals
+ * are only embedded once processing has finished.
+ *
+ * @param type - Record type
+ * @param id - Record ID
+ *
+ * @example
+ * ```ts
+ * after(() => embedRecord("thought", thought.id));
+ * ```
+ */
+export async function embedRecord(type: EmbeddedRecordType, id: string): Promise<void> {
+    try {
+        const inputs = await LOADERS[type]({ id }, 1);
+        await storeEmbeddings(type, inputs, getEmbedder());
+    } catch (error) {
+        console.warn(`Failed to embed ${type} ${id}, leaving it to the worker:`, error);
+    }
+}
+
+/**
+ * Embeds records that have no embedding from the configured embedder yet
+ *
+ * @param limit - Maximum records to embed per record type
+ * @returns Number of records embedded
+ */
+export async function embedMissing(limit = EMBEDDING_BATCH_SIZE): Promise<number> {
+    const embedder = getEmbedder();
+    const filter: RecordFilter = {
+        OR: [{ embeddingModel: null }, { embeddingModel: { not: embedder.model } }],
+    };
+
+    let embedded = 0;
+    for (const type of Object.keys(LOADERS) as EmbeddedRecordType[]) {
+        const inputs = await LOADERS[type](filter, limit);
+        await storeEmbeddings(type, inputs, embedder);
+        embedded += inputs.length;
+    }
+
+    return embedded;
+}
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+/**
+ * Finds signals, highlights and thoughts similar to a signal
+ *
+ * Highlights and thoughts of the signal itself are left out. The signal is
+ * embedded first if it has no current embedding.
+ *
+ * @param signalId - Signal ID
+ * @param limit - Maximum results per record type
+ * @returns Related records, most similar first, or null if the signal does not exist
+ */
+export async function findRelated(signalId: string, limit = RELATED_LIMIT): Promise<RelatedResponse | null> {
+    const signal = await prisma.signal.findUnique({
+        where: { id: signalId },
+        select: { embeddingModel: true },
+    });
+    if (!signal) return null;
+
+    const embedder = getEmbedder();
+    if (signal.embeddingModel !== embedder.model) {
+        await embedRecord("signal", signalId);
+    }
+
+    const target = Prisma.sql`(SELECT embedding FROM "Signal" WHERE id = ${signalId} AND "embeddingModel" = ${embedder.model})`;
+    return await findNearest(target, embedder.model, signalId, limit);
+}
+
+/**
+ * Finds signals, highlights and thoughts similar to free text
+ *
+ * @param query - Text to compare against
+ * @param limit - Maximum results per record type
+ * @returns Similar records, most similar first
+ *
+ * @example
+ * ```ts
+ * const { signals } = await findSimilar("pricing experiments for developer tools");
+ * ```
+ */
+export async function findSimilar(query: string, limit = RELATED_LIMIT): Promise<RelatedResponse> {
+    const embedder = getEmbedder();
+    const [vector] = await embedder.embed([query.slice(0, EMBEDDING_INPUT_MAX_LENGTH)]);
+
+    return await findNearest(vectorValue(vector), embedder.model, null, limit);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Embeds records in one batch and stores their vectors
+ */
+async function storeEmbeddings(type: EmbeddedRecordType, inputs: EmbeddingInput[], embedder: Embedder): Promise<void> {
+    if (inputs.length === 0) return;
+
+    const vectors = await embedder.embed(inputs.map((input) => input.text));
+
+    for (const [i, input] of inputs.entries()) {
+        await prisma.$executeRaw`
+            UPDATE ${TABLES[type]}
+            SET "embedding" = ${vectorValue(vectors[i])}, "embeddingModel" = ${embedder.model}
+            WHERE id = ${input.id}
+        `;
+    }
+}
+
+/**
+ * Runs the nearest-neighbour queries for a target vector
+ *
+ * @param target - SQL expression for the target vector
+ * @param model - Only vectors of this model are compared
+ * @param excludeSignalId - Signal whose own records are left out
+ * @param limit - Maximum results per record type
+ */
+async function findNearest(
+    target: Prisma.Sql,
+    model: string,
+    excludeSignalId: string | null,
+    limit: number
+): Promise<RelatedResponse> {
+    const exclude = excludeSignalId ?? "";
+
+    const [signals, highlights, thoughts] = await Promise.all([
+        prisma.$queryRaw<RelatedSignal[]>`
+            WITH target AS (SELECT ${target} AS embedding)
+            SELECT * FROM (
+                SELECT s.id, s.title, s.source, s.summary, s."createdAt",
+                       1 - (s.embedding <=> target.embedding) AS similarity
+                FROM "Signal" s CROSS JOIN target
+                WHERE s."embeddingModel" = ${model} AND s.embedding IS NOT NULL
+                  AND s.status <> ${SIGNAL_STATUS.PROCESSING} AND s.id <> ${exclude}
+                  AND ${inWorkspace("s")}
+            ) ranked
+            WHERE similarity >= ${RELATED_MIN_SIMILARITY}
+            ORDER BY similarity DESC
+            LIMIT ${limit}
+        `,
+        prisma.$queryRaw<RelatedHighlight[]>`
+            WITH target AS (SELECT ${target} AS embedding)
+            SELECT * FROM (
+                SELECT h.id, h.text, h."signalId", s.title AS "signalTitle", h."createdAt",
+                       1 - (h.embedding <=> target.embedding) AS similarity
+                FROM "Highlight" h JOIN "Signal" s ON s.id = h."signalId" CROSS JOIN target
+                WHERE h."embeddingModel" = ${model} AND h.embedding IS NOT NULL
+                  AND h."signalId" <> ${exclude} AND ${inWorkspace("h")}
+            ) ranked
+            WHERE similarity >= ${RELATED_MIN_SIMILARITY}
+            ORDER BY similarity DESC
+            LIMIT ${limit}
+        `,
+        prisma.$queryRaw<RelatedThought[]>`
+            WITH target AS (SELECT ${target} AS embedding)
+            SELECT * FROM (
+                SELECT t.id, t.content, t."signalId", t."insightId", s.title AS "signalTitle", t."createdAt",
+                       1 - (t.embedding <=> target.embedding) AS similarity
+                FROM "Thought" t LEFT JOIN "Signal" s ON s.id = t."signalId" CROSS JOIN target
+                WHERE t."embeddingModel" = ${model} AND t.embedding IS NOT NULL
+                  AND t."signalId" IS DISTINCT FROM ${exclude} AND ${inWorkspace("t")}
+            ) ranked
+            WHERE similarity >= ${RELATED_MIN_SIMILARITY}
+            ORDER BY similarity DESC
+            LIMIT ${limit}
+        `,
+    ]);
+
+    return { signals, highlights, thoughts };
+}
+
+/**
+ * Formats a vector as a pgvector value, or NULL for an all-zero vector
+ * (text without words), which has no direction to compare
+ */
+function vectorValue(vector: number[] | undefined): Prisma.Sql {
+    if (!vector || vector.every((value) => value === 0)) {
+        return Prisma.sql`NULL::vector`;
+    }
+    return Prisma.sql`${`[${vector.join(",")}]`}::vector`;
+}
+
+/**
+ * Joins the fields of a record into the text that is embedded
+ */
+function joinText(...parts: (string | null | undefined)[]): string {
+    return parts.filter(Boolean).join("\n\n").slice(0, EMBEDDING_INPUT_MAX_LENGTH);
+}
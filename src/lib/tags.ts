@@ -0,0 +1,101 @@
+import type { Prisma } from "@prisma/client";
+import { TAG_NAME_MAX_LENGTH } from "./constants";
+
+/**
+ * Signal tags
+ *
+ * Tags are rows of the Tag table, linked to signals many-to-many. Names
+ * are matched by slug, so "Machine Learning", "machine learning" and
+ * "machine-learning" end up on the same tag; the spelling that created
+ * the tag is its name until it is renamed. Each workspace has its own
+ * tags. Aliases, the topic hierarchy, the normalization of processor
+ * topics and tag writes live in lib/taxonomy.
+ */
+
+// ============================================================================
+// Names
+// ============================================================================
+
+/**
+ * Cleans up a tag name: trims it, collapses whitespace and caps its length
+ *
+ * @param name - Tag name as entered or returned by a processor
+ * @returns Cleaned name (empty if nothing is left)
+ */
+export function normalizeTagName(name: string): string {
+    return name.trim().replace(/\s+/g, " ").slice(0, TAG_NAME_MAX_LENGTH);
+}
+
+/**
+ * Derives the slug used to match spelling variants of a tag name
+ *
+ * Keeps letters, digits, "+" and "#" (for names like C++ or C#) and joins
+ * everything else with dashes. The add_tags migration applies the same
+ * rules in SQL.
+ *
+ * @param name - Tag name
+ * @returns Lowercase slug (empty if the name has no letters or digits)
+ *
+ * @example
+ * ```ts
+ * tagSlug("Machine Learning");
+ * // Returns: "machine-learning"
+ * ```
+ */
+export function tagSlug(name: string): string {
+    return normalizeTagName(name)
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}+#]+/gu, "-")
+        .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Reads a list of tag names from untrusted input
+ *
+ * Non-string entries and names without a slug are dropped, and spelling
+ * variants of the same tag are kept once.
+ *
+ * @param value - Array of names (e.g. n8n topics or a request body field)
+ * @returns Cleaned, distinct tag names
+ */
+export function parseTagNames(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+
+    const names = new Map<string, string>();
+    for (const entry of value) {
+        if (typeof entry !== "string") continue;
+
+        const name = normalizeTagName(entry);
+        const slug = tagSlug(name);
+        if (slug && !names.has(slug)) {
+            names.set(slug, name);
+        }
+    }
+
+    return Array.from(names.values());
+}
+
+// ============================================================================
+// Signal Tags
+// ============================================================================
+
+/**
+ * Tag fields to include with a signal; API responses list tag names
+ */
+export const tagArgs = {
+    select: { name: true },
+    orderBy: { name: "asc" },
+} satisfies Prisma.Signal$tagsArgs;
+
+/**
+ * Replaces a signal's included tags with their names
+ *
+ * @param signal - Signal loaded with `include: { tags: tagArgs }`
+ * @returns Signal with `tags` as an array of names
+ */
+export function withTagNames<T extends { tags: { name: string }[] }>(signal: T): Omit<T, "tags"> & { tags: string[] } {
+    return {
+        ...signal,
+        tags: signal.tags.map((tag) => tag.name),
+    };
+}
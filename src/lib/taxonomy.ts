@@ -0,0 +1,477 @@
+import type { Prisma, Tag } from "@prisma/client";
+import prisma from "./prisma";
+import type { TransactionClient } from "./prisma";
+import { currentScope } from "./ownership";
+import { TOPIC_SUGGESTION_STATUS } from "./constants";
+import { normalizeTagName, parseTagNames, tagSlug } from "./tags";
+
+/**
+ * Topic taxonomy
+ *
+ * Tags are the canonical topics. A tag can have a broader parent topic and
+ * aliases: other spellings that map to it ("Artificial Intelligence" for
+ * "AI"). Topics returned by processors are resolved against the taxonomy
+ * before they are stored, and topics that match no tag or alias are queued
+ * as suggestions to approve on the Taxonomy page instead of becoming tags.
+ *
+ * Each workspace has its own taxonomy. Content without a workspace shares
+ * the tags, aliases and suggestions without one.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Processor topics resolved against the taxonomy
+ */
+export interface ResolvedTopics {
+    tagIds: string[];       // Canonical tags the topics map to
+    unknown: string[];      // Topics to queue as suggestions
+}
+
+/**
+ * Tag a name resolves to, and whether it matched the tag's name or an alias
+ */
+export interface TopicMatch {
+    tagId: string;
+    via: "tag" | "alias";
+}
+
+// ============================================================================
+// Scope
+// ============================================================================
+
+/**
+ * Filter on the taxonomy names are matched against
+ *
+ * Outside a workspace the scoped client sees every workspace's records,
+ * but names must only match the taxonomy of content without a workspace.
+ *
+ * @returns The current workspace, or null outside a workspace
+ */
+export function taxonomyFilter(): { workspaceId: string | null } {
+    return { workspaceId: currentScope()?.workspaceId ?? null };
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Maps processor topics to canonical tags
+ *
+ * Topics match a tag by its slug or by one of its aliases. Topics that
+ * were rejected before are dropped; anything else is returned as unknown.
+ *
+ * @param topics - Topics from a processor (e.g. n8n `topics`)
+ * @returns Matching tag IDs and unknown topic names
+ *
+ * @example
+ * ```ts
+ * await resolveTopics(["AI", "Artificial Intelligence", "ai ethics"]);
+ * // { tagIds: ["<AI tag>"], unknown: ["ai ethics"] }
+ * ```
+ */
+export async function resolveTopics(topics: unknown): Promise<ResolvedTopics> {
+    const names = parseTagNames(topics);
+    const slugs = names.map(tagSlug);
+
+    const [tags, aliases, rejected] = await Promise.all([
+        prisma.tag.findMany({ where: { ...taxonomyFilter(), slug: { in: slugs } }, select: { id: true, slug: true } }),
+        prisma.tagAlias.findMany({ where: { ...taxonomyFilter(), slug: { in: slugs } }, select: { tagId: true, slug: true } }),
+        prisma.topicSuggestion.findMany({
+            where: { ...taxonomyFilter(), slug: { in: slugs }, status: TOPIC_SUGGESTION_STATUS.REJECTED },
+            select: { slug: true },
+        }),
+    ]);
+
+    const tagIdsBySlug = new Map<string, string>([
+        ...aliases.map((alias): [string, string] => [alias.slug, alias.tagId]),
+        ...tags.map((tag): [string, string] => [tag.slug, tag.id]),
+    ]);
+    const rejectedSlugs = new Set(rejected.map((suggestion) => suggestion.slug));
+
+    const tagIds = new Set<string>();
+    const unknown: string[] = [];
+    for (const name of names) {
+        const slug = tagSlug(name);
+        const tagId = tagIdsBySlug.get(slug);
+        if (tagId) {
+            tagIds.add(tagId);
+        } else if (!rejectedSlugs.has(slug)) {
+            unknown.push(name);
+        }
+    }
+
+    return { tagIds: Array.from(tagIds), unknown };
+}
+
+/**
+ * Queues unknown topics of a signal for approval
+ *
+ * @param signalId - Signal the topics were received for
+ * @param names - Unknown topic names (from resolveTopics)
+ */
+export async function suggestTopics(signalId: string, names: string[]): Promise<void> {
+    for (const name of names) {
+        const slug = tagSlug(name);
+        const suggestion = await prisma.topicSuggestion.findFirst({
+            where: { ...taxonomyFilter(), slug },
+            select: { id: true },
+        });
+
+        if (suggestion) {
+            await prisma.topicSuggestion.update({
+                where: { id: suggestion.id },
+                data: { signals: { connect: { id: signalId } } },
+            });
+        } else {
+            await prisma.topicSuggestion.create({
+                data: { name, slug, signals: { connect: { id: signalId } } },
+            });
+        }
+    }
+}
+
+/**
+ * Finds the tag a name refers to, by tag name or alias
+ *
+ * @param name - Tag name or alias
+ * @returns Matching tag, or null if the name is not in the taxonomy
+ */
+export async function findTopic(name: string): Promise<TopicMatch | null> {
+    const slug = tagSlug(name);
+
+    const tag = await prisma.tag.findFirst({ where: { ...taxonomyFilter(), slug }, select: { id: true } });
+    if (tag) return { tagId: tag.id, via: "tag" };
+
+    const alias = await prisma.tagAlias.findFirst({ where: { ...taxonomyFilter(), slug }, select: { tagId: true } });
+    return alias ? { tagId: alias.tagId, via: "alias" } : null;
+}
+
+/**
+ * Replaces aliases in a list of tag names with the names of their tags
+ *
+ * Used for tags entered by hand, which skip the approval queue.
+ *
+ * @param names - Tag names from untrusted input
+ * @returns Cleaned names, with aliases resolved
+ */
+export async function canonicalTagNames(names: unknown): Promise<string[]> {
+    const parsed = parseTagNames(names);
+    const aliases = await prisma.tagAlias.findMany({
+        where: { ...taxonomyFilter(), slug: { in: parsed.map(tagSlug) } },
+        select: { slug: true, tag: { select: { name: true } } },
+    });
+
+    const namesBySlug = new Map(aliases.map((alias) => [alias.slug, alias.tag.name]));
+    return parseTagNames(parsed.map((name) => namesBySlug.get(tagSlug(name)) ?? name));
+}
+
+/**
+ * Returns a tag and all of its narrower topics
+ *
+ * @param name - Tag name or alias
+ * @returns IDs of the tag and its descendants, or an empty array if the name is not in the taxonomy
+ */
+export async function expandTopic(name: string): Promise<string[]> {
+    const match = await findTopic(name);
+    if (!match) return [];
+
+    const tags = await prisma.tag.findMany({ where: taxonomyFilter(), select: { id: true, parentId: true } });
+
+    const ids = [match.tagId];
+    for (let i = 0; i < ids.length; i++) {
+        for (const tag of tags) {
+            if (tag.parentId === ids[i] && !ids.includes(tag.id)) {
+                ids.push(tag.id);
+            }
+        }
+    }
+
+    return ids;
+}
+
+/**
+ * Builds the nested write that replaces all tags of a signal, creating
+ * tags that do not exist yet
+ *
+ * Nested writes are not scoped, so the tags are looked up and created in
+ * the current workspace first and then linked by ID.
+ *
+ * @param names - Tag names
+ * @returns Value for the `tags` field of a signal update
+ */
+export async function replaceTags(names: unknown): Promise<Prisma.TagUpdateManyWithoutSignalsNestedInput> {
+    const parsed = parseTagNames(names);
+    const existing = await prisma.tag.findMany({
+        where: { ...taxonomyFilter(), slug: { in: parsed.map(tagSlug) } },
+        select: { id: true, slug: true },
+    });
+
+    const tagIds = existing.map((tag) => tag.id);
+    const existingSlugs = new Set(existing.map((tag) => tag.slug));
+    for (const name of parsed) {
+        if (existingSlugs.has(tagSlug(name))) continue;
+
+        const tag = await prisma.tag.create({
+            data: { name, slug: tagSlug(name) },
+            select: { id: true },
+        });
+        tagIds.push(tag.id);
+    }
+
+    return { set: tagIds.map((id) => ({ id })) };
+}
+
+// ============================================================================
+// Taxonomy Editing
+// ============================================================================
+
+/**
+ * Checks whether making a tag the child of another would create a loop
+ *
+ * @param tagId - Tag to move
+ * @param parentId - Proposed parent
+ * @returns true if the parent is the tag itself or one of its descendants
+ */
+export async function wouldCreateCycle(tagId: string, parentId: string): Promise<boolean> {
+    let current: string | null = parentId;
+    const seen = new Set<string>();
+
+    while (current && !seen.has(current)) {
+        if (current === tagId) return true;
+        seen.add(current);
+
+        const parent: { parentId: string | null } | null = await prisma.tag.findUnique({
+            where: { id: current },
+            select: { parentId: true },
+        });
+        current = parent?.parentId ?? null;
+    }
+
+    return false;
+}
+
+/**
+ * Creates a topic, applying a pending suggestion of the same name
+ *
+ * @param data - Name and optional color, description and parent
+ * @returns Created tag
+ */
+export async function createTopic(data: {
+    name: string;
+    color?: string | null;
+    description?: string | null;
+    parentId?: string | null;
+}): Promise<Tag> {
+    const name = normalizeTagName(data.name);
+
+    return await prisma.$transaction(async (tx) => {
+        const tag = await tx.tag.create({
+            data: {
+                name,
+                slug: tagSlug(name),
+                color: data.color || null,
+                description: data.description || null,
+                parentId: data.parentId || null,
+            },
+        });
+
+        await applySuggestion(tx, tag.slug, tag);
+        return tag;
+    });
+}
+
+/**
+ * Renames a topic and keeps the old name as an alias, so topics with the
+ * old spelling still map to it
+ *
+ * The caller checks that the new name does not belong to another tag.
+ *
+ * @param id - Tag ID
+ * @param name - New name
+ * @returns Updated tag, or null if it does not exist
+ */
+export async function renameTopic(id: string, name: string): Promise<Tag | null> {
+    const newName = normalizeTagName(name);
+    const newSlug = tagSlug(newName);
+
+    return await prisma.$transaction(async (tx) => {
+        const tag = await tx.tag.findUnique({ where: { id } });
+        if (!tag) return null;
+
+        // The new name may be one of the tag's own aliases
+        await tx.tagAlias.deleteMany({ where: { slug: newSlug, tagId: id } });
+
+        const renamed = await tx.tag.update({
+            where: { id },
+            data: { name: newName, slug: newSlug },
+        });
+
+        if (tag.slug !== newSlug) {
+            await tx.tagAlias.create({
+                data: { workspaceId: tag.workspaceId, name: tag.name, slug: tag.slug, tagId: id },
+            });
+        }
+
+        return renamed;
+    });
+}
+
+/**
+ * Adds an alias to a topic, applying a pending suggestion of the same name
+ *
+ * The caller checks that the name is not already a tag or alias.
+ *
+ * @param tagId - Tag ID
+ * @param name - Other spelling of the tag
+ * @returns Created alias
+ */
+export async function addAlias(tagId: string, name: string) {
+    const aliasName = normalizeTagName(name);
+
+    return await prisma.$transaction(async (tx) => {
+        const tag = await tx.tag.findUniqueOrThrow({ where: { id: tagId } });
+        const alias = await tx.tagAlias.create({
+            data: { workspaceId: tag.workspaceId, name: aliasName, slug: tagSlug(aliasName), tagId },
+        });
+
+        await applySuggestion(tx, alias.slug, tag);
+        return alias;
+    });
+}
+
+/**
+ * Merges topics into another topic
+ *
+ * Signals with any of the source tags get the target tag, the source tags'
+ * aliases and narrower topics move to the target, and the source names
+ * become aliases of the target.
+ *
+ * @param sourceIds - Tags to merge away
+ * @param targetId - Tag to keep
+ * @returns The target tag, or null if it does not exist
+ */
+export async function mergeTopics(sourceIds: string[], targetId: string): Promise<Tag | null> {
+    let ids = sourceIds.filter((id) => id !== targetId);
+
+    return await prisma.$transaction(async (tx) => {
+        const target = await tx.tag.findUnique({ where: { id: targetId } });
+        if (!target) return null;
+
+        // Only tags of the target's taxonomy are merged into it
+        const sources = await tx.tag.findMany({ where: { id: { in: ids }, workspaceId: target.workspaceId } });
+        ids = sources.map((source) => source.id);
+
+        const signals = await tx.signal.findMany({
+            where: { tags: { some: { id: { in: ids } } } },
+            select: { id: true },
+        });
+
+        for (const signal of signals) {
+            await tx.signal.update({
+                where: { id: signal.id },
+                data: { tags: { connect: { id: targetId } } },
+            });
+        }
+
+        await tx.tagAlias.updateMany({ where: { tagId: { in: ids } }, data: { tagId: targetId } });
+        await tx.tag.updateMany({ where: { parentId: { in: ids } }, data: { parentId: targetId } });
+
+        // The target cannot stay under a topic that is merged into it
+        const updated = ids.includes(target.parentId ?? "")
+            ? await tx.tag.update({ where: { id: targetId }, data: { parentId: null } })
+            : target;
+
+        await tx.tag.deleteMany({ where: { id: { in: ids } } });
+        await tx.tagAlias.createMany({
+            data: sources.map((source) => ({
+                workspaceId: target.workspaceId,
+                name: source.name,
+                slug: source.slug,
+                tagId: targetId,
+            })),
+            skipDuplicates: true,
+        });
+
+        return updated;
+    });
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+/**
+ * Approves a suggested topic as a new tag
+ *
+ * @param id - Suggestion ID
+ * @param parentId - Optional broader topic
+ * @returns Created tag, or null if the suggestion does not exist
+ */
+export async function approveSuggestion(id: string, parentId?: string | null): Promise<Tag | null> {
+    const suggestion = await prisma.topicSuggestion.findUnique({ where: { id } });
+    if (!suggestion) return null;
+
+    return await createTopic({ name: suggestion.name, parentId });
+}
+
+/**
+ * Approves a suggested topic as an alias of an existing tag
+ *
+ * @param id - Suggestion ID
+ * @param tagId - Tag the topic means
+ * @returns The tag, or null if the suggestion or tag does not exist
+ */
+export async function aliasSuggestion(id: string, tagId: string): Promise<Tag | null> {
+    const [suggestion, tag] = await Promise.all([
+        prisma.topicSuggestion.findUnique({ where: { id } }),
+        prisma.tag.findUnique({ where: { id: tagId } }),
+    ]);
+    if (!suggestion || !tag) return null;
+
+    await addAlias(tagId, suggestion.name);
+    return tag;
+}
+
+/**
+ * Rejects a suggested topic; it is ignored when received again
+ *
+ * @param id - Suggestion ID
+ */
+export async function rejectSuggestion(id: string) {
+    return await prisma.topicSuggestion.update({
+        where: { id },
+        data: {
+            status: TOPIC_SUGGESTION_STATUS.REJECTED,
+            signals: { set: [] },
+        },
+    });
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Tags the signals of a pending suggestion in the tag's taxonomy and
+ * removes the suggestion
+ */
+async function applySuggestion(tx: TransactionClient, slug: string, tag: Pick<Tag, "id" | "workspaceId">): Promise<void> {
+    const suggestion = await tx.topicSuggestion.findFirst({
+        where: { workspaceId: tag.workspaceId, slug },
+        include: { signals: { select: { id: true } } },
+    });
+    if (!suggestion) return;
+
+    for (const signal of suggestion.signals) {
+        await tx.signal.update({
+            where: { id: signal.id },
+            data: { tags: { connect: { id: tag.id } } },
+        });
+    }
+
+    await tx.topicSuggestion.delete({ where: { id: suggestion.id } });
+}
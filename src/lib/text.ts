@@ -0,0 +1,136 @@
+/**
+ * Plain-text analysis helpers for Core Perigee
+ *
+ * Small, dependency-free heuristics used where no AI workflow is available
+ * (e.g. the local processor): sentence splitting, keyword extraction and
+ * extractive summaries.
+ */
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Common English words ignored when looking for keywords
+ */
+const STOP_WORDS = new Set([
+    "a", "about", "above", "after", "again", "against", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+    "be", "because", "been", "before", "being", "below", "between", "both", "but", "by", "can", "could", "did", "do",
+    "does", "doing", "down", "during", "each", "even", "few", "for", "from", "further", "get", "got", "had", "has",
+    "have", "having", "he", "her", "here", "hers", "him", "his", "how", "however", "i", "if", "in", "into", "is", "it",
+    "its", "itself", "just", "like", "made", "make", "many", "may", "me", "might", "more", "most", "much", "must",
+    "my", "new", "no", "nor", "not", "now", "of", "off", "on", "once", "one", "only", "or", "other", "our", "ours",
+    "out", "over", "own", "said", "same", "say", "says", "she", "should", "so", "some", "such", "than", "that",
+    "the", "their", "theirs", "them", "then", "there", "these", "they", "this", "those", "through", "to", "too",
+    "under", "until", "up", "us", "use", "used", "very", "was", "way", "we", "well", "were", "what", "when", "where",
+    "which", "while", "who", "whom", "why", "will", "with", "would", "you", "your", "yours",
+]);
+
+/**
+ * Splits text into lowercase word tokens
+ *
+ * @param text - Input text
+ * @returns Array of words (letters, digits, inner apostrophes and hyphens)
+ *
+ * @example
+ * ```ts
+ * tokenize("AI isn't magic!");
+ * // Returns: ["ai", "isn't", "magic"]
+ * ```
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) ?? [];
+}
+
+/**
+ * Checks whether a token is a stop word
+ */
+export function isStopWord(token: string): boolean {
+    return STOP_WORDS.has(token);
+}
+
+/**
+ * Splits text into sentences
+ *
+ * @param text - Input text (Markdown formatting is tolerated)
+ * @returns Array of trimmed, non-empty sentences
+ */
+export function splitSentences(text: string): string[] {
+    return text
+        .replace(/\s+/g, " ")
+        .split(/(?<=[.!?])\s+(?=[\p{Lu}\p{N}"“])/u)
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
+}
+
+// ============================================================================
+// Keywords & Summaries
+// ============================================================================
+
+/**
+ * Extracts the most frequent meaningful words from text
+ *
+ * @param text - Input text
+ * @param limit - Maximum number of keywords (default: 5)
+ * @returns Keywords, most frequent first
+ */
+export function extractKeywords(text: string, limit = 5): string[] {
+    const counts = new Map<string, number>();
+
+    for (const token of tokenize(text)) {
+        if (token.length < 4 || isStopWord(token) || /^\d+$/.test(token)) continue;
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([word]) => word);
+}
+
+/**
+ * Builds an extractive summary from the leading sentences of a text
+ *
+ * @param text - Input text
+ * @param maxLength - Maximum summary length (default: 300)
+ * @returns Summary made of whole sentences where possible
+ */
+export function summarizeText(text: string, maxLength = 300): string {
+    const sentences = splitSentences(text);
+    let summary = "";
+
+    for (const sentence of sentences) {
+        if (summary && summary.length + sentence.length + 1 > maxLength) break;
+        summary = summary ? `${summary} ${sentence}` : sentence;
+    }
+
+    if (summary.length > maxLength) {
+        summary = summary.substring(0, maxLength).trim() + "...";
+    }
+
+    return summary;
+}
+
+/**
+ * Picks the sentences that best cover a text's keywords
+ *
+ * @param text - Input text
+ * @param limit - Maximum number of sentences (default: 3)
+ * @returns Key sentences in their original order
+ */
+export function extractKeySentences(text: string, limit = 3): string[] {
+    const keywords = new Set(extractKeywords(text, 10));
+    const sentences = splitSentences(text);
+
+    return sentences
+        .map((sentence, index) => ({
+            sentence,
+            index,
+            score: tokenize(sentence).filter((t) => keywords.has(t)).length,
+        }))
+        .filter((s) => s.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .sort((a, b) => a.index - b.index)
+        .map((s) => s.sentence);
+}
@@ -1,3 +1,7 @@
+import type { ApiTokenScope, ProcessorName, SearchType, TopicSuggestionStatus, WebhookName, WorkspaceRole } from "./constants";
+import type { IngestRequest, N8nResponse } from "./schemas";
+import type { FieldIssue } from "./validation";
+
 /**
  * Shared TypeScript types and interfaces for Core Perigee
  */
@@ -7,26 +11,9 @@
 // ============================================================================
 
 /**
- * Data structure returned from n8n ingestion workflows
- */
-export interface N8nResponse {
-    summary?: string;
-    content?: string;
-    key_insights?: string[];
-    actionable_takeaways?: string[];
-    topics?: string[];
-    sentiment?: string;
-    source?: string;
-    sourceUrl?: string; // Original source URL
-    title?: string;
-    rawContent?: string;
-    // Ingest/Signal workflow specific
-    signalId?: string;  // For updating existing signals
-    // Publish workflow specific
-    postUrl?: string;   // Published post URL
-    status?: string;    // success/failed
-    error?: string;
-}
+ * Data structure returned from n8n ingestion workflows (inferred from its schema)
+ */
+export type { N8nResponse } from "./schemas";
 
 /**
  * Payload structure for n8n format webhook
@@ -49,19 +36,91 @@ export interface PublishPayload {
 }
 
 // ============================================================================
-// API Request/Response Types
+// Processor Types
 // ============================================================================
 
 /**
- * Request body for /api/ingest endpoint
+ * Insight synthesized directly by a processor (n8n instead calls back to /api/insights)
+ */
+export interface GeneratedInsight {
+    coreInsight: string;
+    preview?: string;
+    previewPlatform?: string;
+}
+
+/**
+ * Result of running a pipeline stage
  */
-export interface IngestRequest {
-    inputType: "text" | "url" | "youtube" | "file";
-    content?: string;  // For text and file (base64)
-    url?: string;      // For url and youtube
-    title?: string;    // Optional title for manual notes
+export interface ProcessorResult extends WebhookResult {
+    insight?: GeneratedInsight;
 }
 
+/**
+ * Implementation of the ingest, generate and publish pipeline stages
+ */
+export interface Processor {
+    readonly name: string;
+
+    /** Extracts content for a placeholder signal; sync results are returned as `data` */
+    ingest(signalId: string, request: IngestRequest): Promise<ProcessorResult>;
+
+    /** Synthesizes an insight from signals; sync results are returned as `insight` */
+    generate(signals: SignalWithParsedTags[]): Promise<ProcessorResult>;
+
+    /** Publishes an insight; a sync confirmation is returned as `data` ({ status, postUrl }) */
+    publish(payload: PublishPayload): Promise<ProcessorResult>;
+}
+
+// ============================================================================
+// Webhook Job Types
+// ============================================================================
+
+/**
+ * Payload of a queued ingest job
+ */
+export interface IngestJobPayload {
+    signalId: string;       // Placeholder signal created by /api/ingest
+    request: IngestRequest; // Original ingest request
+}
+
+/**
+ * Payload of a queued generate job
+ */
+export interface GenerateJobPayload {
+    signalIds: string[];
+}
+
+/**
+ * Payload type for each job type, keyed by webhook name
+ */
+export interface JobPayloadMap {
+    ingest: IngestJobPayload;
+    generate: GenerateJobPayload;
+    publish: PublishPayload;
+}
+
+/**
+ * Job state exposed to the UI (e.g. to show "retrying (3/5)")
+ */
+export interface JobSummary {
+    id: string;
+    type: string;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt: Date | string;
+    lastError: string | null;
+}
+
+// ============================================================================
+// API Request/Response Types
+// ============================================================================
+
+/**
+ * Request body for /api/ingest endpoint (inferred from its schema)
+ */
+export type { IngestRequest } from "./schemas";
+
 /**
  * Standard API success response
  */
@@ -75,8 +134,110 @@ export interface ApiSuccessResponse<T = unknown> {
  * Standard API error response
  */
 export interface ApiErrorResponse {
-    success: false;
     error: string;
+    issues?: FieldIssue[];          // Each invalid field, on 400s for invalid input
+}
+
+/**
+ * Response of POST /api/ingest: queued for processing, or already captured
+ */
+export interface IngestResponse {
+    success: true;
+    message: string;
+    signalId: string;               // Placeholder signal, or the existing one for duplicates
+    jobId?: string;                 // Processing job; absent for duplicates
+    duplicate?: true;
+}
+
+/**
+ * Response of endpoints that queue a webhook job
+ */
+export interface JobQueuedResponse {
+    success: true;
+    message: string;
+    jobId?: string;
+}
+
+/**
+ * Signed-in user, as returned by the auth endpoints
+ */
+export interface UserSummary {
+    id: string;
+    email: string;
+    name: string | null;
+}
+
+/**
+ * Response of GET /api/auth/session, sign-up and sign-in
+ */
+export interface SessionResponse {
+    user: UserSummary;
+    workspace?: WorkspaceSummary | null;    // Current workspace; only from GET /api/auth/session
+}
+
+/**
+ * Workspace of the signed-in user, with their role in it
+ */
+export interface WorkspaceSummary {
+    id: string;
+    name: string;
+    role: WorkspaceRole;
+    createdAt: Date | string;
+}
+
+/**
+ * Workspaces API response
+ */
+export interface WorkspacesResponse {
+    workspaces: WorkspaceSummary[];
+    currentWorkspaceId: string | null;
+}
+
+/**
+ * Member of a workspace
+ */
+export interface WorkspaceMemberSummary {
+    userId: string;
+    email: string;
+    name: string | null;
+    role: WorkspaceRole;
+    createdAt: Date | string;
+}
+
+/**
+ * Workspace members API response
+ */
+export interface WorkspaceMembersResponse {
+    members: WorkspaceMemberSummary[];
+}
+
+/**
+ * API token, without the token itself
+ */
+export interface ApiTokenSummary {
+    id: string;
+    name: string;
+    prefix: string;                         // Start of the token, e.g. "sd_AbC123x"
+    scopes: ApiTokenScope[];
+    expiresAt: Date | string | null;
+    lastUsedAt: Date | string | null;
+    createdAt: Date | string;
+}
+
+/**
+ * API tokens API response
+ */
+export interface ApiTokensResponse {
+    tokens: ApiTokenSummary[];
+}
+
+/**
+ * Response of POST /api/settings/tokens; the token is only shown here
+ */
+export interface ApiTokenCreatedResponse {
+    success: true;
+    token: string;
+    apiToken: ApiTokenSummary;
 }
 
 /**
@@ -102,13 +263,265 @@ export interface SignalWithParsedTags {
     summary: string | null;
     source: string | null;
     sourceUrl: string | null;
+    author?: string | null;
+    publishedAt?: Date | string | null;
+    imageUrl?: string | null;
     rawContent?: string | null;
-    tags: string[];  // Parsed from JSON string
+    tags: string[];  // Tag names
     status: string;
     createdAt: Date | string;
     updatedAt: Date | string;
     highlights?: { id: string }[];
     thoughts?: { id: string }[];
+    highlightCount?: number;
+    thoughtCount?: number;
+    jobs?: JobSummary[];   // Latest outbound job, if any
+}
+
+/**
+ * Recorded status change of a signal or insight
+ */
+export interface StatusEventSummary {
+    id: string;
+    fromStatus: string | null;   // null for the initial status
+    toStatus: string;
+    actor: string;
+    reason: string | null;
+    createdAt: Date | string;
+}
+
+/**
+ * Page, chapter, section or transcript segment of a signal's content
+ */
+export interface SignalSectionSummary {
+    id: string;
+    position: number;
+    kind: string;
+    label: string;
+    startPos: number;
+    endPos: number;
+    startTime: number | null;
+    endTime: number | null;
+}
+
+/**
+ * Another capture of content that was already a signal
+ */
+export interface SightingSummary {
+    id: string;
+    source: string | null;
+    sourceUrl: string | null;
+    title: string | null;
+    createdAt: Date | string;
+}
+
+/**
+ * Highlight of a signal, anchored in its content, with the section it falls in
+ */
+export interface HighlightSummary {
+    id: string;
+    text: string;
+    note: string | null;
+    prefix: string | null;
+    suffix: string | null;
+    startPos: number | null;
+    endPos: number | null;
+    orphaned: boolean;              // Its text is no longer in the signal's content
+    category: string | null;        // One of HIGHLIGHT_CATEGORIES
+    signalId: string;
+    sectionId: string | null;
+    startTime: number | null;
+    createdAt: Date | string;
+    section?: { kind: string; label: string } | null;
+}
+
+/**
+ * Highlight in the library, with the signal it comes from
+ */
+export interface LibraryHighlight extends HighlightSummary {
+    signal: {
+        id: string;
+        title: string;
+        source: string | null;
+        sourceUrl: string | null;
+        tags: string[];             // Tag names
+    };
+}
+
+/**
+ * Response of GET /api/highlights, newest first
+ */
+export interface HighlightsResponse {
+    highlights: LibraryHighlight[];
+    total: number;                  // Highlights matching the filters, across all pages
+    limit: number;
+    nextCursor: string | null;      // Pass as `cursor` for the next page; null on the last page
+}
+
+/**
+ * Thought on a signal, highlight or insight
+ */
+export interface ThoughtSummary {
+    id: string;
+    content: string;
+    signalId: string | null;
+    insightId: string | null;
+    highlightId: string | null;
+    createdAt: Date | string;
+    updatedAt: Date | string;
+    highlight?: { id: string; text: string; startTime: number | null } | null;
+    signal?: { id: string; title: string } | null;
+}
+
+/**
+ * Signal with everything the review page shows
+ */
+export interface SignalDetail extends SignalWithParsedTags {
+    fileKey: string | null;
+    fileName: string | null;
+    fileType: string | null;
+    fileSize: number | null;
+    highlights: HighlightSummary[];
+    thoughts: ThoughtSummary[];
+    sections: SignalSectionSummary[];
+    sightings: SightingSummary[];
+    events: StatusEventSummary[];
+    jobs: JobSummary[];
+}
+
+/**
+ * Insight as stored
+ */
+export interface InsightSummary {
+    id: string;
+    coreInsight: string;
+    status: string;
+    preview: string | null;
+    previewPlatform: string | null;
+    scheduledFor: Date | string | null;
+    publishedUrl: string | null;
+    publishedAt: Date | string | null;
+    createdAt: Date | string;
+    updatedAt: Date | string;
+}
+
+/**
+ * Insight with its sources and status history
+ */
+export interface InsightWithRelations extends InsightSummary {
+    thoughts: ThoughtSummary[];
+    signals: { id: string; title: string }[];
+    events: StatusEventSummary[];
+    jobs: JobSummary[];             // Latest outbound job, if any
+}
+
+/**
+ * Insights API response
+ */
+export interface InsightsResponse {
+    insights: InsightWithRelations[];
+}
+
+/**
+ * Thoughts API response
+ */
+export interface ThoughtsResponse {
+    thoughts: ThoughtSummary[];
+}
+
+/**
+ * Outbound webhook and the secret its callbacks are signed with
+ */
+export interface WebhookConfigSummary {
+    id: string;
+    name: string;
+    url: string;
+    secret: string | null;
+    previousSecret: string | null;
+    previousSecretExpiresAt: Date | string | null;
+    createdAt: Date | string;
+    updatedAt: Date | string;
+}
+
+/**
+ * Webhook configs API response
+ */
+export interface WebhookConfigsResponse {
+    configs: WebhookConfigSummary[];
+}
+
+/**
+ * Logged call to or callback from a workflow
+ */
+export interface WebhookDeliverySummary {
+    id: string;
+    direction: string;
+    webhookName: string;
+    url: string;
+    requestBody: string | null;
+    status: number | null;          // null if no response was received
+    latencyMs: number;
+    responseBody: string | null;
+    error: string | null;
+    replayOfId: string | null;
+    createdAt: Date | string;
+}
+
+/**
+ * Deliveries API response
+ */
+export interface DeliveriesResponse {
+    deliveries: WebhookDeliverySummary[];
+}
+
+/**
+ * Processor that runs a pipeline stage, and where that choice comes from
+ */
+export interface StageProcessor {
+    stage: WebhookName;
+    processor: ProcessorName;
+    source: "settings" | "env" | "default";
+}
+
+/**
+ * Processor settings API response
+ */
+export interface ProcessorSettingsResponse {
+    stages: StageProcessor[];
+    processors: ProcessorName[];    // Processors to choose from
+}
+
+/**
+ * Feed subscription with the number of unread signals it created
+ */
+export interface FeedSummary {
+    id: string;
+    url: string;
+    title: string | null;
+    siteUrl: string | null;
+    pollIntervalMinutes: number;
+    enabled: boolean;
+    lastFetchedAt: Date | string | null;
+    lastError: string | null;       // Set while the feed is failing
+    errorCount: number;             // Consecutive failed polls
+    unreadCount: number;
+    createdAt: Date | string;
+    updatedAt: Date | string;
+}
+
+/**
+ * Feeds API response
+ */
+export interface FeedsResponse {
+    feeds: FeedSummary[];
+}
+
+/**
+ * Response of POST /api/feeds/poll
+ */
+export interface FeedPollResponse {
+    success: true;
+    newItems: number;               // Entries queued for ingestion
 }
 
 /**
@@ -116,7 +529,159 @@ export interface SignalWithParsedTags {
  */
 export interface SignalsResponse {
     signals: SignalWithParsedTags[];
+    total: number;                  // Signals matching the filters, across all pages
+    limit: number;
+    nextCursor: string | null;      // Pass as `cursor` for the next page; null on the last page
+}
+
+/**
+ * Tag with the number of signals it is on
+ */
+export interface TagWithCount {
+    id: string;
+    name: string;
+    slug: string;
+    color: string | null;
+    description: string | null;
+    parentId: string | null;    // Broader topic
+    signalCount: number;
+    createdAt: Date | string;
+    updatedAt: Date | string;
+}
+
+/**
+ * Tags API response
+ */
+export interface TagsResponse {
+    tags: TagWithCount[];
+}
+
+/**
+ * Tag in the taxonomy, with the other spellings that map to it
+ */
+export interface TaxonomyTopic extends TagWithCount {
+    aliases: { id: string; name: string }[];
+}
+
+/**
+ * Topic received from a processor that matched no tag or alias
+ */
+export interface TopicSuggestionWithCount {
+    id: string;
+    name: string;
+    slug: string;
+    status: TopicSuggestionStatus;
+    signalCount: number;        // Signals the topic was received for
+    createdAt: Date | string;
+}
+
+/**
+ * Taxonomy API response
+ */
+export interface TaxonomyResponse {
+    topics: TaxonomyTopic[];
+    suggestions: TopicSuggestionWithCount[];
+}
+
+// ============================================================================
+// Search Types
+// ============================================================================
+
+/**
+ * Ranked full-text search match
+ */
+export interface SearchHit {
+    type: SearchType;
+    id: string;
+    signalId: string | null;    // Signal the hit belongs to (the hit itself for signals)
+    insightId: string | null;   // Insight the hit belongs to (the hit itself for insights)
+    title: string;              // Title of the signal or insight the hit belongs to
+    source: string | null;
+    snippet: string;            // HTML-escaped excerpt with matches wrapped in <mark>
+    rank: number;
+    createdAt: Date | string;
+}
+
+/**
+ * Hit counts per value of each facet
+ */
+export interface SearchFacets {
+    type: Record<string, number>;
+    source: Record<string, number>;
+    tag: Record<string, number>;
+}
+
+/**
+ * Search API response
+ */
+export interface SearchResponse {
+    query: string;
+    hits: SearchHit[];
     total: number;
     limit: number;
     offset: number;
+    facets: SearchFacets;
+}
+
+// ============================================================================
+// Embedding Types
+// ============================================================================
+
+/**
+ * Turns text into vectors for similarity search
+ */
+export interface Embedder {
+    readonly name: string;
+
+    /** Identifies the vector space; only vectors of the same model are compared */
+    readonly model: string;
+
+    /** Embeds each text; the vectors are compared by cosine similarity */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Signal similar to a signal or query
+ */
+export interface RelatedSignal {
+    id: string;
+    title: string;
+    source: string | null;
+    summary: string | null;
+    similarity: number;         // Cosine similarity, 1 is identical
+    createdAt: Date | string;
+}
+
+/**
+ * Highlight similar to a signal or query
+ */
+export interface RelatedHighlight {
+    id: string;
+    text: string;
+    signalId: string;
+    signalTitle: string;
+    similarity: number;
+    createdAt: Date | string;
+}
+
+/**
+ * Thought similar to a signal or query
+ */
+export interface RelatedThought {
+    id: string;
+    content: string;
+    signalId: string | null;
+    insightId: string | null;
+    signalTitle: string | null;
+    similarity: number;
+    createdAt: Date | string;
+}
+
+/**
+ * Related records API response, most similar first
+ */
+export interface RelatedResponse {
+    signals: RelatedSignal[];
+    highlights: RelatedHighlight[];
+    thoughts: RelatedThought[];
 }
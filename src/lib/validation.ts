@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+/**
+ * Request validation
+ *
+ * Route handlers parse bodies and query strings with the schemas in
+ * lib/schemas. Input that does not match throws a ValidationError, which
+ * the handler's catch turns into a 400 listing each invalid field.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One invalid field of a request
+ */
+export interface FieldIssue {
+    field: string;              // Dotted path, e.g. "signalIds.0"; empty for the whole input
+    message: string;
+}
+
+/**
+ * Body of a 400 response for invalid input
+ */
+export interface ValidationErrorResponse {
+    error: string;              // All issues in one line, for display
+    issues: FieldIssue[];
+}
+
+/**
+ * Thrown when a request body or query string does not match its schema
+ */
+export class ValidationError extends Error {
+    constructor(public readonly issues: FieldIssue[]) {
+        super(issues.map(describeIssue).join("; "));
+        this.name = "ValidationError";
+    }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses input against a schema
+ *
+ * @param schema - Schema the input must match
+ * @param input - Unchecked input
+ * @returns The parsed input, with defaults and transforms applied
+ * @throws ValidationError listing each invalid field
+ */
+export function parseInput<T extends z.ZodType>(schema: T, input: unknown): z.output<T> {
+    const result = schema.safeParse(input);
+
+    if (!result.success) {
+        throw new ValidationError(result.error.issues.flatMap((issue) => {
+            // Report each field a strict schema does not allow on its own
+            if (issue.code === "unrecognized_keys") {
+                return issue.keys.map((key) => ({
+                    field: [...issue.path, key].map(String).join("."),
+                    message: "is not allowed",
+                }));
+            }
+
+            return [{ field: issue.path.map(String).join("."), message: issue.message }];
+        }));
+    }
+
+    return result.data;
+}
+
+/**
+ * Parses a JSON request body
+ *
+ * An empty body is parsed as undefined, so schemas with a default accept it.
+ *
+ * @param request - Incoming request
+ * @param schema - Schema of the body
+ * @returns The parsed body
+ * @throws ValidationError if the body is not JSON or does not match
+ *
+ * @example
+ * const body = await parseBody(request, thoughtCreateSchema);
+ */
+export async function parseBody<T extends z.ZodType>(request: Request, schema: T): Promise<z.output<T>> {
+    return parseJson(await request.text(), schema);
+}
+
+/**
+ * Parses a JSON string, e.g. a webhook body that was read to verify its signature
+ *
+ * @param text - Raw JSON
+ * @param schema - Schema of the parsed value
+ * @returns The parsed value
+ * @throws ValidationError if the text is not JSON or does not match
+ */
+export function parseJson<T extends z.ZodType>(text: string, schema: T): z.output<T> {
+    let input: unknown;
+
+    if (text.trim()) {
+        try {
+            input = JSON.parse(text);
+        } catch {
+            throw new ValidationError([{ field: "", message: "Request body must be valid JSON" }]);
+        }
+    }
+
+    return parseInput(schema, input);
+}
+
+/**
+ * Parses a query string
+ *
+ * Repeated parameters become arrays and empty ones are left out.
+ *
+ * @param searchParams - Query parameters of the request URL
+ * @param schema - Schema of the parameters
+ * @returns The parsed parameters
+ * @throws ValidationError if a parameter does not match
+ *
+ * @example
+ * const query = parseQuery(new URL(request.url).searchParams, searchQuerySchema);
+ */
+export function parseQuery<T extends z.ZodType>(searchParams: URLSearchParams, schema: T): z.output<T> {
+    const input: Record<string, string | string[]> = {};
+
+    for (const key of new Set(searchParams.keys())) {
+        const values = searchParams.getAll(key).filter(Boolean);
+        if (values.length > 0) input[key] = values.length === 1 ? values[0] : values;
+    }
+
+    return parseInput(schema, input);
+}
+
+/**
+ * Builds the 400 response for invalid input
+ *
+ * @param error - Validation failure
+ * @returns JSON response with each invalid field
+ */
+export function validationErrorResponse(error: ValidationError): NextResponse<ValidationErrorResponse> {
+    return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+    );
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Formats an issue as "field: message"
+ */
+function describeIssue(issue: FieldIssue): string {
+    return issue.field ? `${issue.field}: ${issue.message}` : issue.message;
+}
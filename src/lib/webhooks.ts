@@ -1,5 +1,8 @@
 import prisma from "./prisma";
-import { WEBHOOK_NAMES, WEBHOOK_TIMEOUT_MS } from "./constants";
+import { DELIVERY_DIRECTION, WEBHOOK_NAMES, WEBHOOK_TIMEOUT_MS } from "./constants";
+import { recordDelivery } from "./deliveries";
+import { currentScope } from "./ownership";
+import type { WebhookName } from "./constants";
 import type { PublishPayload, WebhookResult, N8nResponse } from "./types";
 
 /**
@@ -9,8 +12,23 @@ import type { PublishPayload, WebhookResult, N8nResponse } from "./types";
  * - Ingest: Process raw input (URLs, text, YouTube)
  * - Generate: AI-powered insight generation
  * - Publish: Post content to platforms
+ * 
+ * Every call is recorded in the webhook delivery log (see lib/deliveries).
  */
 
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw outcome of an outbound webhook call
+ */
+interface WebhookResponse {
+    ok: boolean;
+    status: number;
+    body: string;
+}
+
 // ============================================================================
 // Webhook URL Management
 // ============================================================================
@@ -18,16 +36,117 @@ import type { PublishPayload, WebhookResult, N8nResponse } from "./types";
 /**
  * Retrieves webhook URL from database configuration
  * 
+ * Each workspace has its own configurations. Outside a workspace only
+ * configurations not yet claimed by one apply; inside one, the scoped
+ * client replaces the workspace condition with the current workspace.
+ * 
  * @param name - Webhook configuration name
  * @returns Webhook URL or null if not configured
  */
 async function getWebhookUrl(name: string): Promise<string | null> {
-    const config = await prisma.webhookConfig.findUnique({
-        where: { name },
+    const config = await prisma.webhookConfig.findFirst({
+        where: { workspaceId: null, name },
     });
     return config?.url ?? null;
 }
 
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * POSTs a JSON body to a webhook and records the delivery
+ * 
+ * @param name - Webhook the call belongs to
+ * @param url - Target URL
+ * @param body - Serialized JSON request body
+ * @param replayOfId - Delivery being replayed, if any
+ * @returns Response status and body text
+ * @throws Network errors, including an AbortError after WEBHOOK_TIMEOUT_MS
+ */
+async function sendWebhook(name: WebhookName, url: string, body: string, replayOfId?: string): Promise<WebhookResponse> {
+    const startedAt = Date.now();
+
+    // Use AbortController for timeout management
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+            },
+            body,
+            signal: controller.signal,
+        });
+        const responseText = await response.text();
+
+        await recordDelivery({
+            direction: DELIVERY_DIRECTION.OUTBOUND,
+            webhookName: name,
+            url,
+            requestBody: body,
+            status: response.status,
+            latencyMs: Date.now() - startedAt,
+            responseBody: responseText,
+            replayOfId,
+        });
+
+        return { ok: response.ok, status: response.status, body: responseText };
+    } catch (error) {
+        await recordDelivery({
+            direction: DELIVERY_DIRECTION.OUTBOUND,
+            webhookName: name,
+            url,
+            requestBody: body,
+            latencyMs: Date.now() - startedAt,
+            error: error instanceof Error && error.name === "AbortError"
+                ? `Timed out after ${WEBHOOK_TIMEOUT_MS / 1000} seconds`
+                : error instanceof Error ? error.message : String(error),
+            replayOfId,
+        });
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/**
+ * Re-sends the request body of a recorded outbound delivery
+ * 
+ * The body goes to the webhook's currently configured URL (falling back
+ * to the recorded URL), and the new attempt is logged as a delivery of its
+ * own. Synchronous responses are recorded but not applied to signals or
+ * insights; async workflows will call back as usual.
+ * 
+ * @param deliveryId - ID of the outbound delivery to replay
+ * @returns Result object with the new delivery's status
+ */
+export async function replayDelivery(deliveryId: string): Promise<WebhookResult & { status?: number }> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+        where: { id: deliveryId },
+    });
+
+    if (!delivery || delivery.direction !== DELIVERY_DIRECTION.OUTBOUND || delivery.requestBody === null) {
+        return { success: false, error: "Only recorded outbound deliveries can be replayed" };
+    }
+
+    const url = (await getWebhookUrl(delivery.webhookName)) ?? delivery.url;
+
+    try {
+        const response = await sendWebhook(delivery.webhookName as WebhookName, url, delivery.requestBody, delivery.id);
+        return response.ok
+            ? { success: true, status: response.status }
+            : { success: false, status: response.status, error: `Webhook returned ${response.status}` };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : "Failed to replay delivery"
+        };
+    }
+}
+
 // ============================================================================
 // Ingest Workflow
 // ============================================================================
@@ -61,34 +180,17 @@ export async function triggerIngest(payload: Record<string, string>): Promise<We
     }
 
     try {
-        console.log("Sending to n8n:", webhookUrl, payload);
-
-        // Use AbortController for timeout management
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
-
-        const response = await fetch(webhookUrl, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify(payload),
-            signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
+        const response = await sendWebhook(WEBHOOK_NAMES.INGEST, webhookUrl, JSON.stringify(payload));
 
         console.log("n8n response status:", response.status);
 
         if (!response.ok) {
-            const errorText = await response.text();
-            console.error("n8n error response:", errorText);
-            throw new Error(`Webhook returned ${response.status}: ${errorText}`);
+            console.error("n8n error response:", response.body);
+            throw new Error(`Webhook returned ${response.status}: ${response.body}`);
         }
 
         // Parse response - handle empty or async responses gracefully
-        const responseText = await response.text();
-        console.log("n8n raw response:", responseText);
+        const responseText = response.body;
 
         if (!responseText || responseText.trim() === "") {
             console.log("Empty response from n8n - workflow may be async");
@@ -117,7 +219,7 @@ export async function triggerIngest(payload: Record<string, string>): Promise<We
         return { success: true, data: responseData as N8nResponse };
     } catch (error) {
         if (error instanceof Error && error.name === "AbortError") {
-            console.error("n8n request timed out after 90 seconds");
+            console.error(`n8n request timed out after ${WEBHOOK_TIMEOUT_MS / 1000} seconds`);
             return {
                 success: false,
                 error: "Request timed out. n8n workflow may still be processing."
@@ -153,11 +255,7 @@ export async function triggerPublish(payload: PublishPayload): Promise<WebhookRe
     }
 
     try {
-        const response = await fetch(webhookUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(payload),
-        });
+        const response = await sendWebhook(WEBHOOK_NAMES.PUBLISH, webhookUrl, JSON.stringify(payload));
 
         if (!response.ok) {
             throw new Error(`Webhook returned ${response.status}`);
@@ -165,7 +263,7 @@ export async function triggerPublish(payload: PublishPayload): Promise<WebhookRe
 
         // Try to parse response data if available (synchronous workflow)
         try {
-            const responseText = await response.text();
+            const responseText = response.body;
             if (responseText && responseText.trim() !== "") {
                 const data = JSON.parse(responseText);
                 console.log("Publish webhook response:", data);
@@ -195,7 +293,9 @@ export async function triggerPublish(payload: PublishPayload): Promise<WebhookRe
 /**
  * Triggers AI generation webhook with selected signals
  * 
- * Sends signals to n8n for AI-powered insight synthesis.
+ * Sends signals to n8n for AI-powered insight synthesis, along with the
+ * workspace they belong to: the workflow saves the insight with the
+ * service token and must name that workspace in the workspace header.
  * 
  * @param signals - Array of signal objects to analyze
  * @returns Result object with success status
@@ -211,11 +311,10 @@ export async function triggerGenerate(signals: unknown[]): Promise<WebhookResult
     }
 
     try {
-        const response = await fetch(webhookUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ signals }),
-        });
+        const response = await sendWebhook(WEBHOOK_NAMES.GENERATE, webhookUrl, JSON.stringify({
+            signals,
+            workspaceId: currentScope()?.workspaceId ?? null,
+        }));
 
         if (!response.ok) {
             throw new Error(`Webhook returned ${response.status}`);
@@ -0,0 +1,233 @@
+import prisma from "./prisma";
+import type { TransactionClient } from "./prisma";
+import { PERSONAL_WORKSPACE_NAME, ROLE_PERMISSIONS, WORKSPACE_ROLES } from "./constants";
+import type { Permission, WorkspaceRole } from "./constants";
+import type { WorkspaceMemberSummary, WorkspaceSummary } from "./types";
+
+/**
+ * Team workspaces and their members
+ *
+ * Content belongs to a workspace (see lib/ownership), and each member has
+ * a role there that grants a set of permissions (ROLE_PERMISSIONS). Every
+ * account starts with a personal workspace it owns. A workspace always
+ * keeps at least one owner.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Thrown when a change would leave a workspace without an owner
+ */
+export class LastOwnerError extends Error {
+    constructor() {
+        super("A workspace needs at least one owner");
+        this.name = "LastOwnerError";
+    }
+}
+
+const memberInclude = {
+    user: { select: { id: true, email: true, name: true } },
+} as const;
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+/**
+ * Whether a role grants a permission
+ *
+ * @example
+ * can("commenter", PERMISSIONS.PUBLISH); // false
+ */
+export function can(role: WorkspaceRole, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+/**
+ * Creates a workspace owned by a user
+ *
+ * @param userId - First owner
+ * @param name - Workspace name; defaults to the personal workspace name
+ * @param tx - Transaction to create it in, e.g. while creating the user
+ * @returns The workspace with the user's role
+ */
+export async function createWorkspace(
+    userId: string,
+    name: string = PERSONAL_WORKSPACE_NAME,
+    tx: TransactionClient = prisma
+): Promise<WorkspaceSummary> {
+    const workspace = await tx.workspace.create({
+        data: {
+            name,
+            members: { create: { userId, role: WORKSPACE_ROLES.OWNER } },
+        },
+    });
+
+    return { id: workspace.id, name: workspace.name, role: WORKSPACE_ROLES.OWNER, createdAt: workspace.createdAt };
+}
+
+/**
+ * Workspaces a user is a member of, oldest first
+ */
+export async function listWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+    const memberships = await prisma.workspaceMember.findMany({
+        where: { userId },
+        include: { workspace: true },
+        orderBy: { workspace: { createdAt: "asc" } },
+    });
+
+    return memberships.map(({ workspace, role }) => ({
+        id: workspace.id,
+        name: workspace.name,
+        role: role as WorkspaceRole,
+        createdAt: workspace.createdAt,
+    }));
+}
+
+/**
+ * A user's workspace and role
+ *
+ * @param userId - User
+ * @param workspaceId - Workspace to look up, or null for the user's oldest one
+ * @returns The workspace with the user's role, or null if the user is not a member
+ */
+export async function findMembership(userId: string, workspaceId: string | null): Promise<WorkspaceSummary | null> {
+    const membership = await prisma.workspaceMember.findFirst({
+        where: workspaceId ? { userId, workspaceId } : { userId },
+        include: { workspace: true },
+        orderBy: { workspace: { createdAt: "asc" } },
+    });
+    if (!membership) return null;
+
+    return {
+        id: membership.workspace.id,
+        name: membership.workspace.name,
+        role: membership.role as WorkspaceRole,
+        createdAt: membership.workspace.createdAt,
+    };
+}
+
+// ============================================================================
+// Members
+// ============================================================================
+
+export async function listMembers(workspaceId: string): Promise<WorkspaceMemberSummary[]> {
+    const members = await prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        include: memberInclude,
+        orderBy: { createdAt: "asc" },
+    });
+
+    return members.map(toMemberSummary);
+}
+
+/**
+ * Adds an existing account to a workspace
+ *
+ * @param workspaceId - Workspace
+ * @param email - Lowercased email of the account
+ * @param role - Role in the workspace
+ * @returns The new member, or null if no account has the email
+ * @throws Prisma P2002 error if the account is already a member
+ */
+export async function addMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<WorkspaceMemberSummary | null> {
+    const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (!user) return null;
+
+    const member = await prisma.workspaceMember.create({
+        data: { workspaceId, userId: user.id, role },
+        include: memberInclude,
+    });
+    return toMemberSummary(member);
+}
+
+/**
+ * Changes the role of a member
+ *
+ * @returns The member, or null if the user is not a member
+ * @throws LastOwnerError if the last owner would be demoted
+ */
+export async function updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMemberSummary | null> {
+    return await prisma.$transaction(async (tx) => {
+        const member = await tx.workspaceMember.findUnique({
+            where: { workspaceId_userId: { workspaceId, userId } },
+        });
+        if (!member) return null;
+
+        if (member.role === WORKSPACE_ROLES.OWNER && role !== WORKSPACE_ROLES.OWNER) {
+            await assertAnotherOwner(tx, workspaceId, userId);
+        }
+
+        const updated = await tx.workspaceMember.update({
+            where: { id: member.id },
+            data: { role },
+            include: memberInclude,
+        });
+        return toMemberSummary(updated);
+    });
+}
+
+/**
+ * Removes a member; their content stays in the workspace
+ *
+ * @returns false if the user is not a member
+ * @throws LastOwnerError if the last owner would be removed
+ */
+export async function removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    return await prisma.$transaction(async (tx) => {
+        const member = await tx.workspaceMember.findUnique({
+            where: { workspaceId_userId: { workspaceId, userId } },
+        });
+        if (!member) return false;
+
+        if (member.role === WORKSPACE_ROLES.OWNER) {
+            await assertAnotherOwner(tx, workspaceId, userId);
+        }
+
+        await tx.workspaceMember.delete({ where: { id: member.id } });
+        return true;
+    });
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Checks that a workspace keeps an owner without the given user
+ *
+ * The workspace row stays locked until the transaction ends, so owners
+ * demoting or removing each other at the same time take turns, and the
+ * second sees the first's change.
+ */
+async function assertAnotherOwner(tx: TransactionClient, workspaceId: string, userId: string): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "Workspace" WHERE "id" = ${workspaceId} FOR UPDATE`;
+
+    const owners = await tx.workspaceMember.count({
+        where: { workspaceId, role: WORKSPACE_ROLES.OWNER, userId: { not: userId } },
+    });
+    if (owners === 0) {
+        throw new LastOwnerError();
+    }
+}
+
+function toMemberSummary(member: {
+    userId: string;
+    role: string;
+    createdAt: Date;
+    user: { email: string; name: string | null };
+}): WorkspaceMemberSummary {
+    return {
+        userId: member.userId,
+        email: member.user.email,
+        name: member.user.name,
+        role: member.role as WorkspaceRole,
+        createdAt: member.createdAt,
+    };
+}
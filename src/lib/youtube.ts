@@ -0,0 +1,190 @@
+import { fetchRemote } from "./remote";
+import type { TranscriptSegment } from "./captions";
+
+/**
+ * YouTube helpers: video IDs, links, metadata and transcripts
+ *
+ * The URL helpers are safe to use in client components.
+ */
+
+// ============================================================================
+// URLs
+// ============================================================================
+
+/**
+ * Extracts the video ID from a YouTube URL
+ *
+ * Handles watch, youtu.be, shorts, live and embed URLs.
+ *
+ * @param url - YouTube URL
+ * @returns 11-character video ID, or null if the URL is not a video
+ *
+ * @example
+ * ```ts
+ * getYouTubeVideoId("https://youtu.be/dQw4w9WgXcQ?t=42");
+ * // Returns: "dQw4w9WgXcQ"
+ * ```
+ */
+export function getYouTubeVideoId(url: string): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+
+    const host = parsed.hostname.replace(/^(www|m|music)\./, "");
+    let id: string | null = null;
+
+    if (host === "youtu.be") {
+        id = parsed.pathname.slice(1).split("/")[0];
+    } else if (host === "youtube.com" || host === "youtube-nocookie.com") {
+        id = parsed.searchParams.get("v")
+            ?? parsed.pathname.match(/^\/(?:shorts|live|embed|v)\/([^/]+)/)?.[1]
+            ?? null;
+    }
+
+    return id && /^[\w-]{11}$/.test(id) ? id : null;
+}
+
+/**
+ * Builds a link that opens a video at a given time
+ *
+ * @param videoId - YouTube video ID
+ * @param seconds - Start time in seconds
+ * @returns Watch URL with a `t` parameter
+ */
+export function getYouTubeTimestampUrl(videoId: string, seconds: number): string {
+    return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
+
+/**
+ * Builds an embeddable player URL, optionally starting at a given time
+ *
+ * @param videoId - YouTube video ID
+ * @param start - Start time in seconds; starts playback when given
+ * @returns Embed URL
+ */
+export function getYouTubeEmbedUrl(videoId: string, start?: number): string {
+    const params = start === undefined ? "" : `?start=${Math.floor(start)}&autoplay=1`;
+    return `https://www.youtube-nocookie.com/embed/${videoId}${params}`;
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Video details available without an API key
+ */
+export interface YouTubeMetadata {
+    title: string;
+    author: string | null;
+    thumbnailUrl: string | null;
+}
+
+/**
+ * Looks up a video's title, channel and thumbnail through oEmbed
+ *
+ * @param url - YouTube URL
+ * @returns Video metadata
+ * @throws Error if the video does not exist or is private
+ */
+export async function fetchYouTubeMetadata(url: string): Promise<YouTubeMetadata> {
+    const oembedUrl = `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(url)}`;
+    const data = JSON.parse(await fetchText(oembedUrl)) as {
+        title?: string;
+        author_name?: string;
+        thumbnail_url?: string;
+    };
+
+    return {
+        title: data.title ?? url,
+        author: data.author_name ?? null,
+        thumbnailUrl: data.thumbnail_url ?? null,
+    };
+}
+
+/**
+ * Fetches a video's captions as transcript segments
+ *
+ * Reads the caption tracks listed on the watch page and prefers manual
+ * English captions, then auto-generated English, then the first track.
+ *
+ * @param videoId - YouTube video ID
+ * @returns Segments, or null if the video has no captions
+ */
+export async function fetchYouTubeTranscript(videoId: string): Promise<TranscriptSegment[] | null> {
+    const page = await fetchText(`https://www.youtube.com/watch?v=${videoId}&hl=en`);
+    const tracksJson = extractJsonArray(page, "captionTracks");
+    if (!tracksJson) return null;
+
+    const tracks = JSON.parse(tracksJson) as { baseUrl: string; languageCode: string; kind?: string }[];
+    const track = tracks.find((t) => t.languageCode.startsWith("en") && t.kind !== "asr")
+        ?? tracks.find((t) => t.languageCode.startsWith("en"))
+        ?? tracks[0];
+    if (!track) return null;
+
+    const captions = JSON.parse(await fetchText(`${track.baseUrl}&fmt=json3`)) as {
+        events?: { tStartMs: number; dDurationMs?: number; segs?: { utf8: string }[] }[];
+    };
+
+    const segments = (captions.events ?? [])
+        .filter((event) => event.segs)
+        .map((event) => ({
+            start: event.tStartMs / 1000,
+            end: (event.tStartMs + (event.dDurationMs ?? 0)) / 1000,
+            text: event.segs!.map((seg) => seg.utf8).join("").replace(/\s+/g, " ").trim(),
+        }))
+        .filter((segment) => segment.text);
+
+    return segments.length > 0 ? segments : null;
+}
+
+/**
+ * Finds the JSON array stored under a key in a page's inline script data
+ *
+ * Scans to the matching closing bracket, skipping brackets inside strings,
+ * since the array holds nested arrays and objects.
+ *
+ * @returns The array's JSON text, or null if the key is missing or the array is cut off
+ */
+function extractJsonArray(page: string, key: string): string | null {
+    const marker = `"${key}":`;
+    const start = page.indexOf(marker);
+    if (start === -1 || page[start + marker.length] !== "[") return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start + marker.length; i < page.length; i++) {
+        const char = page[i];
+        if (inString) {
+            if (char === "\\") i++;
+            else if (char === "\"") inString = false;
+        } else if (char === "\"") {
+            inString = true;
+        } else if (char === "[" || char === "{") {
+            depth++;
+        } else if ((char === "]" || char === "}") && --depth === 0) {
+            return page.slice(start + marker.length, i + 1);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Fetches a URL as text, refusing non-public hosts
+ */
+async function fetchText(url: string): Promise<string> {
+    const response = await fetchRemote(url, {
+        "User-Agent": "Mozilla/5.0 (compatible; SignalDesk/1.0)",
+        "Accept-Language": "en",
+    });
+
+    if (!response.ok) {
+        throw new Error(`Fetching ${url} returned ${response.status}`);
+    }
+
+    return response.text;
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LOGIN_PATH, SESSION_COOKIE } from "@/lib/constants";
+
+/**
+ * Sends visitors without a session to the sign-in page
+ *
+ * Only checks that the session cookie is present; API routes check the
+ * session itself (see lib/auth) and answer 401 instead of redirecting.
+ *
+ * @param request - Incoming page request
+ * @returns Redirect to the sign-in page, or the request unchanged
+ */
+export function proxy(request: NextRequest) {
+    if (request.cookies.has(SESSION_COOKIE)) {
+        return NextResponse.next();
+    }
+
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    const next = request.nextUrl.pathname + request.nextUrl.search;
+    if (next !== "/") {
+        loginUrl.searchParams.set("next", next);
+    }
+    return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+    // Everything except API routes, the sign-in page, Next.js assets and static files
+    matcher: ["/((?!api|login|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)"],
+};